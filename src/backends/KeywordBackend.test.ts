@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { KeywordBackend, tokenizeForKeywordSearch } from './KeywordBackend.js';
+import { Chunk } from './SearchBackend.js';
+
+function createChunk(
+  content: string,
+  relativeFilePath: string,
+  chunkIndex: number,
+  novelId: string = 'novel-1',
+  fileType: 'content' | 'settings' = 'content',
+): Chunk {
+  return new Chunk('', content, relativeFilePath, 1, 1, chunkIndex, novelId, fileType);
+}
+
+describe('tokenizeForKeywordSearch', () => {
+  it('日本語は文字bigramに分割される', () => {
+    expect(tokenizeForKeywordSearch('魔法学園')).toEqual(['魔法', '法学', '学園']);
+  });
+
+  it('1文字の日本語はunigramになる', () => {
+    expect(tokenizeForKeywordSearch('剣')).toEqual(['剣']);
+  });
+
+  it('英数字は単語単位で小文字化される', () => {
+    expect(tokenizeForKeywordSearch('Hello World 2024')).toEqual(['hello', 'world', '2024']);
+  });
+
+  it('全角英数字はNFKC正規化され、日本語と英字の境界で分割される', () => {
+    expect(tokenizeForKeywordSearch('ＡＢＣの剣士')).toEqual(['abc', 'の剣', '剣士']);
+  });
+
+  it('記号や空白は区切りとして扱われる', () => {
+    expect(tokenizeForKeywordSearch('「アリス」、ボブ')).toEqual(['アリ', 'リス', 'ボブ']);
+  });
+});
+
+describe('KeywordBackend', () => {
+  let backend: KeywordBackend;
+
+  beforeEach(async () => {
+    backend = new KeywordBackend();
+    await backend.add([
+      createChunk(
+        'ザルヴァトーレは古代の魔導師である。',
+        'novel-1/settings/chars.md',
+        0,
+        'novel-1',
+        'settings',
+      ),
+      createChunk('少女は森の奥で静かに眠っていた。', 'novel-1/contents/ch1.md', 0),
+      createChunk(
+        'ザルヴァトーレが再び姿を現した。少女は目を覚ます。',
+        'novel-1/contents/ch2.md',
+        0,
+      ),
+      createChunk('ザルヴァトーレの物語', 'novel-2/contents/ch1.md', 0, 'novel-2'),
+    ]);
+  });
+
+  it('クエリ語を含むチャンクがBM25スコア順に返される', async () => {
+    const results = await backend.search('ザルヴァトーレ', 10, 'novel-1');
+
+    expect(results.map((r) => r.payload.file)).toEqual([
+      'novel-1/settings/chars.md',
+      'novel-1/contents/ch2.md',
+    ]);
+    expect(results[0].score).toBeGreaterThan(0);
+  });
+
+  it('他の小説プロジェクトのチャンクは返されない', async () => {
+    const results = await backend.search('物語', 10, 'novel-1');
+
+    expect(results).toEqual([]);
+  });
+
+  it('fileTypeで絞り込める', async () => {
+    const results = await backend.search('ザルヴァトーレ', 10, 'novel-1', 'content');
+
+    expect(results.map((r) => r.payload.file)).toEqual(['novel-1/contents/ch2.md']);
+  });
+
+  it('kで結果数が制限される', async () => {
+    const results = await backend.search('少女', 1, 'novel-1');
+
+    expect(results).toHaveLength(1);
+  });
+
+  it('ファイル単位で削除できる', async () => {
+    await backend.removeByFile('novel-1/contents/ch2.md');
+
+    const results = await backend.search('ザルヴァトーレ', 10, 'novel-1');
+    expect(results.map((r) => r.payload.file)).toEqual(['novel-1/settings/chars.md']);
+    expect((await backend.getStats()).totalChunks).toBe(3);
+  });
+
+  it('小説単位で削除できる', async () => {
+    await backend.removeByNovel('novel-1');
+
+    expect(await backend.search('ザルヴァトーレ', 10, 'novel-1')).toEqual([]);
+    expect(await backend.search('ザルヴァトーレ', 10, 'novel-2')).toHaveLength(1);
+  });
+
+  it('同じIDのチャンクを追加しても重複しない', async () => {
+    await backend.add([
+      createChunk('少女は森の奥で静かに眠っていた。', 'novel-1/contents/ch1.md', 0),
+    ]);
+
+    expect((await backend.getStats()).totalChunks).toBe(4);
+    const results = await backend.search('眠っていた', 10, 'novel-1');
+    expect(results).toHaveLength(1);
+  });
+
+  it('ルビの読みでも検索できる', async () => {
+    const chunk = createChunk('魔術師は塔に登った。', 'novel-1/contents/ch3.md', 0);
+    chunk.readings = [{ base: '魔術師', reading: 'まじゅつし' }];
+    await backend.add([chunk]);
+
+    const results = await backend.search('まじゅつし', 10, 'novel-1');
+    expect(results.map((r) => r.payload.file)).toEqual(['novel-1/contents/ch3.md']);
+  });
+
+  it('スニペットはクエリ語の周辺から生成される', async () => {
+    const longBackend = new KeywordBackend({ snippetLength: 20 });
+    const content = 'あ'.repeat(100) + 'ザルヴァトーレ' + 'い'.repeat(100);
+    await longBackend.add([createChunk(content, 'novel-1/contents/long.md', 0)]);
+
+    const results = await longBackend.search('ザルヴァトーレ', 1, 'novel-1');
+
+    expect(results[0].snippet).toContain('ザルヴァトーレ');
+    expect(results[0].snippet.startsWith('...')).toBe(true);
+    expect(results[0].snippet.endsWith('...')).toBe(true);
+  });
+});
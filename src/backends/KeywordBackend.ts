@@ -0,0 +1,372 @@
+import { SearchBackend, SearchResult, Chunk } from './SearchBackend.js';
+import { getLogger } from '../logging/index.js';
+
+const logger = getLogger();
+
+/**
+ * キーワード検索バックエンド設定
+ */
+export interface KeywordBackendConfig {
+  /**
+   * BM25 の語頻度飽和パラメータ
+   */
+  k1: number;
+
+  /**
+   * BM25 の文書長正規化パラメータ（0-1）
+   */
+  b: number;
+
+  /**
+   * 検索時のスニペット長
+   */
+  snippetLength: number;
+}
+
+const DEFAULT_KEYWORD_BACKEND_CONFIG: KeywordBackendConfig = {
+  k1: 1.2,
+  b: 0.75,
+  snippetLength: 120,
+};
+
+/**
+ * インデックス済みチャンク
+ */
+interface IndexedDocument {
+  id: string;
+  content: string;
+  relativeFilePath: string;
+  startLine: number;
+  endLine: number;
+  novelId: string;
+  fileType?: 'content' | 'settings';
+  tags?: string[];
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * 小説プロジェクト単位のコーパス統計
+ */
+interface CorpusStats {
+  documentCount: number;
+  totalLength: number;
+  documentFrequencies: Map<string, number>;
+}
+
+// 漢字・ひらがな・カタカナ（長音記号を含む）
+const CJK_PATTERN =
+  /[\u3005\u3006\u3040-\u309F\u30A0-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF]/;
+// 英数字
+const WORD_PATTERN = /[\p{L}\p{N}_]/u;
+
+/**
+ * BM25 用にテキストをトークン化
+ * 英数字は単語単位、日本語は文字 bigram（1文字の場合は unigram）に分割する
+ */
+export function tokenizeForKeywordSearch(text: string): string[] {
+  const normalized = text.normalize('NFKC').toLowerCase();
+  const tokens: string[] = [];
+  let cjkRun = '';
+  let word = '';
+
+  const flushCjk = () => {
+    if (cjkRun.length === 1) {
+      tokens.push(cjkRun);
+    } else {
+      for (let i = 0; i < cjkRun.length - 1; i++) {
+        tokens.push(cjkRun.substring(i, i + 2));
+      }
+    }
+    cjkRun = '';
+  };
+
+  const flushWord = () => {
+    if (word.length > 0) {
+      tokens.push(word);
+      word = '';
+    }
+  };
+
+  for (const char of normalized) {
+    if (CJK_PATTERN.test(char)) {
+      flushWord();
+      cjkRun += char;
+    } else if (WORD_PATTERN.test(char)) {
+      flushCjk();
+      word += char;
+    } else {
+      flushCjk();
+      flushWord();
+    }
+  }
+  flushCjk();
+  flushWord();
+
+  return tokens;
+}
+
+/**
+ * BM25 によるキーワード検索バックエンド
+ * Indexer が生成するチャンクをメモリ上で転置インデックス化する
+ */
+export class KeywordBackend extends SearchBackend {
+  private readonly config: KeywordBackendConfig;
+  private documents: Map<string, IndexedDocument> = new Map();
+  private corpusStats: Map<string, CorpusStats> = new Map();
+  private lastUpdated: Date = new Date();
+
+  constructor(config: Partial<KeywordBackendConfig> = {}) {
+    super();
+    this.config = { ...DEFAULT_KEYWORD_BACKEND_CONFIG, ...config };
+  }
+
+  /**
+   * チャンクをインデックスに追加（同じIDのチャンクは置き換え）
+   */
+  async add(chunks: Chunk[]): Promise<void> {
+    for (const chunk of chunks) {
+      const id = chunk.id;
+      if (this.documents.has(id)) {
+        this.removeDocument(id);
+      }
+
+      // ルビの読みでも検索できるように読みも索引に含める
+      const readings = (chunk.readings ?? []).map((ruby) => ruby.reading).join('\n');
+      const tokens = tokenizeForKeywordSearch(`${chunk.title}\n${chunk.content}\n${readings}`);
+      const termFrequencies = new Map<string, number>();
+      for (const token of tokens) {
+        termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+      }
+
+      const document: IndexedDocument = {
+        id,
+        content: chunk.content,
+        relativeFilePath: chunk.relativeFilePath,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        novelId: chunk.novelId,
+        fileType: chunk.fileType,
+        tags: chunk.tags,
+        termFrequencies,
+        length: tokens.length,
+      };
+      this.documents.set(id, document);
+
+      const stats = this.getOrCreateCorpusStats(chunk.novelId);
+      stats.documentCount++;
+      stats.totalLength += document.length;
+      for (const term of termFrequencies.keys()) {
+        stats.documentFrequencies.set(term, (stats.documentFrequencies.get(term) ?? 0) + 1);
+      }
+    }
+
+    this.lastUpdated = new Date();
+    logger.debug(`Added ${chunks.length} chunks to keyword index`);
+  }
+
+  /**
+   * チャンクを差分更新
+   */
+  async updateChunks(chunks: Chunk[]): Promise<{
+    added: number;
+    updated: number;
+    unchanged: number;
+  }> {
+    const result = { added: 0, updated: 0, unchanged: 0 };
+    const changed: Chunk[] = [];
+
+    for (const chunk of chunks) {
+      if (this.documents.has(chunk.id)) {
+        result.unchanged++;
+      } else {
+        changed.push(chunk);
+        result.added++;
+      }
+    }
+
+    await this.add(changed);
+    return result;
+  }
+
+  /**
+   * 指定ファイルに関連するチャンクを削除
+   * @param relativeFilePath プロジェクトルートからの相対パス
+   */
+  async removeByFile(relativeFilePath: string): Promise<void> {
+    for (const document of Array.from(this.documents.values())) {
+      if (document.relativeFilePath === relativeFilePath) {
+        this.removeDocument(document.id);
+      }
+    }
+    this.lastUpdated = new Date();
+  }
+
+  /**
+   * 指定小説プロジェクトに関連するチャンクを削除
+   */
+  async removeByNovel(novelId: string): Promise<void> {
+    for (const document of Array.from(this.documents.values())) {
+      if (document.novelId === novelId) {
+        this.documents.delete(document.id);
+      }
+    }
+    this.corpusStats.delete(novelId);
+    this.lastUpdated = new Date();
+  }
+
+  /**
+   * BM25 スコアによるキーワード検索
+   */
+  async search(
+    query: string,
+    k: number,
+    novelId: string,
+    fileType?: string,
+  ): Promise<SearchResult[]> {
+    const stats = this.corpusStats.get(novelId);
+    const queryTerms = Array.from(new Set(tokenizeForKeywordSearch(query)));
+    if (!stats || stats.documentCount === 0 || queryTerms.length === 0) {
+      return [];
+    }
+
+    const averageLength = stats.totalLength / stats.documentCount;
+    const { k1, b } = this.config;
+    const scored: Array<{ document: IndexedDocument; score: number }> = [];
+
+    for (const document of this.documents.values()) {
+      if (document.novelId !== novelId) {
+        continue;
+      }
+      if (fileType && fileType !== 'both' && document.fileType !== fileType) {
+        continue;
+      }
+
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = document.termFrequencies.get(term);
+        if (!tf) {
+          continue;
+        }
+        const df = stats.documentFrequencies.get(term) ?? 0;
+        const idf = Math.log(1 + (stats.documentCount - df + 0.5) / (df + 0.5));
+        const lengthNorm = 1 - b + (b * document.length) / (averageLength || 1);
+        score += idf * ((tf * (k1 + 1)) / (tf + k1 * lengthNorm));
+      }
+
+      if (score > 0) {
+        scored.push({ document, score });
+      }
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+
+    return scored.slice(0, k).map(({ document, score }) => ({
+      id: document.id,
+      score,
+      snippet: this.generateSnippet(document.content, queryTerms),
+      payload: {
+        file: document.relativeFilePath,
+        start: document.startLine,
+        end: document.endLine,
+        tags: document.tags,
+      },
+    }));
+  }
+
+  /**
+   * インデックスをクリア
+   */
+  async clear(): Promise<void> {
+    this.documents.clear();
+    this.corpusStats.clear();
+    this.lastUpdated = new Date();
+  }
+
+  /**
+   * インデックスの統計情報を取得
+   */
+  async getStats(): Promise<{
+    memoryUsage?: number;
+    lastUpdated?: Date;
+    totalChunks?: number;
+  }> {
+    return {
+      lastUpdated: this.lastUpdated,
+      totalChunks: this.documents.size,
+    };
+  }
+
+  /**
+   * ドキュメントを削除してコーパス統計を更新
+   */
+  private removeDocument(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) {
+      return;
+    }
+
+    this.documents.delete(id);
+    const stats = this.corpusStats.get(document.novelId);
+    if (!stats) {
+      return;
+    }
+
+    stats.documentCount--;
+    stats.totalLength -= document.length;
+    for (const term of document.termFrequencies.keys()) {
+      const df = (stats.documentFrequencies.get(term) ?? 0) - 1;
+      if (df > 0) {
+        stats.documentFrequencies.set(term, df);
+      } else {
+        stats.documentFrequencies.delete(term);
+      }
+    }
+  }
+
+  /**
+   * 小説プロジェクトのコーパス統計を取得（なければ作成）
+   */
+  private getOrCreateCorpusStats(novelId: string): CorpusStats {
+    let stats = this.corpusStats.get(novelId);
+    if (!stats) {
+      stats = { documentCount: 0, totalLength: 0, documentFrequencies: new Map() };
+      this.corpusStats.set(novelId, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * 最初にクエリ語が出現する位置を中心にスニペットを生成
+   */
+  private generateSnippet(content: string, queryTerms: string[]): string {
+    const maxLength = this.config.snippetLength;
+    if (content.length <= maxLength) {
+      return content;
+    }
+
+    const normalized = content.normalize('NFKC').toLowerCase();
+    let index = -1;
+    for (const term of queryTerms) {
+      const found = normalized.indexOf(term);
+      if (found !== -1 && (index === -1 || found < index)) {
+        index = found;
+      }
+    }
+
+    if (index === -1) {
+      return content.substring(0, maxLength) + '...';
+    }
+
+    const start = Math.max(0, index - Math.floor(maxLength / 2));
+    const end = Math.min(content.length, start + maxLength);
+    let snippet = content.substring(start, end);
+    if (start > 0) {
+      snippet = '...' + snippet;
+    }
+    if (end < content.length) {
+      snippet = snippet + '...';
+    }
+    return snippet;
+  }
+}
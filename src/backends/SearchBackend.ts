@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import { RubyReading } from '../lib/ruby.js';
 
 /**
  * 検索結果の型定義
@@ -13,6 +14,10 @@ export interface SearchResult {
     end: number;
     tags?: string[];
   };
+  scores?: {
+    vector?: number; // ベクトル検索のスコア（ハイブリッド検索時）
+    keyword?: number; // BM25 スコア（ハイブリッド検索時）
+  };
 }
 
 /**
@@ -29,6 +34,7 @@ export class Chunk {
     public novelId: string, // 小説プロジェクトID
     public fileType?: 'content' | 'settings', // ファイルタイプ
     public tags?: string[], // オプションのタグ
+    public readings?: RubyReading[], // 本文のルビ（content はルビ記法を除いた親文字のみ）
   ) {}
 
   /**
@@ -46,10 +52,13 @@ export class Chunk {
   }
 
   /**
-   * タイトルとコンテンツのハッシュを生成
+   * タイトルとコンテンツ（ルビがある場合はルビも）のハッシュを生成
    */
   get hash(): string {
-    const combined = this.title + '\n' + this.content;
+    let combined = this.title + '\n' + this.content;
+    if (this.readings && this.readings.length > 0) {
+      combined += '\n' + this.readings.map((ruby) => `${ruby.base}《${ruby.reading}》`).join('');
+    }
     return crypto.createHash('md5').update(combined, 'utf8').digest('hex').substring(0, 8);
   }
 }
@@ -8,6 +8,7 @@ import type {
   CollectionInfo,
 } from '../repositories/VectorRepository.js';
 import type { EmbeddingService } from '../services/EmbeddingService.js';
+import type { EmbeddingCache } from '../repositories/EmbeddingCache.js';
 
 // VectorRepository のモック
 const mockVectorRepository = {
@@ -40,6 +41,13 @@ const mockVectorRepository = {
   >,
   deleteCollection: vi.fn() as MockedFunction<(collectionName: string) => Promise<void>>,
   getCollectionInfo: vi.fn() as MockedFunction<(collectionName: string) => Promise<CollectionInfo>>,
+  countVectors: vi.fn() as MockedFunction<
+    (
+      collectionName: string,
+      filter?: import('../repositories/VectorRepository.js').VectorFilter,
+    ) => Promise<number>
+  >,
+  flush: vi.fn() as MockedFunction<() => Promise<void>>,
 } satisfies VectorRepository;
 
 // EmbeddingService のモック
@@ -197,6 +205,76 @@ describe('VectorBackend', () => {
     });
   });
 
+  describe('埋め込みキャッシュ', () => {
+    const createCache = () => {
+      const stored = new Map<string, number[]>([['タイトル1\nコンテンツ1', [0.1, 0.2, 0.3]]]);
+      return {
+        getMany: vi.fn(async (texts: string[]) => texts.map((text) => stored.get(text))),
+        setMany: vi.fn(async () => undefined),
+        getStats: vi.fn(() => ({
+          model: 'test-model',
+          entries: 1,
+          maxEntries: 0,
+          hits: 1,
+          misses: 1,
+          hitRate: 0.5,
+        })),
+      };
+    };
+
+    it('キャッシュにないテキストのみ埋め込みを生成する', async () => {
+      const cache = createCache();
+      vectorBackend = new VectorBackend(
+        mockVectorRepository,
+        mockEmbeddingService,
+        config,
+        cache as unknown as EmbeddingCache,
+      );
+      mockEmbeddingService.generateBatchEmbeddings.mockResolvedValue([[0.4, 0.5, 0.6]]);
+      mockVectorRepository.upsertVectors.mockResolvedValue(undefined);
+
+      await vectorBackend.add([
+        new Chunk('タイトル1', 'コンテンツ1', 'test/file1.txt', 1, 5, 0, 'test-novel'),
+        new Chunk('タイトル2', 'コンテンツ2', 'test/file1.txt', 6, 10, 1, 'test-novel'),
+      ]);
+
+      expect(mockEmbeddingService.generateBatchEmbeddings).toHaveBeenCalledWith([
+        'タイトル2\nコンテンツ2',
+      ]);
+      expect(cache.setMany).toHaveBeenCalledWith([
+        { text: 'タイトル2\nコンテンツ2', vector: [0.4, 0.5, 0.6] },
+      ]);
+      const points = mockVectorRepository.upsertVectors.mock.calls[0][1];
+      expect(points.map((point) => point.vector)).toEqual([
+        [0.1, 0.2, 0.3],
+        [0.4, 0.5, 0.6],
+      ]);
+    });
+
+    it('すべてキャッシュにある場合は埋め込みを生成しない', async () => {
+      const cache = createCache();
+      vectorBackend = new VectorBackend(
+        mockVectorRepository,
+        mockEmbeddingService,
+        config,
+        cache as unknown as EmbeddingCache,
+      );
+      mockVectorRepository.upsertVectors.mockResolvedValue(undefined);
+      mockVectorRepository.getCollectionInfo.mockResolvedValue({
+        status: 'green',
+        vectorsCount: 1,
+        indexedVectorsCount: 1,
+      } as CollectionInfo);
+
+      await vectorBackend.add([
+        new Chunk('タイトル1', 'コンテンツ1', 'test/file1.txt', 1, 5, 0, 'test-novel'),
+      ]);
+
+      expect(mockEmbeddingService.generateBatchEmbeddings).not.toHaveBeenCalled();
+      expect((await vectorBackend.getStats()).embeddingCache?.hitRate).toBe(0.5);
+    });
+  });
+
   describe('updateChunks', () => {
     it('チャンクが正常に更新される', async () => {
       const chunks = [
@@ -555,6 +633,17 @@ describe('VectorBackend', () => {
     });
   });
 
+  describe('countByNovel', () => {
+    it('小説IDで絞り込んでチャンク数を数える', async () => {
+      mockVectorRepository.countVectors.mockResolvedValue(3);
+
+      expect(await vectorBackend.countByNovel('test-novel')).toBe(3);
+      expect(mockVectorRepository.countVectors).toHaveBeenCalledWith('test-collection', {
+        must: [{ key: 'novelId', match: { value: 'test-novel' } }],
+      });
+    });
+  });
+
   describe('removeByNovel', () => {
     it('警告ログが出力される（未実装）', async () => {
       const novelId = 'test-novel';
@@ -5,6 +5,7 @@ import type {
   VectorFilter,
 } from '../repositories/VectorRepository.js';
 import type { EmbeddingService } from '../services/EmbeddingService.js';
+import type { EmbeddingCache, EmbeddingCacheStats } from '../repositories/EmbeddingCache.js';
 import { getLogger } from '../logging/index.js';
 import { DialogoiError } from '../errors/index.js';
 
@@ -54,6 +55,7 @@ export class VectorBackend extends SearchBackend {
     private readonly vectorRepository: VectorRepository,
     private readonly embeddingService: EmbeddingService,
     private readonly config: VectorBackendConfig,
+    private readonly embeddingCache?: EmbeddingCache,
   ) {
     super();
     logger.info('VectorBackend initialized', {
@@ -113,8 +115,8 @@ export class VectorBackend extends SearchBackend {
       // チャンクからテキストを抽出
       const texts = chunks.map((chunk) => `${chunk.title}\n${chunk.content}`);
 
-      // バッチでembeddingを生成
-      const embeddings = await this.embeddingService.generateBatchEmbeddings(texts);
+      // バッチでembeddingを生成（キャッシュ済みのものは再利用）
+      const embeddings = await this.generateEmbeddings(texts);
 
       // VectorPointに変換
       const vectorPoints: VectorPoint[] = chunks.map((chunk, index) => ({
@@ -130,6 +132,7 @@ export class VectorBackend extends SearchBackend {
           novelId: chunk.novelId,
           fileType: chunk.fileType,
           tags: chunk.tags,
+          readings: chunk.readings,
           baseId: chunk.baseId,
           hash: chunk.hash,
         },
@@ -153,6 +156,37 @@ export class VectorBackend extends SearchBackend {
     }
   }
 
+  /**
+   * 埋め込みを生成（キャッシュにあるテキストは埋め込みモデルを呼ばない）
+   */
+  private async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (!this.embeddingCache) {
+      return this.embeddingService.generateBatchEmbeddings(texts);
+    }
+
+    const cached = await this.embeddingCache.getMany(texts);
+    const missingIndexes = cached
+      .map((vector, index) => (vector === undefined ? index : -1))
+      .filter((index) => index !== -1);
+
+    if (missingIndexes.length > 0) {
+      const missingTexts = missingIndexes.map((index) => texts[index]);
+      const generated = await this.embeddingService.generateBatchEmbeddings(missingTexts);
+      missingIndexes.forEach((textIndex, i) => {
+        cached[textIndex] = generated[i];
+      });
+      await this.embeddingCache.setMany(
+        missingTexts.map((text, i) => ({ text, vector: generated[i] })),
+      );
+    }
+
+    logger.debug('Embedding cache lookup completed', {
+      total: texts.length,
+      hits: texts.length - missingIndexes.length,
+    });
+    return cached as number[][];
+  }
+
   /**
    * チャンクを差分更新
    */
@@ -357,7 +391,9 @@ export class VectorBackend extends SearchBackend {
     memoryUsage?: number;
     lastUpdated?: Date;
     totalChunks?: number;
+    embeddingCache?: EmbeddingCacheStats;
   }> {
+    const embeddingCache = this.embeddingCache?.getStats();
     try {
       // コレクション情報を取得
       const collectionInfo = await this.vectorRepository.getCollectionInfo(
@@ -370,6 +406,7 @@ export class VectorBackend extends SearchBackend {
         memoryUsage: this.stats.memoryUsage,
         lastUpdated: this.stats.lastUpdated,
         totalChunks: collectionInfo.vectorsCount,
+        embeddingCache,
       };
     } catch (error) {
       logger.error('Failed to get vector index stats', error as Error);
@@ -377,6 +414,7 @@ export class VectorBackend extends SearchBackend {
         memoryUsage: this.stats.memoryUsage,
         lastUpdated: this.stats.lastUpdated,
         totalChunks: this.stats.totalChunks,
+        embeddingCache,
       };
     }
   }
@@ -419,6 +457,38 @@ export class VectorBackend extends SearchBackend {
     return content.substring(0, maxLength) + (content.length > maxLength ? '...' : '');
   }
 
+  /**
+   * 小説プロジェクトのチャンク数を取得（コレクションは小説間で共有されるため小説IDで絞り込む）
+   */
+  async countByNovel(novelId: string): Promise<number> {
+    try {
+      return await this.vectorRepository.countVectors(this.config.collectionName, {
+        must: [{ key: 'novelId', match: { value: novelId } }],
+      });
+    } catch (error) {
+      logger.error('Failed to count chunks by novel in vector index', error as Error);
+      throw new VectorBackendError(
+        `Failed to count chunks by novel in vector index: ${(error as Error).message}`,
+        error as Error,
+      );
+    }
+  }
+
+  /**
+   * 書き込み待ちのベクトルを永続化
+   */
+  async flush(): Promise<void> {
+    try {
+      await this.vectorRepository.flush();
+    } catch (error) {
+      logger.error('Failed to flush vector index', error as Error);
+      throw new VectorBackendError(
+        `Failed to flush vector index: ${(error as Error).message}`,
+        error as Error,
+      );
+    }
+  }
+
   /**
    * バックエンドが準備完了かどうかを確認
    */
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { parseCliArgs, UsageError } from './args.js';
+
+describe('parseCliArgs', () => {
+  const options = ['type', 'k'];
+  const flags = ['json', 'regex'];
+
+  it('サブコマンド・位置引数・オプションを解析する', () => {
+    const args = parseCliArgs(
+      ['search', 'novel-1', '魔法の代償', '--type', 'settings', '--k', '5', '--json'],
+      options,
+      flags,
+    );
+
+    expect(args.command).toBe('search');
+    expect(args.positionals).toEqual(['novel-1', '魔法の代償']);
+    expect(args.options.get('type')).toBe('settings');
+    expect(args.options.get('k')).toBe('5');
+    expect(args.flags.has('json')).toBe(true);
+  });
+
+  it('設定を上書きするオプションは値ごと読み飛ばす', () => {
+    const args = parseCliArgs(
+      ['--project-root', './novels', 'grep', 'novel-1', '--vector-backend', 'local', '勇者'],
+      options,
+      flags,
+    );
+
+    expect(args.command).toBe('grep');
+    expect(args.positionals).toEqual(['novel-1', '勇者']);
+    expect(args.options.size).toBe(0);
+  });
+
+  it('不明なオプションは次の引数を読み飛ばさずにエラーにする', () => {
+    expect(() => parseCliArgs(['search', 'novel-1', '--verbose', '魔法'], options, flags)).toThrow(
+      new UsageError('不明なオプションです: --verbose'),
+    );
+    expect(() => parseCliArgs(['search', 'novel-1', '魔法', '--jsn'], options, flags)).toThrow(
+      UsageError,
+    );
+  });
+
+  it('値を取るオプションに値がない場合はエラーにする', () => {
+    expect(() => parseCliArgs(['search', 'novel-1', '魔法', '--k'], options, flags)).toThrow(
+      new UsageError('--k には値を指定してください'),
+    );
+    expect(() => parseCliArgs(['list', '--project-root', '--json'], options, flags)).toThrow(
+      UsageError,
+    );
+  });
+
+  it('引数がない場合はコマンドなし', () => {
+    const args = parseCliArgs([], options, flags);
+
+    expect(args.command).toBeUndefined();
+    expect(args.positionals).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { CONFIG_OVERRIDE_OPTIONS } from '../lib/config.js';
+
+/**
+ * dialogoi CLI の引数の解析結果
+ */
+export interface CliArgs {
+  command: string | undefined;
+  positionals: string[];
+  flags: Set<string>; // 値を取らないオプション（例: json）
+  options: Map<string, string>; // 値を取るオプション（例: k → "5"）
+}
+
+/**
+ * 使用方法の誤り（終了コード 2）
+ */
+export class UsageError extends Error {}
+
+/**
+ * dialogoi CLI の引数を解析
+ * 設定を上書きするオプション（--project-root など、CONFIG_OVERRIDE_OPTIONS）は
+ * loadConfig が解釈するため、値ごと読み飛ばす
+ * @param args process.argv.slice(2)
+ * @param knownOptions CLI 自身が解釈する値を取るオプション名（-- を除く）
+ * @param knownFlags CLI 自身が解釈する値を取らないオプション名（-- を除く）
+ * @throws UsageError 不明なオプション、または値を取るオプションに値がない場合
+ */
+export function parseCliArgs(
+  args: string[],
+  knownOptions: readonly string[],
+  knownFlags: readonly string[],
+): CliArgs {
+  const positionals: string[] = [];
+  const flags = new Set<string>();
+  const options = new Map<string, string>();
+  const configOptions: readonly string[] = CONFIG_OVERRIDE_OPTIONS;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const name = arg.slice(2);
+    if (knownFlags.includes(name)) {
+      flags.add(name);
+      continue;
+    }
+    if (!knownOptions.includes(name) && !configOptions.includes(name)) {
+      throw new UsageError(`不明なオプションです: ${arg}`);
+    }
+
+    const value = args[i + 1];
+    if (value === undefined || value.startsWith('--')) {
+      throw new UsageError(`${arg} には値を指定してください`);
+    }
+    if (knownOptions.includes(name)) {
+      options.set(name, value);
+    }
+    i++;
+  }
+
+  return { command: positionals.shift(), positionals, flags, options };
+}
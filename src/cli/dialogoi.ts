@@ -0,0 +1,388 @@
+#!/usr/bin/env node
+/**
+ * dialogoi CLI
+ *
+ * MCP サーバーを介さずにインデックスの構築・検索・診断を行う
+ *
+ * 使用方法:
+ *   dialogoi list
+ *   dialogoi index <novelId> [--rebuild]
+ *   dialogoi search <novelId> <query> [--type content|settings|both] [--k <件数>] [--hybrid]
+ *   dialogoi grep <novelId> <keyword> [--type content|settings|both] [--regex]
+ *   dialogoi stats [novelId]
+ *   dialogoi export <novelId> [--format epub|docx] [--vertical] [--no-ruby] [--manuscript-grid] [--output <ファイル名>]
+ *   dialogoi export-web <novelId> --profile narou|kakuyomu [--from <ファイル>] [--to <ファイル>] [--max-length <文字数>]
+ *   dialogoi import-aozora <novelId> <file> [--directory <本文ディレクトリ>] [--overwrite]
+ *   dialogoi doctor
+ *
+ * 共通オプション:
+ *   --json          結果を JSON で出力（スクリプト向け）
+ *   --project-root  などの設定の上書きは MCP サーバーと同じ
+ *
+ * 結果は標準出力、ログと進捗は標準エラー出力に書き出す
+ */
+import path from 'path';
+import dotenv from 'dotenv';
+import { loadConfig, DialogoiConfig } from '../lib/config.js';
+import { IndexerManager } from '../lib/indexerManager.js';
+import { FileSystemNovelRepository } from '../repositories/FileSystemNovelRepository.js';
+import { IndexerSearchService } from '../services/IndexerSearchService.js';
+import { IndexerFileOperationsService } from '../services/IndexerFileOperationsService.js';
+import { CharacterService } from '../services/CharacterService.js';
+import { NovelService } from '../services/novelService.js';
+import { DiagnosticsService } from '../services/DiagnosticsService.js';
+import { ExportService } from '../services/ExportService.js';
+import { ImportService } from '../services/ImportService.js';
+import { MarkdownFormatterService } from '../services/MarkdownFormatterService.js';
+import { IndexProgress } from '../domain/indexStatus.js';
+import { CliArgs, UsageError, parseCliArgs } from './args.js';
+import { LoggerFactory, getLogger } from '../logging/index.js';
+
+dotenv.config();
+LoggerFactory.setGlobalLogger(LoggerFactory.createLogger(LoggerFactory.getLogLevelFromEnv()));
+const logger = getLogger();
+
+const CLI_OPTIONS = [
+  'type',
+  'k',
+  'output',
+  'format',
+  'profile',
+  'from',
+  'to',
+  'max-length',
+  'directory',
+] as const;
+const CLI_FLAGS = [
+  'json',
+  'rebuild',
+  'hybrid',
+  'regex',
+  'vertical',
+  'no-ruby',
+  'manuscript-grid',
+  'overwrite',
+  'help',
+] as const;
+const FILE_TYPES = ['content', 'settings', 'both'] as const;
+const EXPORT_FORMATS = ['epub', 'docx'] as const;
+
+const USAGE = `使用方法: dialogoi <command> [options]
+
+コマンド:
+  list                                小説プロジェクト一覧
+  index <novelId> [--rebuild]         インデックスを構築（--rebuild で作り直す）
+  search <novelId> <query>            RAG検索（--hybrid でハイブリッド検索）
+      [--type content|settings|both] [--k <件数>]
+  grep <novelId> <keyword>            テキスト検索
+      [--type content|settings|both] [--regex]
+  stats [novelId]                     インデックスの状態
+  export <novelId>                    EPUB・Word 文書を exports/ に書き出す
+      [--format epub|docx] [--vertical] [--no-ruby] [--manuscript-grid] [--output <ファイル名>]
+  export-web <novelId>                Web 小説サイトへの投稿用テキストを exports/ に書き出す
+      --profile narou|kakuyomu [--from <ファイル>] [--to <ファイル>] [--max-length <文字数>]
+  import-aozora <novelId> <file>      青空文庫形式のテキストを章ごとの本文ファイルに取り込む
+      [--directory <本文ディレクトリ>] [--overwrite]
+  doctor                              環境・設定・プロジェクトの診断
+
+共通オプション:
+  --json                              結果を JSON で出力
+  --project-root <path>               プロジェクトルート（その他の設定の上書きも MCP サーバーと同じ）
+`;
+
+/**
+ * CLI から使うサービス群
+ */
+interface CliContext {
+  config: DialogoiConfig;
+  args: CliArgs;
+  indexerManager: IndexerManager;
+  novelService: NovelService;
+  diagnosticsService: DiagnosticsService;
+  exportService: ExportService;
+  importService: ImportService;
+}
+
+function createContext(args: CliArgs): CliContext {
+  const config = loadConfig();
+  const projectRoot = path.resolve(config.projectRoot);
+  const novelRepository = new FileSystemNovelRepository(projectRoot, {
+    history: config.history,
+    templatesDirectory: path.resolve(projectRoot, config.templates.directory),
+  });
+  const indexerManager = new IndexerManager(config);
+  const fileOperationsService = new IndexerFileOperationsService(novelRepository, indexerManager);
+  const novelService = new NovelService(
+    novelRepository,
+    new IndexerSearchService(novelRepository, indexerManager),
+    fileOperationsService,
+    new CharacterService(novelRepository, { chunk: config.chunk }),
+  );
+
+  return {
+    config,
+    args,
+    indexerManager,
+    novelService,
+    diagnosticsService: new DiagnosticsService(config, indexerManager),
+    exportService: new ExportService(novelRepository),
+    importService: new ImportService(novelRepository, fileOperationsService),
+  };
+}
+
+/**
+ * 結果を標準出力に書き出す（--json の場合は data、それ以外は text）
+ */
+function output(context: CliContext, data: unknown, text: string): void {
+  process.stdout.write(
+    context.args.flags.has('json') ? `${JSON.stringify(data, null, 2)}\n` : `${text}\n`,
+  );
+}
+
+function requirePositional(context: CliContext, index: number, name: string): string {
+  const value = context.args.positionals[index];
+  if (!value) {
+    throw new UsageError(`${name} を指定してください`);
+  }
+  return value;
+}
+
+function getFileType(context: CliContext): (typeof FILE_TYPES)[number] {
+  const type = context.args.options.get('type') ?? 'both';
+  if (!(FILE_TYPES as readonly string[]).includes(type)) {
+    throw new UsageError(`--type には ${FILE_TYPES.join(' / ')} のいずれかを指定してください`);
+  }
+  return type as (typeof FILE_TYPES)[number];
+}
+
+function getK(context: CliContext): number {
+  const option = context.args.options.get('k');
+  const k = option === undefined ? context.config.search.defaultK : Number(option);
+  if (!Number.isInteger(k) || k < 1) {
+    throw new UsageError(`--k には1以上の整数を指定してください: ${option}`);
+  }
+  return Math.min(k, context.config.search.maxK);
+}
+
+/**
+ * インデックス構築の進捗を標準エラー出力に書き出す
+ */
+function reportProgress(progress: IndexProgress): void {
+  const current = progress.currentFile ? ` ${progress.currentFile}` : '';
+  process.stderr.write(
+    `インデックス構築中 ${progress.processedFiles}/${progress.totalFiles} ファイル${current}\n`,
+  );
+}
+
+async function runList(context: CliContext): Promise<void> {
+  const projects = await context.novelService.listNovelProjects();
+  output(context, projects, MarkdownFormatterService.formatProjectList(projects));
+}
+
+async function runIndex(context: CliContext): Promise<void> {
+  const novelId = requirePositional(context, 0, 'novelId');
+  await context.novelService.getIndexStatus(novelId); // プロジェクトの存在確認
+
+  const unsubscribe = context.indexerManager.onIndexProgress(novelId, reportProgress);
+  try {
+    await context.indexerManager.buildIndex(novelId, {
+      rebuild: context.args.flags.has('rebuild'),
+    });
+  } finally {
+    unsubscribe();
+  }
+
+  const status = await context.novelService.getIndexStatus(novelId);
+  output(context, status, MarkdownFormatterService.formatIndexStatus(status));
+}
+
+async function runSearch(context: CliContext): Promise<void> {
+  const novelId = requirePositional(context, 0, 'novelId');
+  const query = requirePositional(context, 1, 'query');
+  const fileType = getFileType(context);
+  const k = getK(context);
+
+  const results = context.args.flags.has('hybrid')
+    ? await context.novelService.searchHybrid(novelId, query, k, fileType, reportProgress)
+    : await context.novelService.searchRag(novelId, query, k, fileType, reportProgress);
+
+  const text =
+    results.length === 0
+      ? `クエリ「${query}」に一致するコンテンツが見つかりませんでした。`
+      : results
+          .map(
+            (result, index) =>
+              `${index + 1}. [${result.score.toFixed(3)}] ${result.payload.file}:${result.payload.start}-${result.payload.end}\n` +
+              `   ${result.snippet.replace(/\n/g, '\n   ')}`,
+          )
+          .join('\n\n');
+  output(context, results, text);
+}
+
+async function runGrep(context: CliContext): Promise<void> {
+  const novelId = requirePositional(context, 0, 'novelId');
+  const keyword = requirePositional(context, 1, 'keyword');
+  const useRegex = context.args.flags.has('regex');
+
+  const results = await context.novelService.searchNovelText(
+    novelId,
+    keyword,
+    useRegex,
+    getFileType(context),
+  );
+  const searchType = MarkdownFormatterService.getSearchType(useRegex);
+  output(
+    context,
+    results,
+    results.length === 0
+      ? MarkdownFormatterService.generateEmptySearchMessage(searchType, keyword, 'ファイル')
+      : MarkdownFormatterService.formatSearchResults(
+          'テキスト検索結果',
+          novelId,
+          keyword,
+          searchType,
+          results,
+        ),
+  );
+}
+
+async function runStats(context: CliContext): Promise<void> {
+  const novelId = context.args.positionals[0];
+  const novelIds = novelId
+    ? [novelId]
+    : (await context.novelService.listNovelProjects()).map((project) => project.id);
+
+  const statuses = [];
+  for (const id of novelIds) {
+    statuses.push(await context.novelService.getIndexStatus(id));
+  }
+  output(
+    context,
+    statuses,
+    statuses.length === 0
+      ? '小説プロジェクトが見つかりません。'
+      : statuses.map((status) => MarkdownFormatterService.formatIndexStatus(status)).join('\n\n'),
+  );
+}
+
+async function runExport(context: CliContext): Promise<void> {
+  const novelId = requirePositional(context, 0, 'novelId');
+  const format = context.args.options.get('format') ?? 'epub';
+  if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new UsageError(
+      `--format には ${EXPORT_FORMATS.join(' / ')} のいずれかを指定してください`,
+    );
+  }
+  const result = await context.exportService.exportNovel(novelId, {
+    format: format as (typeof EXPORT_FORMATS)[number],
+    vertical: context.args.flags.has('vertical'),
+    ruby: !context.args.flags.has('no-ruby'),
+    manuscriptGrid: context.args.flags.has('manuscript-grid'),
+    filename: context.args.options.get('output'),
+  });
+  output(context, result, MarkdownFormatterService.formatExportResult(result));
+}
+
+async function runExportWeb(context: CliContext): Promise<void> {
+  const novelId = requirePositional(context, 0, 'novelId');
+  const profile = context.args.options.get('profile');
+  if (!profile) {
+    throw new UsageError('--profile を指定してください');
+  }
+  const maxLengthOption = context.args.options.get('max-length');
+  const maxLength = maxLengthOption === undefined ? undefined : Number(maxLengthOption);
+  if (maxLength !== undefined && (!Number.isInteger(maxLength) || maxLength < 1)) {
+    throw new UsageError(`--max-length には1以上の整数を指定してください: ${maxLengthOption}`);
+  }
+
+  const result = await context.exportService.exportWebNovel(novelId, {
+    profile,
+    from: context.args.options.get('from'),
+    to: context.args.options.get('to'),
+    maxLength,
+  });
+  output(context, result, MarkdownFormatterService.formatWebNovelExportResult(result));
+}
+
+async function runImportAozora(context: CliContext): Promise<void> {
+  const novelId = requirePositional(context, 0, 'novelId');
+  const file = requirePositional(context, 1, 'file');
+  const result = await context.importService.importAozora(novelId, file, {
+    directory: context.args.options.get('directory'),
+    overwrite: context.args.flags.has('overwrite'),
+  });
+  output(context, result, MarkdownFormatterService.formatImportResult(result));
+}
+
+async function runDoctor(context: CliContext): Promise<number> {
+  const report = await context.diagnosticsService.run();
+  output(context, report, MarkdownFormatterService.formatDiagnosticReport(report));
+  return report.status === 'fail' ? 1 : 0;
+}
+
+/**
+ * コマンドを実行して終了コードを返す
+ */
+async function run(argv: string[]): Promise<number> {
+  let args: CliArgs;
+  try {
+    args = parseCliArgs(argv, CLI_OPTIONS, CLI_FLAGS);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    throw error;
+  }
+  if (args.flags.has('help')) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (!args.command) {
+    process.stderr.write(USAGE);
+    return 2;
+  }
+
+  const commands: Record<string, (context: CliContext) => Promise<number | void>> = {
+    list: runList,
+    index: runIndex,
+    search: runSearch,
+    grep: runGrep,
+    stats: runStats,
+    export: runExport,
+    'export-web': runExportWeb,
+    'import-aozora': runImportAozora,
+    doctor: runDoctor,
+  };
+  const command = commands[args.command];
+  if (!command) {
+    process.stderr.write(`不明なコマンドです: ${args.command}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const context = createContext(args);
+  try {
+    return (await command(context)) ?? 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    logger.error(
+      `dialogoi ${args.command} に失敗しました`,
+      error instanceof Error ? error : undefined,
+    );
+    process.stderr.write(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  } finally {
+    await context.indexerManager.cleanup();
+  }
+}
+
+run(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error) => {
+    logger.error('dialogoi CLI の実行に失敗しました', error instanceof Error ? error : undefined);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+/**
+ * novel.json の JSON Schema を生成
+ *
+ * 使用方法:
+ *   npm run schema:generate
+ *
+ * novelConfigSchema（zod）から schemas/novel.schema.json を書き出す。
+ * novel.json に "$schema": "../../schemas/novel.schema.json" を書くとエディタで補完・検証できる
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { createNovelConfigJsonSchema } from '../lib/novelConfigSchema.js';
+
+async function main() {
+  const outputPath = path.join(process.cwd(), 'schemas', 'novel.schema.json');
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, `${JSON.stringify(createNovelConfigJsonSchema(), null, 2)}\n`);
+  process.stdout.write(`JSON Schema を書き出しました: ${outputPath}\n`);
+}
+
+main().catch((error) => {
+  process.stderr.write(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+/**
+ * 埋め込みキャッシュの整理
+ *
+ * 使用方法:
+ *   npm run cache:prune -- [--max-age-days <日数>] [--all-models] [--project-root <path>]
+ *
+ * - 最終利用から --max-age-days（省略時は embeddingCache.maxAgeDays）を超えた埋め込みを削除
+ * - embeddingCache.maxEntries を超えた分を最終利用が古い順に削除
+ * - --all-models を指定すると現在の embedding.model 以外のキャッシュも削除
+ */
+import path from 'path';
+import dotenv from 'dotenv';
+import { loadConfig } from '../lib/config.js';
+import { EmbeddingCache } from '../repositories/EmbeddingCache.js';
+import { LoggerFactory, getLogger } from '../logging/index.js';
+
+dotenv.config();
+LoggerFactory.setGlobalLogger(LoggerFactory.createLogger(LoggerFactory.getLogLevelFromEnv()));
+const logger = getLogger();
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  const value = index === -1 ? undefined : args[index + 1];
+  return value && !value.startsWith('--') ? value : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const config = loadConfig();
+
+  const maxAgeOption = getOption(args, '--max-age-days');
+  const maxAgeDays =
+    maxAgeOption !== undefined ? Number(maxAgeOption) : config.embeddingCache.maxAgeDays;
+  if (!Number.isFinite(maxAgeDays) || maxAgeDays < 0) {
+    throw new Error(`--max-age-days には0以上の数値を指定してください: ${maxAgeOption}`);
+  }
+
+  const directory = path.resolve(config.projectRoot, config.embeddingCache.directory);
+  const cache = new EmbeddingCache({
+    directory,
+    model: config.embedding.model,
+    maxEntries: config.embeddingCache.maxEntries,
+  });
+
+  logger.info(`🧹 埋め込みキャッシュを整理します: ${directory}`);
+  const result = await cache.prune({
+    maxAgeDays,
+    removeOtherModels: args.includes('--all-models'),
+  });
+
+  process.stdout.write(
+    [
+      `削除した埋め込み: ${result.removedEntries}`,
+      `削除したモデル: ${result.removedModels.length > 0 ? result.removedModels.join(', ') : 'なし'}`,
+      `残りの埋め込み: ${result.remainingEntries}`,
+    ].join('\n') + '\n',
+  );
+}
+
+main().catch((error) => {
+  logger.error(
+    '埋め込みキャッシュの整理に失敗しました',
+    error instanceof Error ? error : undefined,
+  );
+  process.exit(1);
+});
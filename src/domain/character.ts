@@ -0,0 +1,77 @@
+/**
+ * 設定ファイルの見出しから抽出した項目（登場人物・場所）
+ */
+export interface SettingsEntity {
+  name: string; // 正式名（見出しの括弧より前の部分）
+  aliases: string[]; // 見出しの括弧内や「別名」「愛称」などの属性から抽出した別名・読み
+  attributes: Record<string, string>; // 「- **年齢**: 16歳」形式の属性
+  description?: string; // 属性以外の本文
+  sourceFiles: string[]; // 定義元ファイル（プロジェクトルートからの相対パス）
+}
+
+/**
+ * 設定ファイルから抽出した登場人物
+ */
+export type Character = SettingsEntity;
+
+/**
+ * 設定ファイルから抽出した場所（地名・施設など）
+ */
+export type Place = SettingsEntity;
+
+/**
+ * 名前・別名から登場人物を解決した結果
+ */
+export interface CharacterMatch {
+  character: Character;
+  matchedBy: 'name' | 'alias' | 'partial';
+}
+
+/**
+ * 登場箇所（行番号は 1 始まり）
+ */
+export interface AppearanceLocation {
+  filename: string; // プロジェクトルートからの相対パス
+  line: number;
+  text: string; // 該当行の抜粋
+}
+
+/**
+ * シーン（本文チャンク）単位の登場回数
+ */
+export interface SceneAppearance {
+  sceneIndex: number; // ファイル内のシーン番号（0 始まり）
+  title: string; // シーンが属する見出し
+  startLine: number;
+  endLine: number;
+  mentions: number;
+}
+
+/**
+ * 章（本文ファイル）単位の登場回数
+ */
+export interface ChapterAppearance {
+  filename: string;
+  mentions: number;
+  scenes: SceneAppearance[]; // 登場したシーンのみ
+}
+
+/**
+ * 同じシーンに登場した他の登場人物
+ */
+export interface CharacterCoOccurrence {
+  name: string;
+  scenes: number; // 同じシーンに登場した回数
+}
+
+/**
+ * 本文全体での登場人物の登場状況
+ */
+export interface CharacterAppearances {
+  character: Character;
+  totalMentions: number;
+  chapters: ChapterAppearance[]; // 登場した章のみ（ファイル名順）
+  firstAppearance?: AppearanceLocation;
+  lastAppearance?: AppearanceLocation;
+  coOccurrences: CharacterCoOccurrence[]; // 共起シーン数の多い順
+}
@@ -0,0 +1,39 @@
+/**
+ * 整合性チェックの対象とする属性
+ */
+export type FactAttribute = 'age' | 'eyeColor' | 'hairColor' | 'title' | 'relationship';
+
+/**
+ * 本文・設定から抽出した属性の記述（行番号は 1 始まり）
+ */
+export interface AttributeFact {
+  entity: string; // 登場人物・場所の正式名
+  attribute: FactAttribute;
+  qualifier?: string; // 肩書きの所属先・関係の相手など、比較の単位となる語
+  value: string;
+  filename: string; // プロジェクトルートからの相対パス
+  line: number;
+  text: string; // 該当行の抜粋
+}
+
+/**
+ * 本文と設定で食い違う記述
+ */
+export interface ConsistencyIssue {
+  entity: string;
+  attribute: FactAttribute;
+  manuscript: AttributeFact;
+  settings: AttributeFact[]; // 食い違う設定側の記述
+}
+
+/**
+ * 整合性チェックの結果
+ */
+export interface ConsistencyReport {
+  filename: string;
+  startLine: number;
+  endLine: number;
+  entities: string[]; // 対象範囲で言及された登場人物・場所
+  settingsSource: 'vector' | 'scan'; // 設定の取得方法（ベクトル検索 / 設定ファイルの走査）
+  issues: ConsistencyIssue[];
+}
@@ -0,0 +1,24 @@
+/**
+ * 診断項目の結果
+ */
+export type DiagnosticStatus = 'pass' | 'warn' | 'fail';
+
+/**
+ * 診断項目
+ */
+export interface DiagnosticCheck {
+  id: string; // 項目の識別子（例: project-root）
+  label: string; // 表示名
+  status: DiagnosticStatus;
+  message: string;
+  hint?: string; // warn / fail の場合の対処方法
+}
+
+/**
+ * 診断結果（status は全項目のうち最も悪い結果）
+ */
+export interface DiagnosticReport {
+  status: DiagnosticStatus;
+  checkedAt: string; // ISO8601
+  checks: DiagnosticCheck[];
+}
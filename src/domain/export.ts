@@ -0,0 +1,76 @@
+/**
+ * 書き出したファイルの置き場所（プロジェクトルートからの相対パス）
+ */
+export const EXPORT_DIRECTORY = 'exports';
+
+/**
+ * 書き出しの形式
+ */
+export type ExportFormat = 'epub' | 'docx';
+
+/**
+ * 書き出しのオプション
+ */
+export interface ExportOptions {
+  format?: ExportFormat; // 省略時は epub
+  vertical?: boolean; // 縦書き（省略時は横書き）
+  ruby?: boolean; // ルビ記法をルビとして表示する（省略時は true、false の場合は親文字のみ）
+  manuscriptGrid?: boolean; // 原稿用紙のように 40字×40行のページ設定にする（docx のみ、省略時は false）
+  filename?: string; // 出力ファイル名（省略時は <小説ID>.<形式>）
+}
+
+/**
+ * 書き出しの結果
+ */
+export interface ExportResult {
+  novelId: string;
+  format: ExportFormat;
+  path: string; // プロジェクトからの相対パス（exports/ 配下）
+  bytes: number;
+  sourceFiles: number; // 読み込んだ本文ファイル数
+  chapters: string[]; // 章タイトル（目次の順）
+}
+
+/**
+ * Web 小説サイトへの投稿用の変換の種類
+ */
+export type WebNovelConversion =
+  | 'heading' // Markdown の見出し記号を取り除いた
+  | 'emphasis' // 《《傍点》》をルビの傍点にした
+  | 'rubyFallback' // 上限を超えるルビを「親文字（読み）」にした
+  | 'parenthesisEscape' // ルビと誤認される「漢字（かな）」を｜で打ち消した
+  | 'indent' // 段落の先頭を字下げした
+  | 'blankLines'; // 連続する空行をまとめた
+
+/**
+ * Web 小説サイト向け書き出しのオプション
+ */
+export interface WebNovelExportOptions {
+  profile: string; // 投稿先（narou / kakuyomu）
+  from?: string; // 最初の本文ファイル（プロジェクトからの相対パスまたはファイル名、省略時は先頭）
+  to?: string; // 最後の本文ファイル（省略時は末尾）
+  maxLength?: number; // 1話の上限文字数（省略時は投稿先の上限）
+}
+
+/**
+ * Web 小説サイト向けに書き出した1話
+ */
+export interface WebNovelEpisodeResult {
+  title: string;
+  sourceFile: string;
+  path: string; // 書き出したテキストファイル（プロジェクトからの相対パス）
+  length: number; // 本文の文字数（改行を除き、ルビ記法を含む）
+  overLimit: boolean; // 上限文字数を超えている
+  conversions: Partial<Record<WebNovelConversion, number>>;
+}
+
+/**
+ * Web 小説サイト向け書き出しの結果
+ */
+export interface WebNovelExportResult {
+  novelId: string;
+  profile: string;
+  profileName: string;
+  maxLength: number;
+  episodes: WebNovelEpisodeResult[];
+}
@@ -0,0 +1,52 @@
+/**
+ * 文字列の検索・置換
+ * 一致件数が expectedMatches と異なる場合は編集しない
+ */
+export interface ReplaceTextOperation {
+  type: 'replace';
+  search: string;
+  replace: string;
+  expectedMatches?: number; // 期待する一致件数（デフォルト: 1）
+}
+
+/**
+ * 行範囲の置換（content を空文字にすると行を削除）
+ */
+export interface ReplaceLinesOperation {
+  type: 'replace_lines';
+  startLine: number; // 1始まり
+  endLine: number; // 1始まり（この行を含む）
+  content: string;
+}
+
+/**
+ * 指定行の直後への挿入（afterLine = 0 でファイル先頭）
+ */
+export interface InsertAfterLineOperation {
+  type: 'insert_after';
+  afterLine: number;
+  content: string;
+}
+
+/**
+ * ファイル末尾への追記
+ */
+export interface AppendOperation {
+  type: 'append';
+  content: string;
+}
+
+export type FileEditOperation =
+  | ReplaceTextOperation
+  | ReplaceLinesOperation
+  | InsertAfterLineOperation
+  | AppendOperation;
+
+export interface FileEditResult {
+  filename: string; // プロジェクトルートからの相対パス
+  filePath: string; // 絶対パス
+  operation: FileEditOperation['type'];
+  replacements?: number; // replace 操作での置換件数
+  lineCountBefore: number;
+  lineCountAfter: number;
+}
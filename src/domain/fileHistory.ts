@@ -0,0 +1,32 @@
+/**
+ * スナップショットを保存した契機
+ */
+export type FileHistoryReason =
+  | 'create'
+  | 'overwrite'
+  | 'edit'
+  | 'rename'
+  | 'move'
+  | 'delete'
+  | 'restore'
+  | 'before-write'; // ツール外での変更を書き込み前に保存
+
+/**
+ * ファイルの保存済みバージョン
+ */
+export interface FileVersion {
+  version: number; // ファイルごとの連番
+  timestamp: string; // ISO8601
+  hash: string; // 内容の SHA-256
+  size: number; // バイト数
+  reason: FileHistoryReason;
+}
+
+/**
+ * バージョン復元結果
+ */
+export interface FileRestoreResult {
+  filename: string; // プロジェクトルートからの相対パス
+  filePath: string; // 絶対パス
+  version: number; // 復元したバージョン
+}
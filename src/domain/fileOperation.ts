@@ -0,0 +1,18 @@
+/**
+ * ファイルのリネーム・移動結果
+ */
+export interface FileMoveResult {
+  oldFilename: string; // プロジェクトルートからの相対パス
+  newFilename: string; // プロジェクトルートからの相対パス
+  oldFilePath: string; // 絶対パス
+  newFilePath: string; // 絶対パス
+}
+
+/**
+ * ファイル削除結果
+ */
+export interface FileDeleteResult {
+  filename: string; // プロジェクトルートからの相対パス
+  filePath: string; // 絶対パス
+  trashPath?: string; // ゴミ箱に移動した場合の移動先（プロジェクトルートからの相対パス）
+}
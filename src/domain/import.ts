@@ -0,0 +1,21 @@
+/**
+ * 取り込みのオプション
+ */
+export interface ImportOptions {
+  directory?: string; // 取り込み先の本文ディレクトリ（省略時は contentDirectories の先頭）
+  overwrite?: boolean; // 同名の本文ファイルを上書きする（省略時は false）
+}
+
+/**
+ * 取り込みの結果
+ */
+export interface ImportResult {
+  novelId: string;
+  source: string; // 取り込んだファイルの絶対パス
+  encoding: 'utf-8' | 'shift_jis';
+  title?: string; // 作品の表題
+  author?: string;
+  directory: string;
+  files: Array<{ filename: string; title?: string }>; // 作成した本文ファイル（プロジェクトからの相対パス）と章見出し
+  unresolvedGaiji: string[]; // 文字にできず 〓 に置き換えた外字の注記
+}
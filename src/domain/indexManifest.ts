@@ -0,0 +1,34 @@
+/**
+ * インデックスの内容を左右する設定
+ * 前回の構築時と異なる場合はインデックス全体を作り直す
+ */
+export interface IndexSignature {
+  embeddingModel: string;
+  chunk: {
+    maxTokens: number;
+    overlap: number;
+    splitStrategy: string;
+  };
+  vectorStore: string; // ベクトルストアの種類とコレクション名（例: qdrant:dialogoi-chunks）
+}
+
+/**
+ * インデックス済みファイルの情報
+ */
+export interface IndexedFileEntry {
+  fileType: 'content' | 'settings';
+  mtimeMs: number;
+  size: number; // バイト数
+  hash: string; // 内容の SHA-256
+  chunkIds: string[];
+}
+
+/**
+ * プロジェクト単位のインデックスマニフェスト（.dialogoi/index/manifest.json）
+ */
+export interface IndexManifest {
+  version: number;
+  signature: IndexSignature;
+  updatedAt: string; // ISO8601
+  files: Record<string, IndexedFileEntry>; // キーは projectRoot からの相対パス（/ 区切り）
+}
@@ -0,0 +1,49 @@
+/**
+ * ベクトルストアの動作モード（QdrantInitializationResult.mode と同じ）
+ */
+export type VectorBackendMode = 'explicit' | 'docker' | 'fallback' | 'local';
+
+/**
+ * インデックス構築の進捗
+ */
+export interface IndexProgress {
+  novelId: string;
+  processedFiles: number;
+  totalFiles: number;
+  currentFile?: string; // 処理を終えたファイル（プロジェクトルートからの相対パス）
+}
+
+/**
+ * インデックス構築（初回構築・再構築・novel.json の変更の反映）の状態
+ */
+export interface IndexBuildStatus {
+  state: 'running' | 'completed' | 'failed';
+  trigger: 'initial' | 'rebuild' | 'refresh';
+  startedAt: string; // ISO8601
+  finishedAt?: string; // ISO8601
+  processedFiles: number;
+  totalFiles: number;
+  error?: string;
+}
+
+/**
+ * 永続化されたインデックスの概要（マニフェストから集計）
+ */
+export interface IndexSummary {
+  indexedFiles: number;
+  chunkCount: number;
+  lastUpdated: string | null; // ISO8601（未構築の場合は null）
+}
+
+/**
+ * 小説プロジェクトのインデックス状態
+ */
+export interface NovelIndexStatus extends IndexSummary {
+  novelId: string;
+  initialized: boolean; // このサーバープロセスで検索可能な状態か
+  build: IndexBuildStatus | null; // 直近のインデックス構築
+  pendingEvents: number; // 反映待ちのファイル変更イベント数
+  fileWatching: boolean;
+  backendMode: VectorBackendMode | null; // ベクトルストア未初期化の場合は null
+  backendAvailable: boolean;
+}
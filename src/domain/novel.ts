@@ -13,8 +13,37 @@ export interface NovelConfig {
   updatedAt?: string;
 }
 
+/**
+ * 新しい小説プロジェクトの設定
+ * ディレクトリ省略時はテンプレートの構成（テンプレートもなければ settings / contents）
+ */
+export interface NovelProjectInput {
+  template?: string; // テンプレートID
+  title: string;
+  author?: string;
+  description?: string;
+  settingsDirectories?: string[];
+  contentDirectories?: string[];
+  instructionFiles?: string[];
+}
+
+/**
+ * novel.json の更新内容（指定したキーのみ更新し、updatedAt は自動で更新）
+ */
+export type NovelConfigUpdate = Partial<Omit<NovelConfig, 'createdAt' | 'updatedAt'>>;
+
 export interface NovelProject {
   id: string; // ディレクトリ名
   path: string; // フルパス
   config: NovelConfig; // novel.json の内容
 }
+
+/**
+ * novel.json の問題（読み込めない、または警告がある）
+ */
+export interface ProjectConfigIssue {
+  id: string; // ディレクトリ名
+  configPath: string; // novel.json のフルパス
+  errors: string[]; // フィールドごとのエラー（空でなければプロジェクトは読み込まれていない）
+  warnings: string[]; // 読み込みには影響しない問題（未知のキーなど）
+}
@@ -0,0 +1,22 @@
+/**
+ * 小説プロジェクトのテンプレート
+ */
+export interface ProjectTemplate {
+  id: string; // テンプレートのディレクトリ名
+  name: string;
+  description?: string;
+  source: 'builtin' | 'user'; // 同じIDの場合はユーザーテンプレートを優先
+  path: string; // テンプレートディレクトリのフルパス
+  settingsDirectories: string[];
+  contentDirectories: string[];
+  instructionFiles?: string[];
+  files: string[]; // 雛形ファイル（テンプレートディレクトリからの相対パス）
+}
+
+/**
+ * テンプレートから生成したファイル
+ */
+export interface RenderedTemplateFile {
+  path: string; // プロジェクトからの相対パス
+  content: string;
+}
@@ -54,6 +54,35 @@ export class ProjectNotFoundError extends ProjectError {
   }
 }
 
+/**
+ * 作成しようとしたプロジェクトが既に存在する場合のエラー
+ */
+export class ProjectAlreadyExistsError extends ProjectError {
+  constructor(projectId: string, context?: Record<string, unknown>) {
+    super(`プロジェクトは既に存在します: ${projectId}`, 'PROJECT_ALREADY_EXISTS', {
+      projectId,
+      ...context,
+    });
+    this.name = 'ProjectAlreadyExistsError';
+    Object.setPrototypeOf(this, ProjectAlreadyExistsError.prototype);
+  }
+}
+
+/**
+ * プロジェクトのテンプレートが見つからない場合のエラー
+ */
+export class ProjectTemplateNotFoundError extends ProjectError {
+  constructor(templateId: string, available: string[], context?: Record<string, unknown>) {
+    super(
+      `テンプレートが見つかりません: ${templateId}（利用可能: ${available.join(', ') || 'なし'}）`,
+      'PROJECT_TEMPLATE_NOT_FOUND',
+      { templateId, available, ...context },
+    );
+    this.name = 'ProjectTemplateNotFoundError';
+    Object.setPrototypeOf(this, ProjectTemplateNotFoundError.prototype);
+  }
+}
+
 /**
  * プロジェクト設定が無効な場合のエラー
  */
@@ -69,6 +98,28 @@ export class InvalidProjectConfigError extends ProjectError {
   }
 }
 
+/**
+ * 登場人物が見つからない場合のエラー
+ */
+export class CharacterNotFoundError extends ProjectError {
+  constructor(
+    projectId: string,
+    name: string,
+    candidates: string[] = [],
+    context?: Record<string, unknown>,
+  ) {
+    const hint = candidates.length > 0 ? `（候補: ${candidates.join('、')}）` : '';
+    super(`登場人物が見つかりません: ${name}${hint}`, 'CHARACTER_NOT_FOUND', {
+      projectId,
+      name,
+      candidates,
+      ...context,
+    });
+    this.name = 'CharacterNotFoundError';
+    Object.setPrototypeOf(this, CharacterNotFoundError.prototype);
+  }
+}
+
 /**
  * インデックス関連エラー
  */
@@ -216,6 +267,51 @@ export class FileWriteError extends FileError {
   }
 }
 
+/**
+ * ファイル編集失敗エラー
+ */
+export class FileEditError extends FileError {
+  constructor(filePath: string, reason: string, context?: Record<string, unknown>) {
+    super(`ファイル編集に失敗しました: ${filePath} - ${reason}`, 'FILE_EDIT_FAILED', {
+      filePath,
+      reason,
+      ...context,
+    });
+    this.name = 'FileEditError';
+    Object.setPrototypeOf(this, FileEditError.prototype);
+  }
+}
+
+/**
+ * ファイル履歴操作失敗エラー
+ */
+export class FileHistoryError extends FileError {
+  constructor(filePath: string, reason: string, context?: Record<string, unknown>) {
+    super(`ファイル履歴の操作に失敗しました: ${filePath} - ${reason}`, 'FILE_HISTORY_FAILED', {
+      filePath,
+      reason,
+      ...context,
+    });
+    this.name = 'FileHistoryError';
+    Object.setPrototypeOf(this, FileHistoryError.prototype);
+  }
+}
+
+/**
+ * 整合性チェック失敗エラー
+ */
+export class ConsistencyCheckError extends FileError {
+  constructor(filePath: string, reason: string, context?: Record<string, unknown>) {
+    super(`整合性チェックに失敗しました: ${filePath} - ${reason}`, 'CONSISTENCY_CHECK_FAILED', {
+      filePath,
+      reason,
+      ...context,
+    });
+    this.name = 'ConsistencyCheckError';
+    Object.setPrototypeOf(this, ConsistencyCheckError.prototype);
+  }
+}
+
 /**
  * 設定関連エラー
  */
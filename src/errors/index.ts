@@ -3,7 +3,10 @@ export {
   DialogoiError,
   ProjectError,
   ProjectNotFoundError,
+  ProjectAlreadyExistsError,
+  ProjectTemplateNotFoundError,
   InvalidProjectConfigError,
+  CharacterNotFoundError,
   IndexingError,
   IndexBuildError,
   IndexUpdateError,
@@ -13,6 +16,9 @@ export {
   FileError,
   FileReadError,
   FileWriteError,
+  FileEditError,
+  FileHistoryError,
+  ConsistencyCheckError,
   ConfigurationError,
   ConfigLoadError,
 } from './DialogoiError.js';
@@ -1,4 +1,4 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import dotenv from 'dotenv';
 import { z } from 'zod';
@@ -6,11 +6,18 @@ import { NovelService } from './services/novelService.js';
 import { FileSystemNovelRepository } from './repositories/FileSystemNovelRepository.js';
 import { IndexerSearchService } from './services/IndexerSearchService.js';
 import { IndexerFileOperationsService } from './services/IndexerFileOperationsService.js';
+import { CharacterService } from './services/CharacterService.js';
+import { DiagnosticsService } from './services/DiagnosticsService.js';
+import { ExportService } from './services/ExportService.js';
+import { ImportService } from './services/ImportService.js';
+import { WEB_NOVEL_PROFILES } from './lib/webNovel.js';
 import { IndexerManager } from './lib/indexerManager.js';
 import path from 'path';
 import { loadConfig } from './lib/config.js';
 import { MarkdownFormatterService } from './services/MarkdownFormatterService.js';
 import { SearchBackendUnavailableError } from './errors/DialogoiError.js';
+import { FileEditOperation } from './domain/fileEdit.js';
+import { createIndexProgressNotifier, ToolRequestExtra } from './lib/progressNotifier.js';
 import { LoggerFactory, getLogger } from './logging/index.js';
 // import { spawn } from 'child_process'; // 新設計では不要
 
@@ -40,11 +47,32 @@ logger.info(
 );
 
 // リファクタリング後のアーキテクチャで各サービスを初期化
-const novelRepository = new FileSystemNovelRepository(baseDir);
+const novelRepository = new FileSystemNovelRepository(baseDir, {
+  history: dialogoiConfig.history,
+  templatesDirectory: path.resolve(baseDir, dialogoiConfig.templates.directory),
+});
 const indexerManager = new IndexerManager(dialogoiConfig);
 const searchService = new IndexerSearchService(novelRepository, indexerManager);
 const fileOperationsService = new IndexerFileOperationsService(novelRepository, indexerManager);
-const novelService = new NovelService(novelRepository, searchService, fileOperationsService);
+const characterService = new CharacterService(novelRepository, {
+  chunk: dialogoiConfig.chunk,
+});
+const novelService = new NovelService(
+  novelRepository,
+  searchService,
+  fileOperationsService,
+  characterService,
+);
+
+const diagnosticsService = new DiagnosticsService(dialogoiConfig, indexerManager);
+const exportService = new ExportService(novelRepository);
+// MCP クライアントからホストの任意のファイルを読めないよう、取り込み元を projectRoot と imports.directory に限る
+const importService = new ImportService(novelRepository, fileOperationsService, {
+  allowedSourceDirectories: [baseDir, path.resolve(baseDir, dialogoiConfig.imports.directory)],
+});
+
+// 設定ファイルの変更を登場人物レジストリに反映
+indexerManager.onFileChange((event) => characterService.handleFileChange(event));
 
 const server = new McpServer({
   name: 'Dialogoi',
@@ -123,6 +151,138 @@ server.registerTool(
   },
 );
 
+// ===== 登場人物 =====
+
+const listCharactersInput = z.object({
+  novelId: z.string().describe('小説のID'),
+});
+
+const getCharacterInput = z.object({
+  novelId: z.string().describe('小説のID'),
+  name: z.string().describe('登場人物の名前・別名・愛称（例: 山田太郎、太郎、主人公）'),
+});
+
+// 登場人物一覧を取得するツール
+server.registerTool(
+  'list_characters',
+  {
+    description:
+      '設定ファイルの「登場人物」「キャラクター」セクションから抽出した登場人物一覧（名前と別名）を取得します',
+    inputSchema: listCharactersInput.shape,
+  },
+  async (params: { novelId: string }) => {
+    try {
+      const characters = await novelService.listCharacters(params.novelId);
+      const result = MarkdownFormatterService.formatCharacterList(params.novelId, characters);
+      return {
+        content: [{ type: 'text' as const, text: result }],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// 登場人物の詳細を取得するツール
+server.registerTool(
+  'get_character',
+  {
+    description:
+      '登場人物の属性（年齢・性格など）と説明を取得します。名前のほか、別名・読み・愛称や名前の一部（例: 太郎）からも正式な登場人物を特定します',
+    inputSchema: getCharacterInput.shape,
+  },
+  async (params: { novelId: string; name: string }) => {
+    try {
+      const match = await novelService.getCharacter(params.novelId, params.name);
+      const result = MarkdownFormatterService.formatCharacter(params.novelId, match);
+      return {
+        content: [{ type: 'text' as const, text: result }],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+const characterAppearancesInput = z.object({
+  novelId: z.string().describe('小説のID'),
+  name: z.string().describe('登場人物の名前・別名・愛称'),
+});
+
+// 登場人物の登場状況を取得するツール
+server.registerTool(
+  'character_appearances',
+  {
+    description:
+      '登場人物が本文のどの章・シーンに何回登場したか、初登場・最終登場の位置（行番号と該当行）、同じシーンに登場した他の人物を取得します。本文中の正式名・別名の記述を数えます',
+    inputSchema: characterAppearancesInput.shape,
+  },
+  async (params: { novelId: string; name: string }) => {
+    try {
+      const appearances = await novelService.getCharacterAppearances(params.novelId, params.name);
+      const result = MarkdownFormatterService.formatCharacterAppearances(
+        params.novelId,
+        appearances,
+      );
+      return {
+        content: [{ type: 'text' as const, text: result }],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+const checkConsistencyInput = z.object({
+  novelId: z.string().describe('小説のID'),
+  filename: z.string().describe('チェックする本文ファイル名（例: contents/chapter_1.txt）'),
+  startLine: z.number().int().min(1).optional().describe('開始行（1始まり、省略時はファイル先頭）'),
+  endLine: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('終了行（この行を含む、省略時はファイル末尾）'),
+});
+
+// 整合性チェックツール
+server.registerTool(
+  'check_consistency',
+  {
+    description:
+      '本文ファイル（または行範囲）に登場する人物・場所について、年齢・瞳や髪の色・肩書き・関係などの記述を設定ファイルと照合し、食い違う箇所を本文と設定の行番号付きで報告します。設定はベクトル検索で取得し、利用できない場合は設定ファイルを走査します',
+    inputSchema: checkConsistencyInput.shape,
+  },
+  async (params: { novelId: string; filename: string; startLine?: number; endLine?: number }) => {
+    try {
+      const report = await novelService.checkConsistency(
+        params.novelId,
+        params.filename,
+        params.startLine,
+        params.endLine,
+      );
+      const result = MarkdownFormatterService.formatConsistencyReport(params.novelId, report);
+      return {
+        content: [{ type: 'text' as const, text: result }],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
 // 統合テキスト検索ツール
 server.registerTool(
   'search_novel_text',
@@ -205,6 +365,49 @@ function getFileTypeLabel(fileType: 'content' | 'settings' | 'both'): string {
 
 const listNovelProjectsInput = z.object({});
 
+const listInvalidProjectsInput = z.object({});
+
+const novelConfigFields = {
+  author: z.string().optional().describe('作者名'),
+  description: z.string().optional().describe('作品の説明'),
+  settingsDirectories: z
+    .array(z.string())
+    .optional()
+    .describe('設定ファイルのディレクトリ（プロジェクトからの相対パス）'),
+  contentDirectories: z
+    .array(z.string())
+    .optional()
+    .describe('本文ファイルのディレクトリ（プロジェクトからの相対パス）'),
+  instructionFiles: z
+    .array(z.string())
+    .optional()
+    .describe('生成 AI に渡す追加指示ファイル（省略時は DIALOGOI.md）'),
+};
+
+const listProjectTemplatesInput = z.object({});
+
+const createNovelProjectInput = z.object({
+  novelId: z.string().describe('新しい小説のID（プロジェクトルート直下のディレクトリ名になる）'),
+  title: z.string().describe('作品タイトル'),
+  template: z
+    .string()
+    .optional()
+    .describe(
+      'テンプレートID（list_project_templates で確認、例: mystery / fantasy_serial / short_story）。settingsDirectories / contentDirectories を指定した場合、雛形ファイルはテンプレートの n 番目のディレクトリから指定した n 番目（足りない場合は先頭）のディレクトリに作成する',
+    ),
+  ...novelConfigFields,
+});
+
+type CreateNovelProjectParams = z.infer<typeof createNovelProjectInput>;
+
+const updateNovelConfigInput = z.object({
+  novelId: z.string().describe('小説のID'),
+  title: z.string().optional().describe('作品タイトル'),
+  ...novelConfigFields,
+});
+
+type UpdateNovelConfigParams = z.infer<typeof updateNovelConfigInput>;
+
 const listNovelContentInput = z.object({
   novelId: z.string().describe('小説のID'),
 });
@@ -212,8 +415,16 @@ const listNovelContentInput = z.object({
 const getNovelContentInput = z.object({
   novelId: z.string().describe('小説のID'),
   filename: z.string().optional().describe('本文ファイル名（省略時は全ファイル結合）'),
+  ruby: z
+    .enum(['preserve', 'strip'])
+    .optional()
+    .describe(
+      'ルビ記法（｜漢字《かんじ》）の扱い。preserve: そのまま返す（デフォルト）、strip: 親文字のみにする',
+    ),
 });
 
+type GetNovelContentParams = z.infer<typeof getNovelContentInput>;
+
 const addNovelSettingInput = z.object({
   novelId: z.string().describe('小説のID'),
   directory: z.string().describe('設定ディレクトリ名'),
@@ -230,6 +441,139 @@ const addNovelContentInput = z.object({
   overwrite: z.boolean().optional().describe('既存ファイルを上書きするか（デフォルト: false）'),
 });
 
+const editNovelFileInput = z.object({
+  novelId: z.string().describe('小説のID'),
+  filename: z
+    .string()
+    .describe('編集するファイルのパス（プロジェクトからの相対パス、例: contents/chapter_1.txt）'),
+  operation: z
+    .enum(['replace', 'replace_lines', 'insert_after', 'append'])
+    .describe(
+      '編集操作 (replace: 文字列置換, replace_lines: 行範囲置換, insert_after: 指定行の後に挿入, append: 末尾に追記)',
+    ),
+  search: z.string().optional().describe('replace: 検索する文字列（完全一致）'),
+  replace: z.string().optional().describe('replace: 置換後の文字列'),
+  expectedMatches: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('replace: 期待する一致件数。実際の件数と異なる場合は編集しません（デフォルト: 1）'),
+  startLine: z.number().int().min(1).optional().describe('replace_lines: 開始行（1始まり）'),
+  endLine: z.number().int().min(1).optional().describe('replace_lines: 終了行（この行を含む）'),
+  afterLine: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('insert_after: この行の後に挿入（0でファイル先頭）'),
+  content: z
+    .string()
+    .optional()
+    .describe('replace_lines / insert_after / append: 書き込むテキスト'),
+});
+
+type EditNovelFileParams = z.infer<typeof editNovelFileInput>;
+
+const renameNovelFileInput = z.object({
+  novelId: z.string().describe('小説のID'),
+  filename: z
+    .string()
+    .describe(
+      'リネームするファイルのパス（プロジェクトからの相対パス、例: contents/chapter_2.txt）',
+    ),
+  newName: z.string().describe('新しいファイル名（.md または .txt、ディレクトリは変更されません）'),
+});
+
+const moveNovelFileInput = z.object({
+  novelId: z.string().describe('小説のID'),
+  filename: z
+    .string()
+    .describe('移動するファイルのパス（プロジェクトからの相対パス、例: settings/old_world.md）'),
+  targetDirectory: z
+    .string()
+    .describe('移動先ディレクトリ名（novel.json の settingsDirectories / contentDirectories）'),
+});
+
+const deleteNovelFileInput = z.object({
+  novelId: z.string().describe('小説のID'),
+  filename: z
+    .string()
+    .describe('削除するファイルのパス（プロジェクトからの相対パス、例: contents/draft.txt）'),
+  useTrash: z
+    .boolean()
+    .optional()
+    .describe(
+      'true の場合は完全削除せずプロジェクト内のゴミ箱（.dialogoi/trash）へ移動（デフォルト: true）',
+    ),
+});
+
+const listFileHistoryInput = z.object({
+  novelId: z.string().describe('小説のID'),
+  filename: z
+    .string()
+    .describe(
+      '履歴を確認するファイルのパス（プロジェクトからの相対パス、例: contents/chapter_1.txt）',
+    ),
+});
+
+const diffFileVersionsInput = z.object({
+  novelId: z.string().describe('小説のID'),
+  filename: z.string().describe('ファイルのパス（プロジェクトからの相対パス）'),
+  fromVersion: z.number().int().min(1).describe('比較元のバージョン番号'),
+  toVersion: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('比較先のバージョン番号（省略時は現在のファイル内容）'),
+});
+
+const restoreFileVersionInput = z.object({
+  novelId: z.string().describe('小説のID'),
+  filename: z
+    .string()
+    .describe('復元するファイルのパス（プロジェクトからの相対パス、削除済みのファイルも指定可能）'),
+  version: z.number().int().min(1).describe('復元するバージョン番号'),
+});
+
+/**
+ * edit_novel_file の入力を編集操作に変換
+ */
+function toFileEditOperation(params: EditNovelFileParams): FileEditOperation {
+  const requireParam = <T>(value: T | undefined, name: string): T => {
+    if (value === undefined) {
+      throw new Error(`${params.operation} 操作には ${name} の指定が必要です`);
+    }
+    return value;
+  };
+
+  switch (params.operation) {
+    case 'replace':
+      return {
+        type: 'replace',
+        search: requireParam(params.search, 'search'),
+        replace: requireParam(params.replace, 'replace'),
+        expectedMatches: params.expectedMatches,
+      };
+    case 'replace_lines':
+      return {
+        type: 'replace_lines',
+        startLine: requireParam(params.startLine, 'startLine'),
+        endLine: params.endLine ?? requireParam(params.startLine, 'startLine'),
+        content: requireParam(params.content, 'content'),
+      };
+    case 'insert_after':
+      return {
+        type: 'insert_after',
+        afterLine: requireParam(params.afterLine, 'afterLine'),
+        content: requireParam(params.content, 'content'),
+      };
+    case 'append':
+      return { type: 'append', content: requireParam(params.content, 'content') };
+  }
+}
+
 // ===== 指示ファイル =====
 
 const listNovelInstructionsInput = z.object({
@@ -263,7 +607,14 @@ server.registerTool(
   async () => {
     try {
       const projects = await novelService.listNovelProjects();
-      const result = MarkdownFormatterService.formatProjectList(projects);
+      const invalidCount = (await novelService.listInvalidProjects()).filter(
+        (issue) => issue.errors.length > 0,
+      ).length;
+      const result =
+        MarkdownFormatterService.formatProjectList(projects) +
+        (invalidCount > 0
+          ? `\n\n⚠️ novel.json が不正なため読み込めないプロジェクトが ${invalidCount} 件あります（list_invalid_projects で確認できます）`
+          : '');
 
       return {
         content: [{ type: 'text' as const, text: result }],
@@ -277,6 +628,123 @@ server.registerTool(
   },
 );
 
+// novel.json に問題のあるプロジェクト一覧を取得するツール
+server.registerTool(
+  'list_invalid_projects',
+  {
+    description:
+      'novel.json が不正で読み込めないプロジェクトと、未知のキーなど警告のあるプロジェクトをフィールド単位のエラーとともに一覧します',
+    inputSchema: listInvalidProjectsInput.shape,
+  },
+  async () => {
+    try {
+      const issues = await novelService.listInvalidProjects();
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: MarkdownFormatterService.formatProjectConfigIssues(issues),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// プロジェクトのテンプレート一覧を取得するツール
+server.registerTool(
+  'list_project_templates',
+  {
+    description:
+      'create_novel_project で使えるテンプレート（組み込み・ユーザーテンプレート）の一覧と、ディレクトリ構成・雛形ファイルを取得します',
+    inputSchema: listProjectTemplatesInput.shape,
+  },
+  async () => {
+    try {
+      const templates = await novelService.listProjectTemplates();
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: MarkdownFormatterService.formatProjectTemplates(templates),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// 小説プロジェクトを作成するツール
+server.registerTool(
+  'create_novel_project',
+  {
+    description:
+      '新しい小説プロジェクトを作成します。novel.json を検証して書き込み、設定・本文ディレクトリと指示ファイル DIALOGOI.md の雛形を作成します。テンプレートを指定すると、そのディレクトリ構成と雛形ファイル（登場人物・世界観・プロット・本文）を {{title}} などを置換して作成します',
+    inputSchema: createNovelProjectInput.shape,
+  },
+  async (params: CreateNovelProjectParams) => {
+    try {
+      const { novelId, ...input } = params;
+      const project = await novelService.createNovelProject(novelId, input);
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: MarkdownFormatterService.formatNovelConfig(
+              '小説プロジェクトを作成しました',
+              project,
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// novel.json を更新するツール
+server.registerTool(
+  'update_novel_config',
+  {
+    description:
+      '小説プロジェクトの novel.json を更新します。指定したキーのみ変更し、updatedAt は自動で更新します。追加したディレクトリは作成され、ディレクトリを変更した場合は検索インデックスを再構築します。不正な novel.json の修正にも使えます',
+    inputSchema: updateNovelConfigInput.shape,
+  },
+  async (params: UpdateNovelConfigParams) => {
+    try {
+      const { novelId, ...changes } = params;
+      const project = await novelService.updateNovelConfig(novelId, changes);
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: MarkdownFormatterService.formatNovelConfig('novel.json を更新しました', project),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
 // 小説の本文ファイル一覧を取得するツール
 server.registerTool(
   'list_novel_content',
@@ -310,12 +778,14 @@ server.registerTool(
   'get_novel_content',
   {
     description:
-      '小説の本文を取得します（.txt または .md ファイル）。filenameを指定すると特定のファイルを取得します',
+      '小説の本文を取得します（.txt または .md ファイル）。filenameを指定すると特定のファイルを取得します。ruby: strip でルビ記法を取り除いた本文を返します',
     inputSchema: getNovelContentInput.shape,
   },
-  async (params: { novelId: string; filename?: string }) => {
+  async (params: GetNovelContentParams) => {
     try {
-      const content = await novelService.getNovelContent(params.novelId, params.filename);
+      const content = await novelService.getNovelContent(params.novelId, params.filename, {
+        ruby: params.ruby,
+      });
       return {
         content: [{ type: 'text' as const, text: content }],
       };
@@ -408,15 +878,259 @@ server.registerTool(
   },
 );
 
-// 指示ファイル一覧を取得
+// 既存ファイルを部分編集するツール
 server.registerTool(
-  'list_novel_instructions',
+  'edit_novel_file',
   {
     description:
-      '[必須:最初に実行] 小説プロジェクトのガイドライン(DIALOGOI.md など)を確認するためのツールです。指示ファイル一覧と各ファイルの先頭3行を取得します。',
-    inputSchema: listNovelInstructionsInput.shape,
+      '既存の設定ファイル・本文ファイルを部分的に編集します。文字列置換（一致件数チェック付き）、行範囲の置換、指定行の後への挿入、末尾への追記に対応しており、ファイル全体を送り直さずに修正できます。編集後は検索インデックスも自動更新されます。',
+    inputSchema: editNovelFileInput.shape,
   },
-  async (params: { novelId: string }) => {
+  async (params: EditNovelFileParams) => {
+    try {
+      const operation = toFileEditOperation(params);
+      const result = await novelService.editNovelFile(params.novelId, params.filename, operation);
+
+      const details =
+        result.replacements !== undefined
+          ? `${result.replacements}箇所を置換`
+          : `行数: ${result.lineCountBefore} → ${result.lineCountAfter}`;
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `ファイル '${result.filename}' を編集しました（${result.operation}: ${details}）。`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// ファイルをリネームするツール
+server.registerTool(
+  'rename_novel_file',
+  {
+    description:
+      '設定ファイル・本文ファイルを同じディレクトリ内でリネームします。検索インデックスも新しいファイル名で更新されます。',
+    inputSchema: renameNovelFileInput.shape,
+  },
+  async (params: { novelId: string; filename: string; newName: string }) => {
+    try {
+      const result = await novelService.renameNovelFile(
+        params.novelId,
+        params.filename,
+        params.newName,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `ファイル '${result.oldFilename}' を '${result.newFilename}' にリネームしました。`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// ファイルを移動するツール
+server.registerTool(
+  'move_novel_file',
+  {
+    description:
+      '設定ファイル・本文ファイルを別の設定・本文ディレクトリへ移動します。移動先は novel.json で設定されたディレクトリに限られます。検索インデックスも新しいパスで更新されます。',
+    inputSchema: moveNovelFileInput.shape,
+  },
+  async (params: { novelId: string; filename: string; targetDirectory: string }) => {
+    try {
+      const result = await novelService.moveNovelFile(
+        params.novelId,
+        params.filename,
+        params.targetDirectory,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `ファイル '${result.oldFilename}' を '${result.newFilename}' に移動しました。`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// ファイルを削除するツール
+server.registerTool(
+  'delete_novel_file',
+  {
+    description:
+      '設定ファイル・本文ファイルを削除します。デフォルトではプロジェクト内のゴミ箱（.dialogoi/trash）へ移動するため、後から復元できます。検索インデックスからも削除されます。',
+    inputSchema: deleteNovelFileInput.shape,
+  },
+  async (params: { novelId: string; filename: string; useTrash?: boolean }) => {
+    try {
+      const result = await novelService.deleteNovelFile(
+        params.novelId,
+        params.filename,
+        params.useTrash ?? true,
+      );
+
+      const text = result.trashPath
+        ? `ファイル '${result.filename}' をゴミ箱 '${result.trashPath}' に移動しました。`
+        : `ファイル '${result.filename}' を削除しました。`;
+
+      return {
+        content: [{ type: 'text' as const, text }],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// ファイル履歴一覧を取得するツール
+server.registerTool(
+  'list_file_history',
+  {
+    description:
+      '設定ファイル・本文ファイルの保存済みバージョン一覧を取得します。作成・上書き・編集・リネーム・移動・削除のたびに .dialogoi/history へ自動保存されたスナップショットが対象です。',
+    inputSchema: listFileHistoryInput.shape,
+  },
+  async (params: { novelId: string; filename: string }) => {
+    try {
+      const versions = await novelService.listFileHistory(params.novelId, params.filename);
+      if (versions.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `ファイル '${params.filename}' の履歴はありません。`,
+            },
+          ],
+        };
+      }
+
+      const lines = [...versions]
+        .reverse()
+        .map(
+          (v) =>
+            `- v${v.version}: ${v.timestamp} (${v.reason}, ${v.size} bytes, ${v.hash.substring(0, 12)})`,
+        );
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `# ファイル履歴: ${params.filename}\n\n${lines.join('\n')}`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// バージョン間の差分を取得するツール
+server.registerTool(
+  'diff_file_versions',
+  {
+    description:
+      'ファイルの2つのバージョン間の差分を unified diff 形式で取得します。toVersion を省略すると現在のファイル内容と比較します。',
+    inputSchema: diffFileVersionsInput.shape,
+  },
+  async (params: {
+    novelId: string;
+    filename: string;
+    fromVersion: number;
+    toVersion?: number;
+  }) => {
+    try {
+      const diff = await novelService.diffFileVersions(
+        params.novelId,
+        params.filename,
+        params.fromVersion,
+        params.toVersion,
+      );
+      const text = diff === '' ? '差分はありません。' : `\`\`\`diff\n${diff}\n\`\`\``;
+      return {
+        content: [{ type: 'text' as const, text }],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// 指定バージョンを復元するツール
+server.registerTool(
+  'restore_file_version',
+  {
+    description:
+      'ファイルを履歴の指定バージョンの内容に戻します。削除済みのファイルも復元できます。復元前の内容も履歴に保存され、検索インデックスも更新されます。',
+    inputSchema: restoreFileVersionInput.shape,
+  },
+  async (params: { novelId: string; filename: string; version: number }) => {
+    try {
+      const result = await novelService.restoreFileVersion(
+        params.novelId,
+        params.filename,
+        params.version,
+      );
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `ファイル '${result.filename}' をバージョン ${result.version} の内容に復元しました。`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// 指示ファイル一覧を取得
+server.registerTool(
+  'list_novel_instructions',
+  {
+    description:
+      '[必須:最初に実行] 小説プロジェクトのガイドライン(DIALOGOI.md など)を確認するためのツールです。指示ファイル一覧と各ファイルの先頭3行を取得します。',
+    inputSchema: listNovelInstructionsInput.shape,
+  },
+  async (params: { novelId: string }) => {
     try {
       const list = await novelService.listNovelInstructions(params.novelId);
       if (list.length === 0) {
@@ -469,12 +1183,15 @@ server.registerTool(
       'プロジェクト全体から関連テキストチャンクを検索します（RAG検索）。multilingual-e5-smallモデルによる意味的類似度検索で、自然言語クエリから関連コンテンツを発見します。ファイルタイプ別フィルタリング（本文/設定/両方）、Qdrant側フィルタリングによる高速検索、LLMプロンプトに最適化されたMarkdown形式での結果出力を提供します。',
     inputSchema: searchRagInput.shape,
   },
-  async (params: {
-    novelId: string;
-    query: string;
-    k?: number;
-    fileType?: 'content' | 'settings' | 'both';
-  }) => {
+  async (
+    params: {
+      novelId: string;
+      query: string;
+      k?: number;
+      fileType?: 'content' | 'settings' | 'both';
+    },
+    extra: ToolRequestExtra,
+  ) => {
     try {
       const k = params.k || dialogoiConfig.search.defaultK;
       const maxK = dialogoiConfig.search.maxK;
@@ -492,6 +1209,7 @@ server.registerTool(
         params.query,
         limitedK,
         fileType,
+        createIndexProgressNotifier(extra),
       );
 
       if (searchResults.length === 0) {
@@ -542,6 +1260,7 @@ server.registerTool(
                 `**対処方法:**\n` +
                 `• Qdrantサーバーが起動していることを確認してください\n` +
                 `• 設定ファイルの接続情報が正しいことを確認してください\n` +
+                `• Dockerを利用できない場合は \`vector.backend\` を \`local\` に設定してください\n` +
                 `• 代わりに \`search_settings_files\` または \`search_content_files\` ツールをお試しください（キーワード検索）`,
             },
           ],
@@ -557,6 +1276,425 @@ server.registerTool(
   },
 );
 
+// ハイブリッド検索ツール
+server.registerTool(
+  'search_hybrid',
+  {
+    description:
+      'BM25キーワード検索とRAG検索（意味的類似度検索）を組み合わせたハイブリッド検索を実行します。両方の検索結果をReciprocal Rank Fusionで統合するため、造語のキャラクター名や固有名詞など埋め込みで捉えにくい語句と、自然言語による曖昧なクエリの両方に強い検索が可能です。結果には統合スコアに加えてベクトル・キーワードそれぞれのスコアが表示されます。',
+    inputSchema: searchRagInput.shape,
+  },
+  async (
+    params: {
+      novelId: string;
+      query: string;
+      k?: number;
+      fileType?: 'content' | 'settings' | 'both';
+    },
+    extra: ToolRequestExtra,
+  ) => {
+    try {
+      const k = params.k || dialogoiConfig.search.defaultK;
+      const limitedK = Math.min(k, dialogoiConfig.search.maxK);
+      const fileType = params.fileType || 'both';
+
+      logger.info(
+        `🔍 ハイブリッド検索実行: novelId="${params.novelId}", query="${params.query}", k=${limitedK}, fileType=${fileType}`,
+      );
+
+      const searchResults = await novelService.searchHybrid(
+        params.novelId,
+        params.query,
+        limitedK,
+        fileType,
+        createIndexProgressNotifier(extra),
+      );
+
+      if (searchResults.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `クエリ「${params.query}」に一致するコンテンツが見つかりませんでした。\n\n別のキーワードをお試しください。`,
+            },
+          ],
+        };
+      }
+
+      logger.info(`✅ ハイブリッド検索完了: ${searchResults.length}件の結果`);
+
+      const formatScore = (score?: number) => (score === undefined ? '-' : score.toFixed(3));
+      const formattedResults = searchResults
+        .map((result, index) => {
+          const header =
+            `**結果 ${index + 1}** (統合スコア: ${result.score.toFixed(3)}, ` +
+            `ベクトル: ${formatScore(result.scores?.vector)}, ` +
+            `キーワード: ${formatScore(result.scores?.keyword)}, ファイル: ${result.payload.file})`;
+          const tags =
+            result.payload.tags && result.payload.tags.length > 0
+              ? `\n*タグ: ${result.payload.tags.join(', ')}*`
+              : '';
+
+          return `${header}${tags}\n> ${result.snippet.replace(/\n/g, '\n> ')}`;
+        })
+        .join('\n\n');
+
+      const summary = `## ハイブリッド検索結果\n\n**クエリ:** ${params.query}\n**結果数:** ${searchResults.length}/${limitedK}\n\n${formattedResults}`;
+
+      return {
+        content: [{ type: 'text' as const, text: summary }],
+      };
+    } catch (error) {
+      logger.error('❌ ハイブリッド検索エラー', error instanceof Error ? error : undefined);
+
+      if (error instanceof SearchBackendUnavailableError) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text:
+                `## ハイブリッド検索が利用できません\n\nクエリ: **${params.query}**\n\n` +
+                `**理由:** ${error.context?.error || 'Qdrantベクターデータベースに接続できません'}\n\n` +
+                `**対処方法:**\n` +
+                `• Dockerを利用できない場合は \`vector.backend\` を \`local\` に設定してください\n` +
+                `• 代わりに \`search_novel_text\` ツールをお試しください（キーワード検索）`,
+            },
+          ],
+        };
+      }
+
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `ハイブリッド検索エラー: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// ===== インデックス管理 =====
+
+const indexNovelInput = z.object({
+  novelId: z.string().describe('小説のID'),
+});
+
+// インデックスの状態を取得するツール
+server.registerTool(
+  'get_index_status',
+  {
+    description:
+      '小説プロジェクトの検索インデックスの状態（インデックス済みファイル数、チャンク数、最終更新日時、反映待ちのファイル変更、ベクトルストアの動作モード、構築の進捗）を取得します',
+    inputSchema: indexNovelInput.shape,
+  },
+  async (params: { novelId: string }) => {
+    try {
+      const status = await novelService.getIndexStatus(params.novelId);
+      return {
+        content: [
+          { type: 'text' as const, text: MarkdownFormatterService.formatIndexStatus(status) },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// インデックスを再構築するツール
+server.registerTool(
+  'rebuild_index',
+  {
+    description:
+      '小説プロジェクトの検索インデックスを削除してバックグラウンドで再構築します。進捗は get_index_status で確認できます',
+    inputSchema: indexNovelInput.shape,
+  },
+  async (params: { novelId: string }) => {
+    try {
+      const build = await novelService.rebuildIndex(params.novelId);
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `インデックスの再構築を開始しました: ${params.novelId}\n\n${MarkdownFormatterService.formatIndexBuild(build)}`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// インデックスを削除するツール
+server.registerTool(
+  'clear_index',
+  {
+    description:
+      '小説プロジェクトの検索インデックス（ベクトル・キーワード・マニフェスト）を削除します。次回の検索時に再構築されます',
+    inputSchema: indexNovelInput.shape,
+  },
+  async (params: { novelId: string }) => {
+    try {
+      await novelService.clearIndex(params.novelId);
+      return {
+        content: [{ type: 'text' as const, text: `インデックスを削除しました: ${params.novelId}` }],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// ===== 書き出し =====
+
+const exportNovelInput = z.object({
+  novelId: z.string().describe('小説のID'),
+  format: z
+    .enum(['epub', 'docx'])
+    .optional()
+    .describe('書き出す形式。epub: EPUB 3、docx: Word 文書（デフォルト: epub）'),
+  vertical: z
+    .boolean()
+    .optional()
+    .describe(
+      '縦書き（EPUB は writing-mode: vertical-rl・右綴じ、docx は A4 横向きの縦書き）にするかどうか（デフォルト: false）',
+    ),
+  ruby: z
+    .boolean()
+    .optional()
+    .describe(
+      'ルビ記法（｜漢字《かんじ》）をルビとして表示するかどうか。false の場合は親文字のみ（デフォルト: true）',
+    ),
+  manuscriptGrid: z
+    .boolean()
+    .optional()
+    .describe(
+      '原稿用紙のように 40字×40行のページ設定にするかどうか（docx のみ、デフォルト: false）',
+    ),
+  filename: z
+    .string()
+    .optional()
+    .describe('出力ファイル名（exports/ に保存、デフォルト: <小説ID>.<形式>）'),
+});
+
+type ExportNovelParams = z.infer<typeof exportNovelInput>;
+
+// 本文ディレクトリの原稿を EPUB・Word 文書に書き出すツール
+server.registerTool(
+  'export_novel',
+  {
+    description:
+      '本文ディレクトリのファイルを順番に結合し、Markdown の見出しを章とする EPUB 3（目次・縦書き・ルビ対応）または Word 文書（見出しスタイル・縦書き・ルビ・原稿用紙のページ設定に対応）をプロジェクトの exports/ に書き出します。本文ファイルは変更しません',
+    inputSchema: exportNovelInput.shape,
+  },
+  async (params: ExportNovelParams) => {
+    try {
+      const result = await exportService.exportNovel(params.novelId, {
+        format: params.format,
+        vertical: params.vertical,
+        ruby: params.ruby,
+        manuscriptGrid: params.manuscriptGrid,
+        filename: params.filename,
+      });
+      return {
+        content: [
+          { type: 'text' as const, text: MarkdownFormatterService.formatExportResult(result) },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+const exportWebNovelInput = z.object({
+  novelId: z.string().describe('小説のID'),
+  profile: z
+    .enum(Object.keys(WEB_NOVEL_PROFILES) as [string, ...string[]])
+    .describe('投稿先（narou: 小説家になろう、kakuyomu: カクヨム）'),
+  from: z
+    .string()
+    .optional()
+    .describe('書き出す最初の本文ファイル（相対パスまたはファイル名、デフォルト: 先頭）'),
+  to: z
+    .string()
+    .optional()
+    .describe('書き出す最後の本文ファイル（相対パスまたはファイル名、デフォルト: 末尾）'),
+  maxLength: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('1話の上限文字数（デフォルト: 投稿先の上限）'),
+});
+
+type ExportWebNovelParams = z.infer<typeof exportWebNovelInput>;
+
+// Web 小説サイトへの投稿用テキストを書き出すツール
+server.registerTool(
+  'export_web_novel',
+  {
+    description:
+      '本文ファイル（from〜to の範囲）を章ごとに Web 小説サイトへ貼り付けられるテキストにして、プロジェクトの exports/ に書き出します。投稿先に合わせてルビ・《《傍点》》・字下げ・空行を変換し、1話の文字数が上限を超えていないか確認して、適用した変換を報告します。本文ファイルは変更しません',
+    inputSchema: exportWebNovelInput.shape,
+  },
+  async (params: ExportWebNovelParams) => {
+    try {
+      const result = await exportService.exportWebNovel(params.novelId, {
+        profile: params.profile,
+        from: params.from,
+        to: params.to,
+        maxLength: params.maxLength,
+      });
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: MarkdownFormatterService.formatWebNovelExportResult(result),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// ===== 取り込み =====
+
+const importAozoraInput = z.object({
+  novelId: z.string().describe('取り込み先の小説のID'),
+  sourcePath: z
+    .string()
+    .describe(
+      '青空文庫形式のテキストファイルのパス（Shift_JIS または UTF-8、相対パスはサーバーの作業ディレクトリから）。projectRoot または imports.directory 配下のファイルのみ',
+    ),
+  directory: z
+    .string()
+    .optional()
+    .describe('取り込み先の本文ディレクトリ（contentDirectories のいずれか、デフォルト: 先頭）'),
+  overwrite: z
+    .boolean()
+    .optional()
+    .describe('同名の本文ファイルを上書きするかどうか（デフォルト: false）'),
+});
+
+type ImportAozoraParams = z.infer<typeof importAozoraInput>;
+
+// 青空文庫形式のテキストを本文ファイルとして取り込むツール
+server.registerTool(
+  'import_aozora',
+  {
+    description:
+      '青空文庫形式のテキスト（表題・著者、［＃改ページ］、［＃「…」は中見出し］などの注記、《》ルビ）を章ごとの Markdown の本文ファイルに変換して取り込みます。記号の説明と奥付は取り除き、取り込んだ本文は検索インデックスに追加されます',
+    inputSchema: importAozoraInput.shape,
+  },
+  async (params: ImportAozoraParams) => {
+    try {
+      const result = await importService.importAozora(params.novelId, params.sourcePath, {
+        directory: params.directory,
+        overwrite: params.overwrite,
+      });
+      return {
+        content: [
+          { type: 'text' as const, text: MarkdownFormatterService.formatImportResult(result) },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// ===== 診断 =====
+
+const doctorInput = z.object({});
+
+// 環境・設定・プロジェクトの状態を診断するツール
+server.registerTool(
+  'doctor',
+  {
+    description:
+      '実行環境・設定・小説プロジェクトの状態を診断します（設定値、novel.json、ディレクトリ、Qdrant、Docker、埋め込みモデル、ファイル監視）。問題があれば対処方法を示します',
+    inputSchema: doctorInput.shape,
+  },
+  async () => {
+    try {
+      const report = await diagnosticsService.run({ checkFileWatcher: true });
+      return {
+        content: [
+          { type: 'text' as const, text: MarkdownFormatterService.formatDiagnosticReport(report) },
+        ],
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${errorMsg}` }],
+      };
+    }
+  },
+);
+
+// ===== リソース =====
+
+// 小説プロジェクトごとの novel.json をリソースとして公開する
+// プロジェクトの追加・削除はファイル監視で検知し、notifications/resources/list_changed で通知する
+server.registerResource(
+  'novel-project',
+  new ResourceTemplate('dialogoi://projects/{novelId}', {
+    list: async () => ({
+      resources: (await novelService.listNovelProjects()).map((project) => ({
+        uri: `dialogoi://projects/${encodeURIComponent(project.id)}`,
+        name: project.title,
+        description: project.description,
+        mimeType: 'text/markdown',
+      })),
+    }),
+  }),
+  {
+    description: '小説プロジェクトの設定（novel.json）',
+    mimeType: 'text/markdown',
+  },
+  async (uri, { novelId }) => {
+    const project = await novelService.getNovelProject(
+      decodeURIComponent(Array.isArray(novelId) ? novelId[0] : novelId),
+    );
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'text/markdown',
+          text: MarkdownFormatterService.formatNovelConfig(project.config.title, project),
+        },
+      ],
+    };
+  },
+);
+
+// novel.json の追加・変更・削除をプロジェクト一覧・登場人物レジストリに反映し、クライアントに通知
+indexerManager.onProjectChange(async (event) => {
+  characterService.handleProjectChange(event);
+  await novelService.refreshProject(event.novelId);
+  server.sendResourceListChanged();
+});
+
 // 非同期初期化処理を実行する関数
 const executeInitialization = async (): Promise<void> => {
   // NovelService内でIndexerManagerが初期化済み（各小説プロジェクトのIndexerは最初のリクエスト時に作成）
@@ -5,16 +5,31 @@ import { Indexer } from './indexer.js';
 import { DialogoiConfig } from './lib/config.js';
 import { findFilesRecursively } from './utils/fileUtils.js';
 import { FileSystemNovelRepository } from './repositories/FileSystemNovelRepository.js';
+import { IndexManifestStore } from './repositories/IndexManifestStore.js';
+import { IndexManifest } from './domain/indexManifest.js';
+import { VectorBackend } from './backends/VectorBackend.js';
+import { KeywordBackend } from './backends/KeywordBackend.js';
 import { getLogger, type Logger } from './logging/index.js';
 
 // モックの設定
 vi.mock('fs/promises');
 vi.mock('./utils/fileUtils.js');
 vi.mock('./backends/VectorBackend.js');
+vi.mock('./backends/KeywordBackend.js');
 vi.mock('./services/TransformersEmbeddingService.js');
 vi.mock('./repositories/QdrantVectorRepository.js');
 vi.mock('./repositories/FileSystemNovelRepository.js');
 vi.mock('./logging/index.js');
+// 1文字を1トークンとして数えるトークナイザー
+vi.mock('@huggingface/transformers', () => ({
+  pipeline: vi.fn(),
+  AutoTokenizer: {
+    from_pretrained: vi.fn(async () => ({
+      encode: (text: string) => Array.from(text),
+      model_max_length: 512,
+    })),
+  },
+}));
 
 describe('Indexer', () => {
   let indexer: Indexer;
@@ -53,6 +68,7 @@ describe('Indexer', () => {
       chunk: {
         maxTokens: 400,
         overlap: 50,
+        splitStrategy: 'japanese',
       },
       embedding: {
         enabled: true,
@@ -60,6 +76,12 @@ describe('Indexer', () => {
         dimensions: 384,
         batchSize: 32,
       },
+      embeddingCache: {
+        enabled: false,
+        directory: '.dialogoi/embedding-cache',
+        maxEntries: 20000,
+        maxAgeDays: 30,
+      },
       qdrant: {
         url: 'http://localhost:6333',
         collection: 'test-collection',
@@ -79,15 +101,31 @@ describe('Indexer', () => {
         },
       },
       vector: {
+        backend: 'qdrant',
         collectionName: 'test-collection',
         scoreThreshold: 0.7,
         vectorDimensions: 384,
         snippetLength: 120,
       },
+      localVector: {
+        directory: '.dialogoi/vectors',
+        fallback: false,
+      },
       search: {
         defaultK: 10,
         maxK: 50,
       },
+      history: {
+        enabled: true,
+        maxVersionsPerFile: 50,
+        maxAgeDays: 90,
+      },
+      templates: {
+        directory: '.dialogoi/templates',
+      },
+      imports: {
+        directory: '.dialogoi/imports',
+      },
     };
 
     // NovelRepositoryのモックを設定
@@ -181,6 +219,144 @@ describe('Indexer', () => {
     });
   });
 
+  describe('インデックスマニフェスト', () => {
+    const setupFiles = (files: Record<string, string>) => {
+      vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => true } as Stats);
+      vi.mocked(findFilesRecursively).mockImplementation(async (dirPath) =>
+        Object.keys(files).filter((filePath) => filePath.startsWith(dirPath)),
+      );
+      vi.mocked(fs.readFile).mockImplementation(async (filePath) => files[filePath.toString()]);
+    };
+
+    // 1回目の構築で保存されたマニフェストを取得
+    const buildManifest = async (): Promise<IndexManifest> => {
+      const save = vi.spyOn(IndexManifestStore.prototype, 'save').mockResolvedValue();
+      await indexer.indexNovel('test-novel');
+      const manifest = save.mock.calls[save.mock.calls.length - 1][1];
+      return JSON.parse(JSON.stringify(manifest)) as IndexManifest;
+    };
+
+    const lastInstance = <T>(mocked: { mock: { instances: T[] } }): T =>
+      mocked.mock.instances[mocked.mock.instances.length - 1];
+
+    beforeEach(() => {
+      setupFiles({
+        '/test/project/test-novel/contents/chapter1.txt': '第一章の本文',
+        '/test/project/test-novel/contents/chapter2.txt': '第二章の本文',
+      });
+      vi.mocked(VectorBackend.prototype.countByNovel).mockResolvedValue(2);
+    });
+
+    it('ファイルごとのハッシュとチャンクIDを保存する', async () => {
+      const manifest = await buildManifest();
+
+      expect(manifest.signature).toEqual({
+        embeddingModel: 'intfloat/multilingual-e5-small',
+        chunk: { maxTokens: 400, overlap: 50, splitStrategy: 'japanese' },
+        vectorStore: 'qdrant:test-collection',
+      });
+      const entry = manifest.files['test-novel/contents/chapter1.txt'];
+      expect(entry.fileType).toBe('content');
+      expect(entry.hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(entry.chunkIds).toHaveLength(1);
+    });
+
+    it('変更のないファイルは埋め込みを再生成しない', async () => {
+      const manifest = await buildManifest();
+      setupFiles({
+        '/test/project/test-novel/contents/chapter1.txt': '第一章の本文',
+        '/test/project/test-novel/contents/chapter2.txt': '第二章の本文（改稿）',
+      });
+      vi.spyOn(IndexManifestStore.prototype, 'load').mockResolvedValue(manifest);
+
+      indexer = new Indexer(mockConfig);
+      await indexer.indexNovel('test-novel');
+
+      const backend = lastInstance(vi.mocked(VectorBackend));
+      expect(backend.add).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(backend.add).mock.calls[0][0][0].relativeFilePath).toBe(
+        'test-novel/contents/chapter2.txt',
+      );
+      expect(backend.removeByNovel).not.toHaveBeenCalled();
+      // キーワード検索用インデックスは全ファイル分を構築する
+      expect(lastInstance(vi.mocked(KeywordBackend)).add).toHaveBeenCalledTimes(2);
+    });
+
+    it('mtime とサイズが前回と同じファイルは内容を比較せずに変更なしとみなす', async () => {
+      const stat = { isDirectory: () => true, mtimeMs: 1000, size: 18 } as Stats;
+      vi.mocked(fs.stat).mockResolvedValue(stat);
+      const manifest = await buildManifest();
+      expect(manifest.files['test-novel/contents/chapter1.txt']).toMatchObject({
+        mtimeMs: 1000,
+        size: 18,
+      });
+      setupFiles({
+        '/test/project/test-novel/contents/chapter1.txt': '第一章の本文（改稿）',
+        '/test/project/test-novel/contents/chapter2.txt': '第二章の本文（改稿）',
+      });
+      vi.mocked(fs.stat).mockImplementation(async (filePath) =>
+        String(filePath).endsWith('chapter2.txt') ? ({ ...stat, mtimeMs: 2000 } as Stats) : stat,
+      );
+      vi.spyOn(IndexManifestStore.prototype, 'load').mockResolvedValue(manifest);
+
+      indexer = new Indexer(mockConfig);
+      await indexer.indexNovel('test-novel');
+
+      const backend = lastInstance(vi.mocked(VectorBackend));
+      expect(backend.add).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(backend.add).mock.calls[0][0][0].relativeFilePath).toBe(
+        'test-novel/contents/chapter2.txt',
+      );
+    });
+
+    it('削除されたファイルのチャンクを削除する', async () => {
+      const manifest = await buildManifest();
+      setupFiles({ '/test/project/test-novel/contents/chapter1.txt': '第一章の本文' });
+      vi.spyOn(IndexManifestStore.prototype, 'load').mockResolvedValue(manifest);
+      const save = vi.spyOn(IndexManifestStore.prototype, 'save').mockResolvedValue();
+
+      indexer = new Indexer(mockConfig);
+      await indexer.indexNovel('test-novel');
+
+      expect(lastInstance(vi.mocked(VectorBackend)).removeByFile).toHaveBeenCalledWith(
+        'test-novel/contents/chapter2.txt',
+      );
+      expect(Object.keys(save.mock.calls[0][1].files)).toEqual([
+        'test-novel/contents/chapter1.txt',
+      ]);
+    });
+
+    it('埋め込みモデルが変更された場合は全件を構築し直す', async () => {
+      const manifest = await buildManifest();
+      vi.spyOn(IndexManifestStore.prototype, 'load').mockResolvedValue(manifest);
+
+      indexer = new Indexer({
+        ...mockConfig,
+        embedding: { ...mockConfig.embedding, model: 'another-model' },
+      });
+      await indexer.indexNovel('test-novel');
+
+      const backend = lastInstance(vi.mocked(VectorBackend));
+      expect(backend.removeByNovel).toHaveBeenCalledWith('test-novel');
+      expect(backend.add).toHaveBeenCalledTimes(2);
+    });
+
+    it('ベクトルストアが空の場合は全件を構築し直す', async () => {
+      const manifest = await buildManifest();
+      vi.spyOn(IndexManifestStore.prototype, 'load').mockResolvedValue(manifest);
+      // 他の小説のデータが残っていても、この小説のデータがなければ構築し直す
+      vi.mocked(VectorBackend.prototype.getStats).mockResolvedValue({ totalChunks: 10 });
+      vi.mocked(VectorBackend.prototype.countByNovel).mockResolvedValue(0);
+
+      indexer = new Indexer(mockConfig);
+      await indexer.indexNovel('test-novel');
+
+      const backend = lastInstance(vi.mocked(VectorBackend));
+      expect(backend.countByNovel).toHaveBeenCalledWith('test-novel');
+      expect(backend.add).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('processFile', () => {
     it('ファイルを読み込んでチャンクを生成する', async () => {
       const testFilePath = '/test/project/test.md';
@@ -198,6 +374,38 @@ describe('Indexer', () => {
     });
   });
 
+  describe('トークン数の計測', () => {
+    it('埋め込みモデルの最大トークン数を超えるチャンクを警告する', async () => {
+      indexer = new Indexer({ ...mockConfig, chunk: { ...mockConfig.chunk, maxTokens: 1000 } });
+      vi.mocked(fs.readFile).mockResolvedValueOnce(`# 長い章\n\n${'あ'.repeat(600)}`);
+
+      await indexer.updateFile('/test/project/test-novel/contents/long.txt', 'test-novel');
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('最大トークン数を超えています: test-novel/contents/long.txt:1-3'),
+        expect.objectContaining({ maxSequenceLength: 512 }),
+      );
+      expect(indexer.getTokenStats()).toEqual({
+        tokenizer: 'model',
+        maxSequenceLength: 512,
+        oversizedChunks: 1,
+      });
+    });
+
+    it('埋め込みが無効な場合は近似値で数える', () => {
+      indexer = new Indexer({
+        ...mockConfig,
+        embedding: { ...mockConfig.embedding, enabled: false },
+      });
+
+      expect(indexer.getTokenStats()).toEqual({
+        tokenizer: 'approximate',
+        maxSequenceLength: null,
+        oversizedChunks: 0,
+      });
+    });
+  });
+
   describe('updateFile', () => {
     it('ファイルの更新を処理する', async () => {
       const testFilePath = '/test/project/update.md';
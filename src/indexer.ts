@@ -1,14 +1,29 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import crypto from 'crypto';
 import { VectorBackend } from './backends/VectorBackend.js';
-import { Chunk } from './backends/SearchBackend.js';
-import { MarkdownChunkingStrategy } from './lib/chunker.js';
+import { KeywordBackend } from './backends/KeywordBackend.js';
+import { Chunk, SearchResult } from './backends/SearchBackend.js';
+import { reciprocalRankFusion } from './lib/rankFusion.js';
+import {
+  MarkdownChunkingStrategy,
+  SimpleTokenCounter,
+  TokenCounter,
+  createSplitStrategy,
+} from './lib/chunker.js';
+import { TransformersTokenCounter } from './lib/transformersTokenCounter.js';
 import { DialogoiConfig } from './lib/config.js';
 import { findFilesRecursively } from './utils/fileUtils.js';
 import { TransformersEmbeddingService } from './services/TransformersEmbeddingService.js';
 import { QdrantVectorRepository } from './repositories/QdrantVectorRepository.js';
+import { LocalFileVectorRepository } from './repositories/LocalFileVectorRepository.js';
+import { EmbeddingCache, EmbeddingCacheStats } from './repositories/EmbeddingCache.js';
+import { VectorRepository } from './repositories/VectorRepository.js';
 import { NovelRepository } from './repositories/NovelRepository.js';
 import { FileSystemNovelRepository } from './repositories/FileSystemNovelRepository.js';
+import { IndexManifestStore, isSameIndexSignature } from './repositories/IndexManifestStore.js';
+import { IndexManifest, IndexSignature } from './domain/indexManifest.js';
+import { IndexProgress, IndexSummary } from './domain/indexStatus.js';
 import { getLogger } from './logging/index.js';
 
 /**
@@ -19,16 +34,34 @@ interface FileWithType {
   fileType: 'content' | 'settings';
 }
 
+/**
+ * トークン数の計測状況
+ */
+export interface TokenStats {
+  tokenizer: 'model' | 'approximate'; // 埋め込みモデルのトークナイザー / 文字数による近似
+  maxSequenceLength: number | null; // 埋め込みモデルの最大トークン数（埋め込み無効時は null）
+  oversizedChunks: number; // 最大トークン数を超えたチャンク数（切り捨てて埋め込まれる）
+}
+
 /**
  * インデックス管理クラス
  * ファイルシステムの監視、チャンク化、インデックス管理を担当
  */
 export class Indexer {
   private backend: VectorBackend;
+  private keywordBackend: KeywordBackend;
+  private embeddingService: TransformersEmbeddingService;
+  private embeddingCache?: EmbeddingCache;
   private chunkingStrategy: MarkdownChunkingStrategy;
+  private tokenCounter: TokenCounter;
+  private oversizedChunks = 0;
   private config: DialogoiConfig;
   private projectRoot: string;
   private novelRepository: NovelRepository;
+  private manifestStore = new IndexManifestStore();
+  private manifests: Map<string, IndexManifest> = new Map();
+  private vectorStore: string;
+  private progressListeners: Array<(progress: IndexProgress) => void> = [];
   private logger = getLogger();
 
   constructor(config: DialogoiConfig) {
@@ -36,20 +69,75 @@ export class Indexer {
     this.projectRoot = path.resolve(config.projectRoot);
     this.novelRepository = new FileSystemNovelRepository(this.projectRoot);
 
-    // VectorBackend の初期化
-    const embeddingService = new TransformersEmbeddingService(config.embedding);
-    const vectorRepository = new QdrantVectorRepository({
-      ...config.qdrant,
-      defaultCollection: config.qdrant.collection,
-    });
-    this.backend = new VectorBackend(vectorRepository, embeddingService, config.vector);
+    // VectorBackend の初期化（設定に応じてQdrantまたはローカルストアを使用）
+    this.embeddingService = new TransformersEmbeddingService(config.embedding);
+    if (config.embeddingCache.enabled) {
+      this.embeddingCache = new EmbeddingCache({
+        directory: path.resolve(this.projectRoot, config.embeddingCache.directory),
+        model: config.embedding.model,
+        maxEntries: config.embeddingCache.maxEntries,
+      });
+    }
+    const vectorRepository =
+      config.vector.backend === 'local'
+        ? this.createLocalVectorRepository()
+        : new QdrantVectorRepository({
+            ...config.qdrant,
+            defaultCollection: config.qdrant.collection,
+          });
+    this.backend = new VectorBackend(
+      vectorRepository,
+      this.embeddingService,
+      config.vector,
+      this.embeddingCache,
+    );
+    this.vectorStore = `${config.vector.backend === 'local' ? 'local' : 'qdrant'}:${config.vector.collectionName}`;
+
+    // キーワード検索（BM25）用のバックエンド
+    this.keywordBackend = new KeywordBackend({ snippetLength: config.vector.snippetLength });
+
+    // チャンク化戦略の初期化（埋め込みを生成する場合はモデルのトークナイザーで数える）
+    this.tokenCounter = config.embedding.enabled
+      ? new TransformersTokenCounter({ model: config.embedding.model })
+      : new SimpleTokenCounter();
+    this.chunkingStrategy = new MarkdownChunkingStrategy(
+      this.tokenCounter,
+      undefined,
+      createSplitStrategy(config.chunk.splitStrategy),
+    );
+  }
 
-    // チャンク化戦略の初期化
-    this.chunkingStrategy = new MarkdownChunkingStrategy();
+  /**
+   * ローカルファイルベクトルストアを作成
+   */
+  private createLocalVectorRepository(): VectorRepository {
+    const directory = path.resolve(this.projectRoot, this.config.localVector.directory);
+    return new LocalFileVectorRepository({ directory });
+  }
+
+  /**
+   * ベクトルストアをローカルファイルストアに切り替える
+   * Qdrant が利用できない場合のフォールバックとして使用
+   */
+  useLocalVectorStore(): void {
+    this.backend = new VectorBackend(
+      this.createLocalVectorRepository(),
+      this.embeddingService,
+      this.config.vector,
+      this.embeddingCache,
+    );
+    this.vectorStore = `local:${this.config.vector.collectionName}`;
+    // 保存先が変わるため、読み込み済みのマニフェストは使えない
+    this.manifests.clear();
+    this.logger.info('📦 ローカルベクトルストアに切り替えました', {
+      directory: path.resolve(this.projectRoot, this.config.localVector.directory),
+    });
   }
 
   /**
    * 特定の小説プロジェクトのインデックスを構築
+   * マニフェストと内容ハッシュが一致するファイルは埋め込みを再生成せず、
+   * キーワード検索用のインデックスのみを再構築する
    */
   async indexNovel(novelId: string): Promise<void> {
     const startTime = Date.now();
@@ -57,35 +145,114 @@ export class Indexer {
 
     // VectorBackend を初期化
     await this.backend.initialize();
+    await this.initializeTokenCounter();
+    const manifest = await this.loadManifest(novelId);
 
     // ターゲットファイルを検索（*.md, *.txt）
     const files = await this.findTargetFiles(novelId);
     this.logger.info(`📄 ${files.length} 個のファイルを発見`);
 
     let totalChunks = 0;
+    let unchangedFiles = 0;
+    let processedFiles = 0;
+    const seen = new Set<string>();
+    this.emitProgress({ novelId, processedFiles, totalFiles: files.length });
 
     // 各ファイルを処理
     for (const file of files) {
+      const relativePath = path.relative(this.projectRoot, file.filePath);
+      seen.add(this.toManifestKey(relativePath));
       try {
-        const chunks = await this.processFile(file.filePath, novelId, file.fileType);
-        totalChunks += chunks.length;
-        this.logger.info(
-          `  ✓ ${path.relative(this.projectRoot, file.filePath)}: ${chunks.length} チャンク (${file.fileType})`,
+        const { chunks, unchanged } = await this.indexFile(
+          file.filePath,
+          novelId,
+          file.fileType,
+          manifest,
         );
+        totalChunks += chunks.length;
+        if (unchanged) {
+          unchangedFiles++;
+          this.logger.debug(`  = ${relativePath}: 変更なし (${chunks.length} チャンク)`);
+        } else {
+          this.logger.info(`  ✓ ${relativePath}: ${chunks.length} チャンク (${file.fileType})`);
+        }
       } catch (error) {
-        this.logger.error(
-          `  ✗ ${path.relative(this.projectRoot, file.filePath)}`,
-          error instanceof Error ? error : undefined,
-        );
+        this.logger.error(`  ✗ ${relativePath}`, error instanceof Error ? error : undefined);
       }
+      processedFiles++;
+      this.emitProgress({
+        novelId,
+        processedFiles,
+        totalFiles: files.length,
+        currentFile: relativePath,
+      });
     }
 
+    // 前回から削除されたファイルのチャンクを削除
+    let removedFiles = 0;
+    for (const key of Object.keys(manifest.files)) {
+      if (seen.has(key)) {
+        continue;
+      }
+      try {
+        await this.removeFileChunks(key.split('/').join(path.sep));
+        delete manifest.files[key];
+        removedFiles++;
+        this.logger.info(`  🗑️ ${key}: 削除されたファイルのチャンクを削除`);
+      } catch (error) {
+        this.logger.error(`  ✗ ${key}`, error instanceof Error ? error : undefined);
+      }
+    }
+
+    await this.saveManifest(novelId);
+
     const duration = Date.now() - startTime;
     this.logger.info(
-      `🎉 小説プロジェクト "${novelId}" のインデックス構築完了: ${totalChunks} チャンク, ${duration}ms`,
+      `🎉 小説プロジェクト "${novelId}" のインデックス構築完了: ${totalChunks} チャンク, ${duration}ms` +
+        ` (更新: ${files.length - unchangedFiles}, 変更なし: ${unchangedFiles}, 削除: ${removedFiles})`,
     );
   }
 
+  /**
+   * インデックス構築の進捗を受け取るリスナーを登録
+   * indexNovel の開始時と各ファイルの処理後に呼び出される
+   */
+  onProgress(listener: (progress: IndexProgress) => void): void {
+    this.progressListeners.push(listener);
+  }
+
+  private emitProgress(progress: IndexProgress): void {
+    for (const listener of this.progressListeners) {
+      try {
+        listener(progress);
+      } catch (error) {
+        this.logger.error(
+          '❌ インデックス進捗リスナーエラー',
+          error instanceof Error ? error : undefined,
+        );
+      }
+    }
+  }
+
+  /**
+   * 永続化されたインデックスの概要を取得
+   * 現在の設定と異なる設定で構築されたマニフェストは次回の構築で破棄されるため、未構築として扱う
+   */
+  async getIndexSummary(novelId: string): Promise<IndexSummary> {
+    const manifest =
+      this.manifests.get(novelId) ?? (await this.manifestStore.load(this.getProjectPath(novelId)));
+    if (!manifest || !isSameIndexSignature(manifest.signature, this.getIndexSignature())) {
+      return { indexedFiles: 0, chunkCount: 0, lastUpdated: null };
+    }
+
+    const entries = Object.values(manifest.files);
+    return {
+      indexedFiles: entries.length,
+      chunkCount: entries.reduce((sum, entry) => sum + entry.chunkIds.length, 0),
+      lastUpdated: manifest.updatedAt,
+    };
+  }
+
   /**
    * 単一ファイルを処理してチャンクを生成・追加
    * @param filePath 処理対象ファイルの絶対パス
@@ -98,19 +265,49 @@ export class Indexer {
     novelId: string,
     fileType?: 'content' | 'settings',
   ): Promise<Chunk[]> {
+    const { chunks } = await this.indexFile(
+      filePath,
+      novelId,
+      fileType,
+      this.manifests.get(novelId),
+    );
+    if (this.manifests.has(novelId)) {
+      await this.saveManifest(novelId);
+    }
+    return chunks;
+  }
+
+  /**
+   * 単一ファイルをチャンク化してインデックスに反映し、マニフェストを更新
+   * mtime・サイズが前回と同じファイルは内容ハッシュを計算せずに変更なしとみなす。
+   * 変更のないファイルと、内容・チャンク構成が前回と同じファイルはベクトルインデックス（埋め込み）を更新しない。
+   * キーワード検索（BM25）のインデックスはメモリ上にしかないため、変更のないファイルも読み込んでチャンク化する
+   */
+  private async indexFile(
+    filePath: string,
+    novelId: string,
+    fileType: 'content' | 'settings' | undefined,
+    manifest: IndexManifest | undefined,
+  ): Promise<{ chunks: Chunk[]; unchanged: boolean }> {
+    // 読み込み中の変更を次回に検出できるよう、読み込む前の mtime・サイズを記録する
+    const stat = manifest ? await fs.stat(filePath).catch(() => undefined) : undefined;
     const content = await fs.readFile(filePath, 'utf-8');
     const relativePath = path.relative(this.projectRoot, filePath);
+    const key = this.toManifestKey(relativePath);
 
     // ファイルタイプが指定されていない場合は、パスから推定
     const determinedFileType = fileType || (await this.determineFileType(novelId, relativePath));
 
-    // 既存のチャンクを削除（前のデータをクリア）
-    try {
-      await this.backend.removeByFile(relativePath);
-    } catch (error) {
-      // 削除処理が失敗しても処理を続行（例：該当するチャンクがない場合）
-      this.logger.warn(`⚠️ 既存チャンクの削除に失敗しました（処理続行）: ${relativePath}`);
-    }
+    const previous = manifest?.files[key];
+    const statUnchanged =
+      previous !== undefined &&
+      stat !== undefined &&
+      previous.fileType === determinedFileType &&
+      previous.mtimeMs === stat.mtimeMs &&
+      previous.size === stat.size;
+    const hash = statUnchanged
+      ? previous.hash
+      : crypto.createHash('sha256').update(content, 'utf8').digest('hex');
 
     // チャンキング実行
     const chunks = this.chunkingStrategy.chunk(
@@ -121,11 +318,196 @@ export class Indexer {
       novelId,
       determinedFileType,
     );
+    const chunkIds = chunks.map((chunk) => chunk.id);
 
-    // バックエンドに追加
-    await this.backend.add(chunks);
+    const unchanged =
+      statUnchanged ||
+      (previous !== undefined &&
+        previous.hash === hash &&
+        previous.fileType === determinedFileType &&
+        previous.chunkIds.length === chunkIds.length &&
+        previous.chunkIds.every((id, index) => id === chunkIds[index]));
 
-    return chunks;
+    // キーワード検索用インデックスはメモリ上にあるため常に更新
+    await this.keywordBackend.removeByFile(relativePath);
+    await this.keywordBackend.add(chunks);
+
+    if (!unchanged) {
+      this.checkChunkLengths(chunks);
+
+      // 既存のチャンクを削除（前のデータをクリア）
+      try {
+        await this.backend.removeByFile(relativePath);
+      } catch (error) {
+        // 削除処理が失敗しても処理を続行（例：該当するチャンクがない場合）
+        this.logger.warn(`⚠️ 既存チャンクの削除に失敗しました（処理続行）: ${relativePath}`);
+      }
+
+      // バックエンドに追加
+      await this.backend.add(chunks);
+    }
+
+    if (manifest && !statUnchanged) {
+      manifest.files[key] = {
+        fileType: determinedFileType,
+        mtimeMs: stat?.mtimeMs ?? 0,
+        size: stat?.size ?? Buffer.byteLength(content, 'utf8'),
+        hash,
+        chunkIds,
+      };
+    }
+
+    return { chunks, unchanged };
+  }
+
+  /**
+   * インデックスの内容を左右する現在の設定
+   */
+  private getIndexSignature(): IndexSignature {
+    return {
+      embeddingModel: this.config.embedding.model,
+      chunk: {
+        maxTokens: this.config.chunk.maxTokens,
+        overlap: this.config.chunk.overlap,
+        splitStrategy: this.config.chunk.splitStrategy,
+      },
+      vectorStore: this.vectorStore,
+    };
+  }
+
+  /**
+   * マニフェストを読み込む
+   * 設定が変わった場合やベクトルストアのデータが失われた場合は、
+   * 既存のベクトルを削除して空のマニフェストから構築し直す
+   */
+  private async loadManifest(novelId: string): Promise<IndexManifest> {
+    const signature = this.getIndexSignature();
+    const stored = await this.manifestStore.load(this.getProjectPath(novelId));
+
+    let reason: string | null = null;
+    if (!stored) {
+      reason = 'マニフェストがありません';
+    } else if (!isSameIndexSignature(stored.signature, signature)) {
+      reason = '埋め込みモデルまたはチャンク設定が変更されました';
+    } else if (
+      Object.values(stored.files).some((entry) => entry.chunkIds.length > 0) &&
+      !(await this.hasStoredVectors(novelId))
+    ) {
+      reason = 'ベクトルストアにデータがありません';
+    }
+
+    if (stored && reason === null) {
+      this.manifests.set(novelId, stored);
+      return stored;
+    }
+
+    this.logger.info(`📋 小説プロジェクト "${novelId}" のインデックスを全件構築します: ${reason}`);
+    try {
+      await this.backend.removeByNovel(novelId);
+    } catch (error) {
+      this.logger.warn(`⚠️ 既存ベクトルの削除に失敗しました（処理続行）: ${novelId}`);
+    }
+    const manifest = this.manifestStore.create(signature);
+    this.manifests.set(novelId, manifest);
+    return manifest;
+  }
+
+  /**
+   * ベクトルストアに小説プロジェクトのデータが残っているか
+   * 一時コンテナなどでデータが失われた場合にマニフェストを無効化するために使用
+   * （コレクションは小説間で共有されるため、他の小説のデータでは判定しない）
+   */
+  private async hasStoredVectors(novelId: string): Promise<boolean> {
+    try {
+      return (await this.backend.countByNovel(novelId)) > 0;
+    } catch (error) {
+      this.logger.warn(`⚠️ ベクトルストアのデータ数を取得できません: ${novelId}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * マニフェストを保存（失敗してもインデックス処理は継続）
+   * マニフェストがベクトルストアより先に保存されないよう、書き込み待ちのベクトルを先に永続化する
+   */
+  private async saveManifest(novelId: string): Promise<void> {
+    const manifest = this.manifests.get(novelId);
+    if (!manifest) {
+      return;
+    }
+    try {
+      await this.backend.flush();
+      await this.manifestStore.save(this.getProjectPath(novelId), manifest);
+    } catch (error) {
+      this.logger.warn(`⚠️ インデックスマニフェストの保存に失敗しました: ${novelId}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private getProjectPath(novelId: string): string {
+    return path.join(this.projectRoot, novelId);
+  }
+
+  /**
+   * マニフェストのキー（OS に依存しない / 区切り）
+   */
+  private toManifestKey(relativePath: string): string {
+    return relativePath.split(path.sep).join('/');
+  }
+
+  /**
+   * トークナイザーを読み込む（読み込めない場合は近似値で数える）
+   */
+  private async initializeTokenCounter(): Promise<void> {
+    if (this.tokenCounter instanceof TransformersTokenCounter) {
+      await this.tokenCounter.initialize();
+    }
+  }
+
+  /**
+   * 埋め込みモデルの最大トークン数を超えるチャンクを警告
+   * 超過分は埋め込み生成時に切り捨てられ、検索精度が下がる
+   */
+  private checkChunkLengths(chunks: Chunk[]): void {
+    if (!(this.tokenCounter instanceof TransformersTokenCounter)) {
+      return;
+    }
+
+    const maxSequenceLength = this.tokenCounter.getMaxSequenceLength();
+    for (const chunk of chunks) {
+      const tokens = this.tokenCounter.count(chunk.content);
+      if (tokens > maxSequenceLength) {
+        this.oversizedChunks++;
+        this.logger.warn(
+          `⚠️ チャンクが埋め込みモデルの最大トークン数を超えています: ${chunk.relativeFilePath}:${chunk.startLine + 1}-${chunk.endLine + 1}`,
+          { tokens, maxSequenceLength },
+        );
+      }
+    }
+  }
+
+  /**
+   * トークン数の計測状況を取得
+   */
+  getTokenStats(): TokenStats {
+    if (!(this.tokenCounter instanceof TransformersTokenCounter)) {
+      return { tokenizer: 'approximate', maxSequenceLength: null, oversizedChunks: 0 };
+    }
+    return {
+      tokenizer: this.tokenCounter.isReady() ? 'model' : 'approximate',
+      maxSequenceLength: this.tokenCounter.getMaxSequenceLength(),
+      oversizedChunks: this.oversizedChunks,
+    };
+  }
+
+  /**
+   * 埋め込みキャッシュの利用状況を取得（キャッシュ無効時は null）
+   */
+  getEmbeddingCacheStats(): EmbeddingCacheStats | null {
+    return this.embeddingCache?.getStats() ?? null;
   }
 
   /**
@@ -258,6 +640,7 @@ export class Indexer {
     try {
       // VectorBackend を初期化
       await this.backend.initialize();
+      await this.initializeTokenCounter();
 
       // processFile内で削除処理が実行されるため、ここでは削除は不要
       // processFileメソッドが削除→追加の順序で実行される
@@ -284,6 +667,14 @@ export class Indexer {
       // 相対パスに変換して削除
       const relativePath = path.relative(this.projectRoot, filePath);
       await this.removeFileChunks(relativePath);
+
+      // 先頭のディレクトリが小説プロジェクトID
+      const novelId = relativePath.split(path.sep)[0];
+      const manifest = this.manifests.get(novelId);
+      if (manifest && manifest.files[this.toManifestKey(relativePath)]) {
+        delete manifest.files[this.toManifestKey(relativePath)];
+        await this.saveManifest(novelId);
+      }
       this.logger.info(`🗑️ ファイルを削除しました: ${relativePath}`);
     } catch (error) {
       this.logger.error(
@@ -298,6 +689,7 @@ export class Indexer {
    * @param filePath プロジェクトルートからの相対パス
    */
   private async removeFileChunks(filePath: string): Promise<void> {
+    await this.keywordBackend.removeByFile(filePath);
     await this.backend.removeByFile(filePath);
   }
 
@@ -315,6 +707,38 @@ export class Indexer {
     return this.backend.search(query, k, novelId, fileType);
   }
 
+  /**
+   * ベクトル検索と BM25 キーワード検索の結果を RRF で統合するハイブリッド検索
+   * 各ランカーからは融合精度のため k より多めに候補を取得する
+   */
+  async hybridSearch(
+    query: string,
+    k: number = this.config.search.defaultK,
+    novelId: string,
+    fileType?: string,
+  ): Promise<SearchResult[]> {
+    await this.backend.initialize();
+    const candidateCount = Math.max(k * 2, this.config.search.defaultK);
+
+    const [vectorResults, keywordResults] = await Promise.all([
+      this.backend.search(query, candidateCount, novelId, fileType),
+      this.keywordBackend.search(query, candidateCount, novelId, fileType),
+    ]);
+
+    this.logger.debug('ハイブリッド検索の候補を取得しました', {
+      vector: vectorResults.length,
+      keyword: keywordResults.length,
+    });
+
+    return reciprocalRankFusion(
+      [
+        { source: 'vector', results: vectorResults },
+        { source: 'keyword', results: keywordResults },
+      ],
+      k,
+    );
+  }
+
   /**
    * バックエンドが準備完了かチェック
    */
@@ -329,6 +753,9 @@ export class Indexer {
     // VectorBackend を初期化
     await this.backend.initialize();
     await this.backend.removeByNovel(novelId);
+    await this.keywordBackend.removeByNovel(novelId);
+    this.manifests.delete(novelId);
+    await this.manifestStore.remove(this.getProjectPath(novelId));
     this.logger.info(`🗑️ 小説プロジェクト "${novelId}" のインデックスを削除しました`);
   }
 
@@ -337,6 +764,9 @@ export class Indexer {
    */
   async cleanup(): Promise<void> {
     // 必要に応じてバックエンドのクリーンアップ処理
+    await this.keywordBackend.clear();
     await this.backend.dispose();
+    // 検索で更新された埋め込みキャッシュの最終利用日時を保存
+    await this.embeddingCache?.flush();
   }
 }
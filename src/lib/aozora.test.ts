@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { decodeAozoraText, parseAozora } from './aozora.js';
+
+const SAMPLE = [
+  '塔の魔術師',
+  '架空の作者',
+  '',
+  '-------------------------------------------------------',
+  '【テキスト中に現れる記号について】',
+  '',
+  '《》：ルビ',
+  '（例）魔術師《まじゅつし》',
+  '-------------------------------------------------------',
+  '',
+  '［＃ここから２字下げ］',
+  '序文のようなもの',
+  '［＃ここで字下げ終わり］',
+  '［＃改ページ］',
+  '　　　第一章　｜蒼穹《そら》の塔［＃「第一章　蒼穹の塔」は中見出し］',
+  '',
+  '　魔術師《まじゅつし》は塔に登った。',
+  '　それは禁忌［＃「禁忌」に傍点］であった。',
+  '［＃「一」は小見出し］一',
+  '　夜が明ける。',
+  '［＃改ページ］',
+  '［＃中見出し］第二章［＃中見出し終わり］',
+  '',
+  '　※［＃「木＋世」、U+6919、12-3］の木の下で。',
+  '',
+  '',
+  '',
+  '底本：「架空の本」架空出版',
+  '入力：誰か',
+].join('\r\n');
+
+describe('decodeAozoraText', () => {
+  it('UTF-8 はそのまま、それ以外は Shift_JIS として読む', () => {
+    expect(decodeAozoraText(Buffer.from('あ', 'utf-8'))).toEqual({
+      text: 'あ',
+      encoding: 'utf-8',
+    });
+    expect(decodeAozoraText(Buffer.from([0xef, 0xbb, 0xbf, 0xe3, 0x81, 0x82]))).toEqual({
+      text: 'あ',
+      encoding: 'utf-8',
+    });
+    // 「あい」の Shift_JIS
+    expect(decodeAozoraText(Buffer.from([0x82, 0xa0, 0x82, 0xa2]))).toEqual({
+      text: 'あい',
+      encoding: 'shift_jis',
+    });
+  });
+});
+
+describe('parseAozora', () => {
+  it('表題・著者を取り出し、記号の説明と奥付を取り除く', () => {
+    const document = parseAozora(SAMPLE);
+
+    expect(document.title).toBe('塔の魔術師');
+    expect(document.author).toBe('架空の作者');
+    expect(document.subtitle).toBeUndefined();
+    const all = document.chapters.map((chapter) => chapter.content).join('\n');
+    expect(all).not.toContain('記号について');
+    expect(all).not.toContain('底本');
+  });
+
+  it('改ページと最上位の見出しで章に分け、見出しを Markdown にする', () => {
+    const { chapters } = parseAozora(SAMPLE);
+
+    expect(chapters.map((chapter) => [chapter.title, chapter.filename])).toEqual([
+      [undefined, '001.md'],
+      ['第一章　｜蒼穹《そら》の塔', '002_第一章_蒼穹の塔.md'],
+      ['第二章', '003_第二章.md'],
+    ]);
+    expect(chapters[0].content).toBe('序文のようなもの\n');
+    expect(chapters[1].content).toBe(
+      [
+        '# 第一章　｜蒼穹《そら》の塔',
+        '',
+        '　魔術師《まじゅつし》は塔に登った。',
+        '　それは《《禁忌》》であった。',
+        '',
+        '## 一',
+        '',
+        '　夜が明ける。',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('Unicode の指定がある外字を文字にする', () => {
+    const { chapters } = parseAozora(SAMPLE);
+
+    expect(chapters[2].content).toBe('# 第二章\n\n　椙の木の下で。\n');
+  });
+
+  it('Unicode の指定がない外字は 〓 に置き換えて注記を記録する', () => {
+    const document = parseAozora(
+      '表題\n\n　※［＃「てへん＋劣」、第3水準1-84-77］り、※［＃「木＋世」、U+6919、12-3］。',
+    );
+
+    expect(document.chapters[0].content).toBe('　〓り、椙。\n');
+    expect(document.unresolvedGaiji).toEqual(['「てへん＋劣」、第3水準1-84-77']);
+    expect(parseAozora(SAMPLE).unresolvedGaiji).toEqual([]);
+  });
+
+  it('ルビ付きの語の傍点はルビごと囲む', () => {
+    const { chapters } = parseAozora(
+      [
+        '表題',
+        '',
+        '　吾輩《わがはい》［＃「吾輩」に傍点］は猫である。',
+        '　名前は｜未だ《まだ》無い［＃「未だ無い」に傍点］。',
+      ].join('\n'),
+    );
+
+    expect(chapters[0].content).toBe(
+      '　《《吾輩《わがはい》》》は猫である。\n　名前は《《｜未だ《まだ》無い》》。\n',
+    );
+  });
+
+  it('見出しのないテキストは1章にする', () => {
+    const { chapters } = parseAozora('表題\n\n本文の一行目。\n本文の二行目。');
+
+    expect(chapters).toEqual([
+      { title: undefined, filename: '001.md', content: '本文の一行目。\n本文の二行目。\n' },
+    ]);
+  });
+});
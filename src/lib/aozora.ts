@@ -0,0 +1,273 @@
+import { stripRuby } from './ruby.js';
+
+/**
+ * 青空文庫形式のテキスト（https://www.aozora.gr.jp/annotation/）の解析
+ *
+ * - 先頭の空行までを表題・著者、続く「-----」で囲まれた記号の説明を読み飛ばす
+ * - 「底本：」以降の奥付を取り除く
+ * - ［＃改ページ］と最上位の見出しで章を区切る
+ * - ［＃「…」は大見出し］などの見出しを Markdown の見出しにする
+ * - ［＃「…」に傍点］を《《傍点》》にする（ルビ付きの語はルビごと囲む）
+ * - Unicode の指定がある外字は文字にし、指定のない外字（第3水準など）は 〓 に置き換えて注記を記録する
+ * - ルビ（｜漢字《かんじ》）は Dialogoi と同じ記法のためそのまま残し、その他の注記は取り除く
+ */
+
+/**
+ * 青空文庫形式のテキストから作る章（1章 = 1本文ファイル）
+ */
+export interface AozoraChapter {
+  title?: string; // 章見出し（見出しのない章は undefined）
+  filename: string; // 本文ファイル名（001_第一章.md など）
+  content: string; // Markdown（章見出しは # 、下位の見出しは ## 以降）
+}
+
+/**
+ * 青空文庫形式のテキストの解析結果
+ */
+export interface AozoraDocument {
+  title?: string;
+  subtitle?: string;
+  author?: string;
+  chapters: AozoraChapter[];
+  unresolvedGaiji: string[]; // 文字にできなかった外字の注記（本文では 〓 に置き換える）
+}
+
+/**
+ * 本文ファイル名に使える文字（FileSystemNovelRepository のファイル名の検査と同じ）
+ */
+const FILENAME_UNSAFE_PATTERN = /[^a-zA-Z0-9\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF_\-.]+/g;
+const MAX_FILENAME_TITLE_LENGTH = 40;
+
+const SEPARATOR_PATTERN = /^-{10,}$/;
+const COLOPHON_PATTERN = /^底本[：:]/;
+const PAGE_BREAK_PATTERN = /^［＃改(?:ページ|丁|見開き|段)］$/;
+const HEADING_LEVELS: Record<string, number> = { 大: 1, 中: 2, 小: 3 };
+const HEADING_ANNOTATION_PATTERN = /［＃「([^」]+)」は(?:同行|窓)?([大中小])見出し］/;
+const INLINE_HEADING_PATTERN =
+  /［＃(?:同行|窓)?([大中小])見出し］(.+?)［＃(?:同行|窓)?\1見出し終わり］/;
+const EMPHASIS_ANNOTATION_PATTERN = /［＃「([^」]+)」に[^［］]*?傍点］/g;
+const EMPHASIS_BLOCK_PATTERN = /［＃[^［］]*?傍点］(.+?)［＃[^［］]*?傍点終わり］/g;
+const GAIJI_PATTERN = /※［＃[^］]*?U\+([0-9A-Fa-f]{4,6})[^］]*］/g;
+const UNRESOLVED_GAIJI_PATTERN = /※［＃([^］]*)］/g;
+const UNRESOLVED_GAIJI_MARK = '〓';
+const ANNOTATION_PATTERN = /［＃[^］]*］/g;
+
+/**
+ * 本文の行（見出しは level 付き）
+ */
+type AozoraLine =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'text'; text: string }
+  | { type: 'pageBreak' };
+
+/**
+ * 青空文庫のテキストファイルの内容を文字列にする
+ * BOM 付き・UTF-8 として正しいものは UTF-8、それ以外は Shift_JIS として読む
+ */
+export function decodeAozoraText(data: Buffer): { text: string; encoding: 'utf-8' | 'shift_jis' } {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) {
+    return { text: data.subarray(3).toString('utf-8'), encoding: 'utf-8' };
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(data), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('shift_jis').decode(data), encoding: 'shift_jis' };
+  }
+}
+
+/**
+ * 傍点の注記の直前の対象を《《》》で囲む
+ * ルビ付きの語（吾輩《わがはい》［＃「吾輩」に傍点］）は、ルビを除いた文字列が対象と一致する末尾をルビごと囲む
+ * @returns 対象が見つからない場合は null
+ */
+function emphasizeEnd(before: string, target: string): string | null {
+  if (before.endsWith(target)) {
+    return `${before.slice(0, before.length - target.length)}《《${target}》》`;
+  }
+  if (!before.includes('》')) {
+    return null;
+  }
+  for (let start = 0; start < before.length; start++) {
+    const suffix = before.slice(start);
+    if (stripRuby(suffix) === target) {
+      return `${before.slice(0, start)}《《${suffix}》》`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 傍点・外字の注記を変換し、その他の注記を取り除く
+ * @param unresolvedGaiji 文字にできなかった外字の注記を追加する配列
+ */
+function convertAnnotations(line: string, unresolvedGaiji: string[]): string {
+  let result = line
+    .replace(GAIJI_PATTERN, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(UNRESOLVED_GAIJI_PATTERN, (_, description: string) => {
+      unresolvedGaiji.push(description);
+      return UNRESOLVED_GAIJI_MARK;
+    });
+  result = result.replace(EMPHASIS_BLOCK_PATTERN, '《《$1》》');
+
+  // ［＃「…」に傍点］は注記の直前の対象を《《》》で囲む
+  let converted = '';
+  let lastIndex = 0;
+  for (const match of result.matchAll(EMPHASIS_ANNOTATION_PATTERN)) {
+    const before = result.slice(lastIndex, match.index);
+    converted += emphasizeEnd(before, match[1]) ?? before;
+    lastIndex = match.index + match[0].length;
+  }
+  result = converted + result.slice(lastIndex);
+
+  return result.replace(ANNOTATION_PATTERN, '');
+}
+
+/**
+ * 行を解析（見出しの注記がある行は見出しにする）
+ * @returns 注記だけの行（［＃ここから２字下げ］など）は null
+ */
+function parseLine(line: string, unresolvedGaiji: string[]): AozoraLine | null {
+  if (PAGE_BREAK_PATTERN.test(line.trim())) {
+    return { type: 'pageBreak' };
+  }
+
+  const inline = line.match(INLINE_HEADING_PATTERN);
+  if (inline) {
+    return {
+      type: 'heading',
+      level: HEADING_LEVELS[inline[1]],
+      text: convertAnnotations(inline[2], unresolvedGaiji).trim(),
+    };
+  }
+
+  const annotation = line.match(HEADING_ANNOTATION_PATTERN);
+  if (annotation) {
+    // ルビ付きの見出しは注記を除いた行をそのまま使う（注記の「」内はルビを除いた文字列）
+    const text = convertAnnotations(line, unresolvedGaiji).trim();
+    return {
+      type: 'heading',
+      level: HEADING_LEVELS[annotation[2]],
+      text: stripRuby(text) === annotation[1] ? text : annotation[1],
+    };
+  }
+
+  const text = convertAnnotations(line, unresolvedGaiji).replace(/\s+$/, '');
+  if (text === '' && line.trim() !== '') {
+    return null;
+  }
+  return { type: 'text', text };
+}
+
+/**
+ * 先頭・末尾の空行を取り除く
+ */
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') {
+    start++;
+  }
+  while (end > start && lines[end - 1].trim() === '') {
+    end--;
+  }
+  return lines.slice(start, end);
+}
+
+/**
+ * 章の本文ファイル名
+ */
+function chapterFilename(index: number, title?: string): string {
+  const number = String(index + 1).padStart(3, '0');
+  const name = title
+    ? stripRuby(title)
+        .replace(FILENAME_UNSAFE_PATTERN, '_')
+        .replace(/\.+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .slice(0, MAX_FILENAME_TITLE_LENGTH)
+    : '';
+  return name ? `${number}_${name}.md` : `${number}.md`;
+}
+
+/**
+ * 青空文庫形式のテキストを章ごとの Markdown に変換
+ * @param text テキスト（decodeAozoraText で文字列にしたもの）
+ */
+export function parseAozora(text: string): AozoraDocument {
+  let lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const unresolvedGaiji: string[] = [];
+
+  // 表題・著者（先頭の空行まで）
+  const headerEnd = lines.findIndex((line) => line.trim() === '');
+  const header = (headerEnd === -1 ? [] : lines.slice(0, headerEnd)).map((line) =>
+    stripRuby(convertAnnotations(line, unresolvedGaiji)).trim(),
+  );
+  lines = headerEnd === -1 ? lines : lines.slice(headerEnd);
+
+  // 記号の説明（-----で囲まれた部分）
+  const separatorStart = lines.findIndex((line) => line.trim() !== '');
+  if (separatorStart !== -1 && SEPARATOR_PATTERN.test(lines[separatorStart].trim())) {
+    const separatorEnd = lines.findIndex(
+      (line, index) => index > separatorStart && SEPARATOR_PATTERN.test(line.trim()),
+    );
+    lines = separatorEnd === -1 ? lines : lines.slice(separatorEnd + 1);
+  }
+
+  // 奥付（底本：以降）
+  const colophonStart = lines.findIndex((line) => COLOPHON_PATTERN.test(line.trim()));
+  if (colophonStart !== -1) {
+    lines = lines.slice(0, colophonStart);
+  }
+
+  const parsed = lines.flatMap((line) => parseLine(line, unresolvedGaiji) ?? []);
+  const headingLevels = parsed.flatMap((line) => (line.type === 'heading' ? [line.level] : []));
+  const chapterLevel = headingLevels.length > 0 ? Math.min(...headingLevels) : 0;
+
+  const chapters: Array<{ title?: string; lines: string[] }> = [];
+  let current: { title?: string; lines: string[] } = { lines: [] };
+  const startChapter = (title?: string) => {
+    if (current.title !== undefined || trimBlankLines(current.lines).length > 0) {
+      chapters.push(current);
+    }
+    current = { title, lines: [] };
+  };
+
+  let afterHeading = false; // 直前が下位の見出し（本文との間に空行を入れる）
+  for (const line of parsed) {
+    if (line.type === 'pageBreak') {
+      startChapter();
+    } else if (line.type === 'heading' && line.level === chapterLevel) {
+      startChapter(line.text);
+    } else if (line.type === 'heading') {
+      const last = current.lines[current.lines.length - 1];
+      if (last !== undefined && last.trim() !== '') {
+        current.lines.push('');
+      }
+      current.lines.push(`${'#'.repeat(line.level - chapterLevel + 1)} ${line.text}`);
+      afterHeading = true;
+      continue;
+    } else {
+      if (afterHeading && line.text.trim() !== '') {
+        current.lines.push('');
+      }
+      current.lines.push(line.text);
+    }
+    afterHeading = false;
+  }
+  startChapter();
+
+  return {
+    title: header.length > 0 ? header[0] : undefined,
+    subtitle: header.length > 2 ? header.slice(1, -1).join(' ') : undefined,
+    author: header.length > 1 ? header[header.length - 1] : undefined,
+    chapters: chapters.map((chapter, index) => {
+      const body = trimBlankLines(chapter.lines);
+      const heading = chapter.title !== undefined ? [`# ${chapter.title}`, ''] : [];
+      return {
+        title: chapter.title,
+        filename: chapterFilename(index, chapter.title),
+        content: `${trimBlankLines([...heading, ...body]).join('\n')}\n`,
+      };
+    }),
+    unresolvedGaiji,
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { buildMentionTerms, analyzeSceneMentions } from './characterAppearances.js';
+import { Chunk } from '../backends/SearchBackend.js';
+import { Character } from '../domain/character.js';
+
+const character = (name: string, aliases: string[] = []): Character => ({
+  name,
+  aliases,
+  attributes: {},
+  sourceFiles: ['settings/basic.md'],
+});
+
+const chunk = (title: string, startLine: number, endLine: number, index: number) =>
+  new Chunk(
+    title,
+    '',
+    'contents/chapter_1.txt',
+    startLine,
+    endLine,
+    index,
+    'test-novel',
+    'content',
+  );
+
+describe('buildMentionTerms', () => {
+  it('正式名・別名・区切られた名前の各部分を登録する', () => {
+    const terms = buildMentionTerms([
+      character('山田 太郎', ['タロ']),
+      character('リリア・アルカディア'),
+    ]);
+
+    expect(terms.get('山田 太郎')).toEqual(['山田 太郎']);
+    expect(terms.get('太郎')).toEqual(['山田 太郎']);
+    expect(terms.get('タロ')).toEqual(['山田 太郎']);
+    expect(terms.get('リリア')).toEqual(['リリア・アルカディア']);
+  });
+});
+
+describe('analyzeSceneMentions', () => {
+  const terms = buildMentionTerms([character('山田太郎', ['太郎']), character('リリア')]);
+
+  it('シーンごとに言及回数と最初・最後の行を数える', () => {
+    const content = [
+      '# 第1章',
+      '山田太郎は目覚めた。',
+      'リリアが太郎を見た。',
+      '',
+      '太郎は頷いた。',
+    ].join('\n');
+
+    const scenes = analyzeSceneMentions(content, [chunk('第1章', 0, 4, 0)], terms);
+
+    expect(scenes).toHaveLength(1);
+    // 「山田太郎」の中の「太郎」は二重に数えない
+    expect(scenes[0].mentions['山田太郎']).toEqual({
+      count: 3,
+      firstLine: 2,
+      lastLine: 5,
+      firstText: '山田太郎は目覚めた。',
+      lastText: '太郎は頷いた。',
+    });
+    expect(scenes[0].mentions['リリア'].count).toBe(1);
+  });
+
+  it('オーバーラップした行は先のシーンにのみ数える', () => {
+    const content = ['リリア', 'リリア', 'リリア'].join('\n');
+
+    const scenes = analyzeSceneMentions(content, [chunk('A', 0, 1, 0), chunk('A', 1, 2, 1)], terms);
+
+    expect(scenes.map((s) => [s.startLine, s.endLine])).toEqual([
+      [1, 2],
+      [3, 3],
+    ]);
+    expect(scenes.map((s) => s.mentions['リリア'].count)).toEqual([2, 1]);
+  });
+
+  it('登場人物がいない場合もシーンを返す', () => {
+    const scenes = analyzeSceneMentions('本文', [chunk('Document', 0, 0, 0)], new Map());
+
+    expect(scenes).toEqual([
+      { sceneIndex: 0, title: 'Document', startLine: 1, endLine: 1, mentions: {} },
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import { Character } from '../domain/character.js';
+import { Chunk } from '../backends/SearchBackend.js';
+
+/**
+ * 抜粋として保持する行の最大文字数
+ */
+const SNIPPET_LENGTH = 80;
+
+/**
+ * シーン内での1人の登場人物の言及状況（行番号は 1 始まり）
+ */
+export interface MentionStats {
+  count: number;
+  firstLine: number;
+  lastLine: number;
+  firstText: string;
+  lastText: string;
+}
+
+/**
+ * シーンごとの言及状況
+ */
+export interface SceneMentions {
+  sceneIndex: number;
+  title: string;
+  startLine: number;
+  endLine: number;
+  mentions: Record<string, MentionStats>; // 登場人物の正式名 → 言及状況
+}
+
+/**
+ * 本文中の表記から登場人物の正式名を引く辞書
+ * 正式名・別名に加え、「山田 太郎」「リリア・アルカディア」のように区切られた名前の各部分も含める
+ */
+export function buildMentionTerms(characters: Character[]): Map<string, string[]> {
+  const terms = new Map<string, string[]>();
+  const add = (term: string, name: string) => {
+    const owners = terms.get(term) ?? [];
+    if (!owners.includes(name)) {
+      owners.push(name);
+    }
+    terms.set(term, owners);
+  };
+
+  for (const character of characters) {
+    add(character.name, character.name);
+    for (const alias of character.aliases) {
+      add(alias, character.name);
+    }
+    const parts = character.name.split(/[\s・･]+/).filter((part) => part.length >= 2);
+    if (parts.length > 1) {
+      parts.forEach((part) => add(part, character.name));
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * 本文ファイルのシーンごとに登場人物の言及を数える
+ * シーンは Indexer と同じチャンク分割の結果を用い、オーバーラップした行は先のシーンにのみ数える
+ * @param content 本文
+ * @param chunks content をチャンク分割した結果
+ * @param terms buildMentionTerms で作成した辞書
+ */
+export function analyzeSceneMentions(
+  content: string,
+  chunks: Chunk[],
+  terms: Map<string, string[]>,
+): SceneMentions[] {
+  const lines = content.split('\n');
+  const pattern = createMentionPattern(terms);
+  const scenes: SceneMentions[] = [];
+  let coveredUntil = -1;
+
+  const sortedChunks = [...chunks].sort((a, b) => a.startLine - b.startLine);
+  for (const chunk of sortedChunks) {
+    const start = Math.max(chunk.startLine, coveredUntil + 1);
+    const end = Math.min(chunk.endLine, lines.length - 1);
+    if (start > end) {
+      continue;
+    }
+    coveredUntil = end;
+
+    const scene: SceneMentions = {
+      sceneIndex: scenes.length,
+      title: chunk.title,
+      startLine: start + 1,
+      endLine: end + 1,
+      mentions: {},
+    };
+
+    if (pattern) {
+      for (let index = start; index <= end; index++) {
+        countLineMentions(scene, lines[index], index + 1, pattern, terms);
+      }
+    }
+    scenes.push(scene);
+  }
+
+  return scenes;
+}
+
+function countLineMentions(
+  scene: SceneMentions,
+  line: string,
+  lineNumber: number,
+  pattern: RegExp,
+  terms: Map<string, string[]>,
+): void {
+  for (const match of line.matchAll(pattern)) {
+    for (const name of terms.get(match[0]) ?? []) {
+      const text = line.trim().substring(0, SNIPPET_LENGTH);
+      const stats = scene.mentions[name];
+      if (!stats) {
+        scene.mentions[name] = {
+          count: 1,
+          firstLine: lineNumber,
+          lastLine: lineNumber,
+          firstText: text,
+          lastText: text,
+        };
+      } else {
+        stats.count++;
+        stats.lastLine = lineNumber;
+        stats.lastText = text;
+      }
+    }
+  }
+}
+
+/**
+ * 長い表記を優先して照合する正規表現（「山田太郎」の中の「太郎」を二重に数えない）
+ */
+function createMentionPattern(terms: Map<string, string[]>): RegExp | null {
+  const sorted = [...terms.keys()].filter(Boolean).sort((a, b) => b.length - a.length);
+  if (sorted.length === 0) {
+    return null;
+  }
+  return new RegExp(
+    sorted.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'),
+    'g',
+  );
+}
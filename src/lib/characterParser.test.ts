@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { parseCharacters, parseCharacterHeading, parsePlaces } from './characterParser.js';
+
+const SOURCE = 'settings/basic.md';
+
+describe('parseCharacterHeading', () => {
+  it('括弧内を別名として取り出す', () => {
+    expect(parseCharacterHeading('山田太郎（主人公）')).toEqual({
+      name: '山田太郎',
+      aliases: ['主人公'],
+    });
+    expect(parseCharacterHeading('Lilia (リリア, ヒロイン)')).toEqual({
+      name: 'Lilia',
+      aliases: ['リリア', 'ヒロイン'],
+    });
+  });
+
+  it('括弧がない場合は見出し全体を名前とする', () => {
+    expect(parseCharacterHeading('**ガルド**')).toEqual({ name: 'ガルド', aliases: [] });
+  });
+});
+
+describe('parseCharacters', () => {
+  it('登場人物セクション配下の見出しと属性を抽出する', () => {
+    const markdown = `# 魔法の世界の冒険
+
+## 登場人物
+
+### 山田太郎（主人公）
+
+- **年齢**: 16歳
+- **性格**: 真面目で努力家
+
+### リリア（ヒロイン）
+
+- **年齢**: 15歳
+
+## 世界設定
+
+### アルカディア
+
+- **種別**: 王国
+`;
+
+    const characters = parseCharacters(markdown, SOURCE);
+
+    expect(characters.map((c) => c.name)).toEqual(['山田太郎', 'リリア']);
+    expect(characters[0]).toEqual({
+      name: '山田太郎',
+      aliases: ['主人公'],
+      attributes: { 年齢: '16歳', 性格: '真面目で努力家' },
+      sourceFiles: [SOURCE],
+    });
+  });
+
+  it('別名・読みの属性を別名に加える', () => {
+    const markdown = `## キャラクター
+
+### 山田太郎
+
+- **読み**: やまだ たろう
+- **愛称**: タロ、タロー
+- 通称：転生者
+`;
+
+    const [character] = parseCharacters(markdown, SOURCE);
+
+    expect(character.aliases).toEqual(['やまだ たろう', 'タロ', 'タロー', '転生者']);
+    expect(character.attributes['通称']).toBe('転生者');
+  });
+
+  it('字下げされた箇条書きは直前の属性に、それ以外は説明に含める', () => {
+    const markdown = `## 登場人物
+
+### リリア
+
+魔法学校の首席。
+
+- **特技**:
+  - 元素魔法
+  - 古代語の詠唱
+- 太郎の師匠になる
+`;
+
+    const [character] = parseCharacters(markdown, SOURCE);
+
+    expect(character.attributes['特技']).toBe('元素魔法\n古代語の詠唱');
+    expect(character.description).toBe('魔法学校の首席。\n太郎の師匠になる');
+  });
+
+  it('登場人物セクションがない場合は空配列を返す', () => {
+    expect(parseCharacters('# 設定\n\n### 山田太郎\n\n- **年齢**: 16歳', SOURCE)).toEqual([]);
+  });
+
+  it('コードブロック内の見出しは無視する', () => {
+    const markdown = '## 登場人物\n\n```\n### 偽物\n```\n\n### 本物\n';
+
+    expect(parseCharacters(markdown, SOURCE).map((c) => c.name)).toEqual(['本物']);
+  });
+});
+
+describe('parsePlaces', () => {
+  it('世界設定・舞台セクション配下の見出しを場所として抽出する', () => {
+    const markdown = `## 登場人物
+
+### 山田太郎
+
+## 世界設定
+
+### 王立魔法学院（学院）
+
+- **所在地**: 王都
+
+## 舞台
+
+### 東の森
+`;
+
+    const places = parsePlaces(markdown, SOURCE);
+
+    expect(places.map((p) => [p.name, p.aliases])).toEqual([
+      ['王立魔法学院', ['学院']],
+      ['東の森', []],
+    ]);
+    expect(places[0].attributes).toEqual({ 所在地: '王都' });
+  });
+});
@@ -0,0 +1,214 @@
+import { Character, Place, SettingsEntity } from '../domain/character.js';
+
+/**
+ * 登場人物セクションとみなす見出しのパターン
+ * このセクション直下の見出しを1人の登場人物として扱う
+ */
+const CHARACTER_SECTION_PATTERN = /登場人物|キャラクター|人物紹介|人物設定|^characters?$/i;
+
+/**
+ * 場所セクションとみなす見出しのパターン
+ */
+const PLACE_SECTION_PATTERN = /世界設定|舞台|場所|地名|地理|都市|施設|学校|組織|^places?$/i;
+
+/**
+ * 値を別名として扱う属性名
+ */
+const ALIAS_ATTRIBUTE_KEYS = new Set([
+  '別名',
+  '愛称',
+  '通称',
+  '呼び名',
+  'あだ名',
+  'ニックネーム',
+  '読み',
+  'よみ',
+  'ふりがな',
+  'フリガナ',
+  '本名',
+  'alias',
+  'aliases',
+  'nickname',
+]);
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const BULLET_PATTERN = /^(\s*)[-*+]\s+(.*)$/;
+const BOLD_ATTRIBUTE_PATTERN = /^\*\*(.+?)\*\*\s*[:：]\s*(.*)$/;
+const PLAIN_ATTRIBUTE_PATTERN = /^([^:：\s][^:：]{0,19})[:：]\s*(.+)$/;
+const NAME_WITH_ALIASES_PATTERN = /^(.+?)\s*[（(]([^（）()]+)[)）]\s*$/;
+const ALIAS_SEPARATOR_PATTERN = /[、,，/／]/;
+
+interface EntityDraft {
+  entity: SettingsEntity;
+  descriptionLines: string[];
+  lastAttributeKey?: string;
+}
+
+/**
+ * 見出しテキストから名前と括弧内の別名を取り出す
+ * 例: "山田太郎（主人公）" → { name: "山田太郎", aliases: ["主人公"] }
+ */
+export function parseCharacterHeading(heading: string): { name: string; aliases: string[] } {
+  const text = heading.replace(/\*\*/g, '').trim();
+  const match = text.match(NAME_WITH_ALIASES_PATTERN);
+  if (!match) {
+    return { name: text, aliases: [] };
+  }
+  return { name: match[1].trim(), aliases: splitAliases(match[2]) };
+}
+
+/**
+ * 設定ファイルの Markdown から登場人物を抽出
+ * 「登場人物」「キャラクター」などの見出しの直下にある見出しを登場人物とし、
+ * その配下の箇条書き（- **属性**: 値）を属性として読み取る
+ * @param markdown 設定ファイルの内容
+ * @param sourceFile 定義元ファイル（プロジェクトルートからの相対パス）
+ * @returns 抽出した登場人物（出現順）
+ */
+export function parseCharacters(markdown: string, sourceFile: string): Character[] {
+  return parseEntities(markdown, sourceFile, CHARACTER_SECTION_PATTERN);
+}
+
+/**
+ * 設定ファイルの Markdown から場所（地名・施設など）を抽出
+ * 「世界設定」「舞台」「学校」などの見出しの直下にある見出しを場所として扱う
+ * @param markdown 設定ファイルの内容
+ * @param sourceFile 定義元ファイル（プロジェクトルートからの相対パス）
+ * @returns 抽出した場所（出現順）
+ */
+export function parsePlaces(markdown: string, sourceFile: string): Place[] {
+  return parseEntities(markdown, sourceFile, PLACE_SECTION_PATTERN);
+}
+
+/**
+ * sectionPattern に一致する見出しの直下の見出しを項目として抽出
+ */
+function parseEntities(
+  markdown: string,
+  sourceFile: string,
+  sectionPattern: RegExp,
+): SettingsEntity[] {
+  const entities: SettingsEntity[] = [];
+  let sectionLevel: number | null = null;
+  let current: EntityDraft | null = null;
+
+  const finish = () => {
+    if (current) {
+      const description = current.descriptionLines.join('\n').trim();
+      if (description) {
+        current.entity.description = description;
+      }
+      entities.push(current.entity);
+      current = null;
+    }
+  };
+
+  let inCodeBlock = false;
+  for (const line of markdown.split(/\r?\n/)) {
+    if (line.trimStart().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock) {
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      const level = heading[1].length;
+      const text = heading[2];
+
+      if (sectionLevel !== null && level <= sectionLevel) {
+        finish();
+        sectionLevel = null;
+      }
+
+      if (sectionLevel === null) {
+        if (sectionPattern.test(text.trim())) {
+          sectionLevel = level;
+        }
+        continue;
+      }
+
+      if (level === sectionLevel + 1) {
+        finish();
+        const { name, aliases } = parseCharacterHeading(text);
+        if (name) {
+          current = {
+            entity: { name, aliases, attributes: {}, sourceFiles: [sourceFile] },
+            descriptionLines: [],
+          };
+        }
+      }
+      // さらに深い見出しは現在の登場人物の一部として扱う
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+    applyLine(current, line);
+  }
+
+  finish();
+  return entities;
+}
+
+/**
+ * 項目の見出し配下の1行を取り込む
+ */
+function applyLine(draft: EntityDraft, line: string): void {
+  const { entity } = draft;
+  const bullet = line.match(BULLET_PATTERN);
+
+  if (bullet) {
+    const indented = bullet[1].length > 0;
+    const body = bullet[2].trim();
+
+    // 字下げされた箇条書きは直前の属性の続きとして扱う
+    if (indented && draft.lastAttributeKey) {
+      const key = draft.lastAttributeKey;
+      entity.attributes[key] = [entity.attributes[key], body].filter(Boolean).join('\n');
+      return;
+    }
+
+    const attribute = body.match(BOLD_ATTRIBUTE_PATTERN) ?? body.match(PLAIN_ATTRIBUTE_PATTERN);
+    if (attribute) {
+      const key = attribute[1].trim();
+      const value = attribute[2].trim();
+      entity.attributes[key] = value;
+      draft.lastAttributeKey = key;
+      if (ALIAS_ATTRIBUTE_KEYS.has(key.toLowerCase())) {
+        addAliases(entity, splitAliases(value));
+      }
+      return;
+    }
+
+    draft.lastAttributeKey = undefined;
+    draft.descriptionLines.push(body);
+    return;
+  }
+
+  draft.lastAttributeKey = undefined;
+  if (line.trim() !== '') {
+    draft.descriptionLines.push(line.trim());
+  }
+}
+
+function splitAliases(text: string): string[] {
+  return text
+    .split(ALIAS_SEPARATOR_PATTERN)
+    .map((alias) => alias.trim())
+    .filter((alias) => alias !== '');
+}
+
+/**
+ * 別名を重複なく追加（正式名と同じものは追加しない）
+ */
+export function addAliases(entity: SettingsEntity, aliases: string[]): void {
+  for (const alias of aliases) {
+    if (alias !== entity.name && !entity.aliases.includes(alias)) {
+      entity.aliases.push(alias);
+    }
+  }
+}
@@ -4,6 +4,7 @@ import {
   SimpleTokenCounter,
   CharacterOverlapCalculator,
   SequentialSplitStrategy,
+  JapaneseTextSplitStrategy,
   ChunkingStrategy,
   TokenCounter,
   OverlapCalculator,
@@ -103,6 +104,89 @@ describe('SequentialSplitStrategy', () => {
   });
 });
 
+describe('JapaneseTextSplitStrategy', () => {
+  let strategy: TextSplitStrategy;
+  // 1文字 = 1トークンとして境界を確認しやすくする
+  const charCounter: TokenCounter = { count: (text) => text.length };
+
+  beforeEach(() => {
+    strategy = new JapaneseTextSplitStrategy();
+  });
+
+  it('文末の句点・感嘆符の直後で分割する', () => {
+    const text = '朝が来た。鳥が鳴いた！窓を開けた？';
+    const result = strategy.split(text, 11, charCounter);
+
+    expect(result).toEqual(['朝が来た。鳥が鳴いた！', '窓を開けた？']);
+  });
+
+  it('括弧の内側では分割せず、閉じ括弧の直後で分割する', () => {
+    const text = '「おはよう。今日も晴れだね」と彼女は言った。';
+    const result = strategy.split(text, 15, charCounter);
+
+    expect(result).toEqual(['「おはよう。今日も晴れだね」', 'と彼女は言った。']);
+  });
+
+  it('改行位置で分割した場合は改行を含めない', () => {
+    const text = '一行目の文章\n二行目の文章\n三行目';
+    const result = strategy.split(text, 13, charCounter);
+
+    expect(result).toEqual(['一行目の文章\n二行目の文章', '三行目']);
+  });
+
+  it('複数行にまたがる台詞は改行位置でも分割しない', () => {
+    const text = '「一行目\n二行目」\n地の文。';
+    const result = strategy.split(text, 10, charCounter);
+
+    expect(result).toEqual(['「一行目\n二行目」', '地の文。']);
+  });
+
+  it('台詞だけで最大トークン数を超える場合は台詞内の文末で分割する', () => {
+    const text = '「とても長い台詞。まだまだ続く台詞。」';
+    const result = strategy.split(text, 12, charCounter);
+
+    expect(result).toEqual(['「とても長い台詞。', 'まだまだ続く台詞。」']);
+  });
+
+  it('区切りのない長い文は文字数で分割する', () => {
+    const text = 'あ'.repeat(25);
+    const result = strategy.split(text, 10, charCounter);
+
+    expect(result.join('')).toBe(text);
+    for (const chunk of result) {
+      expect(chunk.length).toBeLessThanOrEqual(10);
+    }
+  });
+
+  it('場面転換の記号の行から新しい分割を始める', () => {
+    const text = '前の場面。\n＊＊＊\n次の場面。\n◇\n最後。';
+    const result = strategy.split(text, 100, charCounter);
+
+    expect(result).toEqual(['前の場面。', '＊＊＊\n次の場面。', '◇\n最後。']);
+  });
+
+  it('閉じられていない括弧は場面転換で打ち切る', () => {
+    const text = '「閉じない台詞\n◇ ◇ ◇\n次の場面。続き。';
+    const result = strategy.split(text, 12, charCounter);
+
+    expect(result).toEqual(['「閉じない台詞', '◇ ◇ ◇\n次の場面。', '続き。']);
+  });
+
+  it('MarkdownChunkingStrategyで長い段落の分割に使用できる', () => {
+    const paragraph = Array.from({ length: 20 }, (_, i) => `「台詞${i}です。」と言った。`).join('');
+    const chunker = new MarkdownChunkingStrategy(charCounter, undefined, strategy);
+    const chunks = chunker.chunk(`# 章\n\n${paragraph}`, 'chapter.txt', 60, 0, 'test-novel');
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks.slice(1)) {
+      expect(chunk.content.length).toBeLessThanOrEqual(60);
+      expect(chunk.content).toMatch(/[。」]$/);
+      // 台詞の途中で分割されない
+      expect(chunk.content.split('「').length).toBe(chunk.content.split('」').length);
+    }
+  });
+});
+
 describe('MarkdownChunkingStrategy', () => {
   let strategy: ChunkingStrategy;
 
@@ -285,6 +369,42 @@ Line 3`;
     });
   });
 
+  describe('ルビ', () => {
+    it('本文は親文字のみにし、読みをメタデータに残す', () => {
+      const text = `# 第一章 ｜蒼穹《そら》の塔
+
+魔術師《まじゅつし》は塔に登った。
+ルビのない段落。`;
+      const chunks = strategy.chunk(text, 'test.md', 100, 0.2, 'test-novel-id');
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].title).toBe('第一章 蒼穹の塔');
+      expect(chunks[0].content).toBe(`# 第一章 蒼穹の塔
+
+魔術師は塔に登った。
+ルビのない段落。`);
+      expect(chunks[0].startLine).toBe(0);
+      expect(chunks[0].endLine).toBe(3);
+      expect(chunks[0].readings).toEqual([
+        { base: '蒼穹', reading: 'そら' },
+        { base: '魔術師', reading: 'まじゅつし' },
+      ]);
+    });
+
+    it('ルビのないチャンクには読みを設定しない', () => {
+      const chunks = strategy.chunk('ルビなし', 'test.md', 100, 0.2, 'test-novel-id');
+      expect(chunks[0].readings).toBeUndefined();
+    });
+
+    it('読みだけが変わった場合もハッシュが変わる', () => {
+      const chunks1 = strategy.chunk('魔術師《まじゅつし》', 'test.md', 100, 0.2, 'test-novel-id');
+      const chunks2 = strategy.chunk('魔術師《ウィザード》', 'test.md', 100, 0.2, 'test-novel-id');
+
+      expect(chunks1[0].content).toBe(chunks2[0].content);
+      expect(chunks1[0].hash).not.toBe(chunks2[0].hash);
+    });
+  });
+
   describe('エッジケース', () => {
     it('空文字列を処理', () => {
       const chunks = strategy.chunk('', 'test.md', 100, 0.2, 'test-novel-id');
@@ -317,6 +437,13 @@ describe('createChunker', () => {
     expect(chunker).toBeInstanceOf(MarkdownChunkingStrategy);
   });
 
+  it('分割戦略を名前で指定できる', () => {
+    const chunker = createChunker(undefined, undefined, undefined, 'japanese');
+    const splitStrategy = (chunker as unknown as { splitStrategy: TextSplitStrategy })
+      .splitStrategy;
+    expect(splitStrategy).toBeInstanceOf(JapaneseTextSplitStrategy);
+  });
+
   it('カスタム戦略を使用', () => {
     const customStrategy = new MarkdownChunkingStrategy();
     const chunker = createChunker(customStrategy);
@@ -1,4 +1,6 @@
 import { Chunk } from '../backends/SearchBackend.js';
+import { ConfigurationError } from '../errors/index.js';
+import { extractRubyReadings, stripRuby } from './ruby.js';
 
 /**
  * トークン数計算の抽象インターフェース
@@ -106,6 +108,212 @@ export class SequentialSplitStrategy implements TextSplitStrategy {
   }
 }
 
+/**
+ * 分割戦略の名前（設定ファイルの chunk.splitStrategy）
+ */
+export type SplitStrategyName = 'sequential' | 'japanese';
+
+/**
+ * 場面転換の記号のみからなる行（＊＊＊、◇◇◇ など）
+ */
+const SCENE_BREAK_PATTERN = /^[ \t　]*(?:[＊*◇◆☆★□■※][ \t　]*)+$/;
+
+/**
+ * 文末とみなす記号
+ */
+const SENTENCE_ENDINGS = new Set(['。', '．', '！', '？', '!', '?']);
+
+/**
+ * 対応する括弧（開き → 閉じ）
+ */
+const BRACKET_PAIRS: Record<string, string> = {
+  '「': '」',
+  '『': '』',
+  '（': '）',
+  '(': ')',
+  '【': '】',
+  '〈': '〉',
+  '《': '》',
+};
+
+const CLOSING_BRACKETS = new Set(Object.values(BRACKET_PAIRS));
+
+/**
+ * 台詞の終わりとして区切りにできる閉じ括弧
+ */
+const DIALOGUE_CLOSERS = new Set(['」', '』']);
+
+/**
+ * 分割の最小単位（文・台詞・行）
+ */
+interface TextUnit {
+  text: string;
+  lineEnd: boolean; // 直後に改行がある（改行自体は text に含めない）
+  sceneBreak: boolean; // 場面転換の記号のみの行
+}
+
+/**
+ * 日本語の文・台詞の区切りを優先して分割する戦略
+ * 。！？ や閉じ括弧 」』 の直後で区切り、括弧の内側では分割しない
+ * （括弧内だけで最大トークン数を超える場合は括弧内の文末で、それでも超える場合は文字数で分割する）。
+ * 場面転換の記号（＊＊＊、◇ など）の行は常に新しい分割の先頭とする。
+ * 改行位置で分割した場合、その改行は分割後のテキストに含めない
+ */
+export class JapaneseTextSplitStrategy implements TextSplitStrategy {
+  constructor(private fallbackStrategy: TextSplitStrategy = new SequentialSplitStrategy()) {}
+
+  split(text: string, maxTokens: number, tokenCounter: TokenCounter): string[] {
+    if (text.length === 0) {
+      return [];
+    }
+    return this.pack(this.segment(text, true), maxTokens, tokenCounter, true);
+  }
+
+  /**
+   * 最大トークン数に収まる範囲で単位をまとめる
+   */
+  private pack(
+    units: TextUnit[],
+    maxTokens: number,
+    tokenCounter: TokenCounter,
+    respectBrackets: boolean,
+  ): string[] {
+    const result: string[] = [];
+    let current: TextUnit[] = [];
+    const flush = () => {
+      if (current.length > 0) {
+        result.push(this.render(current));
+        current = [];
+      }
+    };
+
+    for (const unit of units) {
+      if (unit.sceneBreak) {
+        flush();
+      }
+
+      const candidate = [...current, unit];
+      if (tokenCounter.count(this.render(candidate)) <= maxTokens) {
+        current = candidate;
+        continue;
+      }
+
+      flush();
+      if (tokenCounter.count(unit.text) <= maxTokens) {
+        current = [unit];
+      } else if (respectBrackets) {
+        // 括弧内だけで最大トークン数を超える場合は括弧を無視して文末で分割
+        result.push(...this.pack(this.segment(unit.text, false), maxTokens, tokenCounter, false));
+      } else {
+        result.push(...this.fallbackStrategy.split(unit.text, maxTokens, tokenCounter));
+      }
+    }
+    flush();
+
+    return result;
+  }
+
+  /**
+   * テキストを分割可能な位置で区切る
+   * @param respectBrackets 括弧の内側を分割不可とするか
+   */
+  private segment(text: string, respectBrackets: boolean): TextUnit[] {
+    const units: TextUnit[] = [];
+    const lines = text.split('\n');
+    let openBrackets: string[] = []; // 対応する閉じ括弧のスタック
+    let buffer = '';
+
+    const push = (lineEnd: boolean, sceneBreak = false) => {
+      units.push({ text: buffer, lineEnd, sceneBreak });
+      buffer = '';
+    };
+
+    lines.forEach((line, lineIndex) => {
+      const isLastLine = lineIndex === lines.length - 1;
+
+      if (line.trim() !== '' && SCENE_BREAK_PATTERN.test(line)) {
+        // 閉じられていない括弧は場面転換で打ち切る
+        if (buffer.endsWith('\n')) {
+          buffer = buffer.slice(0, -1);
+          push(true);
+        } else if (buffer.length > 0) {
+          push(false);
+        }
+        openBrackets = [];
+        buffer = line;
+        push(!isLastLine, true);
+        return;
+      }
+
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        buffer += char;
+
+        if (BRACKET_PAIRS[char]) {
+          openBrackets.push(BRACKET_PAIRS[char]);
+          continue;
+        }
+        const closesBracket =
+          openBrackets.length > 0 && openBrackets[openBrackets.length - 1] === char;
+        if (closesBracket) {
+          openBrackets.pop();
+        }
+
+        const next = line[i + 1];
+        const atBoundary =
+          (SENTENCE_ENDINGS.has(char) || (closesBracket && DIALOGUE_CLOSERS.has(char))) &&
+          next !== undefined &&
+          !SENTENCE_ENDINGS.has(next) &&
+          !CLOSING_BRACKETS.has(next);
+        if (atBoundary && (!respectBrackets || openBrackets.length === 0)) {
+          push(false);
+        }
+      }
+
+      if (isLastLine) {
+        if (buffer.length > 0) push(false);
+      } else if (!respectBrackets || openBrackets.length === 0) {
+        push(true);
+      } else {
+        buffer += '\n';
+      }
+    });
+
+    return units;
+  }
+
+  /**
+   * 単位を元のテキストの形に戻す（末尾の改行は含めない）
+   */
+  private render(units: TextUnit[]): string {
+    return units
+      .map((unit, index) =>
+        index < units.length - 1 && unit.lineEnd ? `${unit.text}\n` : unit.text,
+      )
+      .join('');
+  }
+}
+
+/**
+ * 名前から分割戦略を作成
+ */
+export function createSplitStrategy(name: SplitStrategyName): TextSplitStrategy {
+  switch (name) {
+    case 'japanese':
+      return new JapaneseTextSplitStrategy();
+    case 'sequential':
+      return new SequentialSplitStrategy();
+    default:
+      throw new ConfigurationError(
+        `未対応の分割戦略です: ${name as string}`,
+        'INVALID_SPLIT_STRATEGY',
+        {
+          name,
+        },
+      );
+  }
+}
+
 /**
  * チャンク化戦略の抽象インターフェース
  */
@@ -146,7 +354,10 @@ export class MarkdownChunkingStrategy implements ChunkingStrategy {
     novelId: string,
     fileType?: 'content' | 'settings',
   ): Chunk[] {
-    const lines = text.split('\n');
+    // ルビ記法は親文字のみにしてチャンク化し、読みはチャンクのメタデータとして残す
+    // （ルビは行をまたがないため、行番号は元のテキストと一致する）
+    const rawLines = text.split('\n');
+    const lines = rawLines.map(stripRuby);
     const chunks: Chunk[] = [];
 
     // セクション単位でまず分割
@@ -164,6 +375,15 @@ export class MarkdownChunkingStrategy implements ChunkingStrategy {
       chunks.push(...sectionChunks);
     }
 
+    for (const chunk of chunks) {
+      const readings = extractRubyReadings(
+        rawLines.slice(chunk.startLine, chunk.endLine + 1).join('\n'),
+      );
+      if (readings.length > 0) {
+        chunk.readings = readings;
+      }
+    }
+
     return chunks;
   }
 
@@ -485,12 +705,21 @@ interface Paragraph {
 
 /**
  * チャンカーのファクトリー関数
+ * @param splitStrategy 長い段落の分割戦略（インスタンスまたは戦略名）
  */
 export function createChunker(
   strategy?: ChunkingStrategy,
   tokenCounter?: TokenCounter,
   overlapCalculator?: OverlapCalculator,
-  splitStrategy?: TextSplitStrategy,
+  splitStrategy?: TextSplitStrategy | SplitStrategyName,
 ): ChunkingStrategy {
-  return strategy || new MarkdownChunkingStrategy(tokenCounter, overlapCalculator, splitStrategy);
+  if (strategy) {
+    return strategy;
+  }
+  // TextSplitStrategy は構造的に文字列とも互換なため typeof で判定する
+  const textSplitStrategy =
+    typeof splitStrategy === 'string'
+      ? createSplitStrategy(splitStrategy as SplitStrategyName)
+      : splitStrategy;
+  return new MarkdownChunkingStrategy(tokenCounter, overlapCalculator, textSplitStrategy);
 }
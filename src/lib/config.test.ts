@@ -69,6 +69,7 @@ describe('Config Loader', () => {
       chunk: {
         maxTokens: 300,
         overlap: 0.15,
+        splitStrategy: 'sequential',
       },
       embedding: {
         enabled: true,
@@ -76,6 +77,12 @@ describe('Config Loader', () => {
         dimensions: 384,
         batchSize: 32,
       },
+      embeddingCache: {
+        enabled: true,
+        directory: '.dialogoi/embedding-cache',
+        maxEntries: 20000,
+        maxAgeDays: 30,
+      },
       qdrant: {
         url: 'http://localhost:6333',
         collection: 'dialogoi-chunks',
@@ -88,15 +95,31 @@ describe('Config Loader', () => {
         },
       },
       vector: {
+        backend: 'qdrant',
         collectionName: 'dialogoi-chunks',
         scoreThreshold: 0.7,
         vectorDimensions: 384,
         snippetLength: 120,
       },
+      localVector: {
+        directory: '.dialogoi/vectors',
+        fallback: true,
+      },
       search: {
         defaultK: 5,
         maxK: 30,
       },
+      history: {
+        enabled: true,
+        maxVersionsPerFile: 50,
+        maxAgeDays: 90,
+      },
+      templates: {
+        directory: '.dialogoi/templates',
+      },
+      imports: {
+        directory: '.dialogoi/imports',
+      },
       docker: {
         qdrant: {
           containerName: 'dialogoi-qdrant',
@@ -119,6 +142,7 @@ describe('Config Loader', () => {
       chunk: {
         maxTokens: 400,
         overlap: 0.2,
+        splitStrategy: 'sequential',
       },
       embedding: {
         enabled: true,
@@ -126,6 +150,12 @@ describe('Config Loader', () => {
         dimensions: 384,
         batchSize: 32,
       },
+      embeddingCache: {
+        enabled: true,
+        directory: '.dialogoi/embedding-cache',
+        maxEntries: 20000,
+        maxAgeDays: 30,
+      },
       qdrant: {
         url: undefined,
         collection: 'dialogoi-chunks',
@@ -138,15 +168,31 @@ describe('Config Loader', () => {
         },
       },
       vector: {
+        backend: 'qdrant',
         collectionName: 'dialogoi-chunks',
         scoreThreshold: 0.7,
         vectorDimensions: 384,
         snippetLength: 120,
       },
+      localVector: {
+        directory: '.dialogoi/vectors',
+        fallback: true,
+      },
       search: {
         defaultK: 10,
         maxK: 50,
       },
+      history: {
+        enabled: true,
+        maxVersionsPerFile: 50,
+        maxAgeDays: 90,
+      },
+      templates: {
+        directory: '.dialogoi/templates',
+      },
+      imports: {
+        directory: '.dialogoi/imports',
+      },
       docker: {
         qdrant: {
           containerName: 'dialogoi-qdrant',
@@ -179,6 +225,7 @@ describe('Config Loader', () => {
     process.argv.push('--project-root', './cli-novels');
     process.argv.push('--max-tokens', '600');
     process.argv.push('--default-k', '20');
+    process.argv.push('--split-strategy', 'japanese');
 
     const mockConfig = JSON.stringify({
       vector: 'none',
@@ -195,6 +242,7 @@ describe('Config Loader', () => {
     expect(config.projectRoot).toBe('./cli-novels'); // CLIが優先
     expect(config.chunk.maxTokens).toBe(600); // CLIが優先
     expect(config.search.defaultK).toBe(20); // CLIが優先
+    expect(config.chunk.splitStrategy).toBe('japanese'); // CLIが優先
     expect(config.chunk.overlap).toBe(0.2); // デフォルト値
   });
 
@@ -249,6 +297,47 @@ describe('Config Loader', () => {
     expect(config.qdrant.docker.autoCleanup).toBe(false);
   });
 
+  it('should override vector backend config with command line arguments', () => {
+    process.argv.push('--vector-backend', 'local');
+    process.argv.push('--local-vector-dir', './vector-store');
+
+    vi.mocked(fs.readFileSync).mockImplementation(() => {
+      throw new Error('File not found');
+    });
+
+    const config = loadConfig();
+
+    expect(config.vector.backend).toBe('local');
+    expect(config.vector.collectionName).toBe('dialogoi-chunks'); // デフォルト値
+    expect(config.localVector.directory).toBe('./vector-store');
+    expect(config.localVector.fallback).toBe(true); // デフォルト値
+  });
+
+  it('should override embedding cache directory with command line arguments', () => {
+    process.argv.push('--embedding-cache-dir', '/tmp/embedding-cache');
+
+    vi.mocked(fs.readFileSync).mockImplementation(() => {
+      throw new Error('File not found');
+    });
+
+    const config = loadConfig();
+
+    expect(config.embeddingCache.directory).toBe('/tmp/embedding-cache');
+    expect(config.embeddingCache.maxEntries).toBe(20000); // デフォルト値
+  });
+
+  it('should override templates directory with command line arguments', () => {
+    process.argv.push('--templates-dir', '/tmp/dialogoi-templates');
+
+    vi.mocked(fs.readFileSync).mockImplementation(() => {
+      throw new Error('File not found');
+    });
+
+    const config = loadConfig();
+
+    expect(config.templates.directory).toBe('/tmp/dialogoi-templates');
+  });
+
   it('should handle boolean CLI arguments correctly', () => {
     // Boolean引数のテスト
     process.argv.push('--docker-enabled', 'true');
@@ -274,4 +363,33 @@ describe('Config Loader', () => {
     expect(config1).toBe(config2);
     expect(fs.readFileSync).toHaveBeenCalledTimes(1);
   });
+
+  describe('validateConfig', () => {
+    it('should return no problems for the default config', async () => {
+      vi.mocked(fs.readFileSync).mockImplementation(() => {
+        throw new Error('File not found');
+      });
+      const { validateConfig } = await import('./config.js');
+
+      expect(validateConfig(loadConfig())).toEqual([]);
+    });
+
+    it('should report out-of-range values and inconsistent settings', async () => {
+      vi.mocked(fs.readFileSync).mockReturnValue(
+        JSON.stringify({
+          chunk: { overlap: 1.5 },
+          vector: { vectorDimensions: 768 },
+          search: { defaultK: 100, maxK: 50 },
+        }),
+      );
+      const { validateConfig } = await import('./config.js');
+
+      const problems = validateConfig(loadConfig());
+
+      expect(problems).toHaveLength(3);
+      expect(problems[0]).toContain('chunk.overlap');
+      expect(problems[1]).toContain('vector.vectorDimensions (768)');
+      expect(problems[2]).toContain('search.maxK (50)');
+    });
+  });
 });
@@ -8,6 +8,7 @@ export interface DialogoiConfig {
   chunk: {
     maxTokens: number;
     overlap: number;
+    splitStrategy: 'sequential' | 'japanese'; // 最大トークン数を超える段落の分割方法
   };
   embedding: {
     enabled: boolean;
@@ -15,6 +16,12 @@ export interface DialogoiConfig {
     dimensions: number;
     batchSize: number;
   };
+  embeddingCache: {
+    enabled: boolean; // 生成済みの埋め込みを再利用するか
+    directory: string; // 保存先（projectRoot からの相対パス、または絶対パス）
+    maxEntries: number; // 保持する埋め込みの上限（0 で無制限、最終利用が古い順に削除）
+    maxAgeDays: number; // prune 時に削除する未使用期間の日数（0 で無制限）
+  };
   qdrant: {
     url?: string; // 明示的に設定された場合のみ接続試行
     apiKey?: string;
@@ -35,15 +42,31 @@ export interface DialogoiConfig {
     };
   };
   vector: {
+    backend: 'qdrant' | 'local'; // 使用するベクトルストア
     collectionName: string;
     scoreThreshold: number;
     vectorDimensions: number;
     snippetLength: number;
   };
+  localVector: {
+    directory: string; // 保存先（projectRoot からの相対パス、または絶対パス）
+    fallback: boolean; // Qdrant 利用不可時にローカルストアへ切り替えるか
+  };
   search: {
     defaultK: number;
     maxK: number;
   };
+  history: {
+    enabled: boolean; // 書き込み時にスナップショットを保存するか
+    maxVersionsPerFile: number; // ファイルごとに保持するバージョン数（0 で無制限）
+    maxAgeDays: number; // バージョンの保持日数（0 で無制限、最新バージョンは常に保持）
+  };
+  templates: {
+    directory: string; // ユーザーテンプレートの置き場所（projectRoot からの相対パス、または絶対パス）
+  };
+  imports: {
+    directory: string; // MCP の取り込みツールが projectRoot 外で読み込めるディレクトリ（projectRoot からの相対パス、または絶対パス）
+  };
 }
 
 // デフォルト設定
@@ -52,6 +75,7 @@ const DEFAULT_CONFIG: DialogoiConfig = {
   chunk: {
     maxTokens: 400,
     overlap: 0.2,
+    splitStrategy: 'sequential',
   },
   embedding: {
     enabled: true,
@@ -59,6 +83,12 @@ const DEFAULT_CONFIG: DialogoiConfig = {
     dimensions: 384,
     batchSize: 32,
   },
+  embeddingCache: {
+    enabled: true,
+    directory: '.dialogoi/embedding-cache',
+    maxEntries: 20000,
+    maxAgeDays: 30,
+  },
   qdrant: {
     url: undefined, // ユーザが明示的に設定した場合のみ接続試行
     collection: 'dialogoi-chunks',
@@ -78,19 +108,62 @@ const DEFAULT_CONFIG: DialogoiConfig = {
     },
   },
   vector: {
+    backend: 'qdrant',
     collectionName: 'dialogoi-chunks',
     scoreThreshold: 0.7,
     vectorDimensions: 384,
     snippetLength: 120,
   },
+  localVector: {
+    directory: '.dialogoi/vectors',
+    fallback: true,
+  },
   search: {
     defaultK: 10,
     maxK: 50,
   },
+  history: {
+    enabled: true,
+    maxVersionsPerFile: 50,
+    maxAgeDays: 90,
+  },
+  templates: {
+    directory: '.dialogoi/templates',
+  },
+  imports: {
+    directory: '.dialogoi/imports',
+  },
 };
 
 let _config: DialogoiConfig | null = null;
 
+/**
+ * 設定を上書きするコマンドライン引数（いずれも値を取る。-- を除く）
+ * getCommandLineOverrides が解釈するオプションと揃える
+ */
+export const CONFIG_OVERRIDE_OPTIONS = [
+  'project-root',
+  'base-dir',
+  'max-tokens',
+  'overlap',
+  'split-strategy',
+  'default-k',
+  'max-k',
+  'qdrant-url',
+  'qdrant-api-key',
+  'qdrant-collection',
+  'qdrant-timeout',
+  'vector-backend',
+  'local-vector-dir',
+  'embedding-cache-dir',
+  'templates-dir',
+  'imports-dir',
+  'docker-enabled',
+  'docker-image',
+  'docker-timeout',
+  'docker-auto-cleanup',
+] as const;
+
 /**
  * コマンドライン引数から設定の上書きを取得
  */
@@ -125,6 +198,13 @@ function getCommandLineOverrides(): Partial<DialogoiConfig> {
           i++;
         }
         break;
+      case '--split-strategy':
+        if (nextArg && !nextArg.startsWith('--')) {
+          if (!overrides.chunk) overrides.chunk = {};
+          overrides.chunk.splitStrategy = nextArg;
+          i++;
+        }
+        break;
       case '--default-k':
         if (nextArg && !nextArg.startsWith('--')) {
           if (!overrides.search) overrides.search = {};
@@ -167,6 +247,41 @@ function getCommandLineOverrides(): Partial<DialogoiConfig> {
           i++;
         }
         break;
+      case '--vector-backend':
+        if (nextArg && !nextArg.startsWith('--')) {
+          if (!overrides.vector) overrides.vector = {};
+          overrides.vector.backend = nextArg;
+          i++;
+        }
+        break;
+      case '--local-vector-dir':
+        if (nextArg && !nextArg.startsWith('--')) {
+          if (!overrides.localVector) overrides.localVector = {};
+          overrides.localVector.directory = nextArg;
+          i++;
+        }
+        break;
+      case '--embedding-cache-dir':
+        if (nextArg && !nextArg.startsWith('--')) {
+          if (!overrides.embeddingCache) overrides.embeddingCache = {};
+          overrides.embeddingCache.directory = nextArg;
+          i++;
+        }
+        break;
+      case '--templates-dir':
+        if (nextArg && !nextArg.startsWith('--')) {
+          if (!overrides.templates) overrides.templates = {};
+          overrides.templates.directory = nextArg;
+          i++;
+        }
+        break;
+      case '--imports-dir':
+        if (nextArg && !nextArg.startsWith('--')) {
+          if (!overrides.imports) overrides.imports = {};
+          overrides.imports.directory = nextArg;
+          i++;
+        }
+        break;
       case '--docker-enabled':
         if (nextArg && !nextArg.startsWith('--')) {
           if (!overrides.qdrant) overrides.qdrant = {};
@@ -281,3 +396,55 @@ export function getConfig(): DialogoiConfig {
   }
   return _config;
 }
+
+/**
+ * 設定値の妥当性を検証する
+ * 設定ファイルは型チェックされないため、値の範囲や設定間の整合性をここで確認する
+ * @returns 問題の説明（問題がなければ空配列）
+ */
+export function validateConfig(config: DialogoiConfig): string[] {
+  const problems: string[] = [];
+  const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+  if (!config.projectRoot) {
+    problems.push('projectRoot が設定されていません');
+  }
+  if (!isPositiveInteger(config.chunk.maxTokens)) {
+    problems.push(`chunk.maxTokens は1以上の整数にしてください: ${config.chunk.maxTokens}`);
+  }
+  if (!(config.chunk.overlap >= 0 && config.chunk.overlap < 1)) {
+    problems.push(`chunk.overlap は0以上1未満にしてください: ${config.chunk.overlap}`);
+  }
+  if (!['sequential', 'japanese'].includes(config.chunk.splitStrategy)) {
+    problems.push(
+      `chunk.splitStrategy は sequential / japanese のいずれかにしてください: ${config.chunk.splitStrategy}`,
+    );
+  }
+  if (!['qdrant', 'local'].includes(config.vector.backend)) {
+    problems.push(
+      `vector.backend は qdrant / local のいずれかにしてください: ${config.vector.backend}`,
+    );
+  }
+  if (config.embedding.dimensions !== config.vector.vectorDimensions) {
+    problems.push(
+      `embedding.dimensions (${config.embedding.dimensions}) と vector.vectorDimensions (${config.vector.vectorDimensions}) が一致しません`,
+    );
+  }
+  if (!isPositiveInteger(config.embedding.batchSize)) {
+    problems.push(`embedding.batchSize は1以上の整数にしてください: ${config.embedding.batchSize}`);
+  }
+  if (!isPositiveInteger(config.search.defaultK) || !isPositiveInteger(config.search.maxK)) {
+    problems.push('search.defaultK と search.maxK は1以上の整数にしてください');
+  } else if (config.search.defaultK > config.search.maxK) {
+    problems.push(
+      `search.defaultK (${config.search.defaultK}) が search.maxK (${config.search.maxK}) を超えています`,
+    );
+  }
+  if (!(config.vector.scoreThreshold >= 0 && config.vector.scoreThreshold <= 1)) {
+    problems.push(
+      `vector.scoreThreshold は0以上1以下にしてください: ${config.vector.scoreThreshold}`,
+    );
+  }
+
+  return problems;
+}
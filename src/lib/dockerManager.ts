@@ -28,6 +28,31 @@ export class DockerManager {
     this.config = config;
   }
 
+  /**
+   * Docker デーモンのバージョンを取得
+   * @returns バージョン（docker コマンドがない・デーモンに接続できない場合は null）
+   */
+  async getDockerVersion(): Promise<string | null> {
+    return new Promise((resolve) => {
+      const process = spawn('docker', ['version', '--format', '{{.Server.Version}}']);
+
+      let output = '';
+
+      process.stdout.on('data', (data) => {
+        output += data.toString();
+      });
+
+      process.on('close', (code) => {
+        resolve(code === 0 && output.trim() ? output.trim() : null);
+      });
+
+      process.on('error', (error) => {
+        this.logger.debug('docker コマンドを実行できません', { error: error.message });
+        resolve(null);
+      });
+    });
+  }
+
   /**
    * コンテナの存在と状態を確認
    * @param containerName コンテナ名
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { buildDocx, DocxDocument } from './docx.js';
+import { readZip } from './zip.js';
+
+describe('buildDocx', () => {
+  const document: DocxDocument = {
+    title: '星と<剣>',
+    author: '山田太郎',
+    modifiedAt: new Date('2026-01-02T03:04:05.678Z'),
+    vertical: false,
+    ruby: true,
+    manuscriptGrid: false,
+    chapters: [
+      {
+        title: '第一章 ｜星《ほし》',
+        hasHeading: true,
+        sourceFile: 'contents/01.md',
+        blocks: [
+          { type: 'paragraph', text: '　魔法《まほう》を使う & 《《走る》》' },
+          { type: 'blank' },
+          { type: 'sceneBreak', text: '◇' },
+          { type: 'heading', level: 1, text: '幕間' },
+        ],
+      },
+      {
+        title: 'epilogue',
+        hasHeading: false,
+        sourceFile: 'contents/02.md',
+        blocks: [{ type: 'paragraph', text: '終わり' }],
+      },
+    ],
+  };
+
+  const read = (doc: DocxDocument, name: string) =>
+    readZip(buildDocx(doc)).get(name)!.toString('utf-8');
+
+  it('Word 文書を構成するファイルを格納する', () => {
+    const entries = readZip(buildDocx(document));
+
+    expect([...entries.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'docProps/core.xml',
+      'word/_rels/document.xml.rels',
+      'word/document.xml',
+      'word/styles.xml',
+    ]);
+    const core = entries.get('docProps/core.xml')!.toString('utf-8');
+    expect(core).toContain('<dc:title>星と&lt;剣&gt;</dc:title>');
+    expect(core).toContain('<dc:creator>山田太郎</dc:creator>');
+    expect(core).toContain('2026-01-02T03:04:05Z');
+    expect(entries.get('word/styles.xml')!.toString('utf-8')).toContain(
+      '<w:style w:type="paragraph" w:styleId="Heading1">',
+    );
+  });
+
+  it('章見出しを Heading1、章内の見出しを Heading2 にし、章ごとに改ページする', () => {
+    const xml = read(document, 'word/document.xml');
+
+    expect(xml).toContain('<w:pPr><w:pStyle w:val="Title"/></w:pPr>');
+    expect(xml).toContain('<w:pPr><w:pStyle w:val="Heading1"/><w:pageBreakBefore/></w:pPr>');
+    expect(xml).toContain(
+      '<w:p><w:pPr><w:pStyle w:val="Heading2"/></w:pPr><w:r><w:t xml:space="preserve">幕間</w:t></w:r></w:p>',
+    );
+    expect(xml).toContain(
+      '<w:p><w:pPr><w:pStyle w:val="SceneBreak"/></w:pPr><w:r><w:t xml:space="preserve">◇</w:t></w:r></w:p>',
+    );
+    // ファイル名の章は見出しを出力せず、最初の段落で改ページする
+    expect(xml).toContain(
+      '<w:p><w:pPr><w:pageBreakBefore/></w:pPr><w:r><w:t xml:space="preserve">終わり</w:t></w:r></w:p>',
+    );
+    expect(xml).not.toContain('epilogue');
+  });
+
+  it('ルビを Word のルビに、傍点を Word の傍点にする', () => {
+    const xml = read(document, 'word/document.xml');
+
+    expect(xml).toContain(
+      '<w:rt><w:r><w:t xml:space="preserve">まほう</w:t></w:r></w:rt><w:rubyBase><w:r><w:t xml:space="preserve">魔法</w:t></w:r></w:rubyBase>',
+    );
+    expect(xml).toContain('<w:t xml:space="preserve">を使う &amp; </w:t>');
+    expect(xml).toContain(
+      '<w:r><w:rPr><w:em w:val="dot"/></w:rPr><w:t xml:space="preserve">走る</w:t></w:r>',
+    );
+
+    const plain = read({ ...document, ruby: false }, 'word/document.xml');
+    expect(plain).not.toContain('<w:ruby>');
+    expect(plain).toContain('<w:t xml:space="preserve">魔法</w:t>');
+  });
+
+  it('縦書きは A4 横向き、原稿用紙では本文領域を 40字×40行に割り付ける', () => {
+    const horizontal = read(document, 'word/document.xml');
+    expect(horizontal).toContain('<w:pgSz w:w="11906" w:h="16838"/>');
+    expect(horizontal).not.toContain('<w:textDirection');
+    expect(horizontal).toContain('<w:docGrid w:type="lines" w:linePitch="360"/>');
+
+    const vertical = read(
+      { ...document, vertical: true, manuscriptGrid: true },
+      'word/document.xml',
+    );
+    expect(vertical).toContain('<w:pgSz w:w="16838" w:h="11906" w:orient="landscape"/>');
+    expect(vertical).toContain('<w:textDirection w:val="tbRl"/>');
+    // 字送り 225twip（11.25pt）× 40字、行送り 348twip × 40行
+    expect(vertical).toContain(
+      '<w:docGrid w:type="linesAndChars" w:linePitch="348" w:charSpace="3072"/>',
+    );
+  });
+});
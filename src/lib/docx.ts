@@ -0,0 +1,275 @@
+import { createZip, ZipEntry } from './zip.js';
+import { ManuscriptBlock, ManuscriptChapter } from './manuscript.js';
+import { parseRuby } from './ruby.js';
+
+/**
+ * DOCX にする原稿の内容
+ */
+export interface DocxDocument {
+  title: string;
+  author?: string;
+  description?: string;
+  modifiedAt: Date;
+  vertical: boolean; // 縦書き（A4 横向き、右から左へ行を送る）
+  ruby: boolean; // ルビ記法を Word のルビにする（false の場合は親文字のみ）
+  manuscriptGrid: boolean; // 原稿用紙のように 40字×40行の文字グリッドにする
+  chapters: ManuscriptChapter[];
+}
+
+// 寸法の単位は twip（1/20 ポイント）
+const PAGE_SHORT_SIDE = 11906; // A4 の短辺
+const PAGE_LONG_SIDE = 16838; // A4 の長辺
+const PAGE_MARGIN = 1440;
+const FONT_SIZE = 21; // 本文の文字サイズ（半ポイント、10.5pt）
+const RUBY_FONT_SIZE = 10; // ルビの文字サイズ（半ポイント、5pt）
+const DEFAULT_LINE_PITCH = 360;
+const GRID_CHARS = 40; // 原稿用紙の1行の字数
+const GRID_LINES = 40; // 原稿用紙の1ページの行数
+
+const EMPHASIS_PATTERN = /《《([^《》\n]+)》》/g;
+
+/**
+ * XML のテキスト・属性値をエスケープ
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderRun(text: string, emphasis = false): string {
+  const properties = emphasis ? '<w:rPr><w:em w:val="dot"/></w:rPr>' : '';
+  return `<w:r>${properties}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+/**
+ * ルビを Word のルビ（w:ruby）にする
+ */
+function renderRuby(base: string, reading: string): string {
+  return `<w:r><w:ruby><w:rubyPr><w:rubyAlign w:val="distributeSpace"/><w:hps w:val="${RUBY_FONT_SIZE}"/><w:hpsRaise w:val="${FONT_SIZE - 2}"/><w:hpsBaseText w:val="${FONT_SIZE}"/><w:lid w:val="ja-JP"/></w:rubyPr><w:rt>${renderRun(reading)}</w:rt><w:rubyBase>${renderRun(base)}</w:rubyBase></w:ruby></w:r>`;
+}
+
+/**
+ * ルビのない区間のテキストを run にする（《《傍点》》は Word の傍点にする）
+ */
+function renderPlainText(text: string): string {
+  const runs: string[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(EMPHASIS_PATTERN)) {
+    if (match.index > lastIndex) {
+      runs.push(renderRun(text.slice(lastIndex, match.index)));
+    }
+    runs.push(renderRun(match[1], true));
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    runs.push(renderRun(text.slice(lastIndex)));
+  }
+  return runs.join('');
+}
+
+/**
+ * 本文のテキストを run にする（ルビ記法を w:ruby に変換）
+ */
+function renderText(text: string, ruby: boolean): string {
+  return parseRuby(text)
+    .map((segment) => {
+      if (segment.type === 'text') {
+        return renderPlainText(segment.text);
+      }
+      return ruby ? renderRuby(segment.base, segment.reading) : renderPlainText(segment.base);
+    })
+    .join('');
+}
+
+function renderParagraph(runs: string, style?: string, pageBreakBefore = false): string {
+  const properties = [
+    style ? `<w:pStyle w:val="${style}"/>` : '',
+    pageBreakBefore ? '<w:pageBreakBefore/>' : '',
+  ].join('');
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${runs}</w:p>`;
+}
+
+function renderBlock(block: ManuscriptBlock, ruby: boolean, pageBreakBefore: boolean): string {
+  switch (block.type) {
+    case 'heading':
+      return renderParagraph(
+        renderText(block.text, ruby),
+        `Heading${Math.min(block.level + 1, 6)}`,
+        pageBreakBefore,
+      );
+    case 'paragraph':
+      return renderParagraph(renderText(block.text, ruby), undefined, pageBreakBefore);
+    case 'blank':
+      return renderParagraph('', undefined, pageBreakBefore);
+    case 'sceneBreak':
+      return renderParagraph(renderRun(block.text), 'SceneBreak', pageBreakBefore);
+  }
+}
+
+/**
+ * 章を段落にする（章は改ページから始め、見出しは Heading1 にする）
+ */
+function renderChapter(chapter: ManuscriptChapter, ruby: boolean): string {
+  const paragraphs = chapter.hasHeading
+    ? [renderParagraph(renderText(chapter.title, ruby), 'Heading1', true)]
+    : [];
+  chapter.blocks.forEach((block, index) => {
+    paragraphs.push(renderBlock(block, ruby, !chapter.hasHeading && index === 0));
+  });
+  return paragraphs.join('\n');
+}
+
+/**
+ * ページ設定（縦書きは A4 横向き、原稿用紙の場合は本文領域を 40字×40行に割り付ける）
+ */
+function renderSectionProperties(document: DocxDocument): string {
+  const width = document.vertical ? PAGE_LONG_SIDE : PAGE_SHORT_SIDE;
+  const height = document.vertical ? PAGE_SHORT_SIDE : PAGE_LONG_SIDE;
+  const textWidth = width - PAGE_MARGIN * 2;
+  const textHeight = height - PAGE_MARGIN * 2;
+
+  let grid = `<w:docGrid w:type="lines" w:linePitch="${DEFAULT_LINE_PITCH}"/>`;
+  if (document.manuscriptGrid) {
+    // 縦書きでは字が上から下へ、行が右から左へ並ぶ
+    const charPitch = Math.floor((document.vertical ? textHeight : textWidth) / GRID_CHARS);
+    const linePitch = Math.floor((document.vertical ? textWidth : textHeight) / GRID_LINES);
+    // charSpace は本文の文字サイズに対する字送りの増分（1/4096 ポイント）
+    const charSpace = Math.round((charPitch / 20 - FONT_SIZE / 2) * 4096);
+    grid = `<w:docGrid w:type="linesAndChars" w:linePitch="${linePitch}" w:charSpace="${charSpace}"/>`;
+  }
+
+  return `<w:sectPr><w:pgSz w:w="${width}" w:h="${height}"${document.vertical ? ' w:orient="landscape"' : ''}/><w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="851" w:footer="992" w:gutter="0"/>${document.vertical ? '<w:textDirection w:val="tbRl"/>' : ''}${grid}</w:sectPr>`;
+}
+
+function renderDocument(document: DocxDocument): string {
+  const titlePage = [
+    renderParagraph(renderRun(document.title), 'Title'),
+    ...(document.author ? [renderParagraph(renderRun(document.author), 'Author')] : []),
+  ];
+  const body = [
+    ...titlePage,
+    ...document.chapters.map((chapter) => renderChapter(chapter, document.ruby)),
+  ].join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:body>
+${body}
+${renderSectionProperties(document)}
+</w:body>
+</w:document>
+`;
+}
+
+function renderHeadingStyle(level: number): string {
+  const size = Math.max(FONT_SIZE + 12 - (level - 1) * 4, FONT_SIZE);
+  return `  <w:style w:type="paragraph" w:styleId="Heading${level}">
+    <w:name w:val="heading ${level}"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Normal"/>
+    <w:qFormat/>
+    <w:pPr><w:keepNext/><w:spacing w:before="240" w:after="240"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>
+    <w:rPr><w:b/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr>
+  </w:style>`;
+}
+
+function renderStyles(): string {
+  const headings = [1, 2, 3, 4, 5, 6].map(renderHeadingStyle).join('\n');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="游明朝" w:eastAsia="游明朝" w:hAnsi="游明朝" w:cs="游明朝"/><w:sz w:val="${FONT_SIZE}"/><w:szCs w:val="${FONT_SIZE}"/><w:lang w:val="ja-JP" w:eastAsia="ja-JP"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:jc w:val="both"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal">
+    <w:name w:val="Normal"/>
+    <w:qFormat/>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Title">
+    <w:name w:val="Title"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Author"/>
+    <w:qFormat/>
+    <w:pPr><w:spacing w:before="480" w:after="240"/><w:jc w:val="center"/></w:pPr>
+    <w:rPr><w:b/><w:sz w:val="${FONT_SIZE * 2}"/><w:szCs w:val="${FONT_SIZE * 2}"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:customStyle="1" w:styleId="Author">
+    <w:name w:val="Author"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Normal"/>
+    <w:pPr><w:jc w:val="center"/></w:pPr>
+  </w:style>
+${headings}
+  <w:style w:type="paragraph" w:customStyle="1" w:styleId="SceneBreak">
+    <w:name w:val="Scene Break"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Normal"/>
+    <w:pPr><w:spacing w:before="240" w:after="240"/><w:jc w:val="center"/></w:pPr>
+  </w:style>
+</w:styles>
+`;
+}
+
+function renderCoreProperties(document: DocxDocument): string {
+  const modified = document.modifiedAt.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const optional = [
+    document.author ? `  <dc:creator>${escapeXml(document.author)}</dc:creator>` : '',
+    document.description
+      ? `  <dc:description>${escapeXml(document.description)}</dc:description>`
+      : '',
+  ]
+    .filter(Boolean)
+    .map((line) => `${line}\n`)
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(document.title)}</dc:title>
+${optional}  <dc:language>ja-JP</dc:language>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${modified}</dcterms:created>
+  <dcterms:modified xsi:type="dcterms:W3CDTF">${modified}</dcterms:modified>
+</cp:coreProperties>
+`;
+}
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>
+`;
+
+const PACKAGE_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>
+`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>
+`;
+
+/**
+ * Word 文書（DOCX）を作成
+ * 表題・著者の後に章ごとに改ページし、章見出しは Heading1、章内の見出しは Heading2 以下にする
+ */
+export function buildDocx(document: DocxDocument): Buffer {
+  const entries: ZipEntry[] = [
+    { path: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+    { path: '_rels/.rels', data: PACKAGE_RELS_XML },
+    { path: 'docProps/core.xml', data: renderCoreProperties(document) },
+    { path: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS_XML },
+    { path: 'word/document.xml', data: renderDocument(document) },
+    { path: 'word/styles.xml', data: renderStyles() },
+  ];
+  return createZip(entries, document.modifiedAt);
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { buildEpub, EpubBook } from './epub.js';
+import { readZip } from './zip.js';
+
+describe('buildEpub', () => {
+  const book: EpubBook = {
+    identifier: 'urn:uuid:00000000-0000-5000-8000-000000000000',
+    title: '星と<剣>',
+    author: '山田太郎',
+    language: 'ja',
+    modifiedAt: new Date('2026-01-02T03:04:05.678Z'),
+    vertical: true,
+    ruby: true,
+    chapters: [
+      {
+        title: '第一章 ｜星《ほし》',
+        hasHeading: true,
+        sourceFile: 'contents/01.md',
+        blocks: [
+          { type: 'paragraph', text: '　魔法《まほう》を使う & 走る' },
+          { type: 'blank' },
+          { type: 'sceneBreak', text: '◇' },
+        ],
+      },
+      {
+        title: 'epilogue',
+        hasHeading: false,
+        sourceFile: 'contents/02.md',
+        blocks: [{ type: 'paragraph', text: '終わり' }],
+      },
+    ],
+  };
+
+  it('mimetype を無圧縮で先頭に置いた EPUB を作成する', () => {
+    const archive = buildEpub(book);
+
+    // 先頭のローカルファイルヘッダ: 圧縮方式 0（無圧縮）、ファイル名 mimetype
+    expect(archive.readUInt16LE(8)).toBe(0);
+    expect(archive.toString('ascii', 30, 38)).toBe('mimetype');
+    expect(archive.toString('ascii', 38, 58)).toBe('application/epub+zip');
+
+    const entries = readZip(archive);
+    expect([...entries.keys()]).toEqual([
+      'mimetype',
+      'META-INF/container.xml',
+      'OEBPS/content.opf',
+      'OEBPS/nav.xhtml',
+      'OEBPS/style.css',
+      'OEBPS/title.xhtml',
+      'OEBPS/chapter-001.xhtml',
+      'OEBPS/chapter-002.xhtml',
+    ]);
+  });
+
+  it('メタデータ・目次・縦書き・ルビを出力する', () => {
+    const entries = readZip(buildEpub(book));
+    const read = (name: string) => entries.get(name)!.toString('utf-8');
+
+    const opf = read('OEBPS/content.opf');
+    expect(opf).toContain('<dc:title>星と&lt;剣&gt;</dc:title>');
+    expect(opf).toContain('<dc:creator>山田太郎</dc:creator>');
+    expect(opf).toContain('<meta property="dcterms:modified">2026-01-02T03:04:05Z</meta>');
+    expect(opf).toContain('<spine page-progression-direction="rtl">');
+    expect(opf).toContain('properties="nav"');
+
+    expect(read('OEBPS/nav.xhtml')).toContain('<li><a href="chapter-001.xhtml">第一章 星</a></li>');
+    expect(read('OEBPS/style.css')).toContain('writing-mode: vertical-rl;');
+
+    const chapter = read('OEBPS/chapter-001.xhtml');
+    expect(chapter).toContain('<h1>第一章 <ruby>星<rt>ほし</rt></ruby></h1>');
+    expect(chapter).toContain('<p>　<ruby>魔法<rt>まほう</rt></ruby>を使う &amp; 走る</p>');
+    expect(chapter).toContain('<p class="scene-break">◇</p>');
+    // ファイル名の章は見出しを出力しない
+    expect(read('OEBPS/chapter-002.xhtml')).not.toContain('<h1>');
+  });
+
+  it('ルビを無効にすると親文字のみ、横書きでは左から右へページを送る', () => {
+    const entries = readZip(buildEpub({ ...book, vertical: false, ruby: false }));
+
+    expect(entries.get('OEBPS/chapter-001.xhtml')!.toString('utf-8')).toContain(
+      '<p>　魔法を使う &amp; 走る</p>',
+    );
+    expect(entries.get('OEBPS/content.opf')!.toString('utf-8')).toContain(
+      'page-progression-direction="ltr"',
+    );
+  });
+});
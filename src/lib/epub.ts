@@ -0,0 +1,230 @@
+import { createZip, ZipEntry } from './zip.js';
+import { ManuscriptBlock, ManuscriptChapter } from './manuscript.js';
+import { parseRuby, stripRuby } from './ruby.js';
+
+/**
+ * EPUB にする本の内容
+ */
+export interface EpubBook {
+  identifier: string; // dc:identifier（urn:uuid:...）
+  title: string;
+  author?: string;
+  description?: string;
+  language: string;
+  modifiedAt: Date;
+  vertical: boolean; // 縦書き（writing-mode: vertical-rl、右から左へページを送る）
+  ruby: boolean; // ルビ記法を <ruby> にする（false の場合は親文字のみ）
+  chapters: ManuscriptChapter[];
+}
+
+/**
+ * XML のテキスト・属性値をエスケープ
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 本文のテキストを XHTML にする（ルビ記法を <ruby> に変換）
+ */
+function renderText(text: string, ruby: boolean): string {
+  return parseRuby(text)
+    .map((segment) => {
+      if (segment.type === 'text') {
+        return escapeXml(segment.text);
+      }
+      return ruby
+        ? `<ruby>${escapeXml(segment.base)}<rt>${escapeXml(segment.reading)}</rt></ruby>`
+        : escapeXml(segment.base);
+    })
+    .join('');
+}
+
+function renderBlock(block: ManuscriptBlock, ruby: boolean): string {
+  switch (block.type) {
+    case 'heading': {
+      const level = Math.min(block.level + 1, 6);
+      return `<h${level}>${renderText(block.text, ruby)}</h${level}>`;
+    }
+    case 'paragraph':
+      return `<p>${renderText(block.text, ruby)}</p>`;
+    case 'blank':
+      return '<p class="blank"><br /></p>';
+    case 'sceneBreak':
+      return `<p class="scene-break">${escapeXml(block.text)}</p>`;
+  }
+}
+
+function renderXhtml(book: EpubBook, title: string, body: string, epubType?: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${book.language}" lang="${book.language}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body${epubType ? ` epub:type="${epubType}"` : ''}>
+${body}
+</body>
+</html>
+`;
+}
+
+function chapterFile(index: number): string {
+  return `chapter-${String(index + 1).padStart(3, '0')}.xhtml`;
+}
+
+function renderStylesheet(book: EpubBook): string {
+  const writingMode = book.vertical ? 'vertical-rl' : 'horizontal-tb';
+  return `@charset "UTF-8";
+html {
+  writing-mode: ${writingMode};
+  -epub-writing-mode: ${writingMode};
+  -webkit-writing-mode: ${writingMode};
+}
+body {
+  font-family: serif;
+  line-height: 1.8;
+  text-align: justify;
+}
+h1, h2, h3, h4, h5, h6 {
+  font-weight: bold;
+  margin: 1em 0;
+}
+h1 {
+  font-size: 1.4em;
+}
+p {
+  margin: 0;
+}
+.scene-break {
+  text-align: center;
+  margin: 1em 0;
+}
+.title-page {
+  text-align: center;
+}
+rt {
+  font-size: 0.5em;
+}
+`;
+}
+
+function renderTitlePage(book: EpubBook): string {
+  const author = book.author ? `\n<p class="author">${escapeXml(book.author)}</p>` : '';
+  return renderXhtml(
+    book,
+    book.title,
+    `<section class="title-page" epub:type="titlepage">
+<h1>${escapeXml(book.title)}</h1>${author}
+</section>`,
+  );
+}
+
+function renderChapter(book: EpubBook, chapter: ManuscriptChapter): string {
+  const heading = chapter.hasHeading ? `<h1>${renderText(chapter.title, book.ruby)}</h1>\n` : '';
+  const blocks = chapter.blocks.map((block) => renderBlock(block, book.ruby)).join('\n');
+  return renderXhtml(
+    book,
+    stripRuby(chapter.title),
+    `<section epub:type="chapter">
+${heading}${blocks}
+</section>`,
+    'bodymatter',
+  );
+}
+
+function renderNav(book: EpubBook): string {
+  const items = book.chapters
+    .map(
+      (chapter, index) =>
+        `<li><a href="${chapterFile(index)}">${escapeXml(stripRuby(chapter.title))}</a></li>`,
+    )
+    .join('\n');
+  return renderXhtml(
+    book,
+    '目次',
+    `<nav epub:type="toc" id="toc">
+<h1>目次</h1>
+<ol>
+${items}
+</ol>
+</nav>`,
+  );
+}
+
+function renderPackage(book: EpubBook): string {
+  const modified = book.modifiedAt.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const chapterItems = book.chapters
+    .map(
+      (_, index) =>
+        `    <item id="chapter-${index + 1}" href="${chapterFile(index)}" media-type="application/xhtml+xml" />`,
+    )
+    .join('\n');
+  const chapterRefs = book.chapters
+    .map((_, index) => `    <itemref idref="chapter-${index + 1}" />`)
+    .join('\n');
+  const optional = [
+    book.author ? `    <dc:creator>${escapeXml(book.author)}</dc:creator>` : '',
+    book.description ? `    <dc:description>${escapeXml(book.description)}</dc:description>` : '',
+  ]
+    .filter(Boolean)
+    .map((line) => `${line}\n`)
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${book.language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeXml(book.identifier)}</dc:identifier>
+    <dc:title>${escapeXml(book.title)}</dc:title>
+${optional}    <dc:language>${book.language}</dc:language>
+    <meta property="dcterms:modified">${modified}</meta>
+    <meta name="primary-writing-mode" content="${book.vertical ? 'vertical-rl' : 'horizontal-lr'}" />
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+    <item id="style" href="style.css" media-type="text/css" />
+    <item id="title-page" href="title.xhtml" media-type="application/xhtml+xml" />
+${chapterItems}
+  </manifest>
+  <spine page-progression-direction="${book.vertical ? 'rtl' : 'ltr'}">
+    <itemref idref="title-page" />
+    <itemref idref="nav" />
+${chapterRefs}
+  </spine>
+</package>
+`;
+}
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>
+`;
+
+/**
+ * EPUB 3 を作成
+ * mimetype を無圧縮で先頭に置き、本文は章ごとに1つの XHTML にする
+ */
+export function buildEpub(book: EpubBook): Buffer {
+  const entries: ZipEntry[] = [
+    { path: 'mimetype', data: 'application/epub+zip', store: true },
+    { path: 'META-INF/container.xml', data: CONTAINER_XML },
+    { path: 'OEBPS/content.opf', data: renderPackage(book) },
+    { path: 'OEBPS/nav.xhtml', data: renderNav(book) },
+    { path: 'OEBPS/style.css', data: renderStylesheet(book) },
+    { path: 'OEBPS/title.xhtml', data: renderTitlePage(book) },
+    ...book.chapters.map((chapter, index) => ({
+      path: `OEBPS/${chapterFile(index)}`,
+      data: renderChapter(book, chapter),
+    })),
+  ];
+  return createZip(entries, book.modifiedAt);
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { extractAttributeFacts, parseJapaneseNumber } from './factExtractor.js';
+
+const terms = new Map([
+  ['山田太郎', '山田太郎'],
+  ['太郎', '山田太郎'],
+  ['主人公', '山田太郎'],
+  ['リリア', 'リリア'],
+]);
+const manuscript = { filename: 'contents/chapter_1.txt', terms };
+const settings = { filename: 'settings/basic.md', terms, subject: 'リリア' };
+
+describe('parseJapaneseNumber', () => {
+  it('算用数字と漢数字を変換する', () => {
+    expect(parseJapaneseNumber('16')).toBe(16);
+    expect(parseJapaneseNumber('１６')).toBe(16);
+    expect(parseJapaneseNumber('十六')).toBe(16);
+    expect(parseJapaneseNumber('二十')).toBe(20);
+    expect(parseJapaneseNumber('百二')).toBe(102);
+    expect(parseJapaneseNumber('十代')).toBeNull();
+  });
+});
+
+describe('extractAttributeFacts', () => {
+  it('言及された人物の年齢・瞳・髪の色を抽出する', () => {
+    const facts = extractAttributeFacts(
+      '十七歳になったリリアは、碧の瞳と金色の髪を持っていた。',
+      10,
+      manuscript,
+    );
+
+    expect(facts.map((f) => [f.entity, f.attribute, f.value])).toEqual([
+      // 直前に言及がない場合は直後に言及された人物を主語とする
+      ['リリア', 'age', '17歳'],
+      ['リリア', 'eyeColor', '碧'],
+      ['リリア', 'hairColor', '金'],
+    ]);
+    expect(facts[0]).toMatchObject({ filename: 'contents/chapter_1.txt', line: 10 });
+  });
+
+  it('文ごとに主語を判定する', () => {
+    const facts = extractAttributeFacts('太郎は16歳だ。リリアは15歳。', 1, manuscript);
+
+    expect(facts.map((f) => [f.entity, f.value])).toEqual([
+      ['山田太郎', '16歳'],
+      ['リリア', '15歳'],
+    ]);
+  });
+
+  it('既知の人物との関係を抽出する', () => {
+    const facts = extractAttributeFacts('リリアは太郎の姉だった。', 1, manuscript);
+
+    expect(facts).toEqual([
+      expect.objectContaining({
+        entity: 'リリア',
+        attribute: 'relationship',
+        qualifier: '山田太郎',
+        value: '姉',
+      }),
+    ]);
+  });
+
+  it('所属先付きの肩書きを抽出する', () => {
+    const facts = extractAttributeFacts('リリアは魔法学校の次席だ。', 1, manuscript);
+
+    expect(facts).toEqual([
+      expect.objectContaining({
+        entity: 'リリア',
+        attribute: 'title',
+        qualifier: '魔法学校',
+        value: '次席',
+      }),
+    ]);
+  });
+
+  it('既知の場所を所属先とする肩書きは正式名にそろえる', () => {
+    const withPlaces = new Map([...terms, ['魔法学院', '王立魔法学院']]);
+    const facts = extractAttributeFacts('魔法学院の首席であるリリアと、太郎の騎士。', 1, {
+      filename: 'contents/chapter_1.txt',
+      terms: withPlaces,
+      places: new Set(['王立魔法学院']),
+    });
+
+    // 人物が所属先となる「太郎の騎士」は対象外
+    expect(facts.map((f) => [f.entity, f.qualifier, f.value])).toEqual([
+      ['リリア', '王立魔法学院', '首席'],
+    ]);
+  });
+
+  it('形容詞形の色も抽出する', () => {
+    expect(
+      extractAttributeFacts('リリアの青い瞳が揺れた。', 1, manuscript).map((f) => f.value),
+    ).toEqual(['青']);
+  });
+
+  it('設定ファイルでは主語を省略した記述も対象の人物として扱う', () => {
+    expect(extractAttributeFacts('- **年齢**: 15歳', 3, settings)).toEqual([
+      expect.objectContaining({ entity: 'リリア', attribute: 'age', value: '15歳', line: 3 }),
+    ]);
+    expect(
+      extractAttributeFacts(
+        '- **背景**: 魔法学校の首席。主人公の魔法の師匠となる',
+        4,
+        settings,
+      ).map((f) => [f.attribute, f.qualifier, f.value]),
+    ).toEqual([
+      ['title', '魔法学校', '首席'],
+      ['relationship', '山田太郎', '師匠'],
+    ]);
+  });
+
+  it('主語が決まらない記述や複合語は無視する', () => {
+    expect(
+      extractAttributeFacts('目が覚めると、そこは見知らぬ場所だった。', 1, manuscript),
+    ).toEqual([]);
+    expect(extractAttributeFacts('リリアは王国の騎士団に入った。', 1, manuscript)).toEqual([]);
+  });
+});
@@ -0,0 +1,314 @@
+import { AttributeFact, FactAttribute } from '../domain/consistency.js';
+
+/**
+ * 抜粋として保持する行の最大文字数
+ */
+const SNIPPET_LENGTH = 80;
+
+const COLOR_WORDS = [
+  '金',
+  '銀',
+  '黒',
+  '白',
+  '赤',
+  '紅',
+  '青',
+  '碧',
+  '蒼',
+  '緑',
+  '翠',
+  '茶',
+  '紫',
+  '灰',
+  '桃',
+  '琥珀',
+  '栗',
+];
+
+const RELATIONSHIP_WORDS = [
+  '姉',
+  '妹',
+  '兄',
+  '弟',
+  '母',
+  '父',
+  '娘',
+  '息子',
+  '祖母',
+  '祖父',
+  '叔母',
+  '叔父',
+  '師匠',
+  '弟子',
+  '婚約者',
+  '恋人',
+  '幼馴染',
+  '親友',
+  '主人',
+  '従者',
+  '相棒',
+];
+
+const TITLE_WORDS = [
+  '首席',
+  '次席',
+  '団長',
+  '副団長',
+  '隊長',
+  '騎士',
+  '王女',
+  '王子',
+  '女王',
+  '国王',
+  '校長',
+  '教師',
+  '生徒',
+  '魔術師',
+  '宰相',
+  '将軍',
+  '領主',
+];
+
+/**
+ * 「- **年齢**: 16歳」形式の属性名と比較対象の属性の対応
+ */
+const ATTRIBUTE_KEYS: Record<string, FactAttribute> = {
+  年齢: 'age',
+  歳: 'age',
+  瞳: 'eyeColor',
+  目: 'eyeColor',
+  瞳の色: 'eyeColor',
+  目の色: 'eyeColor',
+  髪: 'hairColor',
+  髪色: 'hairColor',
+  髪の色: 'hairColor',
+};
+
+const KANJI_DIGITS: Record<string, number> = {
+  〇: 0,
+  零: 0,
+  一: 1,
+  二: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+  七: 7,
+  八: 8,
+  九: 9,
+};
+
+const COLOR = `(${byLength(COLOR_WORDS).join('|')})`;
+const AGE_PATTERN = /([0-9０-９]+|[〇零一二三四五六七八九十百]+)\s*(?:歳|才)/g;
+const EYE_PATTERN = new RegExp(`${COLOR}(?:色|い)?の?(?:瞳|目|眼)`, 'g');
+const HAIR_PATTERN = new RegExp(`${COLOR}(?:色|い)?の?(?:髪|長髪|短髪)`, 'g');
+const RELATIONSHIP_PATTERN = new RegExp(
+  `([^\\s、。「」『』：:]{1,12}?)の(?:[^\\s、。の]{1,6}の)?(${byLength(RELATIONSHIP_WORDS).join('|')})(?![妹弟])`,
+  'g',
+);
+// 「騎士団」「校長室」のような複合語は肩書きとして扱わない
+const TITLE_PATTERN = new RegExp(
+  `([^\\s、。「」『』：:]{1,15}?)の(${byLength(TITLE_WORDS).join('|')})(?![団長会室])`,
+  'g',
+);
+const BULLET_ATTRIBUTE_PATTERN = /^\s*[-*+]\s+(?:\*\*(.+?)\*\*|([^:：*]{1,10}))\s*[:：]\s*(.+)$/;
+const SENTENCE_PATTERN = /[^。！？!?]+[。！？!?]?/g;
+
+/**
+ * 行から属性の記述を抽出するための情報
+ */
+export interface FactExtractionContext {
+  filename: string;
+  /** 本文中の表記 → 正式名（登場人物・場所） */
+  terms: Map<string, string>;
+  /**
+   * 行の主語とみなす項目（設定ファイルの登場人物セクションなど）
+   * 省略時は文中で記述の直前に言及された項目を主語とする
+   */
+  subject?: string;
+  /** 肩書きの所属先になりうる項目（場所）の正式名 */
+  places?: Set<string>;
+}
+
+/**
+ * 1行から属性の記述を抽出（ルールベース）
+ * @param text 行の内容
+ * @param line 行番号（1 始まり）
+ * @param context 抽出の文脈
+ * @returns 抽出した属性の記述
+ */
+export function extractAttributeFacts(
+  text: string,
+  line: number,
+  context: FactExtractionContext,
+): AttributeFact[] {
+  const facts: AttributeFact[] = [];
+  const snippet = text.trim().substring(0, SNIPPET_LENGTH);
+  const add = (
+    entity: string,
+    attribute: FactAttribute,
+    value: string,
+    qualifier?: string,
+  ): void => {
+    facts.push({
+      entity,
+      attribute,
+      ...(qualifier ? { qualifier } : {}),
+      value,
+      filename: context.filename,
+      line,
+      text: snippet,
+    });
+  };
+
+  // 「- **年齢**: 16歳」形式の属性
+  const bullet = text.match(BULLET_ATTRIBUTE_PATTERN);
+  if (bullet && context.subject) {
+    const key = (bullet[1] ?? bullet[2]).trim();
+    const attribute = ATTRIBUTE_KEYS[key];
+    const value = attribute ? normalizeValue(attribute, bullet[3]) : null;
+    if (attribute && value) {
+      add(context.subject, attribute, value);
+      return facts;
+    }
+  }
+
+  for (const sentence of text.match(SENTENCE_PATTERN) ?? []) {
+    const mentions = findMentions(sentence, context.terms);
+    // 記述の直前に言及された項目を主語とし、なければ直後（「十六歳の太郎」）に言及された項目とする
+    const subjectAt = (position: number, exclude?: string): string | undefined => {
+      const candidates = mentions.filter((m) => m.entity !== exclude);
+      const before = candidates.filter((m) => m.index < position);
+      if (before.length > 0) return before[before.length - 1].entity;
+      return candidates.find((m) => m.index >= position)?.entity ?? context.subject;
+    };
+
+    for (const match of sentence.matchAll(AGE_PATTERN)) {
+      const entity = subjectAt(match.index!);
+      const value = normalizeValue('age', match[0]);
+      if (entity && value) add(entity, 'age', value);
+    }
+    for (const match of sentence.matchAll(EYE_PATTERN)) {
+      const entity = subjectAt(match.index!);
+      if (entity) add(entity, 'eyeColor', match[1]);
+    }
+    for (const match of sentence.matchAll(HAIR_PATTERN)) {
+      const entity = subjectAt(match.index!);
+      if (entity) add(entity, 'hairColor', match[1]);
+    }
+    for (const match of sentence.matchAll(RELATIONSHIP_PATTERN)) {
+      // 関係の相手は既知の登場人物に限る（「魔法の師匠」などを除外）
+      const other = resolveTerm(match[1], context.terms);
+      if (!other) continue;
+      const otherAt = match.index! + match[1].length - other.length;
+      const entity = subjectAt(otherAt, other.entity);
+      if (entity && entity !== other.entity) {
+        add(entity, 'relationship', match[2], other.entity);
+      }
+    }
+    for (const match of sentence.matchAll(TITLE_PATTERN)) {
+      const qualifier = stripLeadingSubject(match[1]);
+      if (!qualifier) continue;
+      // 「太郎の騎士」のように人物が所属先となる記述は除外し、場所は正式名にそろえる
+      const known = resolveTerm(qualifier, context.terms);
+      if (known && !context.places?.has(known.entity)) continue;
+      const organization = known && known.length === qualifier.length ? known.entity : qualifier;
+      const entity = subjectAt(match.index! + match[0].length, known?.entity);
+      if (entity) add(entity, 'title', match[2], organization);
+    }
+  }
+
+  return facts;
+}
+
+/**
+ * 文中の項目の言及位置
+ */
+function findMentions(
+  sentence: string,
+  terms: Map<string, string>,
+): Array<{ index: number; entity: string }> {
+  const mentions: Array<{ index: number; entity: string }> = [];
+  const covered: boolean[] = [];
+
+  for (const term of byLength([...terms.keys()])) {
+    let index = sentence.indexOf(term);
+    while (index !== -1) {
+      if (!covered[index]) {
+        mentions.push({ index, entity: terms.get(term)! });
+        for (let i = index; i < index + term.length; i++) covered[i] = true;
+      }
+      index = sentence.indexOf(term, index + term.length);
+    }
+  }
+
+  return mentions.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * 語の末尾が既知の表記で終わる場合はその正式名と表記の長さを返す（「リリアは太郎」→「太郎」）
+ */
+function resolveTerm(
+  word: string,
+  terms: Map<string, string>,
+): { entity: string; length: number } | undefined {
+  const term = byLength([...terms.keys()]).find((t) => word.endsWith(t));
+  return term ? { entity: terms.get(term)!, length: term.length } : undefined;
+}
+
+/**
+ * 「リリアは魔法学校」のような主語を含む語から所属先のみを取り出す
+ */
+function stripLeadingSubject(word: string): string {
+  const separated = word.split(/[はがも]/);
+  return separated[separated.length - 1];
+}
+
+/**
+ * 比較のために値を正規化
+ */
+function normalizeValue(attribute: FactAttribute, raw: string): string | null {
+  if (attribute === 'age') {
+    const match = raw.match(/([0-9０-９]+|[〇零一二三四五六七八九十百]+)/);
+    if (!match) return null;
+    const age = parseJapaneseNumber(match[1]);
+    return age === null ? null : `${age}歳`;
+  }
+  if (attribute === 'eyeColor' || attribute === 'hairColor') {
+    const color = byLength(COLOR_WORDS).find((c) => raw.includes(c));
+    return color ?? null;
+  }
+  return raw.trim() || null;
+}
+
+/**
+ * 長い語を優先して照合するために文字数の降順に並べる
+ */
+function byLength(words: string[]): string[] {
+  return [...words].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * 算用数字・漢数字（十・百を含む）を数値に変換
+ */
+export function parseJapaneseNumber(text: string): number | null {
+  const normalized = text.normalize('NFKC');
+  if (/^[0-9]+$/.test(normalized)) {
+    return parseInt(normalized, 10);
+  }
+
+  let total = 0;
+  let current = 0;
+  for (const char of normalized) {
+    if (char in KANJI_DIGITS) {
+      current = current * 10 + KANJI_DIGITS[char];
+    } else if (char === '十' || char === '百') {
+      const unit = char === '十' ? 10 : 100;
+      total += (current === 0 ? 1 : current) * unit;
+      current = 0;
+    } else {
+      return null;
+    }
+  }
+  return total + current;
+}
@@ -113,6 +113,84 @@ describe('FileWatcher', () => {
     });
   });
 
+  describe('反映待ちのイベント数', () => {
+    it('デバウンス中のイベントを小説ごとに数える', () => {
+      const config = createDefaultFileWatcherConfig('/novels');
+      const watcher = new FileWatcher(config);
+
+      // private method をテストするため、型アサーション
+      const handleFileEvent = (
+        watcher as unknown as { handleFileEvent: (type: string, path: string) => void }
+      ).handleFileEvent.bind(watcher);
+
+      handleFileEvent('change', '/novels/sample_novel/contents/chapter1.txt');
+      handleFileEvent('change', '/novels/sample_novel/contents/chapter1.txt');
+      handleFileEvent('add', '/novels/sample_novel/contents/chapter2.txt');
+      handleFileEvent('change', '/novels/mystery_story/settings/world.md');
+
+      expect(watcher.getPendingEventCount()).toBe(3);
+      expect(watcher.getPendingEventCount('sample_novel')).toBe(2);
+      expect(watcher.getPendingEventCount('mystery_story')).toBe(1);
+      expect(watcher.getPendingEventCount('unknown')).toBe(0);
+
+      // タイマーを破棄するため監視状態にしてから停止する
+      (watcher as unknown as { isWatching: boolean }).isWatching = true;
+      return watcher.stop();
+    });
+
+    it('書き出したファイル（exports/）の変更は無視する', () => {
+      const config = createDefaultFileWatcherConfig('/novels');
+      const watcher = new FileWatcher(config);
+
+      // private method をテストするため、型アサーション
+      const handleFileEvent = (
+        watcher as unknown as { handleFileEvent: (type: string, path: string) => void }
+      ).handleFileEvent.bind(watcher);
+
+      handleFileEvent('add', '/novels/sample_novel/exports/sample_novel-narou-001.txt');
+      handleFileEvent('change', '/novels/sample_novel/contents/exports.txt');
+
+      expect(watcher.getPendingEventCount('sample_novel')).toBe(1);
+
+      (watcher as unknown as { isWatching: boolean }).isWatching = true;
+      return watcher.stop();
+    });
+  });
+
+  describe('小説プロジェクトの変更', () => {
+    it('プロジェクト直下の novel.json の変更を projectChange として通知する', async () => {
+      const config = createDefaultFileWatcherConfig('/novels');
+      config.debounceMs = 10;
+      const watcher = new FileWatcher(config);
+      const fileChange = vi.fn();
+      const projectChange = vi.fn();
+      watcher.on('fileChange', fileChange);
+      watcher.on('projectChange', projectChange);
+
+      // private method をテストするため、型アサーション
+      const handleFileEvent = (
+        watcher as unknown as { handleFileEvent: (type: string, path: string) => void }
+      ).handleFileEvent.bind(watcher);
+
+      // 保存時の削除→追加は最後のイベントにまとめる
+      handleFileEvent('unlink', '/novels/sample_novel/novel.json');
+      handleFileEvent('add', '/novels/sample_novel/novel.json');
+      // プロジェクト直下以外・隠しディレクトリの novel.json は対象外
+      handleFileEvent('change', '/novels/sample_novel/settings/novel.json');
+      handleFileEvent('change', '/novels/.templates/novel.json');
+
+      expect(watcher.getPendingEventCount('sample_novel')).toBe(1);
+      await vi.waitFor(() => expect(projectChange).toHaveBeenCalledTimes(1));
+
+      expect(projectChange).toHaveBeenCalledWith({
+        type: 'add',
+        novelId: 'sample_novel',
+        configPath: path.resolve('/novels/sample_novel/novel.json'),
+      });
+      expect(fileChange).not.toHaveBeenCalled();
+    });
+  });
+
   describe('イベントタイプの表示', () => {
     it('正しい表示名を返す', () => {
       const config = createDefaultFileWatcherConfig('/novels');
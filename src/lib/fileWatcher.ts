@@ -1,6 +1,7 @@
 import chokidar, { FSWatcher } from 'chokidar';
 import path from 'path';
 import { EventEmitter } from 'events';
+import { EXPORT_DIRECTORY } from '../domain/export.js';
 import { getLogger } from '../logging/index.js';
 
 /**
@@ -17,6 +18,20 @@ export interface FileChangeEvent {
   novelId: string;
 }
 
+/**
+ * 小説プロジェクトの設定ファイル名
+ */
+export const PROJECT_CONFIG_FILENAME = 'novel.json';
+
+/**
+ * 小説プロジェクトの変更イベントのデータ（novel.json の追加・変更・削除）
+ */
+export interface ProjectChangeEvent {
+  type: FileEvent;
+  novelId: string;
+  configPath: string;
+}
+
 /**
  * ファイル監視の設定
  */
@@ -31,6 +46,9 @@ export interface FileWatcherConfig {
  * ファイル監視クラス
  * chokidarを使用してファイルシステムの変更を監視し、
  * デバウンス処理を行ってイベントを発行する
+ *
+ * - fileChange: 本文・設定ファイル（watchedExtensions）の変更
+ * - projectChange: 小説プロジェクト直下の novel.json の変更
  */
 export class FileWatcher extends EventEmitter {
   private watcher: FSWatcher | null = null;
@@ -140,12 +158,36 @@ export class FileWatcher extends EventEmitter {
     return this.isWatching;
   }
 
+  /**
+   * デバウンス中（未通知）のファイル変更イベント数を取得
+   * @param novelId 指定した場合はその小説プロジェクトのイベントのみ数える
+   */
+  getPendingEventCount(novelId?: string): number {
+    if (!novelId) {
+      return this.debounceTimers.size;
+    }
+    let count = 0;
+    for (const eventKey of this.debounceTimers.keys()) {
+      // イベントキーは "<type>:<絶対パス>"
+      const filePath = eventKey.substring(eventKey.indexOf(':') + 1);
+      if (this.extractNovelId(filePath) === novelId) {
+        count++;
+      }
+    }
+    return count;
+  }
+
   /**
    * ファイル変更イベントを処理
    */
   private handleFileEvent(type: FileEvent, filePath: string): void {
     const absolutePath = path.resolve(filePath);
 
+    if (this.isProjectConfig(absolutePath)) {
+      this.handleProjectEvent(type, absolutePath);
+      return;
+    }
+
     // 拡張子チェック
     const ext = path.extname(absolutePath).slice(1);
     if (!this.config.watchedExtensions.includes(ext)) {
@@ -159,18 +201,12 @@ export class FileWatcher extends EventEmitter {
       return;
     }
 
-    const eventKey = `${type}:${absolutePath}`;
-
-    // 既存のデバウンスタイマーをクリア
-    const existingTimer = this.debounceTimers.get(eventKey);
-    if (existingTimer) {
-      clearTimeout(existingTimer);
+    if (this.isExportFile(absolutePath)) {
+      // 書き出したファイル（exports/）は本文・設定ではないため無視
+      return;
     }
 
-    // デバウンス処理
-    const timer = setTimeout(() => {
-      this.debounceTimers.delete(eventKey);
-
+    this.debounce(`${type}:${absolutePath}`, () => {
       const event: FileChangeEvent = {
         type,
         filePath: absolutePath,
@@ -181,11 +217,63 @@ export class FileWatcher extends EventEmitter {
         `📝 ファイル${this.getEventTypeDisplay(type)}: ${path.relative(this.config.projectRoot, absolutePath)}`,
       );
       this.emit('fileChange', event);
+    });
+  }
+
+  /**
+   * novel.json の変更イベントを処理
+   * 保存時に削除と追加が続けて届くことがあるため、イベントの種類によらずまとめて最後のイベントを通知する
+   */
+  private handleProjectEvent(type: FileEvent, configPath: string): void {
+    const novelId = this.extractNovelId(configPath)!;
+
+    this.debounce(`project:${configPath}`, () => {
+      const event: ProjectChangeEvent = { type, novelId, configPath };
+
+      this.logger.info(`📚 小説プロジェクト${this.getEventTypeDisplay(type)}: ${novelId}`);
+      this.emit('projectChange', event);
+    });
+  }
+
+  /**
+   * 同じキーのイベントが debounceMs の間に続いた場合は最後のイベントのみ処理する
+   * @param eventKey "<種類>:<絶対パス>"
+   */
+  private debounce(eventKey: string, callback: () => void): void {
+    // 既存のデバウンスタイマーをクリア
+    const existingTimer = this.debounceTimers.get(eventKey);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+
+    const timer = setTimeout(() => {
+      this.debounceTimers.delete(eventKey);
+      callback();
     }, this.config.debounceMs);
 
     this.debounceTimers.set(eventKey, timer);
   }
 
+  /**
+   * 小説プロジェクトの書き出し先（<projectRoot>/<小説ID>/exports/ 配下）のファイルかどうか
+   */
+  private isExportFile(filePath: string): boolean {
+    const pathParts = path.relative(this.config.projectRoot, filePath).split(path.sep);
+    return pathParts.length > 2 && pathParts[1] === EXPORT_DIRECTORY;
+  }
+
+  /**
+   * 小説プロジェクト直下の novel.json（<projectRoot>/<小説ID>/novel.json）かどうか
+   */
+  private isProjectConfig(filePath: string): boolean {
+    const pathParts = path.relative(this.config.projectRoot, filePath).split(path.sep);
+    return (
+      pathParts.length === 2 &&
+      pathParts[1] === PROJECT_CONFIG_FILENAME &&
+      this.extractNovelId(filePath) !== null
+    );
+  }
+
   /**
    * ファイルパスから小説IDを抽出
    */
@@ -3,6 +3,8 @@ import { IndexerManager } from './indexerManager.js';
 import { DialogoiConfig } from './config.js';
 import { Indexer } from '../indexer.js';
 import { getLogger, type Logger } from '../logging/index.js';
+import { QdrantInitializationService } from '../services/QdrantInitializationService.js';
+import { IndexBuildError } from '../errors/index.js';
 
 // Indexerをモック化
 vi.mock('../indexer.js');
@@ -25,10 +27,16 @@ describe('IndexerManager', () => {
     indexNovel: ReturnType<typeof vi.fn>;
     removeNovelFromIndex: ReturnType<typeof vi.fn>;
     search: ReturnType<typeof vi.fn>;
+    hybridSearch: ReturnType<typeof vi.fn>;
     updateFile: ReturnType<typeof vi.fn>;
     removeFile: ReturnType<typeof vi.fn>;
     cleanup: ReturnType<typeof vi.fn>;
     isReady: ReturnType<typeof vi.fn>;
+    useLocalVectorStore: ReturnType<typeof vi.fn>;
+    getTokenStats: ReturnType<typeof vi.fn>;
+    getEmbeddingCacheStats: ReturnType<typeof vi.fn>;
+    getIndexSummary: ReturnType<typeof vi.fn>;
+    onProgress: ReturnType<typeof vi.fn>;
   };
 
   beforeEach(() => {
@@ -53,6 +61,7 @@ describe('IndexerManager', () => {
       chunk: {
         maxTokens: 400,
         overlap: 0.2,
+        splitStrategy: 'japanese',
       },
       embedding: {
         enabled: true,
@@ -60,6 +69,12 @@ describe('IndexerManager', () => {
         dimensions: 384,
         batchSize: 32,
       },
+      embeddingCache: {
+        enabled: false,
+        directory: '.dialogoi/embedding-cache',
+        maxEntries: 20000,
+        maxAgeDays: 30,
+      },
       qdrant: {
         url: 'http://localhost:6333',
         collection: 'test-collection',
@@ -79,25 +94,55 @@ describe('IndexerManager', () => {
         },
       },
       vector: {
+        backend: 'qdrant',
         collectionName: 'test-collection',
         scoreThreshold: 0.7,
         vectorDimensions: 384,
         snippetLength: 120,
       },
+      localVector: {
+        directory: '.dialogoi/vectors',
+        fallback: false,
+      },
       search: {
         defaultK: 10,
         maxK: 50,
       },
+      history: {
+        enabled: true,
+        maxVersionsPerFile: 50,
+        maxAgeDays: 90,
+      },
+      templates: {
+        directory: '.dialogoi/templates',
+      },
+      imports: {
+        directory: '.dialogoi/imports',
+      },
     };
 
     mockIndexer = {
       indexNovel: vi.fn(),
       removeNovelFromIndex: vi.fn(),
       search: vi.fn().mockResolvedValue([]),
+      hybridSearch: vi.fn().mockResolvedValue([]),
       updateFile: vi.fn(),
       removeFile: vi.fn(),
       cleanup: vi.fn(),
       isReady: vi.fn().mockReturnValue(true),
+      useLocalVectorStore: vi.fn(),
+      getTokenStats: vi.fn().mockReturnValue({
+        tokenizer: 'model',
+        maxSequenceLength: 512,
+        oversizedChunks: 0,
+      }),
+      getEmbeddingCacheStats: vi.fn().mockReturnValue(null),
+      getIndexSummary: vi.fn().mockResolvedValue({
+        indexedFiles: 3,
+        chunkCount: 12,
+        lastUpdated: '2026-01-01T00:00:00.000Z',
+      }),
+      onProgress: vi.fn(),
     };
 
     vi.mocked(Indexer).mockImplementation(() => mockIndexer as unknown as Indexer);
@@ -161,6 +206,20 @@ describe('IndexerManager', () => {
       expect(results).toEqual(mockResults);
     });
 
+    it('ハイブリッド検索を実行できる', async () => {
+      await indexerManager.hybridSearch('novel-1', 'test query', 5, 'content');
+
+      expect(mockIndexer.indexNovel).toHaveBeenCalledWith('novel-1');
+      expect(mockIndexer.hybridSearch).toHaveBeenCalledWith('test query', 5, 'novel-1', 'content');
+    });
+
+    it('ハイブリッド検索で不正なfileTypeはエラーになる', async () => {
+      await expect(indexerManager.hybridSearch('novel-1', 'test', 5, 'invalid')).rejects.toThrow(
+        'Invalid fileType',
+      );
+      expect(mockIndexer.hybridSearch).not.toHaveBeenCalled();
+    });
+
     it('ファイル更新を実行できる', async () => {
       await indexerManager.updateFile('novel-1', 'test.md');
 
@@ -191,6 +250,41 @@ describe('IndexerManager', () => {
       expect(mockIndexer.removeFile).toHaveBeenCalledWith('test.md');
     });
 
+    it('初期化済みの小説でファイル移動をインデックスに反映できる', async () => {
+      await indexerManager.search('novel-1', 'test', 10);
+
+      await indexerManager.moveFile('novel-1', '/old/path.md', '/new/path.md');
+
+      expect(mockIndexer.removeFile).toHaveBeenCalledWith('/old/path.md');
+      expect(mockIndexer.updateFile).toHaveBeenCalledWith('/new/path.md', 'novel-1');
+    });
+
+    it('未初期化の小説でのファイル移動は初期化のみ行う', async () => {
+      await indexerManager.moveFile('novel-1', '/old/path.md', '/new/path.md');
+
+      expect(mockIndexer.indexNovel).toHaveBeenCalledWith('novel-1');
+      expect(mockIndexer.removeFile).not.toHaveBeenCalled();
+      expect(mockIndexer.updateFile).not.toHaveBeenCalled();
+    });
+
+    it('ファイル変更時に登録したリスナーが呼び出される', async () => {
+      const listener = vi.fn();
+      indexerManager.onFileChange(listener);
+      mockIndexer.updateFile.mockRejectedValueOnce(new Error('index failure'));
+
+      const event = {
+        type: 'change' as const,
+        filePath: '/test/novels/novel-1/a.md',
+        novelId: 'novel-1',
+      };
+      await (
+        indexerManager as unknown as { handleFileChange: (e: typeof event) => Promise<void> }
+      ).handleFileChange(event);
+
+      // インデックス更新に失敗してもリスナーは呼び出される
+      expect(listener).toHaveBeenCalledWith(event);
+    });
+
     it('インデックス再構築を実行できる', async () => {
       // 最初に初期化して、再構築をテスト
       await indexerManager.search('novel-1', 'test', 10);
@@ -201,6 +295,102 @@ describe('IndexerManager', () => {
     });
   });
 
+  describe('小説プロジェクトの変更', () => {
+    const handleProjectChange = (type: 'add' | 'change' | 'unlink', novelId = 'novel-1') =>
+      (
+        indexerManager as unknown as {
+          handleProjectChange: (e: {
+            type: typeof type;
+            novelId: string;
+            configPath: string;
+          }) => Promise<void>;
+        }
+      ).handleProjectChange({ type, novelId, configPath: `/test/novels/${novelId}/novel.json` });
+
+    const waitForBuild = async (novelId = 'novel-1') => {
+      await vi.waitFor(async () => {
+        const { build } = await indexerManager.getIndexStatus(novelId);
+        expect(build?.state).toBe('completed');
+      });
+    };
+
+    it('追加されたプロジェクトはベクトルストアの初期化後にバックグラウンドで構築する', async () => {
+      await handleProjectChange('add');
+      expect(mockIndexer.indexNovel).not.toHaveBeenCalled();
+
+      await indexerManager.initializeQdrant();
+      await handleProjectChange('add');
+      await waitForBuild();
+
+      expect(mockIndexer.indexNovel).toHaveBeenCalledWith('novel-1');
+      expect(indexerManager.hasInitialized('novel-1')).toBe(true);
+    });
+
+    it('構築済みのプロジェクトの novel.json が変更された場合は差分を反映する', async () => {
+      await indexerManager.search('novel-1', 'test', 10);
+
+      await handleProjectChange('change');
+      await waitForBuild();
+
+      expect(mockIndexer.indexNovel).toHaveBeenCalledTimes(2);
+      expect(mockIndexer.removeNovelFromIndex).not.toHaveBeenCalled();
+      expect((await indexerManager.getIndexStatus('novel-1')).build?.trigger).toBe('refresh');
+    });
+
+    it('未構築のプロジェクトの novel.json が変更されても構築しない', async () => {
+      await indexerManager.initializeQdrant();
+
+      await handleProjectChange('change');
+
+      expect(mockIndexer.indexNovel).not.toHaveBeenCalled();
+    });
+
+    it('削除されたプロジェクトのインデックスを削除する', async () => {
+      await indexerManager.search('novel-1', 'test', 10);
+
+      await handleProjectChange('unlink');
+
+      expect(mockIndexer.removeNovelFromIndex).toHaveBeenCalledWith('novel-1');
+      expect(indexerManager.hasInitialized('novel-1')).toBe(false);
+    });
+
+    it('インデックスへの反映の後にリスナーを呼び出す', async () => {
+      const order: string[] = [];
+      mockIndexer.removeNovelFromIndex.mockImplementation(async () => {
+        order.push('remove');
+      });
+      indexerManager.onProjectChange(async (event) => {
+        order.push(`listener:${event.type}`);
+      });
+      indexerManager.onProjectChange(() => {
+        throw new Error('listener failure');
+      });
+      await indexerManager.search('novel-1', 'test', 10);
+
+      await handleProjectChange('unlink');
+
+      expect(order).toEqual(['remove', 'listener:unlink']);
+    });
+  });
+
+  describe('インデックスの構築', () => {
+    it('検索せずにインデックスを構築できる', async () => {
+      await indexerManager.buildIndex('novel-1');
+      await indexerManager.buildIndex('novel-1');
+
+      expect(mockIndexer.indexNovel).toHaveBeenCalledTimes(1);
+      expect(indexerManager.hasInitialized('novel-1')).toBe(true);
+    });
+
+    it('rebuild を指定すると既存のインデックスを削除して構築し直す', async () => {
+      await indexerManager.buildIndex('novel-1');
+      await indexerManager.buildIndex('novel-1', { rebuild: true });
+
+      expect(mockIndexer.removeNovelFromIndex).toHaveBeenCalledWith('novel-1');
+      expect(mockIndexer.indexNovel).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('インデックス管理', () => {
     it('ノベルインデックスをクリアできる', async () => {
       await indexerManager.search('novel-1', 'test', 10);
@@ -218,6 +408,269 @@ describe('IndexerManager', () => {
       expect(mockIndexer.removeNovelFromIndex).not.toHaveBeenCalled();
       expect(indexerManager.hasInitialized('novel-1')).toBe(false);
     });
+
+    it('forceを指定すると未初期化でも永続化されたインデックスを削除する', async () => {
+      await indexerManager.clearNovelIndex('novel-1', { force: true });
+
+      expect(mockIndexer.removeNovelFromIndex).toHaveBeenCalledWith('novel-1');
+    });
+
+    it('同時に検索してもインデックスの構築は1回だけ行う', async () => {
+      await Promise.all([
+        indexerManager.search('novel-1', 'a', 10),
+        indexerManager.search('novel-1', 'b', 10),
+      ]);
+
+      expect(mockIndexer.indexNovel).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('ジョブキュー', () => {
+    it('同じ小説のファイル更新は構築の完了後に順番に実行する', async () => {
+      const order: string[] = [];
+      let finishBuild: () => void = () => undefined;
+      mockIndexer.indexNovel.mockImplementationOnce(async () => {
+        order.push('build');
+        await new Promise<void>((resolve) => {
+          finishBuild = resolve;
+        });
+      });
+      mockIndexer.updateFile.mockImplementation(async (filePath: string) => {
+        order.push(`update:${filePath}`);
+      });
+      mockIndexer.removeFile.mockImplementation(async (filePath: string) => {
+        order.push(`remove:${filePath}`);
+      });
+
+      const search = indexerManager.search('novel-1', 'test', 10);
+      await vi.waitFor(() => expect(mockIndexer.indexNovel).toHaveBeenCalled());
+      const updates = Promise.all([
+        indexerManager.updateFile('novel-1', 'a.md'),
+        indexerManager.removeFile('novel-1', 'b.md'),
+      ]);
+
+      expect((await indexerManager.getIndexStatus('novel-1')).pendingEvents).toBe(2);
+      finishBuild();
+      await Promise.all([search, updates]);
+
+      expect(order).toEqual(['build', 'update:a.md', 'remove:b.md']);
+      expect((await indexerManager.getIndexStatus('novel-1')).pendingEvents).toBe(0);
+    });
+
+    it('実行待ちの同じファイルのイベントは最新のイベントにまとめる', async () => {
+      await indexerManager.search('novel-1', 'test', 10);
+      let finishFirst: () => void = () => undefined;
+      mockIndexer.updateFile.mockImplementationOnce(
+        () =>
+          new Promise<void>((resolve) => {
+            finishFirst = resolve;
+          }),
+      );
+
+      const first = indexerManager.updateFile('novel-1', 'a.md');
+      await vi.waitFor(() => expect(mockIndexer.updateFile).toHaveBeenCalledTimes(1));
+      const queued = [
+        indexerManager.updateFile('novel-1', 'b.md'),
+        indexerManager.updateFile('novel-1', 'b.md'),
+        indexerManager.removeFile('novel-1', 'b.md'),
+      ];
+      finishFirst();
+      await Promise.all([first, ...queued]);
+
+      expect(mockIndexer.updateFile).toHaveBeenCalledTimes(1);
+      expect(mockIndexer.removeFile).toHaveBeenCalledTimes(1);
+      expect(mockIndexer.removeFile).toHaveBeenCalledWith('b.md');
+    });
+
+    it('ファイルの更新に失敗しても後続のジョブを実行する', async () => {
+      await indexerManager.search('novel-1', 'test', 10);
+      mockIndexer.updateFile.mockRejectedValueOnce(new Error('broken file'));
+
+      const results = await Promise.allSettled([
+        indexerManager.updateFile('novel-1', 'broken.md'),
+        indexerManager.updateFile('novel-1', 'ok.md'),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'fulfilled']);
+      expect(mockIndexer.updateFile).toHaveBeenLastCalledWith('ok.md', 'novel-1');
+    });
+
+    it('構築の進捗を小説ごとのリスナーに通知する', async () => {
+      mockIndexer.indexNovel.mockImplementationOnce(async (novelId: string) => {
+        mockIndexer.onProgress.mock.calls[0][0]({ novelId, processedFiles: 1, totalFiles: 2 });
+      });
+      const listener = vi.fn();
+      const otherListener = vi.fn();
+      const unsubscribe = indexerManager.onIndexProgress('novel-1', listener);
+      indexerManager.onIndexProgress('novel-2', otherListener);
+
+      await indexerManager.search('novel-1', 'test', 10);
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledWith({
+        novelId: 'novel-1',
+        processedFiles: 1,
+        totalFiles: 2,
+      });
+      expect(otherListener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('インデックスの状態', () => {
+    // Indexer に登録された進捗リスナー
+    const emitProgress = (processedFiles: number, totalFiles: number) =>
+      mockIndexer.onProgress.mock.calls[0][0]({ novelId: 'novel-1', processedFiles, totalFiles });
+
+    it('構築済みのインデックスの状態を取得できる', async () => {
+      await indexerManager.search('novel-1', 'test', 10);
+
+      const status = await indexerManager.getIndexStatus('novel-1');
+
+      expect(status).toMatchObject({
+        novelId: 'novel-1',
+        initialized: true,
+        indexedFiles: 3,
+        chunkCount: 12,
+        lastUpdated: '2026-01-01T00:00:00.000Z',
+        pendingEvents: 0,
+        fileWatching: false,
+        backendMode: 'explicit',
+        backendAvailable: true,
+      });
+      expect(status.build).toMatchObject({ state: 'completed', trigger: 'initial' });
+    });
+
+    it('再構築をバックグラウンドで実行し進捗を報告する', async () => {
+      let finish: () => void = () => undefined;
+      mockIndexer.indexNovel.mockImplementationOnce(async () => {
+        emitProgress(0, 2);
+        emitProgress(1, 2);
+        await new Promise<void>((resolve) => {
+          finish = resolve;
+        });
+      });
+
+      const started = await indexerManager.startRebuild('novel-1');
+      expect(started).toMatchObject({ state: 'running', trigger: 'rebuild' });
+
+      await vi.waitFor(() => expect(mockIndexer.indexNovel).toHaveBeenCalled());
+      expect((await indexerManager.getIndexStatus('novel-1')).build).toMatchObject({
+        state: 'running',
+        processedFiles: 1,
+        totalFiles: 2,
+      });
+
+      // 実行中に再度開始しても新しい構築は始まらない
+      await indexerManager.startRebuild('novel-1');
+      await expect(indexerManager.clearNovelIndex('novel-1')).rejects.toThrow('構築中');
+
+      finish();
+      await vi.waitFor(async () =>
+        expect((await indexerManager.getIndexStatus('novel-1')).build?.state).toBe('completed'),
+      );
+      expect(mockIndexer.removeNovelFromIndex).toHaveBeenCalledTimes(1);
+      expect(mockIndexer.indexNovel).toHaveBeenCalledTimes(1);
+      expect(indexerManager.hasInitialized('novel-1')).toBe(true);
+    });
+
+    it('再構築の失敗を状態に記録する', async () => {
+      mockIndexer.indexNovel.mockRejectedValueOnce(new Error('embedding failed'));
+
+      await indexerManager.startRebuild('novel-1');
+
+      await vi.waitFor(async () =>
+        expect((await indexerManager.getIndexStatus('novel-1')).build).toMatchObject({
+          state: 'failed',
+          error: 'embedding failed',
+        }),
+      );
+      expect(indexerManager.hasInitialized('novel-1')).toBe(false);
+    });
+  });
+
+  describe('ローカルベクトルストアへのフォールバック', () => {
+    const useFallbackInitialization = () => {
+      vi.mocked(QdrantInitializationService).mockImplementationOnce(
+        () =>
+          ({
+            initialize: vi.fn().mockResolvedValue({
+              success: false,
+              mode: 'fallback',
+              error: new Error('Qdrant接続に失敗しました'),
+            }),
+            cleanup: vi.fn().mockResolvedValue(undefined),
+          }) as unknown as QdrantInitializationService,
+      );
+    };
+
+    it('フォールバック有効時はローカルストアに切り替えて検索できる', async () => {
+      useFallbackInitialization();
+      const manager = new IndexerManager({
+        ...mockConfig,
+        localVector: { ...mockConfig.localVector, fallback: true },
+      });
+
+      const result = await manager.initializeQdrant();
+      await manager.search('novel-1', 'test', 10);
+
+      expect(result.success).toBe(true);
+      expect(result.mode).toBe('local');
+      expect(mockIndexer.useLocalVectorStore).toHaveBeenCalledTimes(1);
+      expect(mockIndexer.search).toHaveBeenCalledWith('test', 10, 'novel-1', undefined);
+      expect(manager.isUsingLocalVectorStore()).toBe(true);
+      expect(manager.isQdrantAvailable()).toBe(false);
+
+      await manager.cleanup();
+    });
+
+    it('初期化前の再構築・削除はローカルストアに切り替えてから実行する', async () => {
+      useFallbackInitialization();
+      const manager = new IndexerManager({
+        ...mockConfig,
+        localVector: { ...mockConfig.localVector, fallback: true },
+      });
+
+      await manager.clearNovelIndex('novel-1', { force: true });
+      expect(mockIndexer.useLocalVectorStore).toHaveBeenCalledTimes(1);
+      expect(mockIndexer.useLocalVectorStore.mock.invocationCallOrder[0]).toBeLessThan(
+        mockIndexer.removeNovelFromIndex.mock.invocationCallOrder[0],
+      );
+
+      await manager.startRebuild('novel-1');
+      await vi.waitFor(() => expect(mockIndexer.indexNovel).toHaveBeenCalled());
+      expect(manager.isUsingLocalVectorStore()).toBe(true);
+
+      await manager.cleanup();
+    });
+
+    it('ベクトルストアが利用できない場合は再構築・削除を開始せずにエラーにする', async () => {
+      useFallbackInitialization();
+      const manager = new IndexerManager(mockConfig);
+
+      await expect(manager.startRebuild('novel-1')).rejects.toThrow(IndexBuildError);
+      await expect(manager.clearNovelIndex('novel-1', { force: true })).rejects.toThrow(
+        IndexBuildError,
+      );
+      expect(mockIndexer.removeNovelFromIndex).not.toHaveBeenCalled();
+      expect(mockIndexer.indexNovel).not.toHaveBeenCalled();
+      expect((await manager.getIndexStatus('novel-1')).build).toBeNull();
+
+      await manager.cleanup();
+    });
+
+    it('フォールバック無効時は検索バックエンド利用不可エラーになる', async () => {
+      useFallbackInitialization();
+      const manager = new IndexerManager(mockConfig);
+
+      await manager.initializeQdrant();
+
+      await expect(manager.search('novel-1', 'test', 10)).rejects.toThrow(
+        '検索バックエンドが利用できません',
+      );
+      expect(mockIndexer.useLocalVectorStore).not.toHaveBeenCalled();
+
+      await manager.cleanup();
+    });
   });
 
   describe('統計情報', () => {
@@ -241,6 +694,12 @@ describe('IndexerManager', () => {
         { novelId: 'novel-1', isInitialized: true },
         { novelId: 'novel-2', isInitialized: true },
       ]);
+      expect(stats.tokens).toEqual({
+        tokenizer: 'model',
+        maxSequenceLength: 512,
+        oversizedChunks: 0,
+      });
+      expect(stats.embeddingCache).toBeNull();
     });
   });
 
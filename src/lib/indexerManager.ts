@@ -1,25 +1,54 @@
-import { Indexer } from '../indexer.js';
+import { Indexer, TokenStats } from '../indexer.js';
 import { DialogoiConfig } from './config.js';
+import { EmbeddingCacheStats } from '../repositories/EmbeddingCache.js';
 import { SearchResult } from '../backends/SearchBackend.js';
-import { FileWatcher, FileChangeEvent, createDefaultFileWatcherConfig } from './fileWatcher.js';
+import {
+  FileWatcher,
+  FileChangeEvent,
+  FileEvent,
+  ProjectChangeEvent,
+  createDefaultFileWatcherConfig,
+} from './fileWatcher.js';
 import {
   QdrantInitializationService,
   QdrantInitializationResult,
 } from '../services/QdrantInitializationService.js';
 import { SearchBackendUnavailableError } from '../errors/DialogoiError.js';
+import { IndexBuildError } from '../errors/index.js';
+import { IndexBuildStatus, IndexProgress, NovelIndexStatus } from '../domain/indexStatus.js';
 import { getLogger } from '../logging/index.js';
 
+/**
+ * 実行待ちのファイル更新ジョブ
+ * 実行前に同じファイルのイベントが届いた場合は type を最新のイベントに置き換える
+ */
+interface PendingFileJob {
+  type: FileEvent;
+  promise: Promise<void>;
+}
+
 /**
  * 単一のIndexerで複数の小説プロジェクトを管理するクラス
  * ファイル監視機能も統合している
+ *
+ * インデックスの構築・ファイルの更新・削除は小説ごとのジョブキューで直列に実行する
+ * （あるジョブが失敗しても後続のジョブは実行される）
  */
 export class IndexerManager {
   private indexer: Indexer;
   private initializedNovels: Set<string> = new Set();
   private config: DialogoiConfig;
   private fileWatcher: FileWatcher | null = null;
+  private fileChangeListeners: Array<(event: FileChangeEvent) => void> = [];
+  private projectChangeListeners: Array<(event: ProjectChangeEvent) => void | Promise<void>> = [];
   private qdrantInitService: QdrantInitializationService;
   private initializationResult: QdrantInitializationResult | null = null;
+  private jobQueues: Map<string, Promise<void>> = new Map(); // 小説ごとのジョブキューの末尾
+  private buildTasks: Map<string, Promise<void>> = new Map(); // 実行待ち・実行中のインデックス構築
+  private builds: Map<string, IndexBuildStatus> = new Map(); // 小説ごとの直近のインデックス構築
+  private pendingFileJobs: Map<string, Map<string, PendingFileJob>> = new Map(); // 小説ID → ファイルパス
+  private activeFileChanges: Map<string, number> = new Map(); // 実行待ち・実行中のファイル更新ジョブ数
+  private progressListeners: Map<string, Set<(progress: IndexProgress) => void>> = new Map();
   private logger = getLogger();
 
   constructor(config: DialogoiConfig) {
@@ -27,6 +56,7 @@ export class IndexerManager {
     this.qdrantInitService = new QdrantInitializationService(config);
     // 単一のIndexerを作成
     this.indexer = new Indexer(this.config);
+    this.indexer.onProgress((progress) => this.updateBuildProgress(progress));
   }
 
   /**
@@ -37,8 +67,22 @@ export class IndexerManager {
       this.logger.info('Qdrant 初期化を実行中...');
       this.initializationResult = await this.qdrantInitService.initialize();
 
+      // Qdrant が利用できない場合はローカルベクトルストアにフォールバック
+      if (!this.initializationResult.success && this.config.localVector.fallback) {
+        this.logger.warn('Qdrant が利用できないため、ローカルベクトルストアを使用します', {
+          mode: this.initializationResult.mode,
+          error: this.initializationResult.error?.message,
+        });
+        this.indexer.useLocalVectorStore();
+        this.initializationResult = {
+          success: true,
+          mode: 'local',
+          error: this.initializationResult.error,
+        };
+      }
+
       if (this.initializationResult.success) {
-        this.logger.info('Qdrant 初期化に成功しました', {
+        this.logger.info('ベクトルストアの初期化に成功しました', {
           mode: this.initializationResult.mode,
           containerId: this.initializationResult.containerId,
         });
@@ -57,19 +101,181 @@ export class IndexerManager {
    * Qdrant が利用可能かチェック
    */
   isQdrantAvailable(): boolean {
-    return this.initializationResult?.success ?? false;
+    return (this.initializationResult?.success ?? false) && !this.isUsingLocalVectorStore();
+  }
+
+  /**
+   * ローカルベクトルストアで動作しているかチェック
+   */
+  isUsingLocalVectorStore(): boolean {
+    return this.initializationResult?.mode === 'local';
   }
 
   /**
    * 指定された小説IDの初期化確認・実行
+   * 構築が実行待ち・実行中の場合はその完了を待つ
    * @param novelId 小説ID
    */
   private async ensureNovelInitialized(novelId: string): Promise<void> {
-    if (!this.initializedNovels.has(novelId)) {
-      this.logger.info(`📚 小説プロジェクトのインデックスを構築: ${novelId}`);
-      await this.indexer.indexNovel(novelId);
-      this.initializedNovels.add(novelId);
+    if (this.initializedNovels.has(novelId)) {
+      return;
     }
+    await (this.buildTasks.get(novelId) ?? this.startBuild(novelId, 'initial'));
+  }
+
+  /**
+   * インデックスの構築をジョブキューに追加
+   * @param prepare 構築の前に実行する処理（再構築時の既存インデックスの削除）
+   */
+  private startBuild(
+    novelId: string,
+    trigger: IndexBuildStatus['trigger'],
+    prepare?: () => Promise<void>,
+  ): Promise<void> {
+    const build: IndexBuildStatus = {
+      state: 'running',
+      trigger,
+      startedAt: new Date().toISOString(),
+      processedFiles: 0,
+      totalFiles: 0,
+    };
+    this.builds.set(novelId, build);
+
+    const task = this.enqueue(novelId, async () => {
+      try {
+        await prepare?.();
+        this.logger.info(`📚 小説プロジェクトのインデックスを構築: ${novelId}`);
+        await this.indexer.indexNovel(novelId);
+        this.initializedNovels.add(novelId);
+        build.state = 'completed';
+      } catch (error) {
+        build.state = 'failed';
+        build.error = error instanceof Error ? error.message : String(error);
+        throw error;
+      } finally {
+        build.finishedAt = new Date().toISOString();
+      }
+    });
+    this.buildTasks.set(novelId, task);
+
+    const release = () => {
+      if (this.buildTasks.get(novelId) === task) {
+        this.buildTasks.delete(novelId);
+      }
+    };
+    task.then(release, release);
+    return task;
+  }
+
+  /**
+   * ファイルの更新・削除をジョブキューに追加
+   * 実行待ちの同じファイルのジョブがある場合は新しいジョブを作らず、最新のイベントにまとめる
+   */
+  private enqueueFileJob(novelId: string, filePath: string, type: FileEvent): Promise<void> {
+    const pending = this.pendingFileJobs.get(novelId) ?? new Map<string, PendingFileJob>();
+    this.pendingFileJobs.set(novelId, pending);
+
+    const existing = pending.get(filePath);
+    if (existing) {
+      this.logger.debug(
+        `ファイル更新ジョブをまとめました (${existing.type} → ${type}): ${filePath}`,
+      );
+      existing.type = type;
+      return existing.promise;
+    }
+
+    const job: PendingFileJob = { type, promise: Promise.resolve() };
+    pending.set(filePath, job);
+    this.activeFileChanges.set(novelId, (this.activeFileChanges.get(novelId) ?? 0) + 1);
+
+    job.promise = this.enqueue(novelId, async () => {
+      // 実行を始めた後のイベントは新しいジョブとして扱う
+      if (pending.get(filePath) === job) {
+        pending.delete(filePath);
+      }
+      if (pending.size === 0 && this.pendingFileJobs.get(novelId) === pending) {
+        this.pendingFileJobs.delete(novelId);
+      }
+
+      try {
+        // 構築に失敗した・削除された場合は、次回の構築でファイルの状態が反映される
+        if (!this.initializedNovels.has(novelId)) {
+          return;
+        }
+        if (job.type === 'unlink') {
+          await this.indexer.removeFile(filePath);
+        } else {
+          await this.indexer.updateFile(filePath, novelId);
+        }
+      } finally {
+        const remaining = (this.activeFileChanges.get(novelId) ?? 1) - 1;
+        if (remaining > 0) {
+          this.activeFileChanges.set(novelId, remaining);
+        } else {
+          this.activeFileChanges.delete(novelId);
+        }
+      }
+    });
+    return job.promise;
+  }
+
+  /**
+   * 小説ごとのジョブキューにジョブを追加
+   * 前のジョブが失敗しても後続のジョブは実行される
+   */
+  private enqueue<T>(novelId: string, job: () => Promise<T>): Promise<T> {
+    const previous = this.jobQueues.get(novelId) ?? Promise.resolve();
+    const next = previous.then(job);
+    const tail = next.then(
+      () => undefined,
+      () => undefined,
+    );
+    this.jobQueues.set(novelId, tail);
+    void tail.then(() => {
+      if (this.jobQueues.get(novelId) === tail) {
+        this.jobQueues.delete(novelId);
+      }
+    });
+    return next;
+  }
+
+  /**
+   * Indexer からの進捗を構築中の状態に反映し、小説ごとのリスナーに通知
+   */
+  private updateBuildProgress(progress: IndexProgress): void {
+    const build = this.builds.get(progress.novelId);
+    if (build && build.state === 'running') {
+      build.processedFiles = progress.processedFiles;
+      build.totalFiles = progress.totalFiles;
+    }
+
+    for (const listener of this.progressListeners.get(progress.novelId) ?? []) {
+      try {
+        listener(progress);
+      } catch (error) {
+        this.logger.error(
+          `❌ インデックス進捗リスナーエラー: ${progress.novelId}`,
+          error instanceof Error ? error : undefined,
+        );
+      }
+    }
+  }
+
+  /**
+   * 小説のインデックス構築の進捗を受け取るリスナーを登録
+   * @returns 登録を解除する関数
+   */
+  onIndexProgress(novelId: string, listener: (progress: IndexProgress) => void): () => void {
+    const listeners = this.progressListeners.get(novelId) ?? new Set();
+    listeners.add(listener);
+    this.progressListeners.set(novelId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.progressListeners.get(novelId) === listeners) {
+        this.progressListeners.delete(novelId);
+      }
+    };
   }
 
   /**
@@ -85,10 +291,20 @@ export class IndexerManager {
    * 指定された小説IDの初期化状態をクリア
    * @param novelId 小説ID
    */
-  async clearNovelIndex(novelId: string): Promise<void> {
-    if (this.initializedNovels.has(novelId)) {
-      await this.indexer.removeNovelFromIndex(novelId);
+  async clearNovelIndex(novelId: string, options: { force?: boolean } = {}): Promise<void> {
+    if (this.buildTasks.has(novelId)) {
+      throw new IndexBuildError(novelId, 'インデックスの構築中は削除できません');
+    }
+    // force の場合は未初期化でも永続化されたインデックス（ベクトル・マニフェスト）を削除する
+    if (this.initializedNovels.has(novelId) || options.force) {
+      await this.requireVectorStore(
+        novelId,
+        'ベクトルストアを初期化できないため、インデックスを削除できません',
+      );
+      // 実行待ちのファイル更新ジョブは削除後のインデックスに書き込まないようにする
       this.initializedNovels.delete(novelId);
+      await this.enqueue(novelId, () => this.indexer.removeNovelFromIndex(novelId));
+      this.builds.delete(novelId);
       this.logger.info(`🗑️ 小説プロジェクトのインデックスを削除: ${novelId}`);
     }
   }
@@ -106,11 +322,6 @@ export class IndexerManager {
     k: number,
     fileType?: string,
   ): Promise<SearchResult[]> {
-    // fileTypeのバリデーション
-    if (fileType && !['content', 'settings', 'both'].includes(fileType)) {
-      throw new Error(`Invalid fileType: ${fileType}. Must be one of: content, settings, both`);
-    }
-
     this.logger.debug('RAG検索開始', {
       novelId,
       query,
@@ -120,6 +331,45 @@ export class IndexerManager {
       initializationResultSuccess: this.initializationResult?.success,
     });
 
+    await this.ensureSearchBackendAvailable(novelId, query, fileType);
+    await this.ensureNovelInitialized(novelId);
+    return this.indexer.search(query, k, novelId, fileType);
+  }
+
+  /**
+   * ハイブリッド検索（ベクトル検索 + BM25 キーワード検索）を実行
+   * @param novelId 小説ID
+   * @param query 検索クエリ
+   * @param k 取得する結果数
+   * @returns RRF で統合された検索結果
+   */
+  async hybridSearch(
+    novelId: string,
+    query: string,
+    k: number,
+    fileType?: string,
+  ): Promise<SearchResult[]> {
+    this.logger.debug('ハイブリッド検索開始', { novelId, query, k, fileType });
+
+    await this.ensureSearchBackendAvailable(novelId, query, fileType);
+    await this.ensureNovelInitialized(novelId);
+    return this.indexer.hybridSearch(query, k, novelId, fileType);
+  }
+
+  /**
+   * 検索パラメータと検索バックエンドの利用可否を確認
+   * 利用できない場合は SearchBackendUnavailableError を throw する
+   */
+  private async ensureSearchBackendAvailable(
+    novelId: string,
+    query: string,
+    fileType?: string,
+  ): Promise<void> {
+    // fileTypeのバリデーション
+    if (fileType && !['content', 'settings', 'both'].includes(fileType)) {
+      throw new Error(`Invalid fileType: ${fileType}. Must be one of: content, settings, both`);
+    }
+
     // Qdrant 初期化を確認（未初期化の場合のみ実行）
     if (!this.initializationResult) {
       this.logger.warn('初期化結果が未設定のため、再初期化を実行します');
@@ -174,9 +424,6 @@ export class IndexerManager {
         },
       );
     }
-
-    await this.ensureNovelInitialized(novelId);
-    return this.indexer.search(query, k, novelId, fileType);
   }
 
   /**
@@ -185,13 +432,14 @@ export class IndexerManager {
    * @param filePath 更新対象ファイルの絶対パス
    */
   async updateFile(novelId: string, filePath: string): Promise<void> {
-    // 初期化されていない場合のみ初期化を実行
-    if (!this.initializedNovels.has(novelId)) {
+    // 構築が始まっていない場合は構築のみ行う（構築で全ファイルがインデックスされる）
+    if (!this.initializedNovels.has(novelId) && !this.buildTasks.has(novelId)) {
       await this.ensureNovelInitialized(novelId);
-      return; // 初期化で全ファイルが既にインデックスされているため、個別のupdateFileは不要
+      return;
     }
 
-    await this.indexer.updateFile(filePath, novelId);
+    // 構築中の場合は構築の後に反映する
+    await this.enqueueFileJob(novelId, filePath, 'change');
   }
 
   /**
@@ -200,8 +448,62 @@ export class IndexerManager {
    * @param filePath 削除対象ファイルの絶対パス
    */
   async removeFile(novelId: string, filePath: string): Promise<void> {
-    await this.ensureNovelInitialized(novelId);
-    await this.indexer.removeFile(filePath);
+    // 構築ジョブの後に削除ジョブを追加する（構築の完了を待たずにキューに入れる）
+    await Promise.all([
+      this.ensureNovelInitialized(novelId),
+      this.enqueueFileJob(novelId, filePath, 'unlink'),
+    ]);
+  }
+
+  /**
+   * ファイルの移動・リネームをインデックスに反映
+   * 旧パスのチャンクを削除してから新しいパスで再インデックスする
+   * @param novelId 小説プロジェクトID
+   * @param oldFilePath 移動前ファイルの絶対パス
+   * @param newFilePath 移動後ファイルの絶対パス
+   */
+  async moveFile(novelId: string, oldFilePath: string, newFilePath: string): Promise<void> {
+    // 構築が始まっていない場合は構築で新しいパスがインデックスされる
+    if (!this.initializedNovels.has(novelId) && !this.buildTasks.has(novelId)) {
+      await this.ensureNovelInitialized(novelId);
+      return;
+    }
+
+    await Promise.all([
+      this.enqueueFileJob(novelId, oldFilePath, 'unlink'),
+      this.enqueueFileJob(novelId, newFilePath, 'change'),
+    ]);
+  }
+
+  /**
+   * インデックスを構築（構築済みの場合は何もしない）
+   * 検索を伴わずに構築するため、ベクトルストアを初期化してから構築する
+   * @param novelId 小説ID
+   * @param options.rebuild 既存のインデックスを削除して構築し直す
+   */
+  async buildIndex(novelId: string, options: { rebuild?: boolean } = {}): Promise<void> {
+    await this.requireVectorStore(novelId, 'ベクトルストアを初期化できません');
+
+    if (options.rebuild) {
+      await this.rebuildIndex(novelId);
+    } else {
+      await this.ensureNovelInitialized(novelId);
+    }
+  }
+
+  /**
+   * ベクトルストアを初期化し、利用できない場合はエラーにする
+   * 初期化前に操作すると、ローカルベクトルストアへ切り替える前の Qdrant に対して実行されるため、
+   * インデックスを構築・削除する前に必ず呼ぶ
+   */
+  private async requireVectorStore(novelId: string, reason: string): Promise<void> {
+    const result = await this.initializeQdrant();
+    if (!result.success) {
+      throw new IndexBuildError(novelId, reason, {
+        mode: result.mode,
+        error: result.error?.message,
+      });
+    }
   }
 
   /**
@@ -209,8 +511,68 @@ export class IndexerManager {
    * @param novelId 小説ID
    */
   async rebuildIndex(novelId: string): Promise<void> {
-    await this.clearNovelIndex(novelId);
-    await this.ensureNovelInitialized(novelId);
+    // 構築中の場合は完了を待ってから作り直す
+    await this.buildTasks.get(novelId)?.catch(() => undefined);
+    await this.startRebuildTask(novelId);
+  }
+
+  /**
+   * インデックスの再構築をバックグラウンドで開始
+   * 既に構築中の場合は新しい構築を開始せず、その状態を返す
+   * 進捗は getIndexStatus で確認する
+   * @param novelId 小説ID
+   * @returns 開始した（または実行中の）構築の状態
+   */
+  async startRebuild(novelId: string): Promise<IndexBuildStatus> {
+    await this.requireVectorStore(novelId, 'ベクトルストアを初期化できません');
+
+    const current = this.builds.get(novelId);
+    if (this.buildTasks.has(novelId) && current) {
+      return { ...current };
+    }
+
+    this.startRebuildTask(novelId).then(
+      () => this.logger.info(`✅ インデックスの再構築が完了しました: ${novelId}`),
+      (error) =>
+        this.logger.error(
+          `❌ インデックスの再構築に失敗しました: ${novelId}`,
+          error instanceof Error ? error : undefined,
+        ),
+    );
+
+    return { ...this.builds.get(novelId)! };
+  }
+
+  /**
+   * 既存のインデックスを削除してから構築するジョブを追加
+   * 未初期化でもマニフェストと既存のベクトルが残っているため、常に削除してから構築する
+   */
+  private startRebuildTask(novelId: string): Promise<void> {
+    // 再構築が終わるまで検索は構築の完了を待つ
+    this.initializedNovels.delete(novelId);
+    return this.startBuild(novelId, 'rebuild', () => this.indexer.removeNovelFromIndex(novelId));
+  }
+
+  /**
+   * 小説プロジェクトのインデックス状態を取得
+   * @param novelId 小説ID
+   */
+  async getIndexStatus(novelId: string): Promise<NovelIndexStatus> {
+    const summary = await this.indexer.getIndexSummary(novelId);
+    const build = this.builds.get(novelId);
+
+    return {
+      novelId,
+      ...summary,
+      initialized: this.initializedNovels.has(novelId),
+      build: build ? { ...build } : null,
+      pendingEvents:
+        (this.fileWatcher?.getPendingEventCount(novelId) ?? 0) +
+        (this.activeFileChanges.get(novelId) ?? 0),
+      fileWatching: this.isFileWatching(),
+      backendMode: this.initializationResult?.mode ?? null,
+      backendAvailable: this.initializationResult?.success ?? false,
+    };
   }
 
   /**
@@ -231,6 +593,8 @@ export class IndexerManager {
       novelId: string;
       isInitialized: boolean;
     }>;
+    tokens: TokenStats;
+    embeddingCache: EmbeddingCacheStats | null;
   } {
     const novels = Array.from(this.initializedNovels).map((novelId) => ({
       novelId,
@@ -240,6 +604,8 @@ export class IndexerManager {
     return {
       totalInitializedNovels: this.initializedNovels.size,
       novels,
+      tokens: this.indexer.getTokenStats(),
+      embeddingCache: this.indexer.getEmbeddingCacheStats(),
     };
   }
 
@@ -260,6 +626,11 @@ export class IndexerManager {
       await this.handleFileChange(event);
     });
 
+    // 小説プロジェクトの追加・変更・削除（novel.json）を監視
+    this.fileWatcher.on('projectChange', async (event: ProjectChangeEvent) => {
+      await this.handleProjectChange(event);
+    });
+
     this.fileWatcher.on('error', (error: Error) => {
       this.logger.error('❌ ファイル監視エラー:', error);
     });
@@ -267,6 +638,22 @@ export class IndexerManager {
     await this.fileWatcher.start();
   }
 
+  /**
+   * ファイル変更時に呼び出すリスナーを登録
+   * インデックス更新の後に呼び出される（インデックス更新に失敗した場合も呼び出す）
+   */
+  onFileChange(listener: (event: FileChangeEvent) => void): void {
+    this.fileChangeListeners.push(listener);
+  }
+
+  /**
+   * 小説プロジェクトの追加・変更・削除（novel.json の変更）時に呼び出すリスナーを登録
+   * インデックスへの反映を開始した後に、登録順に完了を待って呼び出される
+   */
+  onProjectChange(listener: (event: ProjectChangeEvent) => void | Promise<void>): void {
+    this.projectChangeListeners.push(listener);
+  }
+
   /**
    * ファイル監視を停止
    */
@@ -304,6 +691,82 @@ export class IndexerManager {
         error instanceof Error ? error : undefined,
       );
     }
+
+    for (const listener of this.fileChangeListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.error(
+          `❌ ファイル変更リスナーエラー (${event.type}): ${event.filePath}`,
+          error instanceof Error ? error : undefined,
+        );
+      }
+    }
+  }
+
+  /**
+   * 小説プロジェクトの変更イベントを処理
+   */
+  private async handleProjectChange(event: ProjectChangeEvent): Promise<void> {
+    try {
+      await this.applyProjectChange(event);
+    } catch (error) {
+      this.logger.error(
+        `❌ 小説プロジェクトの変更処理エラー (${event.type}): ${event.novelId}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    for (const listener of this.projectChangeListeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        this.logger.error(
+          `❌ 小説プロジェクト変更リスナーエラー (${event.type}): ${event.novelId}`,
+          error instanceof Error ? error : undefined,
+        );
+      }
+    }
+  }
+
+  /**
+   * 小説プロジェクトの変更をインデックスに反映
+   * - 削除: インデックスを削除する
+   * - 追加: ベクトルストアが利用可能な場合はバックグラウンドで構築する
+   * - 変更: 構築済みの場合はバックグラウンドで差分を反映する（ディレクトリの追加・削除など）
+   */
+  private async applyProjectChange({ type, novelId }: ProjectChangeEvent): Promise<void> {
+    if (type === 'unlink') {
+      // 構築中の場合は完了を待ってから削除する
+      await this.buildTasks.get(novelId)?.catch(() => undefined);
+      await this.clearNovelIndex(novelId, { force: this.initializationResult?.success ?? false });
+      return;
+    }
+
+    if (this.initializedNovels.has(novelId)) {
+      this.startBackgroundBuild(novelId, 'refresh');
+    } else if (
+      type === 'add' &&
+      this.initializationResult?.success &&
+      !this.buildTasks.has(novelId)
+    ) {
+      this.startBackgroundBuild(novelId, 'initial');
+    }
+  }
+
+  /**
+   * 差分のインデックス構築をバックグラウンドで開始（完了を待たない）
+   * 内容ハッシュが一致するファイルは埋め込みを再生成しない
+   */
+  private startBackgroundBuild(novelId: string, trigger: IndexBuildStatus['trigger']): void {
+    this.startBuild(novelId, trigger).then(
+      () => this.logger.info(`✅ 小説プロジェクトの変更をインデックスに反映しました: ${novelId}`),
+      (error) =>
+        this.logger.error(
+          `❌ 小説プロジェクトの変更をインデックスに反映できませんでした: ${novelId}`,
+          error instanceof Error ? error : undefined,
+        ),
+    );
   }
 
   /**
@@ -314,6 +777,9 @@ export class IndexerManager {
     await this.indexer.cleanup();
     await this.qdrantInitService.cleanup();
     this.initializedNovels.clear();
+    this.builds.clear();
+    this.pendingFileJobs.clear();
+    this.progressListeners.clear();
     this.logger.info('🧹 全てのインデックスをクリーンアップしました');
   }
 }
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { splitChapters } from './manuscript.js';
+
+describe('splitChapters', () => {
+  it('最上位の見出しで章を区切り、下位の見出しは章の中に残す', () => {
+    const chapters = splitChapters([
+      {
+        filename: 'contents/01.md',
+        content:
+          '# 第一章 出会い\n\n　朝が来た。\n\n## 一\n\n　彼女は笑った。\n\n◇\n\n# 第二章 別れ\n夜。',
+      },
+    ]);
+
+    expect(chapters.map((chapter) => chapter.title)).toEqual(['第一章 出会い', '第二章 別れ']);
+    expect(chapters[0]).toMatchObject({ hasHeading: true, sourceFile: 'contents/01.md' });
+    expect(chapters[0].blocks).toEqual([
+      { type: 'paragraph', text: '　朝が来た。' },
+      { type: 'blank' },
+      { type: 'heading', level: 1, text: '一' },
+      { type: 'blank' },
+      { type: 'paragraph', text: '　彼女は笑った。' },
+      { type: 'blank' },
+      { type: 'sceneBreak', text: '◇' },
+    ]);
+    expect(chapters[1].blocks).toEqual([{ type: 'paragraph', text: '夜。' }]);
+  });
+
+  it('見出しのないファイルはファイル名を章タイトルにする', () => {
+    const chapters = splitChapters([
+      { filename: 'contents/prologue.txt', content: '\r\n序章の本文\r\n' },
+      { filename: 'contents/chapter1.md', content: '## 第一話\n本文' },
+      { filename: 'contents/empty.md', content: '\n\n' },
+    ]);
+
+    expect(chapters).toEqual([
+      {
+        title: 'prologue',
+        hasHeading: false,
+        sourceFile: 'contents/prologue.txt',
+        blocks: [{ type: 'paragraph', text: '序章の本文' }],
+      },
+      {
+        title: '第一話',
+        hasHeading: true,
+        sourceFile: 'contents/chapter1.md',
+        blocks: [{ type: 'paragraph', text: '本文' }],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import path from 'path';
+
+/**
+ * 原稿（本文ファイル）を構成するブロック
+ */
+export type ManuscriptBlock =
+  | { type: 'heading'; level: number; text: string } // 章見出しより下位の見出し（章見出しの直下が 1）
+  | { type: 'paragraph'; text: string } // 1行 = 1段落
+  | { type: 'blank' } // 空行
+  | { type: 'sceneBreak'; text: string }; // 場面転換（◇ や * * * だけの行）
+
+/**
+ * 原稿の章（章見出し、または本文ファイルの先頭で区切る）
+ */
+export interface ManuscriptChapter {
+  title: string;
+  hasHeading: boolean; // title が見出しから取られたか（false の場合はファイル名）
+  sourceFile: string; // 章が始まる本文ファイル（プロジェクトからの相対パス）
+  blocks: ManuscriptBlock[];
+}
+
+/**
+ * 本文ファイル
+ */
+export interface ManuscriptFile {
+  filename: string; // プロジェクトからの相対パス
+  content: string;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const SCENE_BREAK_PATTERN = /^(?:(?:[*＊※◇◆□■☆★]\s*){1,5}|-{3,}|_{3,})$/;
+
+/**
+ * 行を解析（見出しの level は Markdown の # の数）
+ */
+function parseLine(line: string): ManuscriptBlock {
+  const heading = line.match(HEADING_PATTERN);
+  if (heading) {
+    return { type: 'heading', level: heading[1].length, text: heading[2] };
+  }
+
+  const trimmed = line.trim();
+  if (trimmed === '') {
+    return { type: 'blank' };
+  }
+  if (SCENE_BREAK_PATTERN.test(trimmed)) {
+    return { type: 'sceneBreak', text: trimmed };
+  }
+  return { type: 'paragraph', text: line.replace(/\s+$/, '') };
+}
+
+/**
+ * 前後の空行を取り除く
+ */
+function trimBlankBlocks(blocks: ManuscriptBlock[]): ManuscriptBlock[] {
+  let start = 0;
+  let end = blocks.length;
+  while (start < end && blocks[start].type === 'blank') {
+    start++;
+  }
+  while (end > start && blocks[end - 1].type === 'blank') {
+    end--;
+  }
+  return blocks.slice(start, end);
+}
+
+/**
+ * 本文ファイルを章に分割
+ * すべてのファイルの中で最も上位の見出しを章見出しとし、各ファイルの先頭でも章を区切る
+ * 章見出しより前に本文があるファイルは、ファイル名（拡張子なし）を章タイトルにする
+ * @param files 本文ファイル（並び順のまま章にする）
+ */
+export function splitChapters(files: ManuscriptFile[]): ManuscriptChapter[] {
+  const parsedFiles = files.map((file) => ({
+    filename: file.filename,
+    blocks: file.content.replace(/\r\n?/g, '\n').split('\n').map(parseLine),
+  }));
+
+  const headingLevels = parsedFiles.flatMap((file) =>
+    file.blocks.flatMap((block) => (block.type === 'heading' ? [block.level] : [])),
+  );
+  const chapterLevel = headingLevels.length > 0 ? Math.min(...headingLevels) : 0;
+
+  const chapters: ManuscriptChapter[] = [];
+  for (const file of parsedFiles) {
+    let current: ManuscriptChapter = {
+      title: path.basename(file.filename, path.extname(file.filename)),
+      hasHeading: false,
+      sourceFile: file.filename,
+      blocks: [],
+    };
+    const fileChapters = [current];
+
+    for (const block of file.blocks) {
+      if (block.type === 'heading' && block.level > chapterLevel) {
+        current.blocks.push({ ...block, level: block.level - chapterLevel });
+        continue;
+      }
+      if (block.type === 'heading') {
+        // ファイル先頭の見出しは、ファイル名の章を見出しの章に置き換える
+        if (
+          fileChapters.length === 1 &&
+          !current.hasHeading &&
+          trimBlankBlocks(current.blocks).length === 0
+        ) {
+          current.title = block.text;
+          current.hasHeading = true;
+          current.blocks = [];
+          continue;
+        }
+        current = { title: block.text, hasHeading: true, sourceFile: file.filename, blocks: [] };
+        fileChapters.push(current);
+        continue;
+      }
+      current.blocks.push(block);
+    }
+
+    for (const chapter of fileChapters) {
+      chapter.blocks = trimBlankBlocks(chapter.blocks);
+      if (chapter.hasHeading || chapter.blocks.length > 0) {
+        chapters.push(chapter);
+      }
+    }
+  }
+
+  return chapters;
+}
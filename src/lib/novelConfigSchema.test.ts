@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import { createNovelConfigJsonSchema, validateNovelConfig } from './novelConfigSchema.js';
+
+describe('validateNovelConfig', () => {
+  const valid = {
+    title: '魔法の世界の冒険',
+    author: 'サンプル作者',
+    settingsDirectories: ['settings'],
+    contentDirectories: ['contents'],
+    createdAt: '2024-03-14T00:00:00Z',
+  };
+
+  it('正しい設定はそのまま返す', () => {
+    const result = validateNovelConfig(valid);
+
+    expect(result.errors).toEqual([]);
+    expect(result.config).toMatchObject(valid);
+  });
+
+  it('フィールドごとのエラーを返す', () => {
+    const result = validateNovelConfig({
+      ...valid,
+      title: 42,
+      settingsDirectories: undefined,
+      contentDirectories: [],
+      createdAt: '2024/03/14',
+    });
+
+    expect(result.config).toBeNull();
+    expect(result.errors).toEqual([
+      'title: string を指定してください（number が指定されています）',
+      'settingsDirectories: 必須です',
+      'contentDirectories: 1件以上指定してください',
+      'createdAt: ISO 8601 形式の日時を指定してください（例: 2024-03-14T00:00:00Z）',
+    ]);
+  });
+
+  it('オブジェクト以外はルートのエラーになる', () => {
+    expect(validateNovelConfig([]).errors[0]).toMatch(/^\(ルート\): object を指定してください/);
+  });
+
+  it('未知のキーは読み込みを妨げず警告にする', () => {
+    const result = validateNovelConfig({
+      ...valid,
+      $schema: '../../schemas/novel.schema.json',
+      ContentDirectories: ['chapters'],
+      settingsDirectory: ['docs'],
+      genre: 'ファンタジー',
+    });
+
+    expect(result.config).not.toBeNull();
+    expect(result.config).not.toHaveProperty('genre');
+    expect(result.warnings).toEqual([
+      'ContentDirectories: 未知のキーです（無視されます）。contentDirectories の誤りではありませんか',
+      'settingsDirectory: 未知のキーです（無視されます）。settingsDirectories の誤りではありませんか',
+      'genre: 未知のキーです（無視されます）',
+    ]);
+  });
+});
+
+describe('createNovelConfigJsonSchema', () => {
+  it('schemas/novel.schema.json が最新のスキーマから生成されている', async () => {
+    const schemaPath = path.join(process.cwd(), 'schemas', 'novel.schema.json');
+    const committed = JSON.parse(await fs.readFile(schemaPath, 'utf-8'));
+
+    // 一致しない場合は npm run schema:generate で再生成する
+    expect(committed).toEqual(createNovelConfigJsonSchema());
+  });
+
+  it('必須キーと未知のキーの禁止を含む', () => {
+    const schema = createNovelConfigJsonSchema();
+
+    expect(schema.required).toEqual(['title', 'settingsDirectories', 'contentDirectories']);
+    expect(schema.additionalProperties).toBe(false);
+  });
+});
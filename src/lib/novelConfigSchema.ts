@@ -0,0 +1,164 @@
+import fs from 'fs/promises';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { NovelConfig } from '../domain/novel.js';
+
+const directoryList = z.array(z.string().min(1)).min(1);
+const timestamp = z.string().datetime({ offset: true });
+
+/**
+ * novel.json のスキーマ（NovelConfig と同じ構造）
+ * 説明文は JSON Schema に出力され、エディタの補完に表示される
+ */
+export const novelConfigSchema = z.object({
+  $schema: z.string().optional().describe('エディタ補完用の JSON Schema の参照'),
+  title: z.string().min(1).describe('作品タイトル'),
+  author: z.string().optional().describe('作者名'),
+  description: z.string().optional().describe('作品の説明'),
+  settingsDirectories: directoryList.describe(
+    '設定ファイルが入っているディレクトリ（プロジェクトからの相対パス）',
+  ),
+  contentDirectories: directoryList.describe(
+    '本文ファイルが入っているディレクトリ（プロジェクトからの相対パス）',
+  ),
+  instructionFiles: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('生成 AI に渡す追加指示ファイル（省略時はプロジェクト直下の DIALOGOI.md）'),
+  createdAt: timestamp.optional().describe('作成日時（ISO 8601）'),
+  updatedAt: timestamp.optional().describe('更新日時（ISO 8601）'),
+}) satisfies z.ZodType<NovelConfig>;
+
+const KNOWN_KEYS = Object.keys(novelConfigSchema.shape);
+
+/**
+ * novel.json の検証結果
+ */
+export interface NovelConfigValidationResult {
+  config: NovelConfig | null; // 検証に失敗した場合は null
+  errors: string[]; // フィールドごとのエラー（例: "settingsDirectories: 必須です"）
+  warnings: string[]; // 読み込みには影響しない問題（未知のキーなど）
+}
+
+/**
+ * novel.json の内容を検証
+ * @param data JSON.parse した novel.json の内容
+ */
+export function validateNovelConfig(data: unknown): NovelConfigValidationResult {
+  const warnings = findUnknownKeys(data).map((key) => {
+    const suggestion = suggestKey(key);
+    return `${key}: 未知のキーです（無視されます）${suggestion ? `。${suggestion} の誤りではありませんか` : ''}`;
+  });
+
+  const result = novelConfigSchema.safeParse(data);
+  if (result.success) {
+    return { config: result.data, errors: [], warnings };
+  }
+  return {
+    config: null,
+    errors: result.error.issues.map(
+      (issue) =>
+        `${issue.path.length > 0 ? issue.path.join('.') : '(ルート)'}: ${describeIssue(issue)}`,
+    ),
+    warnings,
+  };
+}
+
+/**
+ * novel.json を読み込んで検証
+ * @returns 検証結果（novel.json が存在しない場合は null）
+ */
+export async function loadNovelConfigFile(
+  configPath: string,
+): Promise<NovelConfigValidationResult | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  try {
+    return validateNovelConfig(JSON.parse(content));
+  } catch (error) {
+    return {
+      config: null,
+      errors: [
+        `JSON として読み込めません（${error instanceof Error ? error.message : String(error)}）`,
+      ],
+      warnings: [],
+    };
+  }
+}
+
+/**
+ * novel.json の JSON Schema を生成（schemas/novel.schema.json の元）
+ */
+export function createNovelConfigJsonSchema(): Record<string, unknown> {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'Dialogoi novel.json',
+    ...zodToJsonSchema(novelConfigSchema, { $refStrategy: 'none', target: 'jsonSchema7' }),
+  };
+}
+
+function findUnknownKeys(data: unknown): string[] {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return [];
+  }
+  return Object.keys(data).filter((key) => !KNOWN_KEYS.includes(key));
+}
+
+/**
+ * 綴りの近い既知のキーを探す（大文字小文字の違いか、キーの長さに応じた編集距離以内）
+ */
+function suggestKey(key: string): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(key.length / 5));
+  let best: { key: string; distance: number } | undefined;
+  for (const known of KNOWN_KEYS) {
+    const distance = known.toLowerCase() === key.toLowerCase() ? 0 : editDistance(known, key);
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { key: known, distance };
+    }
+  }
+  return best?.key;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * zod の検証エラーを日本語の説明に変換
+ */
+function describeIssue(issue: z.ZodIssue): string {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return issue.received === 'undefined'
+        ? '必須です'
+        : `${issue.expected} を指定してください（${issue.received} が指定されています）`;
+    case z.ZodIssueCode.too_small:
+      return issue.type === 'array' ? '1件以上指定してください' : '空にできません';
+    case z.ZodIssueCode.invalid_string:
+      return issue.validation === 'datetime'
+        ? 'ISO 8601 形式の日時を指定してください（例: 2024-03-14T00:00:00Z）'
+        : issue.message;
+    default:
+      return issue.message;
+  }
+}
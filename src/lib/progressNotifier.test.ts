@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createIndexProgressNotifier } from './progressNotifier.js';
+
+vi.mock('../logging/index.js');
+
+describe('createIndexProgressNotifier', () => {
+  it('progressToken 宛てに処理済みファイル数を通知する', () => {
+    const sendNotification = vi.fn(async () => undefined);
+    const notify = createIndexProgressNotifier({
+      _meta: { progressToken: 'token-1' },
+      sendNotification,
+    });
+
+    notify?.({ novelId: 'novel-1', processedFiles: 12, totalFiles: 40 });
+
+    expect(sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: {
+        progressToken: 'token-1',
+        progress: 12,
+        total: 40,
+        message: 'インデックス構築中 12/40 ファイル',
+      },
+    });
+  });
+
+  it('進捗が増えていない通知は送らない', () => {
+    const sendNotification = vi.fn(async () => undefined);
+    const notify = createIndexProgressNotifier({
+      _meta: { progressToken: 1 },
+      sendNotification,
+    });
+
+    notify?.({ novelId: 'novel-1', processedFiles: 0, totalFiles: 2 });
+    notify?.({ novelId: 'novel-1', processedFiles: 0, totalFiles: 2 });
+    notify?.({ novelId: 'novel-1', processedFiles: 1, totalFiles: 2 });
+
+    expect(sendNotification).toHaveBeenCalledTimes(2);
+  });
+
+  it('progressToken がない場合は undefined を返す', () => {
+    expect(createIndexProgressNotifier({ sendNotification: vi.fn() })).toBeUndefined();
+  });
+});
@@ -0,0 +1,54 @@
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { IndexProgress } from '../domain/indexStatus.js';
+import { getLogger } from '../logging/index.js';
+
+/**
+ * ツールハンドラーが受け取るリクエストの付加情報
+ */
+export type ToolRequestExtra = Pick<
+  RequestHandlerExtra<ServerRequest, ServerNotification>,
+  '_meta' | 'sendNotification'
+>;
+
+/**
+ * インデックス構築の進捗を MCP の進捗通知（notifications/progress）として送る関数を作成
+ * クライアントがリクエストに progressToken を指定していない場合は undefined を返す
+ * @param extra ツールハンドラーの第2引数
+ */
+export function createIndexProgressNotifier(
+  extra: ToolRequestExtra,
+): ((progress: IndexProgress) => void) | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  const logger = getLogger();
+  let lastProgress = -1;
+
+  return (progress: IndexProgress) => {
+    // MCP の進捗は単調増加である必要があるため、進んでいない通知は送らない
+    if (progress.processedFiles <= lastProgress) {
+      return;
+    }
+    lastProgress = progress.processedFiles;
+
+    extra
+      .sendNotification({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress: progress.processedFiles,
+          total: progress.totalFiles,
+          message: `インデックス構築中 ${progress.processedFiles}/${progress.totalFiles} ファイル`,
+        },
+      })
+      .catch((error) => {
+        logger.warn('⚠️ 進捗通知の送信に失敗しました', {
+          novelId: progress.novelId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  };
+}
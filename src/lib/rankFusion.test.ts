@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { reciprocalRankFusion, DEFAULT_RRF_K } from './rankFusion.js';
+import { SearchResult } from '../backends/SearchBackend.js';
+
+function createResult(id: string, score: number): SearchResult {
+  return {
+    id,
+    score,
+    snippet: `snippet-${id}`,
+    payload: { file: `${id}.md`, start: 1, end: 1 },
+  };
+}
+
+describe('reciprocalRankFusion', () => {
+  it('両方のランキングに現れる結果が上位になる', () => {
+    const results = reciprocalRankFusion(
+      [
+        { source: 'vector', results: [createResult('a', 0.9), createResult('b', 0.8)] },
+        { source: 'keyword', results: [createResult('c', 5.0), createResult('b', 3.0)] },
+      ],
+      10,
+    );
+
+    expect(results.map((r) => r.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('各ランキングの元スコアがscoresに保持される', () => {
+    const results = reciprocalRankFusion(
+      [
+        { source: 'vector', results: [createResult('a', 0.9)] },
+        { source: 'keyword', results: [createResult('a', 4.2), createResult('b', 1.1)] },
+      ],
+      10,
+    );
+
+    expect(results[0].scores).toEqual({ vector: 0.9, keyword: 4.2 });
+    expect(results[1].scores).toEqual({ keyword: 1.1 });
+  });
+
+  it('融合スコアは全ランキングで1位の場合に1となるよう正規化される', () => {
+    const results = reciprocalRankFusion(
+      [
+        { source: 'vector', results: [createResult('a', 0.9), createResult('b', 0.5)] },
+        { source: 'keyword', results: [createResult('a', 2.0)] },
+      ],
+      10,
+    );
+
+    expect(results[0].score).toBeCloseTo(1);
+    expect(results[1].score).toBeCloseTo(1 / (DEFAULT_RRF_K + 2) / (2 / (DEFAULT_RRF_K + 1)));
+  });
+
+  it('limitで結果数が制限される', () => {
+    const results = reciprocalRankFusion(
+      [{ source: 'keyword', results: [createResult('a', 3), createResult('b', 2)] }],
+      1,
+    );
+
+    expect(results.map((r) => r.id)).toEqual(['a']);
+  });
+
+  it('空のランキングでは空配列を返す', () => {
+    expect(
+      reciprocalRankFusion(
+        [
+          { source: 'vector', results: [] },
+          { source: 'keyword', results: [] },
+        ],
+        10,
+      ),
+    ).toEqual([]);
+  });
+});
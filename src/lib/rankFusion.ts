@@ -0,0 +1,59 @@
+import { SearchResult } from '../backends/SearchBackend.js';
+
+/**
+ * Reciprocal Rank Fusion の定数 k（原論文の推奨値）
+ */
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * 融合対象のランキング
+ */
+export interface RankedList {
+  /** ランキングの種類（スコア内訳のキーとして使用） */
+  source: 'vector' | 'keyword';
+  /** スコア降順に並んだ検索結果 */
+  results: SearchResult[];
+}
+
+/**
+ * Reciprocal Rank Fusion で複数のランキングを統合
+ * 同じチャンクIDの結果は1件にまとめ、各ランキングの元スコアを scores に保持する
+ * 融合スコアは全ランキングで1位の場合を 1 とする 0-1 に正規化する
+ * @param rankedLists 統合するランキングの配列
+ * @param limit 返す結果の最大数
+ * @param rrfK RRF の定数 k
+ * @returns 融合スコア降順の検索結果
+ */
+export function reciprocalRankFusion(
+  rankedLists: RankedList[],
+  limit: number,
+  rrfK: number = DEFAULT_RRF_K,
+): SearchResult[] {
+  const fused = new Map<string, { result: SearchResult; rrfScore: number }>();
+
+  for (const { source, results } of rankedLists) {
+    results.forEach((result, index) => {
+      const contribution = 1 / (rrfK + index + 1);
+      const existing = fused.get(result.id);
+      if (existing) {
+        existing.rrfScore += contribution;
+        existing.result.scores = { ...existing.result.scores, [source]: result.score };
+      } else {
+        fused.set(result.id, {
+          result: { ...result, scores: { ...result.scores, [source]: result.score } },
+          rrfScore: contribution,
+        });
+      }
+    });
+  }
+
+  const maxScore = rankedLists.length / (rrfK + 1);
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.rrfScore - a.rrfScore)
+    .slice(0, limit)
+    .map(({ result, rrfScore }) => ({
+      ...result,
+      score: maxScore > 0 ? rrfScore / maxScore : 0,
+    }));
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractRubyReadings,
+  parseRuby,
+  replaceRuby,
+  replaceRubyWithReading,
+  stripRuby,
+} from './ruby.js';
+
+describe('parseRuby', () => {
+  it('｜で親文字を指定したルビを解析する', () => {
+    expect(parseRuby('彼は｜東京タワー《とうきょうタワー》に登った')).toEqual([
+      { type: 'text', text: '彼は' },
+      { type: 'ruby', base: '東京タワー', reading: 'とうきょうタワー' },
+      { type: 'text', text: 'に登った' },
+    ]);
+    expect(parseRuby('|魔法《まほう》')).toEqual([
+      { type: 'ruby', base: '魔法', reading: 'まほう' },
+    ]);
+  });
+
+  it('｜がない場合は直前の漢字の連続を親文字にする', () => {
+    expect(parseRuby('その日、佐々木《ささき》は')).toEqual([
+      { type: 'text', text: 'その日、' },
+      { type: 'ruby', base: '佐々木', reading: 'ささき' },
+      { type: 'text', text: 'は' },
+    ]);
+  });
+
+  it('｜《・傍点・漢字のない《》はルビにしない', () => {
+    expect(parseRuby('｜《これはルビではない》')).toEqual([
+      { type: 'text', text: '《これはルビではない》' },
+    ]);
+    expect(parseRuby('《《傍点》》')).toEqual([{ type: 'text', text: '《《傍点》》' }]);
+    expect(parseRuby('ひらがな《よみ》')).toEqual([{ type: 'text', text: 'ひらがな《よみ》' }]);
+  });
+});
+
+describe('stripRuby', () => {
+  it('ルビを取り除いて親文字のみにする', () => {
+    expect(stripRuby('｜東京《とうきょう》の魔術師《まじゅつし》')).toBe('東京の魔術師');
+  });
+});
+
+describe('replaceRuby', () => {
+  it('ルビのみを置き換え、それ以外とエスケープはそのまま残す', () => {
+    expect(
+      replaceRuby(
+        '|魔法《まほう》と剣《つるぎ》、｜《注》',
+        (base, reading) => `${base}(${reading})`,
+      ),
+    ).toBe('魔法(まほう)と剣(つるぎ)、｜《注》');
+    expect(replaceRuby('剣《つるぎ》', (_, __, source) => source)).toBe('剣《つるぎ》');
+  });
+});
+
+describe('replaceRubyWithReading', () => {
+  it('ルビのある箇所を読みにする', () => {
+    expect(replaceRubyWithReading('｜東京タワー《とうきょうタワー》と魔術師《まじゅつし》')).toBe(
+      'とうきょうタワーとまじゅつし',
+    );
+    expect(replaceRubyWithReading('《《傍点》》')).toBe('《《傍点》》');
+  });
+});
+
+describe('extractRubyReadings', () => {
+  it('ルビを出現順に取り出し、重複をまとめる', () => {
+    expect(
+      extractRubyReadings('魔術師《まじゅつし》と｜剣《つるぎ》、再び魔術師《まじゅつし》'),
+    ).toEqual([
+      { base: '魔術師', reading: 'まじゅつし' },
+      { base: '剣', reading: 'つるぎ' },
+    ]);
+    expect(extractRubyReadings('ルビなし')).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * ルビ記法（｜漢字《かんじ》・漢字《かんじ》）の解析
+ *
+ * - ｜（または |）から《までを親文字とする
+ * - ｜がない場合は《の直前の漢字の連続を親文字とする
+ * - ｜《 は《をそのまま表示する（ルビにしない）
+ * - 《《傍点》》はルビとして扱わない
+ */
+
+/**
+ * ルビ記法を解析した結果の区間
+ */
+export type RubySegment =
+  | { type: 'text'; text: string }
+  | { type: 'ruby'; base: string; reading: string };
+
+/**
+ * ルビの読みの最大文字数（これより長い《》はルビとして扱わない）
+ */
+const MAX_READING_LENGTH = 20;
+
+const RUBY_PATTERN = new RegExp(
+  [
+    `[|｜]([^|｜《》\\n]+)《([^《》\\n]{1,${MAX_READING_LENGTH}})》`, // ｜親文字《読み》
+    `([\\p{Script=Han}々〆ヶ]+)《([^《》\\n]{1,${MAX_READING_LENGTH}})》`, // 漢字《読み》
+    '[|｜](?=《)', // ｜《（ルビにしない《）
+  ].join('|'),
+  'gu',
+);
+
+/**
+ * テキストをルビとそれ以外の区間に分割
+ */
+export function parseRuby(text: string): RubySegment[] {
+  const segments: RubySegment[] = [];
+  let lastIndex = 0;
+
+  const pushText = (value: string) => {
+    if (!value) {
+      return;
+    }
+    const last = segments[segments.length - 1];
+    if (last?.type === 'text') {
+      last.text += value;
+    } else {
+      segments.push({ type: 'text', text: value });
+    }
+  };
+
+  for (const match of text.matchAll(RUBY_PATTERN)) {
+    pushText(text.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    const base = match[1] ?? match[3];
+    const reading = match[2] ?? match[4];
+    if (base !== undefined && reading !== undefined) {
+      segments.push({ type: 'ruby', base, reading });
+    }
+    // ｜《 の｜は取り除き、《はそのまま残す
+  }
+  pushText(text.slice(lastIndex));
+
+  return segments;
+}
+
+/**
+ * ルビ記法を取り除き、親文字のみのテキストにする
+ */
+export function stripRuby(text: string): string {
+  return parseRuby(text)
+    .map((segment) => (segment.type === 'ruby' ? segment.base : segment.text))
+    .join('');
+}
+
+/**
+ * ルビを置き換える（ルビ以外の部分と｜《 のエスケープはそのまま残す）
+ * @param replacer 親文字・読み・元の記法（｜親文字《読み》など）から置き換え後の文字列を返す
+ */
+export function replaceRuby(
+  text: string,
+  replacer: (base: string, reading: string, source: string) => string,
+): string {
+  return text.replace(RUBY_PATTERN, (match, ...groups: Array<string | undefined>) => {
+    const base = groups[0] ?? groups[2];
+    const reading = groups[1] ?? groups[3];
+    return base !== undefined && reading !== undefined ? replacer(base, reading, match) : match;
+  });
+}
+
+/**
+ * ルビ記法を取り除き、ルビのある箇所を読みにしたテキストにする
+ * （読みでの検索に使う。例: 魔術師《まじゅつし》を使う → まじゅつしを使う）
+ */
+export function replaceRubyWithReading(text: string): string {
+  return parseRuby(text)
+    .map((segment) => (segment.type === 'ruby' ? segment.reading : segment.text))
+    .join('');
+}
+
+/**
+ * 親文字と読みの組
+ */
+export interface RubyReading {
+  base: string;
+  reading: string;
+}
+
+/**
+ * テキスト中のルビを出現順に取り出す（同じ親文字と読みの組は1つにまとめる）
+ */
+export function extractRubyReadings(text: string): RubyReading[] {
+  const readings = new Map<string, RubyReading>();
+  for (const segment of parseRuby(text)) {
+    if (segment.type === 'ruby') {
+      const key = `${segment.base}\u0000${segment.reading}`;
+      if (!readings.has(key)) {
+        readings.set(key, { base: segment.base, reading: segment.reading });
+      }
+    }
+  }
+  return Array.from(readings.values());
+}
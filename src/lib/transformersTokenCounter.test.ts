@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AutoTokenizer } from '@huggingface/transformers';
+import { TransformersTokenCounter } from './transformersTokenCounter.js';
+
+vi.mock('@huggingface/transformers', () => ({
+  AutoTokenizer: {
+    from_pretrained: vi.fn(),
+  },
+}));
+
+describe('TransformersTokenCounter', () => {
+  const encode = vi.fn((text: string) => [0, ...Array.from(text), 2]);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(AutoTokenizer.from_pretrained).mockResolvedValue({
+      encode,
+      model_max_length: 512,
+    } as never);
+  });
+
+  it('初期化前は文字数による近似値を返す', () => {
+    const counter = new TransformersTokenCounter({ model: 'test/model-a' });
+
+    expect(counter.isReady()).toBe(false);
+    expect(counter.count('こんにちは')).toBe(Math.ceil(5 / 2.5));
+  });
+
+  it('モデルのトークナイザーで特殊トークンを含めて数える', async () => {
+    const counter = new TransformersTokenCounter({ model: 'test/model-b' });
+    await counter.initialize();
+
+    expect(counter.isReady()).toBe(true);
+    expect(counter.count('こんにちは')).toBe(7);
+    expect(counter.getMaxSequenceLength()).toBe(512);
+  });
+
+  it('同じテキストの結果をキャッシュし、上限を超えたら古いものから破棄する', async () => {
+    const counter = new TransformersTokenCounter({ model: 'test/model-c', cacheSize: 2 });
+    await counter.initialize();
+
+    counter.count('一');
+    counter.count('二');
+    counter.count('一');
+    expect(encode).toHaveBeenCalledTimes(2);
+
+    // 「二」が最も古いため破棄される
+    counter.count('三');
+    counter.count('一');
+    counter.count('二');
+    expect(encode).toHaveBeenCalledTimes(4);
+  });
+
+  it('同じモデルのトークナイザーは一度だけ読み込む', async () => {
+    await new TransformersTokenCounter({ model: 'test/model-d' }).initialize();
+    await new TransformersTokenCounter({ model: 'test/model-d' }).initialize();
+
+    expect(AutoTokenizer.from_pretrained).toHaveBeenCalledTimes(1);
+  });
+
+  it('読み込みに失敗した場合は近似値で数え、次回の初期化で再試行する', async () => {
+    vi.mocked(AutoTokenizer.from_pretrained).mockRejectedValueOnce(new Error('offline'));
+    const counter = new TransformersTokenCounter({ model: 'test/model-e' });
+
+    await counter.initialize();
+    expect(counter.isReady()).toBe(false);
+    expect(counter.count('あいうえおか')).toBe(3);
+
+    await counter.initialize();
+    expect(counter.isReady()).toBe(true);
+  });
+
+  it('上限のないトークナイザーは既定の最大トークン数を使用する', async () => {
+    vi.mocked(AutoTokenizer.from_pretrained).mockResolvedValueOnce({
+      encode,
+      model_max_length: 1e30,
+    } as never);
+    const counter = new TransformersTokenCounter({ model: 'test/model-f' });
+    await counter.initialize();
+
+    expect(counter.getMaxSequenceLength()).toBe(512);
+  });
+});
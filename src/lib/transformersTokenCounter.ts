@@ -0,0 +1,118 @@
+import { AutoTokenizer, type PreTrainedTokenizer } from '@huggingface/transformers';
+import { TokenCounter, SimpleTokenCounter } from './chunker.js';
+import { getLogger } from '../logging/index.js';
+
+/**
+ * トークナイザーが最大系列長を持たない場合の既定値（BERT 系モデルの上限）
+ */
+const DEFAULT_MAX_SEQUENCE_LENGTH = 512;
+
+/**
+ * トークン数のキャッシュ件数の既定値
+ */
+const DEFAULT_CACHE_SIZE = 10000;
+
+/**
+ * モデル名ごとに読み込んだトークナイザー（同じモデルを複数回読み込まない）
+ */
+const tokenizers: Map<string, Promise<PreTrainedTokenizer>> = new Map();
+
+function loadTokenizer(model: string): Promise<PreTrainedTokenizer> {
+  let tokenizer = tokenizers.get(model);
+  if (!tokenizer) {
+    tokenizer = AutoTokenizer.from_pretrained(model);
+    // 失敗した場合は次回に再試行する
+    tokenizer.catch(() => tokenizers.delete(model));
+    tokenizers.set(model, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * 埋め込みモデルのトークナイザーでトークン数を数えるカウンター
+ * initialize() 前やトークナイザーを読み込めない場合は SimpleTokenCounter の近似値を返す
+ */
+export class TransformersTokenCounter implements TokenCounter {
+  private tokenizer: PreTrainedTokenizer | null = null;
+  private initializationPromise: Promise<void> | null = null;
+  private readonly fallback = new SimpleTokenCounter();
+  private readonly cache: Map<string, number> = new Map();
+  private readonly modelName: string;
+  private readonly cacheSize: number;
+  private readonly logger = getLogger();
+
+  /**
+   * @param config.model 埋め込みモデル名（例: intfloat/multilingual-e5-small）
+   * @param config.cacheSize トークン数をキャッシュするテキストの件数
+   */
+  constructor(config: { model: string; cacheSize?: number }) {
+    this.modelName = config.model;
+    this.cacheSize = config.cacheSize ?? DEFAULT_CACHE_SIZE;
+  }
+
+  /**
+   * トークナイザーを読み込む（失敗時は近似値で数え続ける）
+   */
+  async initialize(): Promise<void> {
+    if (!this.initializationPromise) {
+      this.initializationPromise = this.load();
+    }
+    return this.initializationPromise;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      this.tokenizer = await loadTokenizer(this.modelName);
+      this.cache.clear();
+      this.logger.info(`トークナイザーを読み込みました: ${this.modelName}`, {
+        maxSequenceLength: this.getMaxSequenceLength(),
+      });
+    } catch (error) {
+      // 次回の initialize() で再試行できるようにする
+      this.initializationPromise = null;
+      this.logger.warn(
+        `⚠️ トークナイザーを読み込めないため、文字数による近似でトークン数を数えます: ${this.modelName}`,
+        { error: error instanceof Error ? error.message : String(error) },
+      );
+    }
+  }
+
+  /**
+   * モデルのトークナイザーを使用しているか
+   */
+  isReady(): boolean {
+    return this.tokenizer !== null;
+  }
+
+  count(text: string): number {
+    if (!this.tokenizer) {
+      return this.fallback.count(text);
+    }
+
+    const cached = this.cache.get(text);
+    if (cached !== undefined) {
+      // 最近使用したものとして末尾に移動
+      this.cache.delete(text);
+      this.cache.set(text, cached);
+      return cached;
+    }
+
+    const count = this.tokenizer.encode(text).length;
+    this.cache.set(text, count);
+    if (this.cache.size > this.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return count;
+  }
+
+  /**
+   * モデルが一度に処理できる最大トークン数（特殊トークンを含む）
+   */
+  getMaxSequenceLength(): number {
+    const maxLength = Number(this.tokenizer?.model_max_length);
+    // 上限のないトークナイザーは非常に大きな値を返すため既定値を使用
+    return Number.isFinite(maxLength) && maxLength > 0 && maxLength < 1_000_000
+      ? maxLength
+      : DEFAULT_MAX_SEQUENCE_LENGTH;
+  }
+}
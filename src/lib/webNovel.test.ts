@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { convertEpisode, getWebNovelProfile, WEB_NOVEL_PROFILES } from './webNovel.js';
+import { splitChapters } from './manuscript.js';
+import { ConfigurationError } from '../errors/index.js';
+
+const CONTENT = [
+  '# 第一話 ｜蒼穹《そら》の塔',
+  '',
+  '魔術師《まじゅつし》は塔に登った。それは《《禁忌》》であった。',
+  '「どこへ行く」',
+  '　既に字下げした段落。',
+  '',
+  '',
+  '',
+  '',
+  '## 小見出し',
+  '｜東京スカイツリー展望台《とうきょうスカイツリーてんぼうだい》から見下ろす。',
+  '王都（おうと）の夜。',
+  '',
+  '◇◇◇',
+].join('\n');
+
+function convert(profileId: string) {
+  const [chapter] = splitChapters([{ filename: 'contents/01.md', content: CONTENT }]);
+  return convertEpisode(chapter, getWebNovelProfile(profileId));
+}
+
+describe('getWebNovelProfile', () => {
+  it('登録されている投稿先を返し、未知の投稿先はエラーにする', () => {
+    expect(getWebNovelProfile('narou')).toBe(WEB_NOVEL_PROFILES.narou);
+    expect(() => getWebNovelProfile('unknown')).toThrow(ConfigurationError);
+  });
+});
+
+describe('convertEpisode', () => {
+  it('小説家になろう向けに傍点・長いルビ・括弧のルビを変換する', () => {
+    const episode = convert('narou');
+
+    expect(episode.title).toBe('第一話 蒼穹の塔');
+    expect(episode.sourceFile).toBe('contents/01.md');
+    expect(episode.text).toBe(
+      [
+        '　魔術師《まじゅつし》は塔に登った。それは｜禁《・》｜忌《・》であった。',
+        '「どこへ行く」',
+        '　既に字下げした段落。',
+        '',
+        '',
+        '小見出し',
+        '　東京スカイツリー展望台（とうきょうスカイツリーてんぼうだい）から見下ろす。',
+        '　王都｜（おうと）の夜。',
+        '',
+        '◇◇◇',
+      ].join('\n'),
+    );
+    expect(episode.conversions).toEqual({
+      emphasis: 1,
+      indent: 3,
+      blankLines: 2,
+      heading: 1,
+      rubyFallback: 1,
+      parenthesisEscape: 1,
+    });
+    expect(episode.length).toBe(Array.from(episode.text.replace(/\n/g, '')).length);
+  });
+
+  it('カクヨム向けは傍点・ルビをそのまま残す', () => {
+    const episode = convert('kakuyomu');
+
+    expect(episode.text).toContain('それは《《禁忌》》であった。');
+    expect(episode.text).toContain(
+      '　｜東京スカイツリー展望台《とうきょうスカイツリーてんぼうだい》から見下ろす。',
+    );
+    expect(episode.text).toContain('　王都（おうと）の夜。');
+    expect(episode.conversions).toEqual({ indent: 3, blankLines: 2, heading: 1 });
+  });
+});
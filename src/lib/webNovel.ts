@@ -0,0 +1,188 @@
+import { ManuscriptBlock, ManuscriptChapter } from './manuscript.js';
+import { replaceRuby, stripRuby } from './ruby.js';
+import { WebNovelConversion } from '../domain/export.js';
+import { ConfigurationError } from '../errors/index.js';
+
+/**
+ * Web 小説サイトへの投稿用の変換ルール
+ * サイトを追加する場合は WEB_NOVEL_PROFILES に登録する
+ */
+export interface WebNovelProfile {
+  id: string;
+  name: string; // サイト名
+  maxEpisodeLength: number; // 1話の本文の上限文字数（改行を除く）
+  maxRubyBaseLength?: number; // ルビを振れる親文字の上限（超える場合は「親文字（読み）」にする）
+  maxRubyReadingLength?: number; // ルビの読みの上限（超える場合は「親文字（読み）」にする）
+  emphasis: 'native' | 'rubyDots'; // 《《傍点》》をそのまま使えるか、1文字ずつ｜字《・》にするか
+  escapeParenthesisRuby: boolean; // 漢字（かな）が自動でルビになるため、｜で打ち消すか
+  indentParagraphs: boolean; // 地の文の段落の先頭を全角スペースで字下げするか
+  maxBlankLines: number; // 連続する空行をこの行数までにまとめる
+}
+
+/**
+ * 投稿用に変換した1話
+ */
+export interface WebNovelEpisode {
+  title: string; // 話タイトル（ルビ記法を除く）
+  sourceFile: string;
+  text: string; // 本文（話タイトルを含まない）
+  length: number; // 本文の文字数（改行を除き、ルビ記法を含む）
+  conversions: Partial<Record<WebNovelConversion, number>>;
+}
+
+/**
+ * 投稿先ごとの変換ルール（1話の上限文字数は書き出し時の maxLength で上書きできる）
+ */
+export const WEB_NOVEL_PROFILES: Record<string, WebNovelProfile> = {
+  narou: {
+    id: 'narou',
+    name: '小説家になろう',
+    maxEpisodeLength: 70000,
+    maxRubyBaseLength: 10,
+    maxRubyReadingLength: 10,
+    emphasis: 'rubyDots',
+    escapeParenthesisRuby: true,
+    indentParagraphs: true,
+    maxBlankLines: 2,
+  },
+  kakuyomu: {
+    id: 'kakuyomu',
+    name: 'カクヨム',
+    maxEpisodeLength: 100000,
+    emphasis: 'native',
+    escapeParenthesisRuby: false,
+    indentParagraphs: true,
+    maxBlankLines: 2,
+  },
+};
+
+/**
+ * 投稿先の変換ルールを取得
+ */
+export function getWebNovelProfile(id: string): WebNovelProfile {
+  const profile = WEB_NOVEL_PROFILES[id];
+  if (!profile) {
+    throw new ConfigurationError(
+      `未対応の投稿先です: ${id}（${Object.keys(WEB_NOVEL_PROFILES).join(' / ')}）`,
+      'UNKNOWN_WEB_NOVEL_PROFILE',
+      { id },
+    );
+  }
+  return profile;
+}
+
+const EMPHASIS_PATTERN = /《《([^《》\n]+)》》/g;
+const PARENTHESIS_RUBY_PATTERN =
+  /([\p{Script=Han}々〆ヶ])([（(][\p{Script=Hiragana}\p{Script=Katakana}ー]{1,10}[）)])/gu;
+// 字下げしない段落の先頭（字下げ済み・会話文・括弧・ダッシュや三点リーダー）
+const NO_INDENT_PATTERN = /^[\s　「『（(【〈《〔“"―…‥]/;
+
+/**
+ * 段落のテキストを変換
+ */
+function convertText(
+  text: string,
+  profile: WebNovelProfile,
+  count: (conversion: WebNovelConversion) => void,
+): string {
+  let result = text;
+
+  if (profile.emphasis === 'rubyDots') {
+    result = result.replace(EMPHASIS_PATTERN, (_, target: string) => {
+      count('emphasis');
+      return Array.from(target)
+        .map((char) => `｜${char}《・》`)
+        .join('');
+    });
+  }
+
+  if (profile.maxRubyBaseLength !== undefined || profile.maxRubyReadingLength !== undefined) {
+    result = replaceRuby(result, (base, reading, source) => {
+      const tooLong =
+        Array.from(base).length > (profile.maxRubyBaseLength ?? Infinity) ||
+        Array.from(reading).length > (profile.maxRubyReadingLength ?? Infinity);
+      if (!tooLong) {
+        return source;
+      }
+      count('rubyFallback');
+      return `${base}（${reading}）`;
+    });
+  }
+
+  if (profile.escapeParenthesisRuby) {
+    result = result.replace(PARENTHESIS_RUBY_PATTERN, (_, kanji: string, parenthesis: string) => {
+      count('parenthesisEscape');
+      return `${kanji}｜${parenthesis}`;
+    });
+  }
+
+  return result;
+}
+
+/**
+ * ブロックを投稿用の行にする（空行は null）
+ */
+function convertBlock(
+  block: ManuscriptBlock,
+  profile: WebNovelProfile,
+  count: (conversion: WebNovelConversion) => void,
+): string | null {
+  switch (block.type) {
+    case 'heading':
+      count('heading');
+      return convertText(block.text, profile, count);
+    case 'paragraph': {
+      const text = convertText(block.text, profile, count);
+      if (profile.indentParagraphs && !NO_INDENT_PATTERN.test(text)) {
+        count('indent');
+        return `　${text}`;
+      }
+      return text;
+    }
+    case 'blank':
+      return null;
+    case 'sceneBreak':
+      return block.text;
+  }
+}
+
+/**
+ * 章を投稿用の1話に変換
+ * @param chapter splitChapters で分割した章
+ * @param profile 投稿先の変換ルール
+ */
+export function convertEpisode(
+  chapter: ManuscriptChapter,
+  profile: WebNovelProfile,
+): WebNovelEpisode {
+  const conversions: Partial<Record<WebNovelConversion, number>> = {};
+  const count = (conversion: WebNovelConversion) => {
+    conversions[conversion] = (conversions[conversion] ?? 0) + 1;
+  };
+
+  const lines: string[] = [];
+  let blankLines = 0;
+  for (const block of chapter.blocks) {
+    const line = convertBlock(block, profile, count);
+    if (line === null) {
+      blankLines++;
+      if (blankLines > profile.maxBlankLines) {
+        count('blankLines');
+        continue;
+      }
+      lines.push('');
+      continue;
+    }
+    blankLines = 0;
+    lines.push(line);
+  }
+
+  const text = lines.join('\n');
+  return {
+    title: stripRuby(chapter.title),
+    sourceFile: chapter.sourceFile,
+    text,
+    length: Array.from(text.replace(/\n/g, '')).length,
+    conversions,
+  };
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, readZip } from './zip.js';
+
+describe('createZip', () => {
+  it('格納したファイルを読み出せる', () => {
+    const archive = createZip([
+      { path: 'a.txt', data: 'あいう', store: true },
+      { path: 'dir/b.bin', data: Buffer.from([0, 1, 2, 3]) },
+    ]);
+
+    const entries = readZip(archive);
+    expect([...entries.keys()]).toEqual(['a.txt', 'dir/b.bin']);
+    expect(entries.get('a.txt')!.toString('utf-8')).toBe('あいう');
+    expect([...entries.get('dir/b.bin')!]).toEqual([0, 1, 2, 3]);
+  });
+
+  it('ローカルファイルヘッダに CRC-32 を書き込む', () => {
+    // "123456789" の CRC-32 は 0xCBF43926
+    const archive = createZip([{ path: 'check.txt', data: '123456789', store: true }]);
+    expect(archive.readUInt32LE(14)).toBe(0xcbf43926);
+
+    const empty = createZip([{ path: 'empty.txt', data: '', store: true }]);
+    expect(empty.readUInt32LE(14)).toBe(0);
+  });
+});
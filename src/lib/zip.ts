@@ -0,0 +1,150 @@
+import zlib from 'zlib';
+
+/**
+ * ZIP アーカイブに格納するファイル
+ */
+export interface ZipEntry {
+  path: string; // アーカイブ内のパス（区切りは "/"）
+  data: Buffer | string; // 文字列は UTF-8 で格納する
+  store?: boolean; // 圧縮せずに格納する（EPUB の mimetype など）
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800; // ファイル名が UTF-8
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+// CRC-32（多項式 0xEDB88320）の表。zlib.crc32 は Node.js 20.15 / 22.2 未満にないため自前で計算する
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * データの CRC-32
+ */
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * DOS 形式の日時（ZIP のタイムスタンプ）
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * ZIP アーカイブを作成（エントリの順序は指定した順）
+ * 外部ライブラリを使わずに EPUB・DOCX を生成するための最小限の実装で、ZIP64 には対応しない
+ * @param entries 格納するファイル
+ * @param modifiedAt ファイルの更新日時
+ */
+export function createZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path, 'utf-8');
+    const data = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf-8') : entry.data;
+    const method = entry.store ? METHOD_STORE : METHOD_DEFLATE;
+    const compressed = entry.store ? data : zlib.deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(20, 4); // 展開に必要なバージョン
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // 拡張フィールド長
+    localParts.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    central.writeUInt16LE(20, 4); // 作成したバージョン
+    central.writeUInt16LE(20, 6); // 展開に必要なバージョン
+    central.writeUInt16LE(UTF8_FLAG, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    // 拡張フィールド長・コメント長・ディスク番号・内部属性・外部属性は 0
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * ZIP アーカイブからファイルを読み出す（ZIP64・暗号化には対応しない）
+ * @returns アーカイブ内のパス → 内容
+ */
+export function readZip(archive: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  const endOffset = archive.lastIndexOf(
+    Buffer.from([0x50, 0x4b, 0x05, 0x06]), // END_OF_CENTRAL_DIRECTORY
+  );
+  if (endOffset < 0) {
+    throw new Error('ZIP アーカイブではありません');
+  }
+
+  const count = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+  for (let i = 0; i < count; i++) {
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    const localNameLength = archive.readUInt16LE(localOffset + 26);
+    const localExtraLength = archive.readUInt16LE(localOffset + 28);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, method === METHOD_DEFLATE ? zlib.inflateRawSync(data) : Buffer.from(data));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+import { EmbeddingCache } from './EmbeddingCache.js';
+
+const MODEL = 'intfloat/multilingual-e5-small';
+
+describe('EmbeddingCache', () => {
+  let directory: string;
+
+  const createCache = (maxEntries = 0, model = MODEL) =>
+    new EmbeddingCache({ directory, model, maxEntries });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dialogoi-embedding-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('保存した埋め込みを別のインスタンスから取得できる', async () => {
+    await createCache().setMany([
+      { text: '章1\n本文', vector: [0.5, -0.25, 1] },
+      { text: '章2\n本文', vector: [0, 0.125, 2] },
+    ]);
+
+    const cache = createCache();
+    const results = await cache.getMany(['章2\n本文', '未登録', '章1\n本文']);
+
+    expect(results).toEqual([[0, 0.125, 2], undefined, [0.5, -0.25, 1]]);
+    expect(cache.getStats()).toMatchObject({ entries: 2, hits: 2, misses: 1 });
+    expect(cache.getStats().hitRate).toBeCloseTo(2 / 3);
+  });
+
+  it('上限を超えた場合は最終利用が古いものから削除する', async () => {
+    const cache = createCache(2);
+    await cache.setMany([{ text: 'a', vector: [1] }]);
+    await cache.setMany([{ text: 'b', vector: [2] }]);
+    await cache.getMany(['a']);
+    await cache.setMany([{ text: 'c', vector: [3] }]);
+
+    const reloaded = createCache(2);
+    expect(await reloaded.getMany(['a', 'b', 'c'])).toEqual([[1], undefined, [3]]);
+  });
+
+  it('参照だけではディスクに書き込まず、flush で最終利用日時を保存する', async () => {
+    await createCache().setMany([{ text: 'a', vector: [1] }]);
+    const modelDir = path.join(directory, MODEL.replace(/[^a-zA-Z0-9_.-]/g, '_'));
+    const [shardFile] = await fs.readdir(modelDir);
+    const shardPath = path.join(modelDir, shardFile);
+    const readLastUsed = async () =>
+      Object.values(
+        JSON.parse(await fs.readFile(shardPath, 'utf-8')).entries as Record<
+          string,
+          { lastUsed: number }
+        >,
+      )[0].lastUsed;
+    const saved = await readLastUsed();
+
+    const cache = createCache();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await cache.getMany(['a']);
+    expect(await readLastUsed()).toBe(saved);
+
+    await cache.flush();
+    expect(await readLastUsed()).toBeGreaterThan(saved);
+  });
+
+  it('モデルごとにキャッシュを分ける', async () => {
+    await createCache().setMany([{ text: 'a', vector: [1] }]);
+
+    expect(await createCache(0, 'other-model').getMany(['a'])).toEqual([undefined]);
+  });
+
+  it('pruneで古い埋め込みと他モデルのキャッシュを削除する', async () => {
+    await createCache(0, 'other-model').setMany([{ text: 'a', vector: [1] }]);
+    const cache = createCache();
+    await cache.setMany([{ text: 'b', vector: [2] }]);
+
+    // 最終利用日時を40日前に書き換える
+    const [shardDir] = (await fs.readdir(directory)).filter((name) => name !== 'other-model');
+    const [shardFile] = await fs.readdir(path.join(directory, shardDir));
+    const shardPath = path.join(directory, shardDir, shardFile);
+    const shard = JSON.parse(await fs.readFile(shardPath, 'utf-8'));
+    for (const entry of Object.values(shard.entries) as Array<{ lastUsed: number }>) {
+      entry.lastUsed = Date.now() - 40 * 24 * 60 * 60 * 1000;
+    }
+    await fs.writeFile(shardPath, JSON.stringify(shard), 'utf-8');
+
+    const result = await createCache().prune({ maxAgeDays: 30, removeOtherModels: true });
+
+    expect(result).toEqual({
+      removedEntries: 1,
+      removedModels: ['other-model'],
+      remainingEntries: 0,
+    });
+    expect(await fs.readdir(path.join(directory, shardDir))).toEqual([]);
+  });
+
+  it('壊れたシャードは読み飛ばす', async () => {
+    const modelDir = path.join(directory, MODEL.replace(/[^a-zA-Z0-9_.-]/g, '_'));
+    await fs.mkdir(modelDir, { recursive: true });
+    await fs.writeFile(path.join(modelDir, '00.json'), '{ broken', 'utf-8');
+
+    expect(await createCache().getMany(['a'])).toEqual([undefined]);
+  });
+});
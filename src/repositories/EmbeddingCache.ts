@@ -0,0 +1,344 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { ensureDirectory } from '../utils/fileUtils.js';
+import { encodeVector, decodeVector } from '../utils/vectorEncoding.js';
+import { getLogger } from '../logging/index.js';
+
+const SHARD_FILE_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 埋め込みキャッシュの設定
+ */
+export interface EmbeddingCacheConfig {
+  directory: string; // キャッシュの保存先（絶対パス）
+  model: string; // 埋め込みモデル名（モデルごとに保存先を分ける）
+  maxEntries: number; // 保持する埋め込みの上限（0 で無制限、超過分は最終利用が古い順に削除）
+}
+
+/**
+ * 埋め込みキャッシュの利用状況
+ */
+export interface EmbeddingCacheStats {
+  model: string;
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  hitRate: number; // 0-1（参照がない場合は 0）
+}
+
+/**
+ * prune の条件
+ */
+export interface EmbeddingCachePruneOptions {
+  maxAgeDays?: number; // 最終利用からの日数がこれを超える埋め込みを削除（0 または省略で無制限）
+  removeOtherModels?: boolean; // 現在のモデル以外のキャッシュを削除するか
+}
+
+/**
+ * prune の結果
+ */
+export interface EmbeddingCachePruneResult {
+  removedEntries: number;
+  removedModels: string[];
+  remainingEntries: number;
+}
+
+interface CacheEntry {
+  vector: Float32Array;
+  lastUsed: number; // epoch ミリ秒
+}
+
+/**
+ * シャードファイルのシリアライズ形式
+ */
+interface ShardFile {
+  version: number;
+  entries: Record<string, { vector: string; lastUsed: number }>; // vector は Float32Array の base64
+}
+
+/**
+ * ディスクに永続化する埋め込みキャッシュ
+ * 埋め込み対象のテキストの SHA-256 をキーとし、キーの先頭2文字ごとのシャードファイルに保存する
+ * （Chunk.hash は8文字のため、多数のチャンクでは衝突しうるのでキーには使わない）
+ * 参照による最終利用日時の更新はディスクに書き出さず、次の setMany・prune・flush でまとめて保存する
+ */
+export class EmbeddingCache {
+  private entries: Map<string, CacheEntry> = new Map(); // 最終利用が古い順
+  private shardKeys: Map<string, Set<string>> = new Map(); // シャードごとのキー
+  private loadPromise: Promise<void> | null = null;
+  private dirtyShards: Set<string> = new Set(); // 埋め込みの追加・削除があったシャード
+  private touchedShards: Set<string> = new Set(); // 最終利用日時のみ更新されたシャード
+  private writeQueue: Promise<void> = Promise.resolve();
+  private hits = 0;
+  private misses = 0;
+  private readonly logger = getLogger();
+
+  constructor(private readonly config: EmbeddingCacheConfig) {}
+
+  /**
+   * テキストに対応するキャッシュ済みの埋め込みを取得
+   * @param texts 埋め込み対象のテキスト
+   * @returns テキストの位置ごとの埋め込み（キャッシュにない場合は undefined）
+   */
+  async getMany(texts: string[]): Promise<Array<number[] | undefined>> {
+    await this.load();
+    const now = Date.now();
+
+    const results = texts.map((text) => {
+      const key = this.toKey(text);
+      const entry = this.entries.get(key);
+      if (!entry) {
+        this.misses++;
+        return undefined;
+      }
+      this.hits++;
+      this.touch(key, entry, now);
+      return Array.from(entry.vector);
+    });
+
+    return results;
+  }
+
+  /**
+   * 埋め込みをキャッシュに追加し、上限を超えた分を削除して保存
+   */
+  async setMany(items: Array<{ text: string; vector: number[] }>): Promise<void> {
+    if (items.length === 0) {
+      return;
+    }
+    await this.load();
+    const now = Date.now();
+
+    for (const { text, vector } of items) {
+      const key = this.toKey(text);
+      this.entries.delete(key);
+      this.addEntry(key, { vector: Float32Array.from(vector), lastUsed: now });
+    }
+
+    this.evict(this.config.maxEntries);
+    await this.flush();
+  }
+
+  /**
+   * 古い埋め込みや他モデルのキャッシュを削除
+   */
+  async prune(options: EmbeddingCachePruneOptions = {}): Promise<EmbeddingCachePruneResult> {
+    await this.load();
+    const before = this.entries.size;
+
+    if (options.maxAgeDays && options.maxAgeDays > 0) {
+      const threshold = Date.now() - options.maxAgeDays * DAY_MS;
+      for (const [key, entry] of this.entries) {
+        if (entry.lastUsed < threshold) {
+          this.removeEntry(key);
+        }
+      }
+    }
+    this.evict(this.config.maxEntries);
+    await this.flush();
+
+    const removedModels: string[] = [];
+    if (options.removeOtherModels) {
+      const current = path.basename(this.getModelDirectory());
+      const dirents = await fs
+        .readdir(this.config.directory, { withFileTypes: true })
+        .catch(() => []);
+      for (const dirent of dirents) {
+        if (dirent.isDirectory() && dirent.name !== current) {
+          await fs.rm(path.join(this.config.directory, dirent.name), {
+            recursive: true,
+            force: true,
+          });
+          removedModels.push(dirent.name);
+        }
+      }
+    }
+
+    return {
+      removedEntries: before - this.entries.size,
+      removedModels,
+      remainingEntries: this.entries.size,
+    };
+  }
+
+  /**
+   * キャッシュの利用状況を取得
+   */
+  getStats(): EmbeddingCacheStats {
+    const total = this.hits + this.misses;
+    return {
+      model: this.config.model,
+      entries: this.entries.size,
+      maxEntries: this.config.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total === 0 ? 0 : this.hits / total,
+    };
+  }
+
+  /**
+   * 書き込み待ちの変更を書き出す（最終利用日時の更新も含む。失敗しても例外にしない）
+   */
+  async flush(): Promise<void> {
+    const shards = new Set([...this.dirtyShards, ...this.touchedShards]);
+    this.dirtyShards.clear();
+    this.touchedShards.clear();
+    if (shards.size === 0) {
+      return;
+    }
+
+    const snapshot = new Map<string, ShardFile>();
+    for (const shard of shards) {
+      const data: ShardFile = { version: SHARD_FILE_VERSION, entries: {} };
+      for (const key of this.shardKeys.get(shard) ?? []) {
+        const entry = this.entries.get(key)!;
+        data.entries[key] = { vector: encodeVector(entry.vector), lastUsed: entry.lastUsed };
+      }
+      snapshot.set(shard, data);
+    }
+
+    const task = async () => {
+      const directory = this.getModelDirectory();
+      await ensureDirectory(directory);
+      for (const [shard, data] of snapshot) {
+        const shardPath = path.join(directory, `${shard}.json`);
+        if (Object.keys(data.entries).length === 0) {
+          await fs.rm(shardPath, { force: true });
+          continue;
+        }
+        const tmpPath = `${shardPath}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(data), 'utf-8');
+        await fs.rename(tmpPath, shardPath);
+      }
+    };
+
+    const next = this.writeQueue.then(task);
+    this.writeQueue = next.catch(() => undefined);
+    try {
+      await next;
+    } catch (error) {
+      this.logger.warn('⚠️ 埋め込みキャッシュの保存に失敗しました', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * 最終利用日時を更新（LRU の順序も更新）
+   */
+  private touch(key: string, entry: CacheEntry, now: number): void {
+    entry.lastUsed = now;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.touchedShards.add(this.getShardName(key));
+  }
+
+  /**
+   * 埋め込みを追加（最終利用が最も新しいものとして扱う）
+   */
+  private addEntry(key: string, entry: CacheEntry): void {
+    this.entries.set(key, entry);
+    this.dirtyShards.add(this.addShardKey(key));
+  }
+
+  /**
+   * キーをシャードの一覧に追加
+   * @returns シャード名
+   */
+  private addShardKey(key: string): string {
+    const shard = this.getShardName(key);
+    const keys = this.shardKeys.get(shard) ?? new Set<string>();
+    keys.add(key);
+    this.shardKeys.set(shard, keys);
+    return shard;
+  }
+
+  /**
+   * 埋め込みを削除
+   */
+  private removeEntry(key: string): void {
+    const shard = this.getShardName(key);
+    this.entries.delete(key);
+    this.shardKeys.get(shard)?.delete(key);
+    this.dirtyShards.add(shard);
+  }
+
+  /**
+   * 上限を超えた分を最終利用が古い順に削除
+   */
+  private evict(maxEntries: number): void {
+    if (maxEntries <= 0) {
+      return;
+    }
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) {
+        break;
+      }
+      this.removeEntry(key);
+    }
+  }
+
+  /**
+   * シャードファイルをすべて読み込む（初回のみ）
+   */
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readShards();
+    }
+    return this.loadPromise;
+  }
+
+  private async readShards(): Promise<void> {
+    const directory = this.getModelDirectory();
+    const files = await fs.readdir(directory).catch(() => [] as string[]);
+    const loaded: Array<[string, CacheEntry]> = [];
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) {
+        continue;
+      }
+      try {
+        const data = JSON.parse(
+          await fs.readFile(path.join(directory, file), 'utf-8'),
+        ) as ShardFile;
+        if (data.version !== SHARD_FILE_VERSION) {
+          throw new Error(`未対応のキャッシュ形式です: version=${data.version}`);
+        }
+        for (const [key, entry] of Object.entries(data.entries)) {
+          loaded.push([key, { vector: decodeVector(entry.vector), lastUsed: entry.lastUsed }]);
+        }
+      } catch (error) {
+        // 壊れたシャードは再生成できるため読み飛ばす
+        this.logger.warn(`⚠️ 埋め込みキャッシュを読み込めません: ${file}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    loaded.sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+    this.entries = new Map(loaded);
+    this.shardKeys = new Map();
+    for (const [key] of loaded) {
+      this.addShardKey(key);
+    }
+    this.logger.debug('埋め込みキャッシュを読み込みました', {
+      model: this.config.model,
+      entries: this.entries.size,
+    });
+  }
+
+  private toKey(text: string): string {
+    return crypto.createHash('sha256').update(text, 'utf8').digest('hex');
+  }
+
+  private getShardName(key: string): string {
+    return key.substring(0, 2);
+  }
+
+  private getModelDirectory(): string {
+    return path.join(this.config.directory, this.config.model.replace(/[^a-zA-Z0-9_.-]/g, '_'));
+  }
+}
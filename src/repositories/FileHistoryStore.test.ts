@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+import { FileHistoryStore, HISTORY_DIRECTORY } from './FileHistoryStore.js';
+import { FileHistoryError } from '../errors/index.js';
+
+const RELATIVE_PATH = path.join('contents', 'chapter_1.txt');
+
+describe('FileHistoryStore', () => {
+  let projectPath: string;
+  let store: FileHistoryStore;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'dialogoi-history-'));
+    store = new FileHistoryStore({ enabled: true, maxVersionsPerFile: 3, maxAgeDays: 0 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('バージョンを保存して内容を取得できる', async () => {
+    const v1 = await store.record(projectPath, RELATIVE_PATH, '初版', 'create');
+    const v2 = await store.record(projectPath, RELATIVE_PATH, '第二版', 'edit');
+
+    expect(v1?.version).toBe(1);
+    expect(v2?.version).toBe(2);
+    expect(await store.getContent(projectPath, RELATIVE_PATH, 1)).toBe('初版');
+    expect(await store.getContent(projectPath, RELATIVE_PATH, 2)).toBe('第二版');
+  });
+
+  it('直前と同じ内容は新しいバージョンにならない', async () => {
+    await store.record(projectPath, RELATIVE_PATH, '同じ内容', 'create');
+    await store.record(projectPath, RELATIVE_PATH, '同じ内容', 'overwrite');
+
+    expect(await store.list(projectPath, RELATIVE_PATH)).toHaveLength(1);
+  });
+
+  it('同じ内容のオブジェクトはファイル間で共有される', async () => {
+    await store.record(projectPath, RELATIVE_PATH, '共有', 'create');
+    await store.record(projectPath, path.join('settings', 'copy.md'), '共有', 'create');
+
+    const objectsDir = path.join(projectPath, HISTORY_DIRECTORY, 'objects');
+    const buckets = await fs.readdir(objectsDir);
+    const objects = await fs.readdir(path.join(objectsDir, buckets[0]));
+    expect(buckets).toHaveLength(1);
+    expect(objects).toHaveLength(1);
+  });
+
+  it('保持件数を超えた古いバージョンとオブジェクトを削除する', async () => {
+    for (let i = 1; i <= 5; i++) {
+      await store.record(projectPath, RELATIVE_PATH, `版${i}`, 'edit');
+    }
+
+    const versions = await store.list(projectPath, RELATIVE_PATH);
+    expect(versions.map((v) => v.version)).toEqual([3, 4, 5]);
+    await expect(store.getContent(projectPath, RELATIVE_PATH, 1)).rejects.toThrow(FileHistoryError);
+
+    const objectsDir = path.join(projectPath, HISTORY_DIRECTORY, 'objects');
+    let objectCount = 0;
+    for (const bucket of await fs.readdir(objectsDir)) {
+      objectCount += (await fs.readdir(path.join(objectsDir, bucket))).length;
+    }
+    expect(objectCount).toBe(3);
+  });
+
+  it('他のファイルが参照しているオブジェクトは古いバージョンを削除しても残す', async () => {
+    const otherPath = path.join('settings', 'copy.md');
+    await store.record(projectPath, otherPath, '共有', 'create');
+    for (const content of ['共有', '版2', '版3', '版4']) {
+      await store.record(projectPath, RELATIVE_PATH, content, 'edit');
+    }
+
+    expect((await store.list(projectPath, RELATIVE_PATH)).map((v) => v.version)).toEqual([2, 3, 4]);
+    expect(await store.getContent(projectPath, otherPath, 1)).toBe('共有');
+  });
+
+  it('リネームで置き換えた移動先の履歴のオブジェクトを削除する', async () => {
+    const newPath = path.join('contents', 'renamed.txt');
+    await store.record(projectPath, RELATIVE_PATH, '移動元', 'create');
+    await store.record(projectPath, newPath, '移動先', 'create');
+
+    await store.renamePath(projectPath, RELATIVE_PATH, newPath);
+
+    expect(await store.getContent(projectPath, newPath, 1)).toBe('移動元');
+    const objectsDir = path.join(projectPath, HISTORY_DIRECTORY, 'objects');
+    let objectCount = 0;
+    for (const bucket of await fs.readdir(objectsDir)) {
+      objectCount += (await fs.readdir(path.join(objectsDir, bucket))).length;
+    }
+    expect(objectCount).toBe(1);
+  });
+
+  it('保持期間を過ぎたバージョンを削除し、最新は残す', async () => {
+    const agingStore = new FileHistoryStore({
+      enabled: true,
+      maxVersionsPerFile: 0,
+      maxAgeDays: 1,
+    });
+    await agingStore.record(projectPath, RELATIVE_PATH, '古い版', 'create');
+
+    // マニフェストの日時を書き換えて古いバージョンを作る
+    const manifestPath = path.join(projectPath, HISTORY_DIRECTORY, 'manifest.json');
+    const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+    manifest.files['contents/chapter_1.txt'].versions[0].timestamp = '2000-01-01T00:00:00.000Z';
+    await fs.writeFile(manifestPath, JSON.stringify(manifest), 'utf-8');
+
+    await agingStore.record(projectPath, RELATIVE_PATH, '新しい版', 'edit');
+
+    const versions = await agingStore.list(projectPath, RELATIVE_PATH);
+    expect(versions.map((v) => v.version)).toEqual([2]);
+  });
+
+  it('リネーム後は新しいパスで履歴を参照できる', async () => {
+    await store.record(projectPath, RELATIVE_PATH, '内容', 'create');
+    const newPath = path.join('contents', 'renamed.txt');
+
+    await store.renamePath(projectPath, RELATIVE_PATH, newPath);
+
+    expect(await store.list(projectPath, RELATIVE_PATH)).toEqual([]);
+    expect(await store.getContent(projectPath, newPath, 1)).toBe('内容');
+  });
+
+  it('無効な場合は何も保存しない', async () => {
+    const disabled = new FileHistoryStore({ enabled: false, maxVersionsPerFile: 3, maxAgeDays: 0 });
+
+    expect(await disabled.record(projectPath, RELATIVE_PATH, '内容', 'create')).toBeNull();
+    await expect(fs.access(path.join(projectPath, HISTORY_DIRECTORY))).rejects.toThrow();
+  });
+});
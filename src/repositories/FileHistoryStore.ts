@@ -0,0 +1,297 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { DialogoiConfig } from '../lib/config.js';
+import { FileHistoryReason, FileVersion } from '../domain/fileHistory.js';
+import { FileHistoryError } from '../errors/index.js';
+import { ensureDirectory, fileExists } from '../utils/fileUtils.js';
+import { getLogger } from '../logging/index.js';
+
+const logger = getLogger();
+
+/**
+ * 履歴の保存先（プロジェクトルートからの相対パス）
+ */
+export const HISTORY_DIRECTORY = path.join('.dialogoi', 'history');
+
+const MANIFEST_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type FileHistoryConfig = DialogoiConfig['history'];
+
+/**
+ * 履歴マニフェストのファイルごとのエントリ
+ */
+interface FileHistoryEntry {
+  nextVersion: number;
+  versions: FileVersion[];
+}
+
+/**
+ * 履歴マニフェスト（.dialogoi/history/manifest.json）
+ */
+interface HistoryManifest {
+  version: number;
+  files: Record<string, FileHistoryEntry>;
+}
+
+/**
+ * プロジェクト単位のファイル履歴ストア
+ * 内容は SHA-256 をキーとして objects/ 以下に重複なく保存し、
+ * バージョン一覧はマニフェストで管理する
+ */
+export class FileHistoryStore {
+  private readonly config: FileHistoryConfig;
+  private queues: Map<string, Promise<void>> = new Map();
+
+  constructor(config: FileHistoryConfig) {
+    this.config = config;
+  }
+
+  /**
+   * スナップショットが有効かどうか
+   */
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * ファイル内容のスナップショットを保存
+   * 直前のバージョンと内容が同じ場合は新しいバージョンを作成しない
+   * @param projectPath プロジェクトの絶対パス
+   * @param relativePath プロジェクトルートからの相対パス
+   * @param content 保存する内容
+   * @param reason 保存の契機
+   * @returns 最新バージョン（履歴が無効な場合は null）
+   */
+  async record(
+    projectPath: string,
+    relativePath: string,
+    content: string,
+    reason: FileHistoryReason,
+  ): Promise<FileVersion | null> {
+    if (!this.config.enabled) {
+      return null;
+    }
+
+    return this.enqueue(projectPath, async () => {
+      const manifest = await this.readManifest(projectPath);
+      const key = this.toKey(relativePath);
+      const entry = manifest.files[key] ?? { nextVersion: 1, versions: [] };
+      const hash = crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+
+      const latest = entry.versions[entry.versions.length - 1];
+      if (latest && latest.hash === hash) {
+        return latest;
+      }
+
+      await this.writeObject(projectPath, hash, content);
+
+      const version: FileVersion = {
+        version: entry.nextVersion,
+        timestamp: new Date().toISOString(),
+        hash,
+        size: Buffer.byteLength(content, 'utf8'),
+        reason,
+      };
+      entry.versions.push(version);
+      entry.nextVersion++;
+      const retained = this.applyRetention(entry.versions);
+      const dropped = entry.versions.filter((v) => !retained.includes(v));
+      entry.versions = retained;
+      manifest.files[key] = entry;
+
+      await this.writeManifest(projectPath, manifest);
+      await this.collectGarbage(
+        projectPath,
+        manifest,
+        dropped.map((v) => v.hash),
+      );
+
+      logger.debug('ファイル履歴を保存しました', {
+        relativePath,
+        version: version.version,
+        reason,
+      });
+      return version;
+    });
+  }
+
+  /**
+   * ファイルのバージョン一覧を取得（古い順）
+   */
+  async list(projectPath: string, relativePath: string): Promise<FileVersion[]> {
+    const manifest = await this.readManifest(projectPath);
+    return manifest.files[this.toKey(relativePath)]?.versions ?? [];
+  }
+
+  /**
+   * 指定バージョンの内容を取得
+   * @throws FileHistoryError バージョンが存在しない場合
+   */
+  async getContent(projectPath: string, relativePath: string, version: number): Promise<string> {
+    const versions = await this.list(projectPath, relativePath);
+    const target = versions.find((v) => v.version === version);
+    if (!target) {
+      throw new FileHistoryError(relativePath, `バージョン ${version} が見つかりません`, {
+        version,
+        availableVersions: versions.map((v) => v.version),
+      });
+    }
+
+    try {
+      return await fs.readFile(this.getObjectPath(projectPath, target.hash), 'utf-8');
+    } catch (error) {
+      throw new FileHistoryError(relativePath, `バージョン ${version} の内容を読み込めません`, {
+        version,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * リネーム・移動に合わせて履歴の対象パスを変更
+   * 移動先に既存の履歴がある場合は移動元の履歴で置き換える
+   */
+  async renamePath(
+    projectPath: string,
+    oldRelativePath: string,
+    newRelativePath: string,
+  ): Promise<void> {
+    await this.enqueue(projectPath, async () => {
+      const manifest = await this.readManifest(projectPath);
+      const oldKey = this.toKey(oldRelativePath);
+      const entry = manifest.files[oldKey];
+      if (!entry) {
+        return;
+      }
+
+      const newKey = this.toKey(newRelativePath);
+      const replaced = manifest.files[newKey]?.versions ?? [];
+      delete manifest.files[oldKey];
+      manifest.files[newKey] = entry;
+      await this.writeManifest(projectPath, manifest);
+      await this.collectGarbage(
+        projectPath,
+        manifest,
+        replaced.map((v) => v.hash),
+      );
+    });
+  }
+
+  /**
+   * 保持件数・保持期間に基づいて古いバージョンを除外（最新バージョンは常に保持）
+   */
+  private applyRetention(versions: FileVersion[]): FileVersion[] {
+    const { maxVersionsPerFile, maxAgeDays } = this.config;
+    const latest = versions[versions.length - 1];
+    let retained = versions;
+
+    if (maxAgeDays > 0) {
+      const threshold = Date.now() - maxAgeDays * DAY_MS;
+      retained = retained.filter(
+        (v) => v === latest || new Date(v.timestamp).getTime() >= threshold,
+      );
+    }
+
+    if (maxVersionsPerFile > 0 && retained.length > maxVersionsPerFile) {
+      retained = retained.slice(retained.length - maxVersionsPerFile);
+    }
+
+    return retained;
+  }
+
+  /**
+   * 履歴から外れたオブジェクトのうち、どのバージョンからも参照されていないものを削除
+   * @param hashes 履歴から外れたバージョンのハッシュ
+   */
+  private async collectGarbage(
+    projectPath: string,
+    manifest: HistoryManifest,
+    hashes: string[],
+  ): Promise<void> {
+    if (hashes.length === 0) {
+      return;
+    }
+
+    const referenced = new Set(
+      Object.values(manifest.files).flatMap((entry) => entry.versions.map((v) => v.hash)),
+    );
+    for (const hash of new Set(hashes)) {
+      if (!referenced.has(hash)) {
+        await fs.rm(this.getObjectPath(projectPath, hash), { force: true });
+      }
+    }
+  }
+
+  private async readManifest(projectPath: string): Promise<HistoryManifest> {
+    const manifestPath = this.getManifestPath(projectPath);
+    if (!(await fileExists(manifestPath))) {
+      return { version: MANIFEST_VERSION, files: {} };
+    }
+
+    try {
+      const data = JSON.parse(await fs.readFile(manifestPath, 'utf-8')) as HistoryManifest;
+      if (data.version !== MANIFEST_VERSION || typeof data.files !== 'object') {
+        throw new Error(`未対応のマニフェスト形式です: version=${data.version}`);
+      }
+      return data;
+    } catch (error) {
+      throw new FileHistoryError(manifestPath, 'マニフェストを読み込めません', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async writeManifest(projectPath: string, manifest: HistoryManifest): Promise<void> {
+    const manifestPath = this.getManifestPath(projectPath);
+    await ensureDirectory(path.dirname(manifestPath));
+    const tmpPath = `${manifestPath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(manifest, null, 2), 'utf-8');
+    await fs.rename(tmpPath, manifestPath);
+  }
+
+  private async writeObject(projectPath: string, hash: string, content: string): Promise<void> {
+    const objectPath = this.getObjectPath(projectPath, hash);
+    if (await fileExists(objectPath)) {
+      return;
+    }
+    await ensureDirectory(path.dirname(objectPath));
+    await fs.writeFile(objectPath, content, 'utf-8');
+  }
+
+  private getManifestPath(projectPath: string): string {
+    return path.join(projectPath, HISTORY_DIRECTORY, 'manifest.json');
+  }
+
+  private getObjectPath(projectPath: string, hash: string): string {
+    return path.join(projectPath, HISTORY_DIRECTORY, 'objects', hash.substring(0, 2), hash);
+  }
+
+  /**
+   * マニフェストのキー（OS に依存しない / 区切り）
+   */
+  private toKey(relativePath: string): string {
+    return relativePath.split(path.sep).join('/');
+  }
+
+  /**
+   * プロジェクト単位で書き込みを直列化
+   * 前の書き込みが失敗しても後続の書き込みは実行される
+   */
+  private enqueue<T>(projectPath: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(projectPath) ?? Promise.resolve();
+    const next = previous.then(task);
+    const tail = next.then(
+      () => undefined,
+      () => undefined,
+    );
+    this.queues.set(projectPath, tail);
+    void tail.then(() => {
+      if (this.queues.get(projectPath) === tail) {
+        this.queues.delete(projectPath);
+      }
+    });
+    return next;
+  }
+}
@@ -1,8 +1,16 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import path from 'path';
 import fs from 'fs/promises';
+import os from 'os';
 import { FileSystemNovelRepository } from './FileSystemNovelRepository.js';
-import { ProjectNotFoundError } from '../errors/index.js';
+import {
+  ProjectNotFoundError,
+  ProjectAlreadyExistsError,
+  ProjectTemplateNotFoundError,
+  InvalidProjectConfigError,
+  FileEditError,
+  FileHistoryError,
+} from '../errors/index.js';
 
 // 実際のnovelsディレクトリを使用してテストする
 const novelsDir = path.join(process.cwd(), 'novels');
@@ -59,6 +67,282 @@ describe('FileSystemNovelRepository', () => {
     });
   });
 
+  describe('novel.json の検証', () => {
+    let baseDir: string;
+    let tempRepository: FileSystemNovelRepository;
+
+    const writeConfig = async (id: string, content: string) => {
+      await fs.mkdir(path.join(baseDir, id), { recursive: true });
+      await fs.writeFile(path.join(baseDir, id, 'novel.json'), content);
+    };
+
+    beforeEach(async () => {
+      baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dialogoi-novel-config-'));
+      tempRepository = new FileSystemNovelRepository(baseDir);
+      await writeConfig(
+        'valid',
+        JSON.stringify({
+          title: '正しい小説',
+          settingsDirectories: ['settings'],
+          contentDirectories: ['contents'],
+          tilte: '綴り間違い',
+        }),
+      );
+      await writeConfig('broken', JSON.stringify({ title: '', settingsDirectories: 'settings' }));
+      await writeConfig('not-json', '{ "title": ');
+      await fs.mkdir(path.join(baseDir, 'not-a-project'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(baseDir, { recursive: true, force: true });
+    });
+
+    it('不正なプロジェクトは一覧から除外し、問題として報告する', async () => {
+      expect((await tempRepository.listProjects()).map((p) => p.id)).toEqual(['valid']);
+
+      const issues = await tempRepository.listProjectConfigIssues();
+      const byId = new Map(issues.map((issue) => [issue.id, issue]));
+      expect([...byId.keys()].sort()).toEqual(['broken', 'not-json', 'valid']);
+      expect(byId.get('broken')?.errors).toEqual([
+        'title: 空にできません',
+        'settingsDirectories: array を指定してください（string が指定されています）',
+        'contentDirectories: 必須です',
+      ]);
+      expect(byId.get('not-json')?.errors[0]).toMatch(/^JSON として読み込めません/);
+      expect(byId.get('valid')).toMatchObject({
+        errors: [],
+        warnings: ['tilte: 未知のキーです（無視されます）。title の誤りではありませんか'],
+        configPath: path.join(baseDir, 'valid', 'novel.json'),
+      });
+    });
+
+    it('不正なプロジェクトの取得はフィールド単位のエラーを含む InvalidProjectConfigError を投げる', async () => {
+      const error = await tempRepository.getProject('broken').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(InvalidProjectConfigError);
+      expect((error as InvalidProjectConfigError).message).toContain(
+        'contentDirectories: 必須です',
+      );
+      expect((error as InvalidProjectConfigError).context?.errors).toHaveLength(3);
+    });
+
+    it('novel.json を修正すると再び読み込まれる', async () => {
+      await expect(tempRepository.getProject('broken')).rejects.toThrow(InvalidProjectConfigError);
+
+      await writeConfig(
+        'broken',
+        JSON.stringify({
+          title: '修正済み',
+          settingsDirectories: ['settings'],
+          contentDirectories: ['contents'],
+        }),
+      );
+
+      expect((await tempRepository.getProject('broken')).config.title).toBe('修正済み');
+      expect((await tempRepository.listProjectConfigIssues()).map((i) => i.id)).not.toContain(
+        'broken',
+      );
+    });
+
+    it('novel.json やディレクトリが削除されたプロジェクトは一覧から取り除く', async () => {
+      await writeConfig(
+        'removed',
+        JSON.stringify({
+          title: '削除予定',
+          settingsDirectories: ['settings'],
+          contentDirectories: ['contents'],
+        }),
+      );
+      expect((await tempRepository.listProjects()).map((p) => p.id)).toContain('removed');
+
+      await fs.rm(path.join(baseDir, 'removed'), { recursive: true });
+      await fs.rm(path.join(baseDir, 'valid', 'novel.json'));
+
+      expect(await tempRepository.listProjects()).toEqual([]);
+      expect((await tempRepository.listProjectConfigIssues()).map((i) => i.id).sort()).toEqual([
+        'broken',
+        'not-json',
+      ]);
+    });
+
+    it('refreshProject は指定したプロジェクトの novel.json だけを読み込み直す', async () => {
+      await tempRepository.listProjects();
+      await writeConfig(
+        'valid',
+        JSON.stringify({
+          title: '改題',
+          settingsDirectories: ['settings'],
+          contentDirectories: ['contents'],
+        }),
+      );
+
+      expect((await tempRepository.refreshProject('valid'))?.config.title).toBe('改題');
+      expect((await tempRepository.listProjectConfigIssues()).map((i) => i.id)).not.toContain(
+        'valid',
+      );
+
+      await fs.rm(path.join(baseDir, 'valid', 'novel.json'));
+      expect(await tempRepository.refreshProject('valid')).toBeNull();
+      expect(await tempRepository.refreshProject('broken')).toBeNull();
+    });
+  });
+
+  describe('プロジェクトの作成と設定の更新', () => {
+    let baseDir: string;
+    let tempRepository: FileSystemNovelRepository;
+
+    const readConfig = async (id: string) =>
+      JSON.parse(await fs.readFile(path.join(baseDir, id, 'novel.json'), 'utf-8'));
+
+    beforeEach(async () => {
+      baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dialogoi-create-project-'));
+      tempRepository = new FileSystemNovelRepository(baseDir);
+    });
+
+    afterEach(async () => {
+      await fs.rm(baseDir, { recursive: true, force: true });
+    });
+
+    it('novel.json・ディレクトリ・指示ファイルの雛形を作成する', async () => {
+      const project = await tempRepository.createProject('new_novel', {
+        title: '新しい小説',
+        author: '作者',
+        contentDirectories: ['chapters'],
+      });
+
+      expect(project.config).toMatchObject({
+        title: '新しい小説',
+        author: '作者',
+        settingsDirectories: ['settings'],
+        contentDirectories: ['chapters'],
+      });
+      expect(await readConfig('new_novel')).toEqual(project.config);
+      expect(project.config.createdAt).toBe(project.config.updatedAt);
+      expect((await fs.stat(path.join(baseDir, 'new_novel', 'settings'))).isDirectory()).toBe(true);
+      expect((await fs.stat(path.join(baseDir, 'new_novel', 'chapters'))).isDirectory()).toBe(true);
+      expect(await fs.readFile(path.join(baseDir, 'new_novel', 'DIALOGOI.md'), 'utf-8')).toContain(
+        '「新しい小説」',
+      );
+      expect(await tempRepository.listProjects()).toEqual([
+        { id: 'new_novel', title: '新しい小説', description: undefined },
+      ]);
+    });
+
+    it('テンプレートの構成と変数を置換した雛形ファイルで作成する', async () => {
+      const project = await tempRepository.createProject('mystery_novel', {
+        template: 'mystery',
+        title: '時計塔の密室',
+        author: '推理作家',
+      });
+
+      expect(project.config.settingsDirectories).toEqual(['docs', 'character_profiles']);
+      expect(project.config.contentDirectories).toEqual(['manuscript']);
+      const projectPath = path.join(baseDir, 'mystery_novel');
+      expect(
+        await fs.readFile(path.join(projectPath, 'docs', 'plot_outline.md'), 'utf-8'),
+      ).toContain('# 時計塔の密室 - プロット');
+      // テンプレートの指示ファイルを雛形で上書きしない
+      expect(await fs.readFile(path.join(projectPath, 'DIALOGOI.md'), 'utf-8')).toContain(
+        'docs/clues.md',
+      );
+      await expect(fs.access(path.join(projectPath, 'template.json'))).rejects.toThrow();
+      expect(await tempRepository.listProjectTemplates()).toHaveLength(3);
+    });
+
+    it('ディレクトリを指定した場合はテンプレートの雛形ファイルを指定したディレクトリに作成する', async () => {
+      const project = await tempRepository.createProject('mystery_novel', {
+        template: 'mystery',
+        title: '時計塔の密室',
+        settingsDirectories: ['設定'],
+        contentDirectories: ['本文'],
+      });
+
+      expect(project.config.settingsDirectories).toEqual(['設定']);
+      const projectPath = path.join(baseDir, 'mystery_novel');
+      expect(await fs.readdir(path.join(projectPath, '設定'))).toEqual([
+        'characters.md',
+        'clues.md',
+        'plot_outline.md',
+        'world_setting.md',
+      ]);
+      expect(await fs.readdir(path.join(projectPath, '本文'))).toEqual(['prologue.md']);
+      await expect(fs.access(path.join(projectPath, 'docs'))).rejects.toThrow();
+      await expect(fs.access(path.join(projectPath, 'manuscript'))).rejects.toThrow();
+      expect(
+        (await tempRepository.listSettingsFiles('mystery_novel')).map((file) => file.filename),
+      ).toContain(path.join('設定', 'plot_outline.md'));
+    });
+
+    it('既存のディレクトリや不正な設定では作成しない', async () => {
+      await tempRepository.createProject('new_novel', { title: '新しい小説' });
+
+      await expect(
+        tempRepository.createProject('new_novel', { title: '別の小説' }),
+      ).rejects.toThrow(ProjectAlreadyExistsError);
+      await expect(tempRepository.createProject('../outside', { title: '外' })).rejects.toThrow(
+        'プロジェクトID',
+      );
+      await expect(
+        tempRepository.createProject('escape', { title: '外', settingsDirectories: ['../shared'] }),
+      ).rejects.toThrow(InvalidProjectConfigError);
+      await expect(tempRepository.createProject('untitled', { title: '' })).rejects.toThrow(
+        'title: 空にできません',
+      );
+      await expect(
+        tempRepository.createProject('romance', { title: '恋愛', template: 'romance' }),
+      ).rejects.toThrow(ProjectTemplateNotFoundError);
+      expect(await fs.readdir(baseDir)).toEqual(['new_novel']);
+    });
+
+    it('指定したキーのみ更新し、updatedAt と追加されたディレクトリを反映する', async () => {
+      const created = await tempRepository.createProject('new_novel', { title: '新しい小説' });
+      const configPath = path.join(baseDir, 'new_novel', 'novel.json');
+      await fs.writeFile(
+        configPath,
+        JSON.stringify({
+          $schema: './novel.schema.json',
+          ...created.config,
+          updatedAt: '2024-01-01T00:00:00Z',
+        }),
+      );
+
+      const updated = await tempRepository.updateProjectConfig('new_novel', {
+        description: '説明を追加',
+        contentDirectories: ['contents', 'extra'],
+      });
+
+      expect(updated.config.title).toBe('新しい小説');
+      expect(updated.config.description).toBe('説明を追加');
+      expect(updated.config.createdAt).toBe(created.config.createdAt);
+      expect(updated.config.updatedAt).not.toBe('2024-01-01T00:00:00Z');
+      expect((await readConfig('new_novel')).$schema).toBe('./novel.schema.json');
+      expect((await fs.stat(path.join(baseDir, 'new_novel', 'extra'))).isDirectory()).toBe(true);
+      expect((await tempRepository.getProject('new_novel')).config.description).toBe('説明を追加');
+    });
+
+    it('不正な novel.json を更新で修正でき、不正な更新は書き込まない', async () => {
+      await fs.mkdir(path.join(baseDir, 'broken'));
+      await fs.writeFile(
+        path.join(baseDir, 'broken', 'novel.json'),
+        JSON.stringify({ title: '壊れた小説', settingsDirectories: ['settings'] }),
+      );
+
+      await expect(tempRepository.updateProjectConfig('broken', { title: '' })).rejects.toThrow(
+        InvalidProjectConfigError,
+      );
+      expect((await readConfig('broken')).title).toBe('壊れた小説');
+
+      const fixed = await tempRepository.updateProjectConfig('broken', {
+        contentDirectories: ['contents'],
+      });
+      expect(fixed.config.contentDirectories).toEqual(['contents']);
+      expect((await tempRepository.listProjects()).map((p) => p.id)).toEqual(['broken']);
+      await expect(tempRepository.updateProjectConfig('missing', { title: 'x' })).rejects.toThrow(
+        ProjectNotFoundError,
+      );
+    });
+  });
+
   describe('listSettingsFiles', () => {
     it('設定ファイル一覧をプレビュー付きで取得できる', async () => {
       const files = await repository.listSettingsFiles(SAMPLE_NOVEL_ID);
@@ -175,6 +459,31 @@ describe('FileSystemNovelRepository', () => {
 
       expect(Array.isArray(results)).toBe(true);
     });
+
+    it('ルビ記法のある行は親文字でも読みでも一致する', async () => {
+      const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dialogoi-ruby-search-'));
+      try {
+        const tempRepository = new FileSystemNovelRepository(baseDir);
+        await tempRepository.createProject('ruby_novel', { title: 'ルビ' });
+        await tempRepository.createContentFile(
+          'ruby_novel',
+          'contents',
+          'chapter1.md',
+          '彼は｜東京タワー《とうきょうタワー》に登った。\nルビのない行',
+        );
+
+        for (const keyword of ['東京タワーに', 'とうきょうタワーに', 'タワー《']) {
+          const results = await tempRepository.searchContentFiles('ruby_novel', keyword);
+          expect(results.map((result) => result.filename)).toEqual([
+            path.join('contents', 'chapter1.md'),
+          ]);
+          expect(results[0].matchingLines[0]).toMatch(/^行1: /);
+        }
+        expect(await tempRepository.searchContentFiles('ruby_novel', 'タワーとう')).toEqual([]);
+      } finally {
+        await fs.rm(baseDir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe('listInstructionFiles', () => {
@@ -273,4 +582,271 @@ describe('FileSystemNovelRepository', () => {
       await fs.unlink(filePath);
     });
   });
+
+  describe('editFile', () => {
+    const testDir = 'contents';
+    const testFilename = 'test_edit.txt';
+    const relativePath = path.join(testDir, testFilename);
+    const testContent = '一行目\n二行目\n三行目\n';
+
+    beforeEach(async () => {
+      await repository.createContentFile(SAMPLE_NOVEL_ID, testDir, testFilename, testContent, true);
+    });
+
+    afterEach(async () => {
+      const project = await repository.getProject(SAMPLE_NOVEL_ID);
+      await fs.rm(path.join(project.path, relativePath), { force: true });
+    });
+
+    it('文字列置換で編集できる', async () => {
+      const result = await repository.editFile(SAMPLE_NOVEL_ID, relativePath, {
+        type: 'replace',
+        search: '二行目',
+        replace: '2行目',
+      });
+
+      expect(result.replacements).toBe(1);
+      expect(result.filename).toBe(relativePath);
+      const content = await fs.readFile(result.filePath, 'utf-8');
+      expect(content).toBe('一行目\n2行目\n三行目\n');
+    });
+
+    it('行範囲置換で編集できる', async () => {
+      const result = await repository.editFile(SAMPLE_NOVEL_ID, relativePath, {
+        type: 'replace_lines',
+        startLine: 1,
+        endLine: 2,
+        content: '新しい一行目',
+      });
+
+      expect(result.lineCountBefore).toBe(3);
+      expect(result.lineCountAfter).toBe(2);
+      const content = await fs.readFile(result.filePath, 'utf-8');
+      expect(content).toBe('新しい一行目\n三行目\n');
+    });
+
+    it('一致件数が異なる場合はファイルを変更しない', async () => {
+      await expect(
+        repository.editFile(SAMPLE_NOVEL_ID, relativePath, {
+          type: 'replace',
+          search: '行目',
+          replace: 'ぎょうめ',
+        }),
+      ).rejects.toThrow(FileEditError);
+
+      const project = await repository.getProject(SAMPLE_NOVEL_ID);
+      const content = await fs.readFile(path.join(project.path, relativePath), 'utf-8');
+      expect(content).toBe(testContent);
+    });
+
+    it('存在しないファイルはエラーになる', async () => {
+      await expect(
+        repository.editFile(SAMPLE_NOVEL_ID, path.join(testDir, 'missing.txt'), {
+          type: 'append',
+          content: '追記',
+        }),
+      ).rejects.toThrow('ファイルが存在しません');
+    });
+
+    it('設定・本文ディレクトリ外のファイルはエラーになる', async () => {
+      await expect(
+        repository.editFile(SAMPLE_NOVEL_ID, 'novel.json', { type: 'append', content: '追記' }),
+      ).rejects.toThrow('not in a configured settings or content directory');
+      await expect(
+        repository.editFile(SAMPLE_NOVEL_ID, '../mystery_story/manuscript/prologue.txt', {
+          type: 'append',
+          content: '追記',
+        }),
+      ).rejects.toThrow('not in a configured settings or content directory');
+    });
+  });
+
+  describe('renameFile / moveFile / deleteFile', () => {
+    const testFilename = 'test_file_op.txt';
+    const testContent = 'ファイル操作テスト';
+    let projectPath: string;
+
+    beforeEach(async () => {
+      await repository.createContentFile(
+        SAMPLE_NOVEL_ID,
+        'contents',
+        testFilename,
+        testContent,
+        true,
+      );
+      projectPath = (await repository.getProject(SAMPLE_NOVEL_ID)).path;
+    });
+
+    afterEach(async () => {
+      for (const relative of [
+        path.join('contents', testFilename),
+        path.join('contents', 'renamed_file_op.txt'),
+        path.join('settings', testFilename),
+      ]) {
+        await fs.rm(path.join(projectPath, relative), { force: true });
+      }
+      await fs.rm(path.join(projectPath, '.dialogoi'), { recursive: true, force: true });
+    });
+
+    it('同じディレクトリ内でリネームできる', async () => {
+      const result = await repository.renameFile(
+        SAMPLE_NOVEL_ID,
+        path.join('contents', testFilename),
+        'renamed_file_op.txt',
+      );
+
+      expect(result.oldFilename).toBe(path.join('contents', testFilename));
+      expect(result.newFilename).toBe(path.join('contents', 'renamed_file_op.txt'));
+      expect(await fs.readFile(result.newFilePath, 'utf-8')).toBe(testContent);
+      await expect(fs.access(result.oldFilePath)).rejects.toThrow();
+    });
+
+    it('不正な新しいファイル名はエラーになる', async () => {
+      await expect(
+        repository.renameFile(SAMPLE_NOVEL_ID, path.join('contents', testFilename), '../x.txt'),
+      ).rejects.toThrow('不正な文字');
+    });
+
+    it('既存ファイルへのリネームはエラーになる', async () => {
+      await expect(
+        repository.renameFile(
+          SAMPLE_NOVEL_ID,
+          path.join('contents', testFilename),
+          'chapter_1.txt',
+        ),
+      ).rejects.toThrow('already exists');
+    });
+
+    it('設定ディレクトリへ移動できる', async () => {
+      const result = await repository.moveFile(
+        SAMPLE_NOVEL_ID,
+        path.join('contents', testFilename),
+        'settings',
+      );
+
+      expect(result.newFilename).toBe(path.join('settings', testFilename));
+      expect(await fs.readFile(result.newFilePath, 'utf-8')).toBe(testContent);
+    });
+
+    it('設定されていないディレクトリへの移動はエラーになる', async () => {
+      await expect(
+        repository.moveFile(SAMPLE_NOVEL_ID, path.join('contents', testFilename), 'unknown'),
+      ).rejects.toThrow('is not configured');
+    });
+
+    it('削除するとゴミ箱へ移動される', async () => {
+      const result = await repository.deleteFile(
+        SAMPLE_NOVEL_ID,
+        path.join('contents', testFilename),
+      );
+
+      expect(result.trashPath).toBeDefined();
+      expect(result.trashPath!.startsWith(path.join('.dialogoi', 'trash'))).toBe(true);
+      expect(await fs.readFile(path.join(projectPath, result.trashPath!), 'utf-8')).toBe(
+        testContent,
+      );
+      await expect(fs.access(result.filePath)).rejects.toThrow();
+    });
+
+    it('useTrash=falseで完全削除できる', async () => {
+      const result = await repository.deleteFile(
+        SAMPLE_NOVEL_ID,
+        path.join('contents', testFilename),
+        false,
+      );
+
+      expect(result.trashPath).toBeUndefined();
+      await expect(fs.access(result.filePath)).rejects.toThrow();
+    });
+
+    it('存在しないファイルの削除はエラーになる', async () => {
+      await expect(
+        repository.deleteFile(SAMPLE_NOVEL_ID, path.join('contents', 'missing.txt')),
+      ).rejects.toThrow('does not exist');
+    });
+  });
+
+  describe('ファイル履歴', () => {
+    const testFilename = path.join('contents', 'test_history.txt');
+    let historyRepository: FileSystemNovelRepository;
+    let projectPath: string;
+
+    beforeEach(async () => {
+      historyRepository = new FileSystemNovelRepository(novelsDir, {
+        history: { enabled: true, maxVersionsPerFile: 50, maxAgeDays: 90 },
+      });
+      projectPath = (await historyRepository.getProject(SAMPLE_NOVEL_ID)).path;
+    });
+
+    afterEach(async () => {
+      for (const relative of [testFilename, path.join('contents', 'renamed_history.txt')]) {
+        await fs.rm(path.join(projectPath, relative), { force: true });
+      }
+      await fs.rm(path.join(projectPath, '.dialogoi'), { recursive: true, force: true });
+    });
+
+    it('作成・上書き・編集のたびにバージョンが保存される', async () => {
+      await historyRepository.createContentFile(
+        SAMPLE_NOVEL_ID,
+        'contents',
+        'test_history.txt',
+        '初版',
+      );
+      await historyRepository.createContentFile(
+        SAMPLE_NOVEL_ID,
+        'contents',
+        'test_history.txt',
+        '第二版',
+        true,
+      );
+      await historyRepository.editFile(SAMPLE_NOVEL_ID, testFilename, {
+        type: 'append',
+        content: '追記',
+      });
+
+      const versions = await historyRepository.listFileHistory(SAMPLE_NOVEL_ID, testFilename);
+      expect(versions.map((v) => v.reason)).toEqual(['create', 'overwrite', 'edit']);
+      expect(await historyRepository.getFileVersionContent(SAMPLE_NOVEL_ID, testFilename, 1)).toBe(
+        '初版',
+      );
+    });
+
+    it('削除したファイルを履歴から復元できる', async () => {
+      await historyRepository.createContentFile(
+        SAMPLE_NOVEL_ID,
+        'contents',
+        'test_history.txt',
+        '消える内容',
+      );
+      await historyRepository.deleteFile(SAMPLE_NOVEL_ID, testFilename, false);
+
+      const result = await historyRepository.restoreFileVersion(SAMPLE_NOVEL_ID, testFilename, 1);
+
+      expect(result.version).toBe(1);
+      expect(await fs.readFile(result.filePath, 'utf-8')).toBe('消える内容');
+    });
+
+    it('リネームすると履歴も新しいパスに引き継がれる', async () => {
+      await historyRepository.createContentFile(
+        SAMPLE_NOVEL_ID,
+        'contents',
+        'test_history.txt',
+        '内容',
+      );
+      await historyRepository.renameFile(SAMPLE_NOVEL_ID, testFilename, 'renamed_history.txt');
+
+      const versions = await historyRepository.listFileHistory(
+        SAMPLE_NOVEL_ID,
+        path.join('contents', 'renamed_history.txt'),
+      );
+      // 内容が同じためリネーム時に新しいバージョンは作成されない
+      expect(versions.map((v) => v.reason)).toEqual(['create']);
+    });
+
+    it('履歴が無効な場合はエラーになる', async () => {
+      await expect(repository.listFileHistory(SAMPLE_NOVEL_ID, testFilename)).rejects.toThrow(
+        FileHistoryError,
+      );
+    });
+  });
 });
@@ -1,10 +1,87 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { NovelConfig, NovelProject } from '../domain/novel.js';
+import {
+  NovelConfig,
+  NovelConfigUpdate,
+  NovelProject,
+  NovelProjectInput,
+  ProjectConfigIssue,
+} from '../domain/novel.js';
+import { FileEditOperation, FileEditResult } from '../domain/fileEdit.js';
+import { FileMoveResult, FileDeleteResult } from '../domain/fileOperation.js';
+import { FileHistoryReason, FileVersion, FileRestoreResult } from '../domain/fileHistory.js';
 import { fileExists, findFilesRecursively, ensureDirectory } from '../utils/fileUtils.js';
-import { ProjectNotFoundError, ConfigurationError } from '../errors/index.js';
+import { applyFileEdit } from '../utils/textEditUtils.js';
+import { loadNovelConfigFile, validateNovelConfig } from '../lib/novelConfigSchema.js';
+import {
+  ProjectNotFoundError,
+  ProjectAlreadyExistsError,
+  InvalidProjectConfigError,
+  ConfigurationError,
+  FileEditError,
+  FileHistoryError,
+  FileWriteError,
+} from '../errors/index.js';
+import { replaceRubyWithReading, stripRuby } from '../lib/ruby.js';
 import { getLogger } from '../logging/index.js';
 import { NovelRepository } from './NovelRepository.js';
+import { FileHistoryStore, FileHistoryConfig } from './FileHistoryStore.js';
+import { ProjectTemplateStore } from './ProjectTemplateStore.js';
+import { ProjectTemplate } from '../domain/projectTemplate.js';
+import { EXPORT_DIRECTORY } from '../domain/export.js';
+
+/**
+ * 削除したファイルの移動先（プロジェクトルートからの相対パス）
+ */
+const TRASH_DIRECTORY = path.join('.dialogoi', 'trash');
+
+/**
+ * 指示ファイルの指定がない場合に作成・参照するファイル
+ */
+const DEFAULT_INSTRUCTION_FILE = 'DIALOGOI.md';
+
+/**
+ * 行が検索パターンに一致するか
+ * ルビ記法のある行は、記法のまま・親文字のみ・読みに置き換えた形のいずれかで一致すればよい
+ */
+function matchesLine(pattern: RegExp, line: string): boolean {
+  if (pattern.test(line)) {
+    return true;
+  }
+  if (!line.includes('《')) {
+    return false;
+  }
+  return pattern.test(stripRuby(line)) || pattern.test(replaceRubyWithReading(line));
+}
+
+/**
+ * テンプレートの雛形ファイルのパスを、作成するプロジェクトのディレクトリに置き換える
+ * テンプレートの n 番目の設定・本文ディレクトリは、プロジェクトの n 番目（足りない場合は先頭）のディレクトリにする
+ */
+function mapTemplateFilePath(
+  filePath: string,
+  template: ProjectTemplate,
+  config: NovelConfig,
+): string {
+  const mappings = [
+    ...template.settingsDirectories.map((directory, index) => ({
+      from: directory,
+      to: config.settingsDirectories[index] ?? config.settingsDirectories[0],
+    })),
+    ...template.contentDirectories.map((directory, index) => ({
+      from: directory,
+      to: config.contentDirectories[index] ?? config.contentDirectories[0],
+    })),
+  ].sort((a, b) => b.from.length - a.from.length); // 入れ子のディレクトリは深い方を優先
+
+  for (const { from, to } of mappings) {
+    const relative = path.relative(path.normalize(from), path.normalize(filePath));
+    if (relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+      return path.join(to, relative);
+    }
+  }
+  return filePath;
+}
 
 /**
  * ファイルシステムベースの小説プロジェクトRepository実装
@@ -12,10 +89,25 @@ import { NovelRepository } from './NovelRepository.js';
 export class FileSystemNovelRepository implements NovelRepository {
   private readonly baseDir: string;
   private novelProjects: Map<string, NovelProject> = new Map();
+  private projectConfigIssues: Map<string, ProjectConfigIssue> = new Map();
   private readonly logger = getLogger();
+  private readonly history?: FileHistoryStore;
+  private readonly templates: ProjectTemplateStore;
 
-  constructor(baseDir?: string) {
+  /**
+   * @param baseDir 小説プロジェクトのベースディレクトリ
+   * @param options.history ファイル履歴の設定（省略時は履歴を保存しない）
+   * @param options.templatesDirectory ユーザーテンプレートの置き場所（省略時は組み込みテンプレートのみ）
+   */
+  constructor(
+    baseDir?: string,
+    options: { history?: FileHistoryConfig; templatesDirectory?: string } = {},
+  ) {
     this.baseDir = baseDir || path.join(process.cwd(), 'novels');
+    if (options.history) {
+      this.history = new FileHistoryStore(options.history);
+    }
+    this.templates = new ProjectTemplateStore({ userDirectory: options.templatesDirectory });
     this.logger.debug('FileSystemNovelRepository初期化', { baseDir: this.baseDir });
   }
 
@@ -40,12 +132,128 @@ export class FileSystemNovelRepository implements NovelRepository {
 
     const project = this.novelProjects.get(projectId);
     if (!project) {
+      const issue = this.projectConfigIssues.get(projectId);
+      if (issue && issue.errors.length > 0) {
+        throw new InvalidProjectConfigError(projectId, issue.errors.join(', '), {
+          configPath: issue.configPath,
+          errors: issue.errors,
+        });
+      }
       throw new ProjectNotFoundError(projectId);
     }
 
     return project;
   }
 
+  async listProjectConfigIssues(): Promise<ProjectConfigIssue[]> {
+    await this.discoverProjects();
+    return [...this.projectConfigIssues.values()];
+  }
+
+  async refreshProject(projectId: string): Promise<NovelProject | null> {
+    const loaded = this.novelProjects.has(projectId);
+    const project = await this.loadProject(projectId);
+    if (loaded && !project) {
+      this.logger.info(`📚 小説プロジェクトを一覧から取り除きました: ${projectId}`);
+    }
+    return project;
+  }
+
+  async createProject(projectId: string, input: NovelProjectInput): Promise<NovelProject> {
+    this.validateProjectId(projectId);
+
+    const projectPath = path.join(this.baseDir, projectId);
+    if (await this.fileExists(projectPath)) {
+      throw new ProjectAlreadyExistsError(projectId, { path: projectPath });
+    }
+
+    const template = input.template ? await this.templates.get(input.template) : undefined;
+    const now = new Date().toISOString();
+    const config = this.validateProjectConfig(projectId, {
+      title: input.title,
+      author: input.author,
+      description: input.description,
+      settingsDirectories: input.settingsDirectories ??
+        template?.settingsDirectories ?? ['settings'],
+      contentDirectories: input.contentDirectories ?? template?.contentDirectories ?? ['contents'],
+      instructionFiles: input.instructionFiles ?? template?.instructionFiles,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const project: NovelProject = { id: projectId, path: projectPath, config };
+    await ensureDirectory(projectPath);
+    await this.createProjectDirectories(project);
+
+    if (template) {
+      const files = await this.templates.render(template, {
+        novelId: projectId,
+        title: config.title,
+        author: config.author ?? '',
+        description: config.description ?? '',
+        date: now.slice(0, 10),
+      });
+      // 設定・本文ディレクトリを指定した場合も、雛形ファイルが novel.json のディレクトリに入るようにする
+      for (const file of files) {
+        const filePath = path.join(projectPath, mapTemplateFilePath(file.path, template, config));
+        await ensureDirectory(path.dirname(filePath));
+        await fs.writeFile(filePath, file.content, 'utf-8');
+      }
+    }
+
+    // テンプレートに指示ファイルがなければ雛形を作成する
+    const instructionFile = config.instructionFiles?.[0] ?? DEFAULT_INSTRUCTION_FILE;
+    const instructionPath = path.join(projectPath, instructionFile);
+    if (!(await this.fileExists(instructionPath))) {
+      await ensureDirectory(path.dirname(instructionPath));
+      await fs.writeFile(instructionPath, this.createStarterInstructions(config), 'utf-8');
+    }
+
+    await this.writeProjectConfig(project, config);
+    this.logger.info(
+      `📚 小説プロジェクトを作成しました: ${projectId}${template ? `（テンプレート: ${template.id}）` : ''}`,
+    );
+    return project;
+  }
+
+  async listProjectTemplates(): Promise<ProjectTemplate[]> {
+    return this.templates.list();
+  }
+
+  async updateProjectConfig(projectId: string, changes: NovelConfigUpdate): Promise<NovelProject> {
+    await this.discoverProjects();
+    const issue = this.projectConfigIssues.get(projectId);
+    if (!this.novelProjects.has(projectId) && !issue) {
+      throw new ProjectNotFoundError(projectId);
+    }
+
+    // 未知のキー（$schema など）を残すため、検証済みの設定ではなく novel.json の内容に反映する
+    const projectPath = path.join(this.baseDir, projectId);
+    let current: Record<string, unknown>;
+    try {
+      current = JSON.parse(await fs.readFile(path.join(projectPath, 'novel.json'), 'utf-8'));
+    } catch (error) {
+      throw new InvalidProjectConfigError(
+        projectId,
+        `novel.json を読み込めません: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const definedChanges = Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined),
+    );
+    const updated = { ...current, ...definedChanges, updatedAt: new Date().toISOString() };
+    const config = this.validateProjectConfig(projectId, updated);
+
+    const project: NovelProject = { id: projectId, path: projectPath, config };
+    await this.createProjectDirectories(project);
+    await this.writeProjectConfig(project, updated);
+    this.logger.info(`📝 novel.json を更新しました: ${projectId}`, {
+      keys: Object.keys(definedChanges),
+    });
+    return project;
+  }
+
   async listSettingsFiles(
     projectId: string,
   ): Promise<Array<{ filename: string; preview: string }>> {
@@ -135,24 +343,10 @@ export class FileSystemNovelRepository implements NovelRepository {
         );
       }
     } else {
-      const extensions = ['txt', 'md'];
       let allContent = '';
 
-      for (const contentDir of project.config.contentDirectories) {
-        const fullContentPath = path.join(project.path, contentDir);
-        const files = await findFilesRecursively(fullContentPath, extensions);
-
-        files.sort();
-
-        for (const filePath of files) {
-          try {
-            const data = await fs.readFile(filePath, 'utf-8');
-            const relativePath = path.relative(project.path, filePath);
-            allContent += `=== ${relativePath} ===\n${data}\n\n`;
-          } catch (error) {
-            continue;
-          }
-        }
+      for (const file of await this.readContentFiles(projectId)) {
+        allContent += `=== ${file.filename} ===\n${file.content}\n\n`;
       }
 
       if (allContent === '') {
@@ -179,6 +373,53 @@ export class FileSystemNovelRepository implements NovelRepository {
     );
   }
 
+  async readContentFiles(projectId: string): Promise<Array<{ filename: string; content: string }>> {
+    const project = await this.getProject(projectId);
+    const extensions = ['txt', 'md'];
+    const results: Array<{ filename: string; content: string }> = [];
+
+    for (const contentDir of project.config.contentDirectories) {
+      const fullContentPath = path.join(project.path, contentDir);
+      const files = await findFilesRecursively(fullContentPath, extensions);
+
+      files.sort();
+
+      for (const filePath of files) {
+        try {
+          const content = await fs.readFile(filePath, 'utf-8');
+          results.push({ filename: path.relative(project.path, filePath), content });
+        } catch (error) {
+          continue;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  async writeExportFile(projectId: string, filename: string, data: Buffer): Promise<string> {
+    const project = await this.getProject(projectId);
+    const exportPath = path.join(project.path, EXPORT_DIRECTORY, filename);
+
+    if (
+      filename !== path.basename(filename) ||
+      filename.startsWith('.') ||
+      !/^[a-zA-Z0-9\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF_\-.]+$/.test(filename)
+    ) {
+      throw new FileWriteError(exportPath, 'ファイル名に使用できない文字が含まれています');
+    }
+
+    try {
+      await ensureDirectory(path.dirname(exportPath));
+      await fs.writeFile(exportPath, data);
+    } catch (error) {
+      throw new FileWriteError(exportPath, error instanceof Error ? error.message : String(error));
+    }
+
+    this.logger.info(`📦 書き出しました: ${projectId}/${EXPORT_DIRECTORY}/${filename}`);
+    return path.join(EXPORT_DIRECTORY, filename);
+  }
+
   async listInstructionFiles(
     projectId: string,
   ): Promise<Array<{ filename: string; preview: string }>> {
@@ -264,7 +505,7 @@ export class FileSystemNovelRepository implements NovelRepository {
       throw new Error(`File '${filename}' already exists. Set overwrite=true to replace it.`);
     }
 
-    await fs.writeFile(filePath, content, 'utf-8');
+    await this.writeWithHistory(project, filePath, content, exists);
     this.logger.debug('設定ファイル作成', { projectId, filePath });
   }
 
@@ -293,45 +534,438 @@ export class FileSystemNovelRepository implements NovelRepository {
       throw new Error(`File '${filename}' already exists. Set overwrite=true to replace it.`);
     }
 
-    await fs.writeFile(filePath, content, 'utf-8');
+    await this.writeWithHistory(project, filePath, content, exists);
     this.logger.debug('本文ファイル作成', { projectId, filePath });
   }
 
+  async editFile(
+    projectId: string,
+    filename: string,
+    operation: FileEditOperation,
+  ): Promise<FileEditResult> {
+    const project = await this.getProject(projectId);
+    const filePath = this.resolveProjectFilePath(project, filename);
+
+    const exists = await this.fileExists(filePath);
+    if (!exists) {
+      throw new FileEditError(filename, 'ファイルが存在しません');
+    }
+
+    const original = await fs.readFile(filePath, 'utf-8');
+    const edited = applyFileEdit(original, operation, filename);
+    this.validateContentSize(edited.content);
+
+    await this.recordHistory(project, filePath, original, 'before-write');
+    await fs.writeFile(filePath, edited.content, 'utf-8');
+    await this.recordHistory(project, filePath, edited.content, 'edit');
+    this.logger.debug('ファイル編集', { projectId, filePath, operation: operation.type });
+
+    return {
+      filename: path.relative(project.path, filePath),
+      filePath,
+      operation: operation.type,
+      replacements: edited.replacements,
+      lineCountBefore: edited.lineCountBefore,
+      lineCountAfter: edited.lineCountAfter,
+    };
+  }
+
+  async renameFile(projectId: string, filename: string, newName: string): Promise<FileMoveResult> {
+    const project = await this.getProject(projectId);
+    const oldFilePath = await this.resolveExistingProjectFile(project, filename);
+
+    this.validateFilename(newName);
+    const newFilePath = path.join(path.dirname(oldFilePath), newName);
+
+    return this.moveProjectFile(project, oldFilePath, newFilePath, 'rename');
+  }
+
+  async moveFile(
+    projectId: string,
+    filename: string,
+    targetDirectory: string,
+  ): Promise<FileMoveResult> {
+    const project = await this.getProject(projectId);
+    const oldFilePath = await this.resolveExistingProjectFile(project, filename);
+
+    const directories = [
+      ...project.config.settingsDirectories,
+      ...project.config.contentDirectories,
+    ];
+    if (!directories.includes(targetDirectory)) {
+      throw new Error(
+        `Directory '${targetDirectory}' is not configured as a settings or content directory`,
+      );
+    }
+
+    const targetDir = path.join(project.path, targetDirectory);
+    await ensureDirectory(targetDir);
+    const newFilePath = path.join(targetDir, path.basename(oldFilePath));
+
+    return this.moveProjectFile(project, oldFilePath, newFilePath, 'move');
+  }
+
+  async deleteFile(
+    projectId: string,
+    filename: string,
+    useTrash: boolean = true,
+  ): Promise<FileDeleteResult> {
+    const project = await this.getProject(projectId);
+    const filePath = await this.resolveExistingProjectFile(project, filename);
+    const relativePath = path.relative(project.path, filePath);
+
+    // 完全削除の場合も履歴から復元できるよう、削除直前の内容を保存する
+    if (this.history?.isEnabled()) {
+      const content = await fs.readFile(filePath, 'utf-8');
+      await this.recordHistory(project, filePath, content, 'delete');
+    }
+
+    if (!useTrash) {
+      await fs.unlink(filePath);
+      this.logger.debug('ファイル削除', { projectId, filePath });
+      return { filename: relativePath, filePath };
+    }
+
+    // ゴミ箱へ移動（削除日時ごとのディレクトリに元の相対パスを保って配置）
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const trashRelativePath = path.join(TRASH_DIRECTORY, timestamp, relativePath);
+    const trashPath = path.join(project.path, trashRelativePath);
+    await ensureDirectory(path.dirname(trashPath));
+    await fs.rename(filePath, trashPath);
+    this.logger.debug('ファイルをゴミ箱へ移動', { projectId, filePath, trashPath });
+
+    return { filename: relativePath, filePath, trashPath: trashRelativePath };
+  }
+
+  async listFileHistory(projectId: string, filename: string): Promise<FileVersion[]> {
+    const project = await this.getProject(projectId);
+    const filePath = this.resolveProjectFilePath(project, filename);
+    const history = this.requireHistory(filename);
+    return history.list(project.path, path.relative(project.path, filePath));
+  }
+
+  async getFileVersionContent(
+    projectId: string,
+    filename: string,
+    version?: number,
+  ): Promise<string> {
+    const project = await this.getProject(projectId);
+    const filePath = this.resolveProjectFilePath(project, filename);
+
+    if (version === undefined) {
+      if (!(await this.fileExists(filePath))) {
+        throw new Error(`File '${filename}' does not exist`);
+      }
+      return fs.readFile(filePath, 'utf-8');
+    }
+
+    const history = this.requireHistory(filename);
+    return history.getContent(project.path, path.relative(project.path, filePath), version);
+  }
+
+  async restoreFileVersion(
+    projectId: string,
+    filename: string,
+    version: number,
+  ): Promise<FileRestoreResult> {
+    const project = await this.getProject(projectId);
+    const filePath = this.resolveProjectFilePath(project, filename);
+    const relativePath = path.relative(project.path, filePath);
+    const history = this.requireHistory(filename);
+
+    // 削除済みのファイルも復元できるよう、存在しない場合はディレクトリを作成する
+    const content = await history.getContent(project.path, relativePath, version);
+    await ensureDirectory(path.dirname(filePath));
+    const exists = await this.fileExists(filePath);
+    if (exists) {
+      const current = await fs.readFile(filePath, 'utf-8');
+      await this.recordHistory(project, filePath, current, 'before-write');
+    }
+
+    await fs.writeFile(filePath, content, 'utf-8');
+    await this.recordHistory(project, filePath, content, 'restore');
+    this.logger.debug('ファイルを履歴から復元', { projectId, filePath, version });
+
+    return { filename: relativePath, filePath, version };
+  }
+
   // ===== Private Methods =====
 
   /**
-   * 小説プロジェクトを発見・読み込み
+   * 履歴を保存しつつファイルを書き込み
+   * 上書きの場合は書き込み前の内容も保存する
    */
-  private async discoverProjects(): Promise<void> {
+  private async writeWithHistory(
+    project: NovelProject,
+    filePath: string,
+    content: string,
+    exists: boolean,
+  ): Promise<void> {
+    if (exists && this.history?.isEnabled()) {
+      const current = await fs.readFile(filePath, 'utf-8');
+      await this.recordHistory(project, filePath, current, 'before-write');
+    }
+    await fs.writeFile(filePath, content, 'utf-8');
+    await this.recordHistory(project, filePath, content, exists ? 'overwrite' : 'create');
+  }
+
+  /**
+   * ファイル内容を履歴に保存
+   * 履歴の保存に失敗してもファイル操作自体は継続する
+   */
+  private async recordHistory(
+    project: NovelProject,
+    filePath: string,
+    content: string,
+    reason: FileHistoryReason,
+  ): Promise<void> {
+    if (!this.history?.isEnabled()) {
+      return;
+    }
     try {
-      const entries = await fs.readdir(this.baseDir, { withFileTypes: true });
+      await this.history.record(
+        project.path,
+        path.relative(project.path, filePath),
+        content,
+        reason,
+      );
+    } catch (error) {
+      this.logger.warn('ファイル履歴の保存に失敗しました', {
+        projectId: project.id,
+        filePath,
+        reason,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
 
-      for (const entry of entries) {
-        if (entry.isDirectory()) {
-          const novelPath = path.join(this.baseDir, entry.name);
-          const configPath = path.join(novelPath, 'novel.json');
+  /**
+   * 履歴ストアを取得（履歴が無効な場合はエラー）
+   */
+  private requireHistory(filename: string): FileHistoryStore {
+    if (!this.history?.isEnabled()) {
+      throw new FileHistoryError(filename, '履歴が無効です（history.enabled を確認してください）');
+    }
+    return this.history;
+  }
 
-          try {
-            const configData = await fs.readFile(configPath, 'utf-8');
-            const config: NovelConfig = JSON.parse(configData);
+  /**
+   * 既存ファイルのパスを解決して存在を確認
+   */
+  private async resolveExistingProjectFile(
+    project: NovelProject,
+    filename: string,
+  ): Promise<string> {
+    const filePath = this.resolveProjectFilePath(project, filename);
+    if (!(await this.fileExists(filePath))) {
+      throw new Error(`File '${filename}' does not exist`);
+    }
+    return filePath;
+  }
 
-            const project: NovelProject = {
-              id: entry.name,
-              path: novelPath,
-              config: config,
-            };
+  /**
+   * プロジェクト内でファイルを移動（移動先が既に存在する場合はエラー）
+   */
+  private async moveProjectFile(
+    project: NovelProject,
+    oldFilePath: string,
+    newFilePath: string,
+    reason: 'rename' | 'move',
+  ): Promise<FileMoveResult> {
+    const newFilename = path.relative(project.path, newFilePath);
+    if (oldFilePath === newFilePath) {
+      throw new Error(`File '${newFilename}' is already at the destination`);
+    }
+    if (await this.fileExists(newFilePath)) {
+      throw new Error(`File '${newFilename}' already exists`);
+    }
 
-            this.novelProjects.set(entry.name, project);
-            this.logger.debug('プロジェクト発見', { id: entry.name, path: novelPath });
-          } catch (error) {
-            this.logger.debug('プロジェクト設定読み込み失敗（スキップ）', {
-              id: entry.name,
-              error: error instanceof Error ? error.message : String(error),
-            });
-            continue;
+    await fs.rename(oldFilePath, newFilePath);
+    this.logger.debug('ファイル移動', { projectId: project.id, oldFilePath, newFilePath });
+
+    if (this.history?.isEnabled()) {
+      try {
+        await this.history.renamePath(
+          project.path,
+          path.relative(project.path, oldFilePath),
+          newFilename,
+        );
+      } catch (error) {
+        this.logger.warn('ファイル履歴の移動に失敗しました', {
+          projectId: project.id,
+          oldFilePath,
+          newFilePath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      const content = await fs.readFile(newFilePath, 'utf-8');
+      await this.recordHistory(project, newFilePath, content, reason);
+    }
+
+    return {
+      oldFilename: path.relative(project.path, oldFilePath),
+      newFilename,
+      oldFilePath,
+      newFilePath,
+    };
+  }
+
+  /**
+   * プロジェクト内の既存ファイルパスを解決して検証
+   * 設定・本文ディレクトリ配下の .md / .txt ファイルのみ許可する
+   */
+  private resolveProjectFilePath(project: NovelProject, filename: string): string {
+    if (!filename || filename.trim() === '') {
+      throw new Error('ファイル名が指定されていません');
+    }
+
+    const filePath = path.resolve(project.path, filename);
+    const directories = [
+      ...project.config.settingsDirectories,
+      ...project.config.contentDirectories,
+    ];
+    const isInAllowedDirectory = directories.some((directory) => {
+      const relative = path.relative(path.resolve(project.path, directory), filePath);
+      return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+    });
+    if (!isInAllowedDirectory) {
+      throw new Error(`File '${filename}' is not in a configured settings or content directory`);
+    }
+
+    const allowedExtensions = ['.md', '.txt'];
+    const ext = path.extname(filePath).toLowerCase();
+    if (!allowedExtensions.includes(ext)) {
+      throw new Error('許可されていない拡張子です（.md, .txt のみ許可）');
+    }
+
+    return filePath;
+  }
+
+  /**
+   * プロジェクトIDのチェック（プロジェクトルート直下のディレクトリ名になる）
+   */
+  private validateProjectId(projectId: string): void {
+    if (!projectId || projectId.trim() === '') {
+      throw new Error('プロジェクトIDが指定されていません');
+    }
+
+    const validProjectIdRegex = /^[a-zA-Z0-9\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF_-]+$/;
+    if (!validProjectIdRegex.test(projectId)) {
+      throw new Error(
+        'プロジェクトIDには英数字・ひらがな・カタカナ・漢字・「_」「-」のみ使用できます',
+      );
+    }
+  }
+
+  /**
+   * novel.json の内容を検証（ディレクトリがプロジェクト外を指していないかも確認する）
+   * @throws InvalidProjectConfigError スキーマに合わない場合
+   */
+  private validateProjectConfig(projectId: string, data: unknown): NovelConfig {
+    const { config, errors } = validateNovelConfig(data);
+    if (config) {
+      const keys = ['settingsDirectories', 'contentDirectories', 'instructionFiles'] as const;
+      for (const key of keys) {
+        for (const entry of config[key] ?? []) {
+          const normalized = path.normalize(entry);
+          if (path.isAbsolute(normalized) || normalized.split(path.sep).includes('..')) {
+            errors.push(`${key}: プロジェクト内の相対パスを指定してください（${entry}）`);
           }
         }
       }
+    }
+
+    if (!config || errors.length > 0) {
+      throw new InvalidProjectConfigError(projectId, errors.join(', '), { errors });
+    }
+    return config;
+  }
+
+  /**
+   * 設定・本文ディレクトリを作成（既に存在するものはそのまま）
+   */
+  private async createProjectDirectories(project: NovelProject): Promise<void> {
+    for (const directory of [
+      ...project.config.settingsDirectories,
+      ...project.config.contentDirectories,
+    ]) {
+      await ensureDirectory(path.join(project.path, directory));
+    }
+  }
+
+  /**
+   * novel.json を書き込み、プロジェクトのキャッシュを更新
+   */
+  private async writeProjectConfig(project: NovelProject, data: object): Promise<void> {
+    await fs.writeFile(
+      path.join(project.path, 'novel.json'),
+      `${JSON.stringify(data, null, 2)}\n`,
+      'utf-8',
+    );
+    this.novelProjects.set(project.id, project);
+    this.projectConfigIssues.delete(project.id);
+  }
+
+  /**
+   * 新しいプロジェクトの指示ファイルの雛形
+   */
+  private createStarterInstructions(config: NovelConfig): string {
+    const settingsDirectories = config.settingsDirectories.join(' / ');
+    return `# DIALOGOI Instruction
+
+以下のガイドラインに従って、この小説プロジェクト「${config.title}」に対して AI が回答・生成を行ってください。
+
+1. キャラクターの口調や設定は ${settingsDirectories} ディレクトリ内のファイルを必ず参照して整合性を保つこと。
+2. 文体・視点・1回の回答の長さなどの方針をここに追記してください。
+`;
+  }
+
+  /**
+   * novel.json の問題をログに出力（前回の探索から変わった場合のみ）
+   */
+  private logConfigIssue(issue: ProjectConfigIssue): void {
+    const previous = this.projectConfigIssues.get(issue.id);
+    if (
+      previous &&
+      previous.errors.join('\n') === issue.errors.join('\n') &&
+      previous.warnings.join('\n') === issue.warnings.join('\n')
+    ) {
+      return;
+    }
+
+    if (issue.errors.length > 0) {
+      this.logger.warn(`⚠️  novel.json が不正なため読み込みをスキップしました: ${issue.id}`, {
+        errors: issue.errors,
+      });
+    } else {
+      this.logger.warn(`⚠️  novel.json に警告があります: ${issue.id}`, {
+        warnings: issue.warnings,
+      });
+    }
+  }
+
+  /**
+   * 小説プロジェクトを発見・読み込み
+   * novel.json はスキーマで検証し、不正なプロジェクトは projectConfigIssues に記録する
+   * ディレクトリが削除されたプロジェクトは一覧から取り除く
+   */
+  private async discoverProjects(): Promise<void> {
+    try {
+      const entries = await fs.readdir(this.baseDir, { withFileTypes: true });
+      const directories = new Set(
+        entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name),
+      );
+
+      for (const name of directories) {
+        await this.loadProject(name);
+      }
+
+      for (const id of [...this.novelProjects.keys(), ...this.projectConfigIssues.keys()]) {
+        if (!directories.has(id)) {
+          this.novelProjects.delete(id);
+          this.projectConfigIssues.delete(id);
+        }
+      }
     } catch (error) {
       throw new ConfigurationError(
         `プロジェクト探索に失敗しました: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -341,6 +975,43 @@ export class FileSystemNovelRepository implements NovelRepository {
     }
   }
 
+  /**
+   * novel.json を読み込んでプロジェクトのキャッシュを更新
+   * novel.json がない・不正な場合はキャッシュから取り除く
+   * @returns 読み込めたプロジェクト（小説プロジェクトでない・不正な場合は null）
+   */
+  private async loadProject(projectId: string): Promise<NovelProject | null> {
+    const novelPath = path.join(this.baseDir, projectId);
+    const configPath = path.join(novelPath, 'novel.json');
+
+    const result = await loadNovelConfigFile(configPath);
+    if (!result) {
+      // novel.json のないディレクトリは小説プロジェクトではない
+      this.novelProjects.delete(projectId);
+      this.projectConfigIssues.delete(projectId);
+      return null;
+    }
+
+    const { config, errors, warnings } = result;
+    if (errors.length > 0 || warnings.length > 0) {
+      const issue = { id: projectId, configPath, errors, warnings };
+      this.logConfigIssue(issue);
+      this.projectConfigIssues.set(projectId, issue);
+    } else {
+      this.projectConfigIssues.delete(projectId);
+    }
+
+    if (!config) {
+      this.novelProjects.delete(projectId);
+      return null;
+    }
+
+    const project = { id: projectId, path: novelPath, config };
+    this.novelProjects.set(projectId, project);
+    this.logger.debug('プロジェクト発見', { id: projectId, path: novelPath });
+    return project;
+  }
+
   /**
    * ファイル内からキーワードを検索
    */
@@ -378,7 +1049,7 @@ export class FileSystemNovelRepository implements NovelRepository {
           const matchingLines: string[] = [];
 
           for (let i = 0; i < lines.length; i++) {
-            if (searchPattern.test(lines[i])) {
+            if (matchesLine(searchPattern, lines[i])) {
               const contextStart = Math.max(0, i - 1);
               const contextEnd = Math.min(lines.length - 1, i + 1);
               const contextLines = lines.slice(contextStart, contextEnd + 1);
@@ -439,13 +1110,25 @@ export class FileSystemNovelRepository implements NovelRepository {
     if (project.config.instructionFiles && project.config.instructionFiles.length > 0) {
       return project.config.instructionFiles;
     }
-    return ['DIALOGOI.md'];
+    return [DEFAULT_INSTRUCTION_FILE];
   }
 
   /**
    * セキュリティチェック
    */
   private validateFileInput(filename: string, content: string): void {
+    this.validateFilename(filename);
+    this.validateContentSize(content);
+
+    if (content.length === 0) {
+      throw new Error('ファイル内容が空です');
+    }
+  }
+
+  /**
+   * ファイル名のチェック
+   */
+  private validateFilename(filename: string): void {
     if (!filename || filename.trim() === '') {
       throw new Error('ファイル名が指定されていません');
     }
@@ -464,7 +1147,12 @@ export class FileSystemNovelRepository implements NovelRepository {
     if (!allowedExtensions.includes(ext)) {
       throw new Error('許可されていない拡張子です（.md, .txt のみ許可）');
     }
+  }
 
+  /**
+   * ファイルサイズの上限チェック
+   */
+  private validateContentSize(content: string): void {
     const maxSize = 10 * 1024 * 1024;
     const contentBytes = Buffer.byteLength(content, 'utf8');
     if (contentBytes > maxSize) {
@@ -472,10 +1160,6 @@ export class FileSystemNovelRepository implements NovelRepository {
         `ファイルサイズが制限を超えています（最大: ${Math.round(maxSize / 1024 / 1024)}MB）`,
       );
     }
-
-    if (content.length === 0) {
-      throw new Error('ファイル内容が空です');
-    }
   }
 
   /**
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+import {
+  IndexManifestStore,
+  INDEX_MANIFEST_PATH,
+  isSameIndexSignature,
+} from './IndexManifestStore.js';
+import { IndexSignature } from '../domain/indexManifest.js';
+
+const SIGNATURE: IndexSignature = {
+  embeddingModel: 'intfloat/multilingual-e5-small',
+  chunk: { maxTokens: 400, overlap: 50, splitStrategy: 'japanese' },
+  vectorStore: 'qdrant:dialogoi-chunks',
+};
+
+describe('IndexManifestStore', () => {
+  let projectPath: string;
+  let store: IndexManifestStore;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'dialogoi-index-'));
+    store = new IndexManifestStore();
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('保存したマニフェストを読み込める', async () => {
+    const manifest = store.create(SIGNATURE);
+    manifest.files['novel/contents/chapter1.txt'] = {
+      fileType: 'content',
+      mtimeMs: 1700000000000,
+      size: 12,
+      hash: 'a'.repeat(64),
+      chunkIds: ['novel/contents/chapter1.txt::0-0::chunk-0@abcdef12'],
+    };
+
+    await store.save(projectPath, manifest);
+    const loaded = await store.load(projectPath);
+
+    expect(loaded?.signature).toEqual(SIGNATURE);
+    expect(loaded?.files).toEqual(manifest.files);
+  });
+
+  it('マニフェストがない場合は null を返す', async () => {
+    expect(await store.load(projectPath)).toBeNull();
+  });
+
+  it('壊れたマニフェストは null を返す', async () => {
+    const manifestPath = path.join(projectPath, INDEX_MANIFEST_PATH);
+    await fs.mkdir(path.dirname(manifestPath), { recursive: true });
+    await fs.writeFile(manifestPath, '{ invalid json', 'utf-8');
+
+    expect(await store.load(projectPath)).toBeNull();
+  });
+
+  it('マニフェストを削除できる', async () => {
+    await store.save(projectPath, store.create(SIGNATURE));
+    await store.remove(projectPath);
+
+    expect(await store.load(projectPath)).toBeNull();
+  });
+
+  it('チャンク設定の違いを検出する', () => {
+    expect(isSameIndexSignature(SIGNATURE, { ...SIGNATURE })).toBe(true);
+    expect(
+      isSameIndexSignature(SIGNATURE, { ...SIGNATURE, chunk: { ...SIGNATURE.chunk, overlap: 0 } }),
+    ).toBe(false);
+    expect(isSameIndexSignature(SIGNATURE, { ...SIGNATURE, embeddingModel: 'other' })).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { IndexManifest, IndexSignature } from '../domain/indexManifest.js';
+import { ensureDirectory, fileExists } from '../utils/fileUtils.js';
+import { getLogger } from '../logging/index.js';
+
+/**
+ * マニフェストの保存先（プロジェクトルートからの相対パス）
+ */
+export const INDEX_MANIFEST_PATH = path.join('.dialogoi', 'index', 'manifest.json');
+
+/**
+ * マニフェストの形式（2: チャンク本文をルビ記法を除いた親文字のみにした）
+ * 形式が異なるマニフェストは読み込まず、インデックスを全件構築し直す
+ */
+const MANIFEST_VERSION = 2;
+
+/**
+ * インデックスマニフェストの読み書き
+ * 起動時に前回から変更されたファイルのみを再インデックスするために使用する
+ */
+export class IndexManifestStore {
+  private queues: Map<string, Promise<unknown>> = new Map();
+  private readonly logger = getLogger();
+
+  /**
+   * マニフェストを読み込む
+   * @param projectPath プロジェクトの絶対パス
+   * @returns マニフェスト（存在しない・読み込めない場合は null）
+   */
+  async load(projectPath: string): Promise<IndexManifest | null> {
+    const manifestPath = this.getManifestPath(projectPath);
+    if (!(await fileExists(manifestPath))) {
+      return null;
+    }
+
+    try {
+      const data = JSON.parse(await fs.readFile(manifestPath, 'utf-8')) as IndexManifest;
+      if (data.version !== MANIFEST_VERSION || typeof data.files !== 'object') {
+        throw new Error(`未対応のマニフェスト形式です: version=${data.version}`);
+      }
+      return data;
+    } catch (error) {
+      // 壊れたマニフェストはインデックスを作り直せば復旧できるため、エラーにしない
+      this.logger.warn(`⚠️ インデックスマニフェストを読み込めません: ${manifestPath}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * マニフェストを保存（プロジェクト単位で直列化）
+   * 保存時に updatedAt を更新する
+   */
+  async save(projectPath: string, manifest: IndexManifest): Promise<void> {
+    manifest.updatedAt = new Date().toISOString();
+    const serialized = JSON.stringify(manifest, null, 2);
+    await this.enqueue(projectPath, async () => {
+      const manifestPath = this.getManifestPath(projectPath);
+      await ensureDirectory(path.dirname(manifestPath));
+      const tmpPath = `${manifestPath}.tmp`;
+      await fs.writeFile(tmpPath, serialized, 'utf-8');
+      await fs.rename(tmpPath, manifestPath);
+    });
+  }
+
+  /**
+   * マニフェストを削除
+   */
+  async remove(projectPath: string): Promise<void> {
+    await this.enqueue(projectPath, () =>
+      fs.rm(this.getManifestPath(projectPath), { force: true }),
+    );
+  }
+
+  /**
+   * 空のマニフェストを作成
+   */
+  create(signature: IndexSignature): IndexManifest {
+    return {
+      version: MANIFEST_VERSION,
+      signature,
+      updatedAt: new Date().toISOString(),
+      files: {},
+    };
+  }
+
+  private getManifestPath(projectPath: string): string {
+    return path.join(projectPath, INDEX_MANIFEST_PATH);
+  }
+
+  private enqueue<T>(projectPath: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(projectPath) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.queues.set(projectPath, next);
+    return next;
+  }
+}
+
+/**
+ * 2つのインデックス設定が一致するか
+ */
+export function isSameIndexSignature(a: IndexSignature, b: IndexSignature): boolean {
+  return (
+    a.embeddingModel === b.embeddingModel &&
+    a.vectorStore === b.vectorStore &&
+    a.chunk.maxTokens === b.chunk.maxTokens &&
+    a.chunk.overlap === b.chunk.overlap &&
+    a.chunk.splitStrategy === b.chunk.splitStrategy
+  );
+}
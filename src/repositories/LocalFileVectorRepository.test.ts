@@ -0,0 +1,302 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  LocalFileVectorRepository,
+  LocalVectorStoreError,
+  matchesVectorFilter,
+} from './LocalFileVectorRepository.js';
+import type { VectorPoint } from './VectorRepository.js';
+
+const COLLECTION = 'test-collection';
+
+function createPoint(
+  id: string,
+  vector: number[],
+  payload: Record<string, unknown> = {},
+): VectorPoint {
+  return { id, vector, payload };
+}
+
+describe('LocalFileVectorRepository', () => {
+  let tempDir: string;
+  let repository: LocalFileVectorRepository;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dialogoi-local-vector-'));
+    repository = new LocalFileVectorRepository({ directory: tempDir });
+  });
+
+  afterEach(async () => {
+    await repository.disconnect();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('connect', () => {
+    it('接続すると保存先ディレクトリが作成される', async () => {
+      const nested = path.join(tempDir, 'nested', 'vectors');
+      const nestedRepository = new LocalFileVectorRepository({ directory: nested });
+
+      await nestedRepository.connect();
+
+      expect(nestedRepository.isConnected()).toBe(true);
+      const stat = await fs.stat(nested);
+      expect(stat.isDirectory()).toBe(true);
+      await nestedRepository.disconnect();
+    });
+  });
+
+  describe('ensureCollection', () => {
+    it('コレクションが作成され、情報を取得できる', async () => {
+      await repository.ensureCollection(COLLECTION, 3);
+
+      const info = await repository.getCollectionInfo(COLLECTION);
+      expect(info.vectorsCount).toBe(0);
+      expect(info.vectorSize).toBe(3);
+    });
+
+    it('既存コレクションとベクトル次元が異なる場合はエラーになる', async () => {
+      await repository.ensureCollection(COLLECTION, 3);
+
+      await expect(repository.ensureCollection(COLLECTION, 4)).rejects.toThrow(
+        LocalVectorStoreError,
+      );
+    });
+  });
+
+  describe('upsertVectors / searchVectors', () => {
+    beforeEach(async () => {
+      await repository.ensureCollection(COLLECTION, 3);
+      await repository.upsertVectors(COLLECTION, [
+        createPoint('a', [1, 0, 0], { novelId: 'novel-1', fileType: 'content', startLine: 1 }),
+        createPoint('b', [0.9, 0.1, 0], {
+          novelId: 'novel-1',
+          fileType: 'settings',
+          startLine: 10,
+        }),
+        createPoint('c', [0, 1, 0], { novelId: 'novel-2', fileType: 'content', startLine: 20 }),
+      ]);
+    });
+
+    it('コサイン類似度の高い順に結果を返す', async () => {
+      const results = await repository.searchVectors(COLLECTION, [1, 0, 0], 10);
+
+      expect(results.map((r) => r.id)).toEqual(['a', 'b', 'c']);
+      expect(results[0].score).toBeCloseTo(1);
+      expect(results[2].score).toBeCloseTo(0);
+      expect(results[0].payload?.novelId).toBe('novel-1');
+    });
+
+    it('limitとスコア閾値が適用される', async () => {
+      const limited = await repository.searchVectors(COLLECTION, [1, 0, 0], 1);
+      expect(limited.map((r) => r.id)).toEqual(['a']);
+
+      const thresholded = await repository.searchVectors(COLLECTION, [1, 0, 0], 10, 0.5);
+      expect(thresholded.map((r) => r.id)).toEqual(['a', 'b']);
+    });
+
+    it('payloadフィルタが適用される', async () => {
+      const results = await repository.searchVectors(COLLECTION, [1, 0, 0], 10, undefined, {
+        must: [
+          { key: 'novelId', match: { value: 'novel-1' } },
+          { key: 'fileType', match: { value: 'settings' } },
+        ],
+      });
+
+      expect(results.map((r) => r.id)).toEqual(['b']);
+    });
+
+    it('同じIDでのupsertは上書きになる', async () => {
+      await repository.upsertVectors(COLLECTION, [
+        createPoint('c', [1, 0, 0], { novelId: 'novel-2', fileType: 'content' }),
+      ]);
+
+      const info = await repository.getCollectionInfo(COLLECTION);
+      expect(info.vectorsCount).toBe(3);
+      const results = await repository.searchVectors(COLLECTION, [1, 0, 0], 1, undefined, {
+        must: [{ key: 'novelId', match: { value: 'novel-2' } }],
+      });
+      expect(results[0].score).toBeCloseTo(1);
+    });
+
+    it('ベクトル次元が異なる場合はエラーになる', async () => {
+      await expect(
+        repository.upsertVectors(COLLECTION, [createPoint('d', [1, 0])]),
+      ).rejects.toThrow(LocalVectorStoreError);
+      await expect(repository.searchVectors(COLLECTION, [1, 0], 10)).rejects.toThrow(
+        LocalVectorStoreError,
+      );
+    });
+
+    it('存在しないコレクションの検索はエラーになる', async () => {
+      await expect(repository.searchVectors('missing', [1, 0, 0], 10)).rejects.toThrow(
+        LocalVectorStoreError,
+      );
+    });
+  });
+
+  describe('削除', () => {
+    beforeEach(async () => {
+      await repository.ensureCollection(COLLECTION, 2);
+      await repository.upsertVectors(COLLECTION, [
+        createPoint('a', [1, 0], { novelId: 'novel-1', relativeFilePath: 'novel-1/a.md' }),
+        createPoint('b', [0, 1], { novelId: 'novel-1', relativeFilePath: 'novel-1/b.md' }),
+        createPoint('c', [1, 1], { novelId: 'novel-2', relativeFilePath: 'novel-2/c.md' }),
+      ]);
+    });
+
+    it('IDで削除できる', async () => {
+      await repository.deleteVectors(COLLECTION, ['a']);
+
+      const info = await repository.getCollectionInfo(COLLECTION);
+      expect(info.vectorsCount).toBe(2);
+    });
+
+    it('ファイルパスで削除できる', async () => {
+      await repository.deleteVectorsByFilePath(COLLECTION, 'novel-1/b.md');
+
+      const results = await repository.searchVectors(COLLECTION, [0, 1], 10);
+      expect(results.map((r) => r.id)).not.toContain('b');
+    });
+
+    it('フィルタに一致するポイント数を数える', async () => {
+      expect(await repository.countVectors(COLLECTION)).toBe(3);
+      expect(
+        await repository.countVectors(COLLECTION, {
+          must: [{ key: 'novelId', match: { value: 'novel-1' } }],
+        }),
+      ).toBe(2);
+    });
+
+    it('小説IDで削除できる', async () => {
+      await repository.deleteVectorsByNovelId(COLLECTION, 'novel-1');
+
+      const results = await repository.searchVectors(COLLECTION, [1, 1], 10);
+      expect(results.map((r) => r.id)).toEqual(['c']);
+    });
+
+    it('コレクションを削除するとファイルも削除される', async () => {
+      await repository.deleteCollection(COLLECTION);
+
+      await expect(repository.getCollectionInfo(COLLECTION)).rejects.toThrow(LocalVectorStoreError);
+      const files = await fs.readdir(tempDir);
+      expect(files).toEqual([]);
+    });
+  });
+
+  describe('永続化', () => {
+    it('変更はまとめて flush で書き出す', async () => {
+      await repository.ensureCollection(COLLECTION, 3);
+      const filePath = path.join(tempDir, `${COLLECTION}.json`);
+      const readPointIds = async () =>
+        (
+          JSON.parse(await fs.readFile(filePath, 'utf-8')) as { points: Array<{ id: string }> }
+        ).points.map((point) => point.id);
+
+      await repository.upsertVectors(COLLECTION, [createPoint('chunk-1', [0.1, 0.2, 0.3])]);
+      await repository.upsertVectors(COLLECTION, [createPoint('chunk-2', [0.3, 0.2, 0.1])]);
+      expect(await readPointIds()).toEqual([]);
+
+      await repository.flush();
+      expect(await readPointIds()).toEqual(['chunk-1', 'chunk-2']);
+    });
+
+    it('別インスタンスからベクトルとpayloadを読み込める', async () => {
+      await repository.ensureCollection(COLLECTION, 3);
+      await repository.upsertVectors(COLLECTION, [
+        createPoint('chunk-1', [0.1, 0.2, 0.3], { novelId: 'novel-1', tags: ['主人公'] }),
+      ]);
+      await repository.disconnect();
+
+      const reopened = new LocalFileVectorRepository({ directory: tempDir });
+      await reopened.ensureCollection(COLLECTION, 3);
+      const results = await reopened.searchVectors(COLLECTION, [0.1, 0.2, 0.3], 1);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].id).toBe('chunk-1');
+      expect(results[0].score).toBeCloseTo(1, 5);
+      expect(results[0].payload).toEqual({ novelId: 'novel-1', tags: ['主人公'] });
+      await reopened.disconnect();
+    });
+  });
+});
+
+describe('matchesVectorFilter', () => {
+  const payload = { novelId: 'novel-1', fileType: 'content', startLine: 10, tags: ['a', 'b'] };
+
+  it('mustは全ての条件を満たす必要がある', () => {
+    expect(
+      matchesVectorFilter(payload, {
+        must: [
+          { key: 'novelId', match: { value: 'novel-1' } },
+          { key: 'fileType', match: { value: 'content' } },
+        ],
+      }),
+    ).toBe(true);
+    expect(
+      matchesVectorFilter(payload, {
+        must: [
+          { key: 'novelId', match: { value: 'novel-1' } },
+          { key: 'fileType', match: { value: 'settings' } },
+        ],
+      }),
+    ).toBe(false);
+  });
+
+  it('shouldはいずれかの条件を満たせばよい', () => {
+    expect(
+      matchesVectorFilter(payload, {
+        should: [
+          { key: 'fileType', match: { value: 'settings' } },
+          { key: 'fileType', match: { value: 'content' } },
+        ],
+      }),
+    ).toBe(true);
+    expect(
+      matchesVectorFilter(payload, {
+        should: [{ key: 'fileType', match: { value: 'settings' } }],
+      }),
+    ).toBe(false);
+  });
+
+  it('mustNotはいずれの条件も満たしてはならない', () => {
+    expect(
+      matchesVectorFilter(payload, { mustNot: [{ key: 'novelId', match: { value: 'novel-2' } }] }),
+    ).toBe(true);
+    expect(
+      matchesVectorFilter(payload, { mustNot: [{ key: 'novelId', match: { value: 'novel-1' } }] }),
+    ).toBe(false);
+  });
+
+  it('anyOfと配列値のマッチングに対応する', () => {
+    expect(
+      matchesVectorFilter(payload, {
+        must: [{ key: 'fileType', match: { anyOf: ['settings', 'content'] } }],
+      }),
+    ).toBe(true);
+    expect(matchesVectorFilter(payload, { must: [{ key: 'tags', match: { value: 'b' } }] })).toBe(
+      true,
+    );
+    expect(
+      matchesVectorFilter(payload, { must: [{ key: 'tags', match: { anyOf: ['x', 'y'] } }] }),
+    ).toBe(false);
+  });
+
+  it('rangeの境界条件を評価する', () => {
+    expect(
+      matchesVectorFilter(payload, { must: [{ key: 'startLine', match: { range: { gte: 10 } } }] }),
+    ).toBe(true);
+    expect(
+      matchesVectorFilter(payload, { must: [{ key: 'startLine', match: { range: { gt: 10 } } }] }),
+    ).toBe(false);
+    expect(
+      matchesVectorFilter(payload, {
+        must: [{ key: 'startLine', match: { range: { gt: 5, lt: 11 } } }],
+      }),
+    ).toBe(true);
+    expect(
+      matchesVectorFilter(payload, { must: [{ key: 'novelId', match: { range: { gte: 0 } } }] }),
+    ).toBe(false);
+  });
+});
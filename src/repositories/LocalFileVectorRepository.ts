@@ -0,0 +1,602 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { encodeVector, decodeVector } from '../utils/vectorEncoding.js';
+import { getLogger } from '../logging/index.js';
+import { DialogoiError } from '../errors/index.js';
+import type {
+  VectorRepository,
+  VectorPoint,
+  VectorSearchResult,
+  CollectionInfo,
+  VectorFilter,
+  VectorFilterCondition,
+} from './VectorRepository.js';
+
+const logger = getLogger();
+
+/**
+ * ローカルファイルベクトルストアの設定
+ */
+export interface LocalVectorRepositoryConfig {
+  /**
+   * ベクトルデータを保存するディレクトリ（絶対パス）
+   */
+  directory: string;
+}
+
+/**
+ * メモリ上で保持するポイント
+ */
+interface StoredPoint {
+  vector: Float32Array;
+  norm: number;
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * メモリ上で保持するコレクション
+ */
+interface LocalCollection {
+  vectorSize: number;
+  points: Map<string, StoredPoint>;
+}
+
+/**
+ * コレクションファイルのシリアライズ形式
+ */
+interface CollectionFile {
+  version: number;
+  vectorSize: number;
+  points: Array<{
+    id: string;
+    vector: string; // Float32Array を base64 エンコードしたもの
+    payload?: Record<string, unknown>;
+  }>;
+}
+
+const COLLECTION_FILE_VERSION = 1;
+
+/**
+ * 変更からファイルに書き出すまでの待ち時間（連続する変更を1回の書き込みにまとめる）
+ */
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * ベクトルのノルムを計算
+ */
+function vectorNorm(vector: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) {
+    sum += vector[i] * vector[i];
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * payloadの値が単一値条件に一致するか（配列の場合はいずれかの要素が一致すれば真）
+ */
+function valueMatches(actual: unknown, expected: string | number | boolean): boolean {
+  if (Array.isArray(actual)) {
+    return actual.some((item) => item === expected);
+  }
+  return actual === expected;
+}
+
+/**
+ * 単一のフィルタ条件を評価
+ */
+function conditionMatches(
+  payload: Record<string, unknown> | undefined,
+  condition: VectorFilterCondition,
+): boolean {
+  const { key, match } = condition;
+  const actual = payload?.[key];
+
+  if (match.value !== undefined) {
+    return valueMatches(actual, match.value);
+  }
+
+  if (match.anyOf !== undefined) {
+    return match.anyOf.some((expected) => valueMatches(actual, expected));
+  }
+
+  if (match.range !== undefined) {
+    if (typeof actual !== 'number') {
+      return false;
+    }
+    const { gte, gt, lte, lt } = match.range;
+    if (gte !== undefined && !(actual >= gte)) return false;
+    if (gt !== undefined && !(actual > gt)) return false;
+    if (lte !== undefined && !(actual <= lte)) return false;
+    if (lt !== undefined && !(actual < lt)) return false;
+    return true;
+  }
+
+  throw new Error(`Invalid filter condition: ${JSON.stringify(condition)}`);
+}
+
+/**
+ * payloadがVectorFilterを満たすかを判定
+ * Qdrantと同様に must は全て、should は1つ以上、mustNot はいずれも満たさないことを要求する
+ */
+export function matchesVectorFilter(
+  payload: Record<string, unknown> | undefined,
+  filter: VectorFilter,
+): boolean {
+  if (filter.must && !filter.must.every((condition) => conditionMatches(payload, condition))) {
+    return false;
+  }
+
+  if (
+    filter.should &&
+    filter.should.length > 0 &&
+    !filter.should.some((condition) => conditionMatches(payload, condition))
+  ) {
+    return false;
+  }
+
+  if (filter.mustNot && filter.mustNot.some((condition) => conditionMatches(payload, condition))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * ローカルファイルベクトルリポジトリ
+ * Qdrant や Docker を利用できない環境向けに、ベクトルとpayloadをファイルへ永続化し
+ * 総当たりのコサイン類似度検索を提供する
+ * 変更はコレクションごとにまとめて書き出す（flush・disconnect で即時に書き出す）
+ */
+export class LocalFileVectorRepository implements VectorRepository {
+  private connectionState: boolean = false;
+  private collections: Map<string, LocalCollection> = new Map();
+  private writeQueue: Promise<void> = Promise.resolve();
+  private dirtyCollections: Set<string> = new Set();
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly config: LocalVectorRepositoryConfig) {
+    logger.info('LocalFileVectorRepository initialized', { directory: config.directory });
+  }
+
+  /**
+   * 保存先ディレクトリを準備
+   */
+  async connect(): Promise<void> {
+    if (this.connectionState) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(this.config.directory, { recursive: true });
+      this.connectionState = true;
+      logger.info(`Local vector store ready: ${this.config.directory}`);
+    } catch (error) {
+      logger.error('Failed to prepare local vector store', error as Error);
+      throw new LocalVectorStoreError(
+        `Failed to prepare local vector store at ${this.config.directory}: ${(error as Error).message}`,
+        error as Error,
+      );
+    }
+  }
+
+  /**
+   * 書き込み待ちを完了させてからメモリ上のキャッシュを破棄
+   */
+  async disconnect(): Promise<void> {
+    if (this.connectionState) {
+      await this.flush();
+      await this.writeQueue;
+      this.collections.clear();
+      this.connectionState = false;
+      logger.info('Disconnected from local vector store');
+    }
+  }
+
+  /**
+   * 接続状態を確認
+   */
+  isConnected(): boolean {
+    return this.connectionState;
+  }
+
+  /**
+   * コレクションの存在確認と作成
+   */
+  async ensureCollection(collectionName: string, vectorSize: number): Promise<void> {
+    await this.connect();
+
+    const existing = await this.loadCollection(collectionName);
+    if (existing) {
+      if (existing.vectorSize !== vectorSize) {
+        throw new LocalVectorStoreError(
+          `Collection ${collectionName} has vector size ${existing.vectorSize}, expected ${vectorSize}`,
+        );
+      }
+      logger.debug(`Collection already exists: ${collectionName}`);
+      return;
+    }
+
+    logger.info(`Creating local collection: ${collectionName}`);
+    this.collections.set(collectionName, { vectorSize, points: new Map() });
+    await this.persist(collectionName);
+  }
+
+  /**
+   * ベクトルポイントの一括挿入・更新
+   */
+  async upsertVectors(collectionName: string, vectors: VectorPoint[]): Promise<void> {
+    await this.connect();
+
+    if (vectors.length === 0) {
+      logger.debug('No vectors to upsert');
+      return;
+    }
+
+    const collection = await this.requireCollection(collectionName);
+
+    for (const point of vectors) {
+      if (point.vector.length !== collection.vectorSize) {
+        throw new LocalVectorStoreError(
+          `Vector size mismatch for point ${point.id}: expected ${collection.vectorSize}, got ${point.vector.length}`,
+        );
+      }
+    }
+
+    for (const point of vectors) {
+      const vector = Float32Array.from(point.vector);
+      collection.points.set(point.id, {
+        vector,
+        norm: vectorNorm(vector),
+        payload: point.payload,
+      });
+    }
+
+    this.schedulePersist(collectionName);
+    logger.info(`Upserted ${vectors.length} vectors to local collection`, {
+      collection: collectionName,
+      vectorCount: vectors.length,
+    });
+  }
+
+  /**
+   * ベクトル検索（総当たりのコサイン類似度）
+   */
+  async searchVectors(
+    collectionName: string,
+    queryVector: number[],
+    limit: number,
+    scoreThreshold?: number,
+    filter?: VectorFilter,
+  ): Promise<VectorSearchResult[]> {
+    await this.connect();
+
+    const collection = await this.requireCollection(collectionName);
+    if (queryVector.length !== collection.vectorSize) {
+      throw new LocalVectorStoreError(
+        `Query vector size mismatch: expected ${collection.vectorSize}, got ${queryVector.length}`,
+      );
+    }
+
+    const startTime = Date.now();
+    const queryNorm = vectorNorm(queryVector);
+    const results: VectorSearchResult[] = [];
+
+    for (const [id, point] of collection.points) {
+      if (filter && !matchesVectorFilter(point.payload, filter)) {
+        continue;
+      }
+
+      let score = 0;
+      if (queryNorm > 0 && point.norm > 0) {
+        let dot = 0;
+        for (let i = 0; i < queryVector.length; i++) {
+          dot += queryVector[i] * point.vector[i];
+        }
+        score = dot / (queryNorm * point.norm);
+      }
+
+      if (scoreThreshold !== undefined && score < scoreThreshold) {
+        continue;
+      }
+
+      results.push({ id, score, payload: point.payload });
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    const limited = results.slice(0, limit);
+
+    logger.debug(`Local search completed in ${Date.now() - startTime}ms`, {
+      collection: collectionName,
+      candidates: collection.points.size,
+      resultCount: limited.length,
+      limit,
+      scoreThreshold,
+    });
+
+    return limited;
+  }
+
+  /**
+   * 条件に一致するベクトルポイントの数を取得
+   */
+  async countVectors(collectionName: string, filter?: VectorFilter): Promise<number> {
+    await this.connect();
+
+    const collection = await this.requireCollection(collectionName);
+    if (!filter) {
+      return collection.points.size;
+    }
+
+    let count = 0;
+    for (const point of collection.points.values()) {
+      if (matchesVectorFilter(point.payload, filter)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * ベクトルポイントの削除
+   */
+  async deleteVectors(collectionName: string, pointIds: string[]): Promise<void> {
+    await this.connect();
+
+    if (pointIds.length === 0) {
+      logger.debug('No vectors to delete');
+      return;
+    }
+
+    const collection = await this.requireCollection(collectionName);
+    for (const id of pointIds) {
+      collection.points.delete(id);
+    }
+
+    this.schedulePersist(collectionName);
+    logger.info(`Deleted ${pointIds.length} vectors from local collection`, {
+      collection: collectionName,
+    });
+  }
+
+  /**
+   * ファイルパスによるベクトルポイントの削除
+   * @param relativeFilePath プロジェクトルートからの相対パス
+   */
+  async deleteVectorsByFilePath(collectionName: string, relativeFilePath: string): Promise<void> {
+    await this.deleteByPayload(collectionName, 'relativeFilePath', relativeFilePath);
+  }
+
+  /**
+   * 小説IDによるベクトルポイントの削除
+   */
+  async deleteVectorsByNovelId(collectionName: string, novelId: string): Promise<void> {
+    await this.deleteByPayload(collectionName, 'novelId', novelId);
+  }
+
+  /**
+   * コレクションの削除
+   */
+  async deleteCollection(collectionName: string): Promise<void> {
+    await this.connect();
+
+    this.collections.delete(collectionName);
+    this.dirtyCollections.delete(collectionName);
+    await this.enqueueWrite(async () => {
+      await fs.rm(this.getCollectionPath(collectionName), { force: true });
+    });
+    logger.info(`Local collection deleted: ${collectionName}`);
+  }
+
+  /**
+   * コレクション情報の取得
+   */
+  async getCollectionInfo(collectionName: string): Promise<CollectionInfo> {
+    await this.connect();
+
+    const collection = await this.requireCollection(collectionName);
+    return {
+      status: 'green',
+      vectorsCount: collection.points.size,
+      indexedVectorsCount: collection.points.size,
+      vectorSize: collection.vectorSize,
+      path: this.getCollectionPath(collectionName),
+    };
+  }
+
+  /**
+   * 書き込み待ちのコレクションをファイルに書き出す
+   */
+  async flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+
+    const collectionNames = Array.from(this.dirtyCollections);
+    this.dirtyCollections.clear();
+    for (const [index, collectionName] of collectionNames.entries()) {
+      try {
+        await this.persist(collectionName);
+      } catch (error) {
+        // 書き出せなかったコレクションは次回の flush で再試行する
+        for (const name of collectionNames.slice(index)) {
+          this.dirtyCollections.add(name);
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * payloadの値が一致するポイントを削除
+   */
+  private async deleteByPayload(collectionName: string, key: string, value: string): Promise<void> {
+    await this.connect();
+
+    const collection = await this.loadCollection(collectionName);
+    if (!collection) {
+      return;
+    }
+
+    let deleted = 0;
+    for (const [id, point] of collection.points) {
+      if (point.payload?.[key] === value) {
+        collection.points.delete(id);
+        deleted++;
+      }
+    }
+
+    if (deleted > 0) {
+      this.schedulePersist(collectionName);
+    }
+    logger.info(`Deleted ${deleted} vectors by ${key} from local collection`, {
+      collection: collectionName,
+      [key]: value,
+    });
+  }
+
+  /**
+   * コレクションを取得（存在しない場合はエラー）
+   */
+  private async requireCollection(collectionName: string): Promise<LocalCollection> {
+    const collection = await this.loadCollection(collectionName);
+    if (!collection) {
+      throw new LocalVectorStoreError(`Collection not found: ${collectionName}`);
+    }
+    return collection;
+  }
+
+  /**
+   * コレクションをメモリまたはファイルから読み込む
+   */
+  private async loadCollection(collectionName: string): Promise<LocalCollection | null> {
+    const cached = this.collections.get(collectionName);
+    if (cached) {
+      return cached;
+    }
+
+    const filePath = this.getCollectionPath(collectionName);
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw new LocalVectorStoreError(
+        `Failed to read local collection ${collectionName}: ${(error as Error).message}`,
+        error as Error,
+      );
+    }
+
+    try {
+      const data = JSON.parse(raw) as CollectionFile;
+      if (data.version !== COLLECTION_FILE_VERSION) {
+        throw new Error(`Unsupported file version: ${data.version}`);
+      }
+
+      const points = new Map<string, StoredPoint>();
+      for (const point of data.points) {
+        const vector = decodeVector(point.vector);
+        points.set(point.id, { vector, norm: vectorNorm(vector), payload: point.payload });
+      }
+
+      const collection: LocalCollection = { vectorSize: data.vectorSize, points };
+      this.collections.set(collectionName, collection);
+      logger.debug(`Loaded local collection: ${collectionName}`, { points: points.size });
+      return collection;
+    } catch (error) {
+      throw new LocalVectorStoreError(
+        `Failed to parse local collection ${collectionName}: ${(error as Error).message}`,
+        error as Error,
+      );
+    }
+  }
+
+  /**
+   * コレクションの書き出しを予約（PERSIST_DELAY_MS の間の変更は1回の書き込みにまとめる）
+   */
+  private schedulePersist(collectionName: string): void {
+    this.dirtyCollections.add(collectionName);
+    if (this.persistTimer) {
+      return;
+    }
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      // 失敗は enqueueWrite でログに出力済み。書き込み待ちのまま残し、次回の flush で再試行する
+      this.flush().catch(() => undefined);
+    }, PERSIST_DELAY_MS);
+    this.persistTimer.unref();
+  }
+
+  /**
+   * コレクションをファイルに書き出す（一時ファイル経由で置き換える）
+   */
+  private async persist(collectionName: string): Promise<void> {
+    const collection = this.collections.get(collectionName);
+    if (!collection) {
+      return;
+    }
+
+    const data: CollectionFile = {
+      version: COLLECTION_FILE_VERSION,
+      vectorSize: collection.vectorSize,
+      points: Array.from(collection.points, ([id, point]) => ({
+        id,
+        vector: encodeVector(point.vector),
+        payload: point.payload,
+      })),
+    };
+    const serialized = JSON.stringify(data);
+    const filePath = this.getCollectionPath(collectionName);
+
+    await this.enqueueWrite(async () => {
+      const tempPath = `${filePath}.tmp`;
+      await fs.writeFile(tempPath, serialized, 'utf-8');
+      await fs.rename(tempPath, filePath);
+    });
+  }
+
+  /**
+   * ファイル書き込みを直列化する
+   */
+  private async enqueueWrite(task: () => Promise<void>): Promise<void> {
+    const next = this.writeQueue.then(task);
+    // 失敗しても後続の書き込みは継続できるようにする
+    this.writeQueue = next.catch(() => undefined);
+    try {
+      await next;
+    } catch (error) {
+      logger.error('Failed to write local vector store', error as Error);
+      throw new LocalVectorStoreError(
+        `Failed to write local vector store: ${(error as Error).message}`,
+        error as Error,
+      );
+    }
+  }
+
+  /**
+   * コレクションファイルのパスを取得
+   */
+  private getCollectionPath(collectionName: string): string {
+    const safeName = collectionName.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return path.join(this.config.directory, `${safeName}.json`);
+  }
+}
+
+/**
+ * ローカルベクトルストアエラー
+ */
+export class LocalVectorStoreError extends DialogoiError {
+  constructor(message: string, cause?: Error) {
+    super(
+      message,
+      'LOCAL_VECTOR_STORE_ERROR',
+      cause ? { cause: cause.message, stack: cause.stack } : undefined,
+    );
+    this.name = 'LocalVectorStoreError';
+    Object.setPrototypeOf(this, LocalVectorStoreError.prototype);
+  }
+}
@@ -1,4 +1,13 @@
-import { NovelProject } from '../domain/novel.js';
+import {
+  NovelConfigUpdate,
+  NovelProject,
+  NovelProjectInput,
+  ProjectConfigIssue,
+} from '../domain/novel.js';
+import { ProjectTemplate } from '../domain/projectTemplate.js';
+import { FileEditOperation, FileEditResult } from '../domain/fileEdit.js';
+import { FileMoveResult, FileDeleteResult } from '../domain/fileOperation.js';
+import { FileVersion, FileRestoreResult } from '../domain/fileHistory.js';
 
 /**
  * 小説プロジェクトのデータアクセスを抽象化するRepository
@@ -13,9 +22,48 @@ export interface NovelRepository {
    * 指定されたIDの小説プロジェクトを取得
    * @param projectId プロジェクトID
    * @throws ProjectNotFoundError プロジェクトが見つからない場合
+   * @throws InvalidProjectConfigError novel.json が不正で読み込めない場合
    */
   getProject(projectId: string): Promise<NovelProject>;
 
+  /**
+   * novel.json に問題のあるプロジェクト一覧を取得
+   * 読み込めないプロジェクト（errors あり）と、未知のキーなど警告のあるプロジェクトを含む
+   */
+  listProjectConfigIssues(): Promise<ProjectConfigIssue[]>;
+
+  /**
+   * 小説プロジェクトの novel.json を読み込み直す（novel.json の追加・変更・削除を検知した場合）
+   * novel.json が削除された・不正になった場合はプロジェクト一覧から取り除く
+   * @param projectId プロジェクトID
+   * @returns 読み込み直したプロジェクト（一覧から取り除いた場合は null）
+   */
+  refreshProject(projectId: string): Promise<NovelProject | null>;
+
+  /**
+   * 小説プロジェクトを作成（novel.json・設定/本文ディレクトリ・指示ファイルの雛形）
+   * @param projectId プロジェクトID（ディレクトリ名）
+   * @param input プロジェクトの設定
+   * @throws ProjectAlreadyExistsError 同名のディレクトリが既に存在する場合
+   * @throws ProjectTemplateNotFoundError 指定したテンプレートが存在しない場合
+   * @throws InvalidProjectConfigError 設定がスキーマに合わない場合
+   */
+  createProject(projectId: string, input: NovelProjectInput): Promise<NovelProject>;
+
+  /**
+   * プロジェクト作成に使えるテンプレート一覧を取得（組み込み・ユーザーテンプレート）
+   */
+  listProjectTemplates(): Promise<ProjectTemplate[]>;
+
+  /**
+   * novel.json を更新（updatedAt は自動で更新し、追加されたディレクトリは作成する）
+   * novel.json が不正で読み込めないプロジェクトも、更新後の内容が正しければ修正できる
+   * @param projectId プロジェクトID
+   * @param changes 更新するキー
+   * @throws InvalidProjectConfigError 更新後の設定がスキーマに合わない場合
+   */
+  updateProjectConfig(projectId: string, changes: NovelConfigUpdate): Promise<NovelProject>;
+
   /**
    * 設定ファイル一覧をプレビュー付きで取得
    * @param projectId プロジェクトID
@@ -54,6 +102,22 @@ export interface NovelRepository {
    */
   getContentFiles(projectId: string, filename?: string): Promise<string>;
 
+  /**
+   * 本文ファイルを並び順（本文ディレクトリ順・ファイルパス順）に読み込む
+   * @param projectId プロジェクトID
+   * @returns プロジェクトからの相対パスと内容
+   */
+  readContentFiles(projectId: string): Promise<Array<{ filename: string; content: string }>>;
+
+  /**
+   * 書き出したファイルをプロジェクトの exports/ に保存（本文ファイルには触れない）
+   * @param projectId プロジェクトID
+   * @param filename ファイル名（ディレクトリを含まない）
+   * @param data ファイルの内容
+   * @returns プロジェクトからの相対パス
+   */
+  writeExportFile(projectId: string, filename: string, data: Buffer): Promise<string>;
+
   /**
    * 本文ファイル内でキーワード検索
    * @param projectId プロジェクトID
@@ -110,4 +174,71 @@ export interface NovelRepository {
     content: string,
     overwrite?: boolean,
   ): Promise<void>;
+
+  /**
+   * 既存の設定・本文ファイルを部分編集
+   * @param projectId プロジェクトID
+   * @param filename プロジェクトルートからの相対パス（例: "contents/chapter_1.txt"）
+   * @param operation 編集操作
+   * @throws FileEditError 一致件数や行番号が不正な場合
+   */
+  editFile(
+    projectId: string,
+    filename: string,
+    operation: FileEditOperation,
+  ): Promise<FileEditResult>;
+
+  /**
+   * 設定・本文ファイルを同じディレクトリ内でリネーム
+   * @param projectId プロジェクトID
+   * @param filename プロジェクトルートからの相対パス
+   * @param newName 新しいファイル名（.md または .txt）
+   */
+  renameFile(projectId: string, filename: string, newName: string): Promise<FileMoveResult>;
+
+  /**
+   * 設定・本文ファイルを別の設定・本文ディレクトリへ移動
+   * @param projectId プロジェクトID
+   * @param filename プロジェクトルートからの相対パス
+   * @param targetDirectory 移動先ディレクトリ（settingsDirectories / contentDirectories のいずれか）
+   */
+  moveFile(projectId: string, filename: string, targetDirectory: string): Promise<FileMoveResult>;
+
+  /**
+   * 設定・本文ファイルを削除
+   * @param projectId プロジェクトID
+   * @param filename プロジェクトルートからの相対パス
+   * @param useTrash true の場合は完全削除せずプロジェクト内のゴミ箱（.dialogoi/trash）へ移動
+   */
+  deleteFile(projectId: string, filename: string, useTrash?: boolean): Promise<FileDeleteResult>;
+
+  /**
+   * ファイルの履歴（保存済みバージョン一覧）を取得
+   * @param projectId プロジェクトID
+   * @param filename プロジェクトルートからの相対パス
+   * @returns バージョン一覧（古い順）
+   */
+  listFileHistory(projectId: string, filename: string): Promise<FileVersion[]>;
+
+  /**
+   * 指定バージョンのファイル内容を取得
+   * @param projectId プロジェクトID
+   * @param filename プロジェクトルートからの相対パス
+   * @param version バージョン番号（省略時は現在のファイル内容）
+   * @throws FileHistoryError バージョンが存在しない場合
+   */
+  getFileVersionContent(projectId: string, filename: string, version?: number): Promise<string>;
+
+  /**
+   * ファイルを指定バージョンの内容に戻す（削除済みファイルの復元にも対応）
+   * @param projectId プロジェクトID
+   * @param filename プロジェクトルートからの相対パス
+   * @param version 復元するバージョン番号
+   * @throws FileHistoryError バージョンが存在しない場合
+   */
+  restoreFileVersion(
+    projectId: string,
+    filename: string,
+    version: number,
+  ): Promise<FileRestoreResult>;
 }
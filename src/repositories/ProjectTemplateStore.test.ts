@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ProjectTemplateStore } from './ProjectTemplateStore.js';
+import { ProjectTemplateNotFoundError } from '../errors/index.js';
+
+describe('ProjectTemplateStore', () => {
+  let userDirectory: string;
+
+  const writeTemplate = async (id: string, manifest: unknown, files: Record<string, string>) => {
+    const templatePath = path.join(userDirectory, id);
+    await fs.mkdir(templatePath, { recursive: true });
+    await fs.writeFile(path.join(templatePath, 'template.json'), JSON.stringify(manifest));
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(templatePath, file)), { recursive: true });
+      await fs.writeFile(path.join(templatePath, file), content);
+    }
+  };
+
+  beforeEach(async () => {
+    userDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'dialogoi-templates-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(userDirectory, { recursive: true, force: true });
+  });
+
+  it('組み込みテンプレートはディレクトリ構成と雛形ファイルを持つ', async () => {
+    const templates = await new ProjectTemplateStore().list();
+
+    expect(templates.map((template) => template.id)).toEqual([
+      'fantasy_serial',
+      'mystery',
+      'short_story',
+    ]);
+    for (const template of templates) {
+      expect(template.source).toBe('builtin');
+      expect(template.files).toContain('DIALOGOI.md');
+      expect(template.files).not.toContain('template.json');
+      // 雛形ファイルは指示ファイルか、設定・本文ディレクトリのいずれかに置かれている
+      const directories = [...template.settingsDirectories, ...template.contentDirectories];
+      for (const file of template.files.filter((f) => f !== 'DIALOGOI.md')) {
+        expect(directories.some((directory) => file.startsWith(directory + path.sep))).toBe(true);
+      }
+    }
+  });
+
+  it('ユーザーテンプレートを追加し、同じIDの組み込みテンプレートを上書きする', async () => {
+    await writeTemplate(
+      'mystery',
+      { name: '自作ミステリー', settingsDirectories: ['notes'], contentDirectories: ['text'] },
+      { 'notes/memo.md': 'メモ' },
+    );
+    await writeTemplate(
+      'essay',
+      { name: 'エッセイ', settingsDirectories: ['notes'], contentDirectories: ['text'] },
+      {},
+    );
+
+    const templates = await new ProjectTemplateStore({ userDirectory }).list();
+
+    expect(templates.map((template) => [template.id, template.source])).toEqual([
+      ['essay', 'user'],
+      ['fantasy_serial', 'builtin'],
+      ['mystery', 'user'],
+      ['short_story', 'builtin'],
+    ]);
+    expect(templates.find((template) => template.id === 'mystery')).toMatchObject({
+      name: '自作ミステリー',
+      files: [path.join('notes', 'memo.md')],
+    });
+  });
+
+  it('定義ファイルが不正なテンプレートは読み飛ばす', async () => {
+    await writeTemplate('broken', { name: '壊れたテンプレート' }, {});
+
+    const store = new ProjectTemplateStore({ userDirectory, builtinDirectory: userDirectory });
+
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('雛形ファイルの変数を置換する', async () => {
+    await writeTemplate(
+      'simple',
+      { name: 'シンプル', settingsDirectories: ['settings'], contentDirectories: ['contents'] },
+      { 'settings/notes.md': '# {{title}}\n作者: {{ author }}\n{{unknown}}' },
+    );
+    const store = new ProjectTemplateStore({ userDirectory });
+
+    const files = await store.render(await store.get('simple'), {
+      title: '新しい小説',
+      author: '作者名',
+    });
+
+    expect(files).toEqual([
+      {
+        path: path.join('settings', 'notes.md'),
+        content: '# 新しい小説\n作者: 作者名\n{{unknown}}',
+      },
+    ]);
+  });
+
+  it('存在しないテンプレートは利用可能なIDとともにエラーにする', async () => {
+    const error = await new ProjectTemplateStore().get('romance').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ProjectTemplateNotFoundError);
+    expect((error as Error).message).toContain('利用可能: fantasy_serial, mystery, short_story');
+  });
+});
@@ -0,0 +1,152 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import { ProjectTemplate, RenderedTemplateFile } from '../domain/projectTemplate.js';
+import { novelConfigSchema } from '../lib/novelConfigSchema.js';
+import { ProjectTemplateNotFoundError } from '../errors/index.js';
+import { getLogger } from '../logging/index.js';
+
+const logger = getLogger();
+
+/**
+ * 組み込みテンプレートの置き場所（リポジトリ直下の templates/）
+ */
+export const BUILTIN_TEMPLATE_DIRECTORY = fileURLToPath(
+  new URL('../../templates', import.meta.url),
+);
+
+/**
+ * テンプレートの定義ファイル（プロジェクトにはコピーしない）
+ */
+const TEMPLATE_MANIFEST = 'template.json';
+
+const templateManifestSchema = novelConfigSchema
+  .pick({ settingsDirectories: true, contentDirectories: true, instructionFiles: true })
+  .extend({
+    name: z.string().min(1),
+    description: z.string().optional(),
+  });
+
+/**
+ * 小説プロジェクトのテンプレートストア
+ * テンプレートは template.json と雛形ファイルを置いたディレクトリで、
+ * 雛形ファイル内の {{title}} などの変数はプロジェクト作成時に置換する
+ */
+export class ProjectTemplateStore {
+  private readonly builtinDirectory: string;
+  private readonly userDirectory?: string;
+
+  /**
+   * @param options.builtinDirectory 組み込みテンプレートの置き場所
+   * @param options.userDirectory ユーザーテンプレートの置き場所（省略時は組み込みのみ）
+   */
+  constructor(options: { builtinDirectory?: string; userDirectory?: string } = {}) {
+    this.builtinDirectory = options.builtinDirectory ?? BUILTIN_TEMPLATE_DIRECTORY;
+    this.userDirectory = options.userDirectory;
+  }
+
+  /**
+   * 利用可能なテンプレート一覧（ID順）
+   */
+  async list(): Promise<ProjectTemplate[]> {
+    const templates = new Map<string, ProjectTemplate>();
+    for (const template of await this.loadDirectory(this.builtinDirectory, 'builtin')) {
+      templates.set(template.id, template);
+    }
+    if (this.userDirectory) {
+      for (const template of await this.loadDirectory(this.userDirectory, 'user')) {
+        templates.set(template.id, template);
+      }
+    }
+    return [...templates.values()].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * テンプレートを取得
+   * @throws ProjectTemplateNotFoundError テンプレートが存在しない場合
+   */
+  async get(templateId: string): Promise<ProjectTemplate> {
+    const templates = await this.list();
+    const template = templates.find((candidate) => candidate.id === templateId);
+    if (!template) {
+      throw new ProjectTemplateNotFoundError(
+        templateId,
+        templates.map((candidate) => candidate.id),
+      );
+    }
+    return template;
+  }
+
+  /**
+   * 雛形ファイルの変数を置換して返す（未定義の変数はそのまま残す）
+   * @param variables 変数名と値（例: { title: '作品名' }）
+   */
+  async render(
+    template: ProjectTemplate,
+    variables: Record<string, string>,
+  ): Promise<RenderedTemplateFile[]> {
+    const files: RenderedTemplateFile[] = [];
+    for (const file of template.files) {
+      const content = await fs.readFile(path.join(template.path, file), 'utf-8');
+      files.push({
+        path: file,
+        content: content.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+          Object.hasOwn(variables, name) ? variables[name] : match,
+        ),
+      });
+    }
+    return files;
+  }
+
+  private async loadDirectory(
+    directory: string,
+    source: ProjectTemplate['source'],
+  ): Promise<ProjectTemplate[]> {
+    const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+    const templates: ProjectTemplate[] = [];
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) {
+        continue;
+      }
+      const templatePath = path.join(directory, entry.name);
+      try {
+        const manifest = templateManifestSchema.parse(
+          JSON.parse(await fs.readFile(path.join(templatePath, TEMPLATE_MANIFEST), 'utf-8')),
+        );
+        templates.push({
+          id: entry.name,
+          source,
+          path: templatePath,
+          ...manifest,
+          files: await this.listFiles(templatePath),
+        });
+      } catch (error) {
+        logger.warn(`⚠️  テンプレートを読み込めないためスキップしました: ${templatePath}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return templates;
+  }
+
+  /**
+   * テンプレートディレクトリ内のファイル（template.json を除く）を再帰的に列挙
+   * readdir の recursive と Dirent.parentPath は Node.js 20.0 にないため、ディレクトリごとに読み込む
+   */
+  private async listFiles(templatePath: string, directory = ''): Promise<string[]> {
+    const entries = await fs.readdir(path.join(templatePath, directory), { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries) {
+      const file = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.listFiles(templatePath, file)));
+      } else if (entry.isFile() && file !== TEMPLATE_MANIFEST) {
+        files.push(file);
+      }
+    }
+    return files.sort();
+  }
+}
@@ -13,6 +13,7 @@ const mockQdrantClient = {
   delete: vi.fn(),
   deleteCollection: vi.fn(),
   getCollection: vi.fn(),
+  count: vi.fn(),
 };
 
 // モジュールのモック
@@ -423,6 +424,38 @@ describe('QdrantVectorRepository', () => {
     });
   });
 
+  describe('countVectors', () => {
+    beforeEach(async () => {
+      mockQdrantClient.versionInfo.mockResolvedValue({
+        title: 'qdrant',
+        version: '1.0.0',
+      });
+      await repository.connect();
+    });
+
+    it('フィルタに一致するポイント数を正確に数える', async () => {
+      mockQdrantClient.count.mockResolvedValue({ count: 42 });
+
+      const count = await repository.countVectors('test-collection', {
+        must: [{ key: 'novelId', match: { value: 'novel-1' } }],
+      });
+
+      expect(count).toBe(42);
+      expect(mockQdrantClient.count).toHaveBeenCalledWith('test-collection', {
+        filter: { must: [{ key: 'novelId', match: { value: 'novel-1' } }] },
+        exact: true,
+      });
+    });
+
+    it('カウントエラーが適切に処理される', async () => {
+      mockQdrantClient.count.mockRejectedValue(new Error('Count failed'));
+
+      await expect(repository.countVectors('test-collection')).rejects.toThrow(
+        'Failed to count vectors',
+      );
+    });
+  });
+
   describe('getCollectionInfo', () => {
     beforeEach(async () => {
       mockQdrantClient.versionInfo.mockResolvedValue({
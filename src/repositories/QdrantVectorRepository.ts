@@ -315,6 +315,28 @@ export class QdrantVectorRepository implements VectorRepository {
     }
   }
 
+  /**
+   * 条件に一致するベクトルポイントの数を取得
+   */
+  async countVectors(collectionName: string, filter?: VectorFilter): Promise<number> {
+    await this.connect();
+
+    try {
+      const result = await this.client.count(collectionName, {
+        filter: filter ? convertToQdrantFilter(filter) : undefined,
+        exact: true,
+      });
+      return result.count;
+    } catch (error) {
+      logger.error(`Failed to count vectors in collection: ${collectionName}`, error as Error);
+      throw new QdrantCollectionError(
+        `Failed to count vectors in ${collectionName}: ${(error as Error).message}`,
+        collectionName,
+        error as Error,
+      );
+    }
+  }
+
   /**
    * ファイルパスによるベクトルポイントの削除
    * @param relativeFilePath プロジェクトルートからの相対パス
@@ -505,6 +527,11 @@ export class QdrantVectorRepository implements VectorRepository {
       );
     }
   }
+
+  /**
+   * Qdrant は変更を即時に反映するため何もしない
+   */
+  async flush(): Promise<void> {}
 }
 
 /**
@@ -39,6 +39,11 @@ export interface VectorRepository {
     filter?: VectorFilter,
   ): Promise<VectorSearchResult[]>;
 
+  /**
+   * 条件に一致するベクトルポイントの数を取得（フィルタ省略時はコレクション全体）
+   */
+  countVectors(collectionName: string, filter?: VectorFilter): Promise<number>;
+
   /**
    * ベクトルポイントの削除
    */
@@ -64,6 +69,11 @@ export interface VectorRepository {
    * コレクション情報の取得
    */
   getCollectionInfo(collectionName: string): Promise<CollectionInfo>;
+
+  /**
+   * 書き込み待ちの変更を永続化（変更を即時に反映する実装では何もしない）
+   */
+  flush(): Promise<void>;
 }
 
 /**
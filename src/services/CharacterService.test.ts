@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CharacterService } from './CharacterService.js';
+import { NovelRepository } from '../repositories/NovelRepository.js';
+import { CharacterNotFoundError } from '../errors/index.js';
+
+const SETTINGS: Record<string, string> = {
+  'settings/basic.md': `## 登場人物
+
+### 山田太郎（主人公）
+
+- **年齢**: 16歳
+
+### 山田花子
+
+- **年齢**: 14歳
+`,
+  'settings/extra.md': `## 登場人物
+
+### 山田太郎
+
+- **愛称**: タロ
+- **年齢**: 17歳
+- **出身**: 東京
+`,
+};
+
+const CONTENTS: Record<string, string> = {
+  'contents/chapter_2.txt': '# 第2章\n\nタロは山田花子と出かけた。\n',
+  'contents/chapter_10.txt': '# 第10章\n\n山田太郎は一人で旅立った。\n',
+  'contents/chapter_1.txt': '# 第1章\n\n山田花子が登場する。\n',
+};
+
+const mockNovelRepository = {
+  listSettingsFiles: vi.fn(),
+  getSettingsContent: vi.fn(),
+  listContentFiles: vi.fn(),
+  getContentFiles: vi.fn(),
+} as Partial<NovelRepository> as NovelRepository;
+
+describe('CharacterService', () => {
+  let characterService: CharacterService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mockNovelRepository.listSettingsFiles).mockResolvedValue(
+      Object.keys(SETTINGS).map((filename) => ({ filename, preview: '' })),
+    );
+    vi.mocked(mockNovelRepository.getSettingsContent).mockImplementation(
+      async (_novelId: string, filename?: string) => SETTINGS[filename!],
+    );
+    vi.mocked(mockNovelRepository.listContentFiles).mockResolvedValue(
+      Object.keys(CONTENTS).map((filename) => ({ filename, preview: '' })),
+    );
+    vi.mocked(mockNovelRepository.getContentFiles).mockImplementation(
+      async (_novelId: string, filename?: string) => CONTENTS[filename!],
+    );
+    characterService = new CharacterService(mockNovelRepository, {
+      chunk: { maxTokens: 400, overlap: 0.2, splitStrategy: 'japanese' },
+    });
+  });
+
+  it('複数ファイルで定義された登場人物を統合する', async () => {
+    const characters = await characterService.listCharacters('test-novel');
+
+    expect(characters.map((c) => c.name)).toEqual(['山田太郎', '山田花子']);
+    const taro = characters[0];
+    expect(taro.aliases).toEqual(['主人公', 'タロ']);
+    // 先に定義された値を優先する
+    expect(taro.attributes).toEqual({ 年齢: '16歳', 愛称: 'タロ', 出身: '東京' });
+    expect(taro.sourceFiles).toEqual(['settings/basic.md', 'settings/extra.md']);
+  });
+
+  it('名前・別名・部分一致で登場人物を解決できる', async () => {
+    expect((await characterService.getCharacter('test-novel', '山田 太郎')).matchedBy).toBe('name');
+    expect(await characterService.getCharacter('test-novel', 'ﾀﾛ')).toMatchObject({
+      character: { name: '山田太郎' },
+      matchedBy: 'alias',
+    });
+    expect(await characterService.getCharacter('test-novel', '花子')).toMatchObject({
+      character: { name: '山田花子' },
+      matchedBy: 'partial',
+    });
+  });
+
+  it('候補が複数ある部分一致はエラーになり、候補を示す', async () => {
+    await expect(characterService.getCharacter('test-novel', '山田')).rejects.toThrow(
+      CharacterNotFoundError,
+    );
+    await expect(characterService.getCharacter('test-novel', '山田')).rejects.toThrow(
+      '候補: 山田太郎、山田花子',
+    );
+    expect(await characterService.resolveCharacter('test-novel', '存在しない')).toBeNull();
+  });
+
+  it('結果をキャッシュし、ファイル変更で破棄する', async () => {
+    await characterService.listCharacters('test-novel');
+    await characterService.listCharacters('test-novel');
+    expect(mockNovelRepository.listSettingsFiles).toHaveBeenCalledTimes(1);
+
+    characterService.handleFileChange({
+      type: 'change',
+      filePath: '/novels/test-novel/settings/basic.md',
+      novelId: 'test-novel',
+    });
+    await characterService.listCharacters('test-novel');
+    expect(mockNovelRepository.listSettingsFiles).toHaveBeenCalledTimes(2);
+  });
+
+  it('novel.json の変更・削除でキャッシュを破棄する', async () => {
+    await characterService.listCharacters('test-novel');
+
+    characterService.handleProjectChange({
+      type: 'change',
+      novelId: 'test-novel',
+      configPath: '/novels/test-novel/novel.json',
+    });
+    await characterService.listCharacters('test-novel');
+    expect(mockNovelRepository.listSettingsFiles).toHaveBeenCalledTimes(2);
+
+    characterService.handleProjectChange({
+      type: 'unlink',
+      novelId: 'test-novel',
+      configPath: '/novels/test-novel/novel.json',
+    });
+    await characterService.listCharacters('test-novel');
+    expect(mockNovelRepository.listSettingsFiles).toHaveBeenCalledTimes(3);
+  });
+
+  it('構築に失敗した場合は次回に再試行する', async () => {
+    vi.mocked(mockNovelRepository.listSettingsFiles).mockRejectedValueOnce(
+      new Error('読み込み失敗'),
+    );
+
+    await expect(characterService.listCharacters('test-novel')).rejects.toThrow('読み込み失敗');
+    expect(await characterService.listCharacters('test-novel')).toHaveLength(2);
+  });
+
+  describe('getAppearances', () => {
+    it('章・シーンごとの登場回数と初登場・最終登場を返す', async () => {
+      const appearances = await characterService.getAppearances('test-novel', '太郎');
+
+      expect(appearances.character.name).toBe('山田太郎');
+      expect(appearances.totalMentions).toBe(2);
+      // ファイル名の自然順（chapter_2 → chapter_10）
+      expect(appearances.chapters.map((c) => c.filename)).toEqual([
+        'contents/chapter_2.txt',
+        'contents/chapter_10.txt',
+      ]);
+      expect(appearances.firstAppearance).toEqual({
+        filename: 'contents/chapter_2.txt',
+        line: 3,
+        text: 'タロは山田花子と出かけた。',
+      });
+      expect(appearances.lastAppearance?.filename).toBe('contents/chapter_10.txt');
+      expect(appearances.coOccurrences).toEqual([{ name: '山田花子', scenes: 1 }]);
+    });
+
+    it('内容が変わったファイルのみ再集計する', async () => {
+      await characterService.getAppearances('test-novel', '山田太郎');
+      const firstResult = await characterService.getAppearances('test-novel', '山田花子');
+      expect(firstResult.totalMentions).toBe(2);
+
+      CONTENTS['contents/chapter_1.txt'] = '# 第1章\n\n誰もいない。\n';
+      try {
+        const updated = await characterService.getAppearances('test-novel', '山田花子');
+        expect(updated.totalMentions).toBe(1);
+        expect(updated.chapters.map((c) => c.filename)).toEqual(['contents/chapter_2.txt']);
+      } finally {
+        CONTENTS['contents/chapter_1.txt'] = '# 第1章\n\n山田花子が登場する。\n';
+      }
+    });
+  });
+});
@@ -0,0 +1,365 @@
+import crypto from 'crypto';
+import { NovelRepository } from '../repositories/NovelRepository.js';
+import {
+  Character,
+  Place,
+  SettingsEntity,
+  CharacterMatch,
+  CharacterAppearances,
+  ChapterAppearance,
+  AppearanceLocation,
+} from '../domain/character.js';
+import { parseCharacters, parsePlaces, addAliases } from '../lib/characterParser.js';
+import {
+  buildMentionTerms,
+  analyzeSceneMentions,
+  SceneMentions,
+} from '../lib/characterAppearances.js';
+import { MarkdownChunkingStrategy, createSplitStrategy } from '../lib/chunker.js';
+import { DialogoiConfig, getConfig } from '../lib/config.js';
+import { FileChangeEvent, ProjectChangeEvent } from '../lib/fileWatcher.js';
+import { CharacterNotFoundError } from '../errors/index.js';
+import { getLogger } from '../logging/index.js';
+
+/**
+ * 部分一致で解決する際のクエリの最小文字数
+ */
+const MIN_PARTIAL_MATCH_LENGTH = 2;
+
+/**
+ * 設定ファイルから抽出した登場人物・場所
+ */
+interface SettingsRegistry {
+  characters: Character[];
+  places: Place[];
+}
+
+/**
+ * 本文ファイルごとの登場状況の集計結果（内容と登場人物の表記が変わらない限り再利用する）
+ */
+interface FileAppearanceCache {
+  contentHash: string;
+  termsSignature: string;
+  scenes: SceneMentions[];
+}
+
+/**
+ * 設定ファイルから構築した登場人物レジストリを提供するサービス
+ * プロジェクトごとに結果をキャッシュし、ファイル変更時に破棄する
+ */
+export class CharacterService {
+  private readonly novelRepository: NovelRepository;
+  private readonly chunkConfig: DialogoiConfig['chunk'];
+  private readonly chunkingStrategy: MarkdownChunkingStrategy;
+  private registries: Map<string, Promise<SettingsRegistry>> = new Map();
+  private appearanceCaches: Map<string, Map<string, FileAppearanceCache>> = new Map();
+  private readonly logger = getLogger();
+
+  /**
+   * @param novelRepository 小説プロジェクトのRepository
+   * @param options.chunk シーン分割に使うチャンク設定（省略時は現在の設定）
+   */
+  constructor(novelRepository: NovelRepository, options: { chunk?: DialogoiConfig['chunk'] } = {}) {
+    this.novelRepository = novelRepository;
+    this.chunkConfig = options.chunk ?? getConfig().chunk;
+    this.chunkingStrategy = new MarkdownChunkingStrategy(
+      undefined,
+      undefined,
+      createSplitStrategy(this.chunkConfig.splitStrategy),
+    );
+  }
+
+  /**
+   * 登場人物一覧を取得
+   * @param novelId 小説ID
+   * @returns 登場人物（設定ファイルの出現順）
+   */
+  async listCharacters(novelId: string): Promise<Character[]> {
+    return (await this.getRegistry(novelId)).characters;
+  }
+
+  /**
+   * 設定ファイルの「世界設定」「舞台」などのセクションから抽出した場所一覧を取得
+   * @param novelId 小説ID
+   */
+  async listPlaces(novelId: string): Promise<Place[]> {
+    return (await this.getRegistry(novelId)).places;
+  }
+
+  private async getRegistry(novelId: string): Promise<SettingsRegistry> {
+    let registry = this.registries.get(novelId);
+    if (!registry) {
+      registry = this.buildRegistry(novelId);
+      this.registries.set(novelId, registry);
+      // 構築に失敗した場合は次回に再試行する
+      registry.catch(() => {
+        if (this.registries.get(novelId) === registry) {
+          this.registries.delete(novelId);
+        }
+      });
+    }
+    return registry;
+  }
+
+  /**
+   * 名前・別名から登場人物を取得
+   * @throws CharacterNotFoundError 該当する登場人物がいない、または候補が複数ある場合
+   */
+  async getCharacter(novelId: string, nameOrAlias: string): Promise<CharacterMatch> {
+    const characters = await this.listCharacters(novelId);
+    const match = this.findCharacter(characters, nameOrAlias);
+    if (match) {
+      return match;
+    }
+
+    const candidates = this.findPartialCandidates(characters, nameOrAlias).map((c) => c.name);
+    throw new CharacterNotFoundError(novelId, nameOrAlias, candidates);
+  }
+
+  /**
+   * 名前・別名から正式な登場人物を解決（見つからない場合は null）
+   */
+  async resolveCharacter(novelId: string, nameOrAlias: string): Promise<CharacterMatch | null> {
+    const characters = await this.listCharacters(novelId);
+    return this.findCharacter(characters, nameOrAlias);
+  }
+
+  /**
+   * 本文全体での登場状況（章・シーンごとの登場回数、初登場・最終登場、共起）を取得
+   * 本文ファイルごとの集計は内容が変わったファイルのみ再計算する
+   * @throws CharacterNotFoundError 該当する登場人物がいない場合
+   */
+  async getAppearances(novelId: string, nameOrAlias: string): Promise<CharacterAppearances> {
+    const { character } = await this.getCharacter(novelId, nameOrAlias);
+    const characters = await this.listCharacters(novelId);
+    const sceneMentionsByFile = await this.collectSceneMentions(novelId, characters);
+
+    const chapters: ChapterAppearance[] = [];
+    const coOccurrences = new Map<string, number>();
+    let firstAppearance: AppearanceLocation | undefined;
+    let lastAppearance: AppearanceLocation | undefined;
+
+    for (const [filename, scenes] of sceneMentionsByFile) {
+      const chapter: ChapterAppearance = { filename, mentions: 0, scenes: [] };
+      for (const scene of scenes) {
+        const stats = scene.mentions[character.name];
+        if (!stats) {
+          continue;
+        }
+
+        chapter.mentions += stats.count;
+        chapter.scenes.push({
+          sceneIndex: scene.sceneIndex,
+          title: scene.title,
+          startLine: scene.startLine,
+          endLine: scene.endLine,
+          mentions: stats.count,
+        });
+        firstAppearance ??= { filename, line: stats.firstLine, text: stats.firstText };
+        lastAppearance = { filename, line: stats.lastLine, text: stats.lastText };
+
+        for (const other of Object.keys(scene.mentions)) {
+          if (other !== character.name) {
+            coOccurrences.set(other, (coOccurrences.get(other) ?? 0) + 1);
+          }
+        }
+      }
+      if (chapter.mentions > 0) {
+        chapters.push(chapter);
+      }
+    }
+
+    return {
+      character,
+      totalMentions: chapters.reduce((sum, chapter) => sum + chapter.mentions, 0),
+      chapters,
+      firstAppearance,
+      lastAppearance,
+      coOccurrences: [...coOccurrences.entries()]
+        .map(([name, scenes]) => ({ name, scenes }))
+        .sort((a, b) => b.scenes - a.scenes),
+    };
+  }
+
+  /**
+   * キャッシュを破棄
+   * @param novelId 小説ID（省略時は全プロジェクト）
+   */
+  invalidate(novelId?: string): void {
+    if (novelId) {
+      this.registries.delete(novelId);
+    } else {
+      this.registries.clear();
+    }
+  }
+
+  /**
+   * ファイル監視のイベントを受けてキャッシュを破棄
+   */
+  handleFileChange(event: FileChangeEvent): void {
+    if (this.registries.has(event.novelId)) {
+      this.logger.debug('登場人物レジストリを破棄します', {
+        novelId: event.novelId,
+        filePath: event.filePath,
+        type: event.type,
+      });
+      this.invalidate(event.novelId);
+    }
+  }
+
+  /**
+   * novel.json の追加・変更・削除を受けてキャッシュを破棄
+   * settingsDirectories の変更や同じIDでの作り直しに追従するため、レジストリは常に破棄する
+   */
+  handleProjectChange(event: ProjectChangeEvent): void {
+    this.logger.debug('小説プロジェクトの変更により登場人物レジストリを破棄します', {
+      novelId: event.novelId,
+      type: event.type,
+    });
+    this.invalidate(event.novelId);
+    if (event.type === 'unlink') {
+      this.appearanceCaches.delete(event.novelId);
+    }
+  }
+
+  /**
+   * 本文ファイルごとのシーン別言及状況を取得（ファイル名の自然順）
+   */
+  private async collectSceneMentions(
+    novelId: string,
+    characters: Character[],
+  ): Promise<Array<[string, SceneMentions[]]>> {
+    const terms = buildMentionTerms(characters);
+    const termsSignature = hashText(JSON.stringify([...terms.entries()]));
+    const files = await this.novelRepository.listContentFiles(novelId);
+    const filenames = files
+      .map((file) => file.filename)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+    const previous = this.appearanceCaches.get(novelId) ?? new Map<string, FileAppearanceCache>();
+    const cache = new Map<string, FileAppearanceCache>();
+    const result: Array<[string, SceneMentions[]]> = [];
+    let recomputed = 0;
+
+    for (const filename of filenames) {
+      const content = await this.novelRepository.getContentFiles(novelId, filename);
+      const contentHash = hashText(content);
+      let entry = previous.get(filename);
+
+      if (!entry || entry.contentHash !== contentHash || entry.termsSignature !== termsSignature) {
+        const chunks = this.chunkingStrategy.chunk(
+          content,
+          filename,
+          this.chunkConfig.maxTokens,
+          this.chunkConfig.overlap,
+          novelId,
+          'content',
+        );
+        entry = {
+          contentHash,
+          termsSignature,
+          scenes: analyzeSceneMentions(content, chunks, terms),
+        };
+        recomputed++;
+      }
+
+      // 削除されたファイルの集計はここで破棄される
+      cache.set(filename, entry);
+      result.push([filename, entry.scenes]);
+    }
+
+    this.appearanceCaches.set(novelId, cache);
+    this.logger.debug('登場状況を集計しました', {
+      novelId,
+      fileCount: filenames.length,
+      recomputed,
+    });
+    return result;
+  }
+
+  /**
+   * 設定ファイルを読み込んで登場人物を抽出し、同名の登場人物をまとめる
+   */
+  private async buildRegistry(novelId: string): Promise<SettingsRegistry> {
+    const files = await this.novelRepository.listSettingsFiles(novelId);
+    const characters = new Map<string, Character>();
+    const places = new Map<string, Place>();
+
+    for (const { filename } of files) {
+      const content = await this.novelRepository.getSettingsContent(novelId, filename);
+      parseCharacters(content, filename).forEach((c) => mergeEntity(characters, c));
+      parsePlaces(content, filename).forEach((p) => mergeEntity(places, p));
+    }
+
+    const registry = { characters: [...characters.values()], places: [...places.values()] };
+    this.logger.debug('登場人物レジストリを構築しました', {
+      novelId,
+      fileCount: files.length,
+      characterCount: registry.characters.length,
+      placeCount: registry.places.length,
+    });
+    return registry;
+  }
+
+  private findCharacter(characters: Character[], nameOrAlias: string): CharacterMatch | null {
+    const query = normalizeName(nameOrAlias);
+    if (!query) {
+      return null;
+    }
+
+    const byName = characters.find((c) => normalizeName(c.name) === query);
+    if (byName) {
+      return { character: byName, matchedBy: 'name' };
+    }
+
+    const byAlias = characters.find((c) => c.aliases.some((a) => normalizeName(a) === query));
+    if (byAlias) {
+      return { character: byAlias, matchedBy: 'alias' };
+    }
+
+    // 「太郎」→「山田太郎」のような部分一致は候補が1人に絞れる場合のみ採用
+    const candidates = this.findPartialCandidates(characters, nameOrAlias);
+    if (candidates.length === 1) {
+      return { character: candidates[0], matchedBy: 'partial' };
+    }
+    return null;
+  }
+
+  private findPartialCandidates(characters: Character[], nameOrAlias: string): Character[] {
+    const query = normalizeName(nameOrAlias);
+    if (query.length < MIN_PARTIAL_MATCH_LENGTH) {
+      return [];
+    }
+    return characters.filter((c) =>
+      [c.name, ...c.aliases].some((n) => normalizeName(n).includes(query)),
+    );
+  }
+}
+
+/**
+ * 同名の項目を統合して登録
+ * 複数ファイルで定義された項目は属性を統合する（先に定義された値を優先）
+ */
+function mergeEntity(entities: Map<string, SettingsEntity>, entity: SettingsEntity): void {
+  const key = normalizeName(entity.name);
+  const existing = entities.get(key);
+  if (!existing) {
+    entities.set(key, entity);
+    return;
+  }
+  addAliases(existing, entity.aliases);
+  existing.attributes = { ...entity.attributes, ...existing.attributes };
+  existing.description = [existing.description, entity.description].filter(Boolean).join('\n\n');
+  existing.sourceFiles.push(...entity.sourceFiles);
+}
+
+function hashText(text: string): string {
+  return crypto.createHash('md5').update(text, 'utf8').digest('hex');
+}
+
+/**
+ * 比較用に名前を正規化（全角・半角の統一、空白除去、小文字化）
+ */
+function normalizeName(name: string): string {
+  return name.normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+}
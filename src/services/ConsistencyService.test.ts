@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ConsistencyService } from './ConsistencyService.js';
+import { CharacterService } from './CharacterService.js';
+import { NovelRepository } from '../repositories/NovelRepository.js';
+import { SearchService } from './SearchService.js';
+import { ConsistencyCheckError, SearchExecutionError } from '../errors/index.js';
+
+const SETTINGS: Record<string, string> = {
+  'settings/characters.md': `## 登場人物
+
+### リリア（ヒロイン）
+
+- **年齢**: 16歳
+- **瞳**: 碧
+- 王立魔法学院の首席。
+
+### 山田太郎（主人公）
+
+- **年齢**: 17歳
+`,
+  'settings/world.md': `## 世界設定
+
+### 王立魔法学院
+
+- 王都にある魔法学校。
+`,
+};
+
+const CONTENTS: Record<string, string> = {
+  'contents/chapter_1.txt': `# 第1章
+
+リリアは十七歳になったばかりだ。
+リリアの青い瞳が揺れた。
+山田太郎は17歳の少年だった。
+王立魔法学院の次席であるリリアは微笑んだ。
+`,
+};
+
+const mockNovelRepository = {
+  listSettingsFiles: vi.fn(),
+  getSettingsContent: vi.fn(),
+  listContentFiles: vi.fn(),
+  getContentFiles: vi.fn(),
+} as Partial<NovelRepository> as NovelRepository;
+
+const mockSearchService = {
+  searchRag: vi.fn(),
+} as Partial<SearchService> as SearchService;
+
+describe('ConsistencyService', () => {
+  let consistencyService: ConsistencyService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mockNovelRepository.listSettingsFiles).mockResolvedValue(
+      Object.keys(SETTINGS).map((filename) => ({ filename, preview: '' })),
+    );
+    vi.mocked(mockNovelRepository.getSettingsContent).mockImplementation(
+      async (_novelId: string, filename?: string) => SETTINGS[filename!],
+    );
+    vi.mocked(mockNovelRepository.getContentFiles).mockImplementation(
+      async (_novelId: string, filename?: string) => CONTENTS[filename!],
+    );
+    // リリアの節（0 始まりで 2-8 行目）を返す
+    vi.mocked(mockSearchService.searchRag).mockResolvedValue([
+      {
+        id: 'chunk-1',
+        score: 0.9,
+        snippet: '',
+        payload: { file: 'test-novel/settings/characters.md', start: 2, end: 8 },
+      },
+    ]);
+
+    const characterService = new CharacterService(mockNovelRepository, {
+      chunk: { maxTokens: 400, overlap: 0.2, splitStrategy: 'japanese' },
+    });
+    consistencyService = new ConsistencyService(
+      mockNovelRepository,
+      mockSearchService,
+      characterService,
+    );
+  });
+
+  it('ベクトル検索で取得した設定と食い違う記述を報告する', async () => {
+    const report = await consistencyService.checkConsistency(
+      'test-novel',
+      'contents/chapter_1.txt',
+    );
+
+    expect(report.settingsSource).toBe('vector');
+    expect(report.entities).toEqual(['リリア', '山田太郎', '王立魔法学院']);
+    expect(mockSearchService.searchRag).toHaveBeenCalledWith(
+      'test-novel',
+      expect.stringContaining('リリア'),
+      { k: 5, fileType: 'settings' },
+    );
+
+    const summary = report.issues.map((issue) => [
+      issue.entity,
+      issue.attribute,
+      issue.manuscript.value,
+      issue.manuscript.line,
+      issue.settings.map((fact) => `${fact.filename}:${fact.line}=${fact.value}`),
+    ]);
+    expect(summary).toEqual([
+      ['リリア', 'age', '17歳', 3, ['settings/characters.md:5=16歳']],
+      ['リリア', 'eyeColor', '青', 4, ['settings/characters.md:6=碧']],
+      ['リリア', 'title', '次席', 6, ['settings/characters.md:7=首席']],
+    ]);
+  });
+
+  it('行範囲を指定してチェックできる', async () => {
+    const report = await consistencyService.checkConsistency(
+      'test-novel',
+      'contents/chapter_1.txt',
+      5,
+      5,
+    );
+
+    expect(report.startLine).toBe(5);
+    expect(report.endLine).toBe(5);
+    expect(report.entities).toEqual(['山田太郎']);
+    // 検索結果に山田太郎の設定が含まれないため比較対象がない
+    expect(report.issues).toEqual([]);
+  });
+
+  it('ベクトル検索が利用できない場合は設定ファイルを走査する', async () => {
+    vi.mocked(mockSearchService.searchRag).mockRejectedValue(
+      new SearchExecutionError('リリア', 'Qdrant に接続できません'),
+    );
+
+    const report = await consistencyService.checkConsistency(
+      'test-novel',
+      'contents/chapter_1.txt',
+    );
+
+    expect(report.settingsSource).toBe('scan');
+    // 山田太郎は設定と一致しているため報告しない
+    expect(report.issues.map((issue) => [issue.entity, issue.attribute])).toEqual([
+      ['リリア', 'age'],
+      ['リリア', 'eyeColor'],
+      ['リリア', 'title'],
+    ]);
+  });
+
+  it('範囲外の行番号はエラーになる', async () => {
+    await expect(
+      consistencyService.checkConsistency('test-novel', 'contents/chapter_1.txt', 3, 100),
+    ).rejects.toThrow(ConsistencyCheckError);
+  });
+});
@@ -0,0 +1,290 @@
+import { NovelRepository } from '../repositories/NovelRepository.js';
+import { SearchService } from './SearchService.js';
+import { CharacterService } from './CharacterService.js';
+import {
+  AttributeFact,
+  ConsistencyIssue,
+  ConsistencyReport,
+  FactAttribute,
+} from '../domain/consistency.js';
+import { buildMentionTerms } from '../lib/characterAppearances.js';
+import { extractAttributeFacts, FactExtractionContext } from '../lib/factExtractor.js';
+import { ConsistencyCheckError } from '../errors/index.js';
+import { getLogger } from '../logging/index.js';
+
+/**
+ * 1項目あたりに取得する設定チャンク数
+ */
+const SETTINGS_SEARCH_K = 5;
+
+/**
+ * 設定検索のクエリに添える属性ごとの語
+ */
+const ATTRIBUTE_QUERY_WORDS: Record<FactAttribute, string> = {
+  age: '年齢',
+  eyeColor: '瞳の色',
+  hairColor: '髪の色',
+  title: '役職 肩書き',
+  relationship: '関係',
+};
+
+const HEADING_PATTERN = /^#{1,6}\s+(.+)$/;
+
+/**
+ * 登場人物・場所の表記と、そのうち場所である項目
+ */
+type EntityTerms = Pick<FactExtractionContext, 'terms' | 'places'>;
+
+/**
+ * 本文の記述と設定ファイルの食い違いを検出するサービス
+ * 本文から登場人物・場所の属性の記述をルールベースで抽出し、
+ * 設定ファイル側の記述（ベクトル検索で取得）と比較する
+ */
+export class ConsistencyService {
+  private readonly novelRepository: NovelRepository;
+  private readonly searchService: SearchService;
+  private readonly characterService: CharacterService;
+  private readonly logger = getLogger();
+
+  constructor(
+    novelRepository: NovelRepository,
+    searchService: SearchService,
+    characterService: CharacterService,
+  ) {
+    this.novelRepository = novelRepository;
+    this.searchService = searchService;
+    this.characterService = characterService;
+  }
+
+  /**
+   * 本文ファイル（または行範囲）の整合性をチェック
+   * @param novelId 小説ID
+   * @param filename 本文ファイル（プロジェクトルートからの相対パス）
+   * @param startLine 開始行（1 始まり、省略時は先頭）
+   * @param endLine 終了行（1 始まり、省略時は末尾）
+   */
+  async checkConsistency(
+    novelId: string,
+    filename: string,
+    startLine?: number,
+    endLine?: number,
+  ): Promise<ConsistencyReport> {
+    const content = await this.novelRepository.getContentFiles(novelId, filename);
+    const lines = content.split(/\r?\n/);
+    const start = startLine ?? 1;
+    const end = endLine ?? lines.length;
+    if (start < 1 || end > lines.length || start > end) {
+      throw new ConsistencyCheckError(
+        filename,
+        `行範囲は 1 から ${lines.length} の範囲で指定してください`,
+        { startLine: start, endLine: end },
+      );
+    }
+
+    const [characters, places] = await Promise.all([
+      this.characterService.listCharacters(novelId),
+      this.characterService.listPlaces(novelId),
+    ]);
+    const terms = new Map(
+      [...buildMentionTerms([...characters, ...places])].map(([term, names]) => [term, names[0]]),
+    );
+    const entityTerms: EntityTerms = { terms, places: new Set(places.map((place) => place.name)) };
+
+    const entities = new Set<string>();
+    const manuscriptFacts: AttributeFact[] = [];
+    for (let index = start - 1; index < end; index++) {
+      const line = lines[index];
+      for (const [term, name] of terms) {
+        if (line.includes(term)) entities.add(name);
+      }
+      manuscriptFacts.push(...extractAttributeFacts(line, index + 1, { filename, ...entityTerms }));
+    }
+
+    const { facts: settingsFacts, source } = await this.collectSettingsFacts(
+      novelId,
+      manuscriptFacts,
+      entityTerms,
+    );
+    const issues = this.compareFacts(manuscriptFacts, settingsFacts);
+
+    this.logger.debug('整合性チェック完了', {
+      novelId,
+      filename,
+      startLine: start,
+      endLine: end,
+      manuscriptFacts: manuscriptFacts.length,
+      settingsFacts: settingsFacts.length,
+      issues: issues.length,
+    });
+
+    return {
+      filename,
+      startLine: start,
+      endLine: end,
+      entities: [...entities],
+      settingsSource: source,
+      issues,
+    };
+  }
+
+  /**
+   * 本文で言及された属性に関する設定側の記述を収集
+   * ベクトル検索が利用できない場合は設定ファイル全体を走査する
+   */
+  private async collectSettingsFacts(
+    novelId: string,
+    manuscriptFacts: AttributeFact[],
+    entityTerms: EntityTerms,
+  ): Promise<{ facts: AttributeFact[]; source: 'vector' | 'scan' }> {
+    const queries = new Map<string, Set<FactAttribute>>();
+    for (const fact of manuscriptFacts) {
+      const attributes = queries.get(fact.entity) ?? new Set<FactAttribute>();
+      attributes.add(fact.attribute);
+      queries.set(fact.entity, attributes);
+    }
+    if (queries.size === 0) {
+      return { facts: [], source: 'vector' };
+    }
+
+    const fileCache = new Map<string, string[]>();
+    const readLines = async (filename: string): Promise<string[]> => {
+      let lines = fileCache.get(filename);
+      if (!lines) {
+        const content = await this.novelRepository.getSettingsContent(novelId, filename);
+        lines = content.split(/\r?\n/);
+        fileCache.set(filename, lines);
+      }
+      return lines;
+    };
+
+    try {
+      const ranges = new Map<string, { filename: string; start: number; end: number }>();
+      for (const [entity, attributes] of queries) {
+        const query = [entity, ...[...attributes].map((a) => ATTRIBUTE_QUERY_WORDS[a])].join(' ');
+        const results = await this.searchService.searchRag(novelId, query, {
+          k: SETTINGS_SEARCH_K,
+          fileType: 'settings',
+        });
+        for (const result of results) {
+          // payload.file は projectRoot からの相対パス（先頭が小説IDのディレクトリ）
+          const filename = result.payload.file.split(/[\\/]/).slice(1).join('/');
+          const key = `${filename}:${result.payload.start}-${result.payload.end}`;
+          ranges.set(key, { filename, start: result.payload.start, end: result.payload.end });
+        }
+      }
+
+      const facts: AttributeFact[] = [];
+      for (const { filename, start, end } of ranges.values()) {
+        const lines = await readLines(filename);
+        facts.push(...this.extractSettingsFacts(filename, lines, start, end, entityTerms));
+      }
+      return { facts, source: 'vector' };
+    } catch (error) {
+      this.logger.warn('設定のベクトル検索に失敗したため、設定ファイルを走査します', {
+        novelId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const facts: AttributeFact[] = [];
+    const files = await this.novelRepository.listSettingsFiles(novelId);
+    for (const { filename } of files) {
+      const lines = await readLines(filename);
+      facts.push(...this.extractSettingsFacts(filename, lines, 0, lines.length - 1, entityTerms));
+    }
+    return { facts, source: 'scan' };
+  }
+
+  /**
+   * 設定ファイルの行範囲（0 始まり）から属性の記述を抽出
+   * 見出しで言及された項目を、その見出し配下の記述の主語とする
+   */
+  private extractSettingsFacts(
+    filename: string,
+    lines: string[],
+    start: number,
+    end: number,
+    entityTerms: EntityTerms,
+  ): AttributeFact[] {
+    const { terms } = entityTerms;
+    let subject = this.findSubjectHeading(lines, start, terms);
+    const facts: AttributeFact[] = [];
+
+    for (let index = start; index <= end && index < lines.length; index++) {
+      const heading = lines[index].match(HEADING_PATTERN);
+      if (heading) {
+        subject = findTerm(heading[1], terms);
+        continue;
+      }
+      facts.push(
+        ...extractAttributeFacts(lines[index], index + 1, {
+          filename,
+          ...entityTerms,
+          subject,
+        }),
+      );
+    }
+    return facts;
+  }
+
+  /**
+   * 指定行より前の直近の見出しから主語を取得
+   */
+  private findSubjectHeading(
+    lines: string[],
+    start: number,
+    terms: Map<string, string>,
+  ): string | undefined {
+    for (let index = Math.min(start, lines.length - 1); index >= 0; index--) {
+      const heading = lines[index].match(HEADING_PATTERN);
+      if (heading) {
+        return findTerm(heading[1], terms);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 本文の記述のうち、同じ項目・属性・比較単位の設定がありながら値が異なるものを抽出
+   */
+  private compareFacts(
+    manuscriptFacts: AttributeFact[],
+    settingsFacts: AttributeFact[],
+  ): ConsistencyIssue[] {
+    const keyOf = (fact: AttributeFact) =>
+      `${fact.entity}\u0000${fact.attribute}\u0000${fact.qualifier ?? ''}`;
+
+    const settingsByKey = new Map<string, AttributeFact[]>();
+    for (const fact of settingsFacts) {
+      const list = settingsByKey.get(keyOf(fact)) ?? [];
+      const duplicate = list.some(
+        (f) => f.filename === fact.filename && f.line === fact.line && f.value === fact.value,
+      );
+      if (!duplicate) list.push(fact);
+      settingsByKey.set(keyOf(fact), list);
+    }
+
+    const issues: ConsistencyIssue[] = [];
+    for (const fact of manuscriptFacts) {
+      const candidates = settingsByKey.get(keyOf(fact)) ?? [];
+      if (candidates.length === 0 || candidates.some((c) => c.value === fact.value)) {
+        continue;
+      }
+      issues.push({
+        entity: fact.entity,
+        attribute: fact.attribute,
+        manuscript: fact,
+        settings: candidates,
+      });
+    }
+    return issues;
+  }
+}
+
+/**
+ * テキストに含まれる最も長い表記の正式名を取得
+ */
+function findTerm(text: string, terms: Map<string, string>): string | undefined {
+  const term = [...terms.keys()].sort((a, b) => b.length - a.length).find((t) => text.includes(t));
+  return term ? terms.get(term) : undefined;
+}
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { DiagnosticsService } from './DiagnosticsService.js';
+import { DialogoiConfig } from '../lib/config.js';
+import { IndexerManager } from '../lib/indexerManager.js';
+import { DockerManager } from '../lib/dockerManager.js';
+import { QdrantVectorRepository } from '../repositories/QdrantVectorRepository.js';
+
+const transformersEnv = vi.hoisted(() => ({ cacheDir: '' }));
+
+vi.mock('@huggingface/transformers', () => ({ env: transformersEnv }));
+vi.mock('../lib/dockerManager.js', () => ({
+  DockerManager: vi.fn().mockImplementation(() => ({
+    getDockerVersion: vi.fn(async () => '27.0.3'),
+  })),
+}));
+
+describe('DiagnosticsService', () => {
+  let projectRoot: string;
+  let config: DialogoiConfig;
+  let indexerManager: IndexerManager;
+
+  const writeProject = async (id: string, novelConfig: unknown, directories: string[] = []) => {
+    const projectPath = path.join(projectRoot, id);
+    await fs.mkdir(projectPath, { recursive: true });
+    await fs.writeFile(path.join(projectPath, 'novel.json'), JSON.stringify(novelConfig));
+    for (const directory of directories) {
+      await fs.mkdir(path.join(projectPath, directory), { recursive: true });
+    }
+  };
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'dialogoi-diagnostics-'));
+    transformersEnv.cacheDir = path.join(projectRoot, '.models');
+    await fs.mkdir(path.join(transformersEnv.cacheDir, 'intfloat/multilingual-e5-small'), {
+      recursive: true,
+    });
+    await fs.writeFile(
+      path.join(transformersEnv.cacheDir, 'intfloat/multilingual-e5-small', 'config.json'),
+      '{}',
+    );
+    await writeProject(
+      'novel-1',
+      { title: '小説1', settingsDirectories: ['settings'], contentDirectories: ['contents'] },
+      ['settings', 'contents'],
+    );
+
+    config = {
+      projectRoot,
+      chunk: { maxTokens: 400, overlap: 0.2, splitStrategy: 'japanese' },
+      embedding: {
+        enabled: true,
+        model: 'intfloat/multilingual-e5-small',
+        dimensions: 384,
+        batchSize: 32,
+      },
+      qdrant: { docker: { enabled: true } },
+      vector: {
+        backend: 'qdrant',
+        collectionName: 'dialogoi-chunks',
+        scoreThreshold: 0.7,
+        vectorDimensions: 384,
+      },
+      search: { defaultK: 10, maxK: 50 },
+    } as DialogoiConfig;
+    indexerManager = {
+      initializeQdrant: vi.fn(async () => ({ success: true, mode: 'explicit' as const })),
+      isFileWatching: vi.fn(() => true),
+    } as Partial<IndexerManager> as IndexerManager;
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectRoot, { recursive: true, force: true });
+  });
+
+  const run = (options?: { checkFileWatcher?: boolean }) =>
+    new DiagnosticsService(config, indexerManager).run(options);
+
+  it('問題がない場合はすべての項目が pass になる', async () => {
+    const report = await run({ checkFileWatcher: true });
+
+    expect(report.status).toBe('pass');
+    expect(report.checks.map((check) => [check.id, check.status])).toEqual([
+      ['config', 'pass'],
+      ['project-root', 'pass'],
+      ['projects', 'pass'],
+      ['directories', 'pass'],
+      ['docker', 'pass'],
+      ['vector-backend', 'pass'],
+      ['qdrant-collection', 'pass'],
+      ['embedding-model', 'pass'],
+      ['file-watcher', 'pass'],
+    ]);
+  });
+
+  it('設定値の不整合は fail になる', async () => {
+    config.vector.vectorDimensions = 768;
+
+    const report = await run();
+
+    expect(report.checks.find((c) => c.id === 'config')).toMatchObject({
+      status: 'fail',
+      message: expect.stringContaining('vector.vectorDimensions'),
+    });
+  });
+
+  it('プロジェクトルートが存在しない場合は fail と対処方法を返す', async () => {
+    config.projectRoot = path.join(projectRoot, 'missing');
+
+    const report = await run();
+
+    const check = report.checks.find((c) => c.id === 'project-root');
+    expect(report.status).toBe('fail');
+    expect(check?.status).toBe('fail');
+    expect(check?.hint).toContain('projectRoot');
+  });
+
+  it('スキーマに合わない novel.json をフィールド単位で報告する', async () => {
+    await writeProject('broken', { title: 1, settingsDirectories: [] });
+    const invalidJsonPath = path.join(projectRoot, 'invalid-json');
+    await fs.mkdir(invalidJsonPath);
+    await fs.writeFile(path.join(invalidJsonPath, 'novel.json'), '{ title: ');
+
+    const report = await run();
+
+    const check = report.checks.find((c) => c.id === 'projects');
+    expect(check?.status).toBe('fail');
+    expect(check?.message).toContain('broken/novel.json: title:');
+    expect(check?.message).toContain('contentDirectories: 必須です');
+    expect(check?.message).toContain('invalid-json/novel.json: JSON として読み込めません');
+    expect(check?.message).not.toContain('novel-1');
+  });
+
+  it('novel.json に指定されたディレクトリが存在しない場合は warn になる', async () => {
+    await writeProject('novel-2', {
+      title: '小説2',
+      settingsDirectories: ['settings'],
+      contentDirectories: ['contents'],
+      instructionFiles: ['DIALOGOI.md'],
+    });
+
+    const report = await run();
+
+    expect(report.checks.find((c) => c.id === 'directories')).toMatchObject({
+      status: 'warn',
+      message: expect.stringContaining('novel-2/settings, novel-2/contents, novel-2/DIALOGOI.md'),
+    });
+  });
+
+  it('Docker に接続できない場合は warn になる', async () => {
+    vi.mocked(DockerManager).mockImplementationOnce(
+      () =>
+        ({
+          getDockerVersion: vi.fn(async () => null),
+        }) as Partial<DockerManager> as DockerManager,
+    );
+
+    const report = await run();
+
+    expect(report.checks.find((c) => c.id === 'docker')?.status).toBe('warn');
+  });
+
+  it('ローカルベクトルストアへのフォールバックは warn になる', async () => {
+    vi.mocked(indexerManager.initializeQdrant).mockImplementation(async () => ({
+      success: true,
+      mode: 'local',
+    }));
+
+    const report = await run();
+
+    expect(report.status).toBe('warn');
+    expect(report.checks.find((c) => c.id === 'vector-backend')?.status).toBe('warn');
+  });
+
+  it('コレクションのベクトル次元が設定と異なる場合は fail になる', async () => {
+    const repository = {
+      getCollectionInfo: vi.fn(async () => ({
+        status: 'green',
+        vectorsCount: 10,
+        indexedVectorsCount: 10,
+        config: { params: { vectors: { size: 768 } } },
+      })),
+    } as Partial<QdrantVectorRepository> as QdrantVectorRepository;
+    vi.mocked(indexerManager.initializeQdrant).mockImplementation(async () => ({
+      success: true,
+      mode: 'explicit',
+      repository,
+    }));
+
+    const report = await run();
+
+    const check = report.checks.find((c) => c.id === 'qdrant-collection');
+    expect(repository.getCollectionInfo).toHaveBeenCalledWith('dialogoi-chunks');
+    expect(check?.status).toBe('fail');
+    expect(check?.message).toContain('(768)');
+    expect(check?.hint).toContain('再構築');
+  });
+
+  it('埋め込みモデルがキャッシュされていない場合は warn になる', async () => {
+    transformersEnv.cacheDir = path.join(projectRoot, 'empty-cache');
+
+    const report = await run();
+
+    expect(report.checks.find((c) => c.id === 'embedding-model')?.status).toBe('warn');
+  });
+
+  it('ファイル監視の停止は checkFileWatcher 指定時のみ報告する', async () => {
+    vi.mocked(indexerManager.isFileWatching).mockReturnValue(false);
+
+    expect((await run()).checks.some((c) => c.id === 'file-watcher')).toBe(false);
+    expect(
+      (await run({ checkFileWatcher: true })).checks.find((c) => c.id === 'file-watcher')?.status,
+    ).toBe('warn');
+  });
+
+  it('項目の診断で例外が発生しても他の項目は診断する', async () => {
+    vi.mocked(indexerManager.initializeQdrant).mockImplementation(async () => {
+      throw new Error('connection refused');
+    });
+
+    const report = await run();
+
+    expect(report.checks.find((c) => c.id === 'vector-backend')).toMatchObject({
+      status: 'fail',
+      message: expect.stringContaining('connection refused'),
+    });
+    expect(report.checks.find((c) => c.id === 'embedding-model')?.status).toBe('pass');
+  });
+});
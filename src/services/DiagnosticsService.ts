@@ -0,0 +1,292 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { env } from '@huggingface/transformers';
+import { DialogoiConfig, validateConfig } from '../lib/config.js';
+import { IndexerManager } from '../lib/indexerManager.js';
+import { DockerManager } from '../lib/dockerManager.js';
+import { loadNovelConfigFile, NovelConfigValidationResult } from '../lib/novelConfigSchema.js';
+import { DiagnosticCheck, DiagnosticReport, DiagnosticStatus } from '../domain/diagnostics.js';
+import { fileExists } from '../utils/fileUtils.js';
+import { getLogger } from '../logging/index.js';
+
+const STATUS_ORDER: Record<DiagnosticStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+type CheckResult = Omit<DiagnosticCheck, 'id' | 'label'>;
+
+/**
+ * 診断のオプション
+ */
+export interface DiagnosticsOptions {
+  checkFileWatcher?: boolean; // ファイル監視の状態を診断するか（MCP サーバー内でのみ意味がある）
+}
+
+/**
+ * プロジェクトルート直下で見つかった novel.json
+ */
+interface ScannedProject extends NovelConfigValidationResult {
+  id: string;
+  path: string;
+}
+
+/**
+ * 実行環境・設定・小説プロジェクトの状態を診断するサービス
+ * 各項目は互いに独立して実行し、1つの項目の例外で診断全体を止めない
+ */
+export class DiagnosticsService {
+  private readonly config: DialogoiConfig;
+  private readonly indexerManager: IndexerManager;
+  private readonly dockerManager: DockerManager;
+  private readonly logger = getLogger();
+
+  constructor(config: DialogoiConfig, indexerManager: IndexerManager) {
+    this.config = config;
+    this.indexerManager = indexerManager;
+    this.dockerManager = new DockerManager(config);
+  }
+
+  /**
+   * 全項目を診断
+   */
+  async run(options: DiagnosticsOptions = {}): Promise<DiagnosticReport> {
+    const checks: DiagnosticCheck[] = [];
+    for (const [id, label, check] of this.getChecks(options)) {
+      try {
+        checks.push({ id, label, ...(await check()) });
+      } catch (error) {
+        checks.push({
+          id,
+          label,
+          status: 'fail',
+          message: `診断中にエラーが発生しました: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+    }
+
+    const status = checks.reduce<DiagnosticStatus>(
+      (worst, check) => (STATUS_ORDER[check.status] > STATUS_ORDER[worst] ? check.status : worst),
+      'pass',
+    );
+    this.logger.info(`🩺 診断が完了しました: ${status}`);
+    return { status, checkedAt: new Date().toISOString(), checks };
+  }
+
+  private getChecks(
+    options: DiagnosticsOptions,
+  ): Array<[string, string, () => Promise<CheckResult>]> {
+    const checks: Array<[string, string, () => Promise<CheckResult>]> = [
+      ['config', '設定', () => this.checkConfig()],
+      ['project-root', 'プロジェクトルート', () => this.checkProjectRoot()],
+      ['projects', '小説プロジェクト（novel.json）', () => this.checkProjects()],
+      ['directories', 'プロジェクトのディレクトリ', () => this.checkDirectories()],
+      ['docker', 'Docker', () => this.checkDocker()],
+      ['vector-backend', 'ベクトルストア', () => this.checkVectorBackend()],
+      ['qdrant-collection', 'Qdrant コレクション', () => this.checkQdrantCollection()],
+      ['embedding-model', '埋め込みモデル', () => this.checkEmbeddingModel()],
+    ];
+    if (options.checkFileWatcher) {
+      checks.push(['file-watcher', 'ファイル監視', () => this.checkFileWatcher()]);
+    }
+    return checks;
+  }
+
+  private async checkConfig(): Promise<CheckResult> {
+    const problems = validateConfig(this.config);
+    if (problems.length > 0) {
+      return {
+        status: 'fail',
+        message: problems.join(' / '),
+        hint: 'config/dialogoi.config.json（または DIALOGOI_CONFIG_PATH の設定ファイル）を修正してください',
+      };
+    }
+    return { status: 'pass', message: '設定値に問題はありません' };
+  }
+
+  private async checkProjectRoot(): Promise<CheckResult> {
+    const projectRoot = path.resolve(this.config.projectRoot);
+    const stats = await fs.stat(projectRoot).catch(() => null);
+    if (!stats?.isDirectory()) {
+      return {
+        status: 'fail',
+        message: `ディレクトリが存在しません: ${projectRoot}`,
+        hint: '設定ファイルの projectRoot または --project-root を確認してください',
+      };
+    }
+    return { status: 'pass', message: projectRoot };
+  }
+
+  private async checkProjects(): Promise<CheckResult> {
+    const projects = await this.scanProjects();
+    if (projects.length === 0) {
+      return {
+        status: 'warn',
+        message: 'novel.json のあるディレクトリが見つかりません',
+        hint: 'プロジェクトルート直下に novel.json を含む小説ディレクトリを作成してください',
+      };
+    }
+
+    const invalid = projects.filter((project) => !project.config);
+    if (invalid.length > 0) {
+      return {
+        status: 'fail',
+        message: invalid
+          .map((project) => `${project.id}/novel.json: ${project.errors.join(', ')}`)
+          .join(' / '),
+        hint: '該当する novel.json を修正してください（読み込めないプロジェクトは一覧に表示されません）',
+      };
+    }
+
+    const warned = projects.filter((project) => project.warnings.length > 0);
+    if (warned.length > 0) {
+      return {
+        status: 'warn',
+        message: warned
+          .map((project) => `${project.id}/novel.json: ${project.warnings.join(', ')}`)
+          .join(' / '),
+        hint: '未知のキーは読み込まれません。綴りを確認するか削除してください（schemas/novel.schema.json でエディタ補完が使えます）',
+      };
+    }
+    return {
+      status: 'pass',
+      message: `${projects.length}件（${projects.map((project) => project.id).join(', ')}）`,
+    };
+  }
+
+  private async checkDirectories(): Promise<CheckResult> {
+    const missing: string[] = [];
+    for (const project of await this.scanProjects()) {
+      if (!project.config) {
+        continue;
+      }
+      const { settingsDirectories, contentDirectories, instructionFiles = [] } = project.config;
+      for (const entry of [...settingsDirectories, ...contentDirectories, ...instructionFiles]) {
+        if (!(await fileExists(path.join(project.path, entry)))) {
+          missing.push(`${project.id}/${entry}`);
+        }
+      }
+    }
+
+    if (missing.length > 0) {
+      return {
+        status: 'warn',
+        message: `novel.json に指定されたパスが存在しません: ${missing.join(', ')}`,
+        hint: 'ディレクトリを作成するか、novel.json の settingsDirectories / contentDirectories / instructionFiles から削除してください',
+      };
+    }
+    return { status: 'pass', message: 'novel.json に指定されたパスはすべて存在します' };
+  }
+
+  private async checkDocker(): Promise<CheckResult> {
+    if (this.config.vector.backend === 'local' || !this.config.qdrant.docker.enabled) {
+      return { status: 'pass', message: 'Docker 自動起動は使用しません' };
+    }
+
+    const version = await this.dockerManager.getDockerVersion();
+    if (!version) {
+      return {
+        status: 'warn',
+        message: 'Docker に接続できないため、Qdrant を自動起動できません',
+        hint: 'Docker を起動するか、qdrant.url で Qdrant の接続先を指定してください。Docker を使わない場合は vector.backend を local に設定してください',
+      };
+    }
+    return { status: 'pass', message: `Docker ${version}` };
+  }
+
+  private async checkVectorBackend(): Promise<CheckResult> {
+    const result = await this.indexerManager.initializeQdrant();
+    if (!result.success) {
+      return {
+        status: 'fail',
+        message: `Qdrant に接続できません（${result.mode}）: ${result.error?.message ?? '不明なエラー'}`,
+        hint: 'Qdrant の起動と qdrant.url を確認するか、vector.backend を local に設定してください',
+      };
+    }
+    if (result.mode === 'local' && this.config.vector.backend !== 'local') {
+      return {
+        status: 'warn',
+        message: 'Qdrant に接続できないため、ローカルベクトルストアで動作しています',
+        hint: 'Qdrant を利用する場合は起動状態と qdrant.url を確認してください',
+      };
+    }
+    return { status: 'pass', message: `動作モード: ${result.mode}` };
+  }
+
+  private async checkQdrantCollection(): Promise<CheckResult> {
+    const result = await this.indexerManager.initializeQdrant();
+    if (!result.repository) {
+      return { status: 'pass', message: 'Qdrant を使用していません' };
+    }
+
+    const collectionName = this.config.vector.collectionName;
+    const info = await result.repository.getCollectionInfo(collectionName).catch(() => null);
+    if (!info) {
+      return {
+        status: 'pass',
+        message: `コレクション ${collectionName} は未作成です（初回のインデックス構築で作成されます）`,
+      };
+    }
+
+    const size = (info as { config?: { params?: { vectors?: { size?: number } } } }).config?.params
+      ?.vectors?.size;
+    if (size !== undefined && size !== this.config.vector.vectorDimensions) {
+      return {
+        status: 'fail',
+        message: `コレクション ${collectionName} のベクトル次元 (${size}) が vector.vectorDimensions (${this.config.vector.vectorDimensions}) と一致しません`,
+        hint: '埋め込みモデルを変更した場合は vector.collectionName を変更するか、コレクションを削除してインデックスを再構築してください',
+      };
+    }
+    return {
+      status: 'pass',
+      message: `${collectionName}（${info.vectorsCount} ベクトル, ${size ?? '不明'} 次元）`,
+    };
+  }
+
+  private async checkEmbeddingModel(): Promise<CheckResult> {
+    if (!this.config.embedding.enabled) {
+      return { status: 'pass', message: '埋め込みは無効です' };
+    }
+
+    const modelDirectory = path.join(env.cacheDir ?? '', this.config.embedding.model);
+    if (!(await fileExists(path.join(modelDirectory, 'config.json')))) {
+      return {
+        status: 'warn',
+        message: `${this.config.embedding.model} がキャッシュされていません: ${modelDirectory}`,
+        hint: '初回のインデックス構築時にダウンロードされます。オフライン環境では事前にモデルを配置してください',
+      };
+    }
+    return { status: 'pass', message: `${this.config.embedding.model}（${modelDirectory}）` };
+  }
+
+  private async checkFileWatcher(): Promise<CheckResult> {
+    if (!this.indexerManager.isFileWatching()) {
+      return {
+        status: 'warn',
+        message: 'ファイル監視が停止しています。ファイルの変更がインデックスに反映されません',
+        hint: 'MCP サーバーのログでファイル監視エラーを確認し、サーバーを再起動してください',
+      };
+    }
+    return { status: 'pass', message: 'ファイル監視中' };
+  }
+
+  /**
+   * プロジェクトルート直下の novel.json を読み込んで検証
+   * 設定の projectRoot を直接走査し、MCP サーバーのリポジトリの状態に依存しない
+   */
+  private async scanProjects(): Promise<ScannedProject[]> {
+    const projectRoot = path.resolve(this.config.projectRoot);
+    const entries = await fs.readdir(projectRoot, { withFileTypes: true }).catch(() => []);
+    const projects: ScannedProject[] = [];
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) {
+        continue;
+      }
+      const projectPath = path.join(projectRoot, entry.name);
+      const result = await loadNovelConfigFile(path.join(projectPath, 'novel.json'));
+      if (result) {
+        projects.push({ id: entry.name, path: projectPath, ...result });
+      }
+    }
+
+    return projects.sort((a, b) => a.id.localeCompare(b.id));
+  }
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ExportService } from './ExportService.js';
+import { FileSystemNovelRepository } from '../repositories/FileSystemNovelRepository.js';
+import { readZip } from '../lib/zip.js';
+import { FileReadError, FileWriteError } from '../errors/index.js';
+
+describe('ExportService', () => {
+  let baseDir: string;
+  let projectPath: string;
+  let service: ExportService;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dialogoi-export-'));
+    projectPath = path.join(baseDir, 'novel-1');
+    await fs.mkdir(path.join(projectPath, 'contents'), { recursive: true });
+    await fs.writeFile(
+      path.join(projectPath, 'novel.json'),
+      JSON.stringify({
+        title: '星の海',
+        author: '山田太郎',
+        settingsDirectories: ['settings'],
+        contentDirectories: ['contents'],
+      }),
+    );
+    await fs.writeFile(path.join(projectPath, 'contents', '02.md'), '# 第二章\n\n続き');
+    await fs.writeFile(path.join(projectPath, 'contents', '01.md'), '# 第一章\n\n｜星《ほし》');
+    service = new ExportService(new FileSystemNovelRepository(baseDir));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('本文ファイルの順に章を並べた EPUB を exports/ に書き出す', async () => {
+    const result = await service.exportNovel('novel-1', { vertical: true });
+
+    expect(result).toMatchObject({
+      novelId: 'novel-1',
+      format: 'epub',
+      path: path.join('exports', 'novel-1.epub'),
+      sourceFiles: 2,
+      chapters: ['第一章', '第二章'],
+    });
+
+    const archive = await fs.readFile(path.join(projectPath, result.path));
+    expect(archive.length).toBe(result.bytes);
+    const opf = readZip(archive).get('OEBPS/content.opf')!.toString('utf-8');
+    expect(opf).toContain('<dc:title>星の海</dc:title>');
+    expect(opf).toMatch(
+      /urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}/,
+    );
+
+    // 本文ファイルは変更しない
+    expect(await fs.readFile(path.join(projectPath, 'contents', '01.md'), 'utf-8')).toBe(
+      '# 第一章\n\n｜星《ほし》',
+    );
+  });
+
+  it('出力ファイル名を指定でき、拡張子がなければ付ける', async () => {
+    expect((await service.exportNovel('novel-1', { filename: '入稿版' })).path).toBe(
+      path.join('exports', '入稿版.epub'),
+    );
+    await expect(service.exportNovel('novel-1', { filename: '../novel.epub' })).rejects.toThrow(
+      FileWriteError,
+    );
+  });
+
+  it('docx を指定すると Word 文書を書き出す', async () => {
+    const result = await service.exportNovel('novel-1', {
+      format: 'docx',
+      vertical: true,
+      manuscriptGrid: true,
+    });
+
+    expect(result).toMatchObject({
+      format: 'docx',
+      path: path.join('exports', 'novel-1.docx'),
+      chapters: ['第一章', '第二章'],
+    });
+    const entries = readZip(await fs.readFile(path.join(projectPath, result.path)));
+    expect(entries.get('docProps/core.xml')!.toString('utf-8')).toContain(
+      '<dc:creator>山田太郎</dc:creator>',
+    );
+    const document = entries.get('word/document.xml')!.toString('utf-8');
+    expect(document).toContain('<w:textDirection w:val="tbRl"/>');
+    expect(document).toContain('w:type="linesAndChars"');
+  });
+
+  it('本文ファイルがない場合はエラーになる', async () => {
+    await fs.rm(path.join(projectPath, 'contents'), { recursive: true });
+
+    await expect(service.exportNovel('novel-1')).rejects.toThrow(FileReadError);
+  });
+
+  describe('exportWebNovel', () => {
+    it('章ごとに投稿用のテキストを exports/ に書き出す', async () => {
+      const result = await service.exportWebNovel('novel-1', { profile: 'narou' });
+
+      expect(result).toMatchObject({
+        novelId: 'novel-1',
+        profile: 'narou',
+        profileName: '小説家になろう',
+        maxLength: 70000,
+      });
+      expect(result.episodes.map((episode) => [episode.title, episode.path])).toEqual([
+        ['第一章', path.join('exports', 'novel-1-narou-001.txt')],
+        ['第二章', path.join('exports', 'novel-1-narou-002.txt')],
+      ]);
+      expect(await fs.readFile(path.join(projectPath, result.episodes[0].path), 'utf-8')).toBe(
+        '　｜星《ほし》\n',
+      );
+      expect(result.episodes[0]).toMatchObject({
+        sourceFile: path.join('contents', '01.md'),
+        length: 7, // ルビ記法を含む
+        overLimit: false,
+        conversions: { indent: 1 },
+      });
+    });
+
+    it('範囲と上限文字数を指定できる', async () => {
+      const result = await service.exportWebNovel('novel-1', {
+        profile: 'kakuyomu',
+        from: '02.md',
+        to: path.join('contents', '02.md'),
+        maxLength: 2,
+      });
+
+      expect(result.episodes).toHaveLength(1);
+      expect(result.episodes[0]).toMatchObject({ title: '第二章', length: 3, overLimit: true });
+      // 範囲を指定しても全体の中での話数で番号を付ける
+      expect(result.episodes[0].path).toBe(path.join('exports', 'novel-1-kakuyomu-002.txt'));
+      await expect(
+        fs.access(path.join(projectPath, 'exports', 'novel-1-kakuyomu-001.txt')),
+      ).rejects.toThrow();
+    });
+
+    it('存在しない本文ファイルや逆順の範囲はエラーになる', async () => {
+      await expect(
+        service.exportWebNovel('novel-1', { profile: 'narou', from: 'missing.md' }),
+      ).rejects.toThrow(FileReadError);
+      await expect(
+        service.exportWebNovel('novel-1', { profile: 'narou', from: '02.md', to: '01.md' }),
+      ).rejects.toThrow(FileReadError);
+    });
+  });
+});
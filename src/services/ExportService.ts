@@ -0,0 +1,195 @@
+import crypto from 'crypto';
+import path from 'path';
+import { NovelRepository } from '../repositories/NovelRepository.js';
+import {
+  ExportFormat,
+  ExportOptions,
+  ExportResult,
+  WebNovelExportOptions,
+  WebNovelExportResult,
+} from '../domain/export.js';
+import { ManuscriptFile, splitChapters } from '../lib/manuscript.js';
+import { buildEpub } from '../lib/epub.js';
+import { buildDocx } from '../lib/docx.js';
+import { convertEpisode, getWebNovelProfile } from '../lib/webNovel.js';
+import { FileReadError } from '../errors/index.js';
+import { getLogger } from '../logging/index.js';
+
+/**
+ * 小説プロジェクトから決まる識別子（書き出し直しても同じ本として扱われるように固定する）
+ */
+function createBookIdentifier(novelId: string): string {
+  const hash = crypto.createHash('sha1').update(`dialogoi:${novelId}`).digest('hex');
+  // UUID v5 と同じ形式（バージョン・バリアントのビットを設定）
+  const variant = ((parseInt(hash[16], 16) & 0x3) | 0x8).toString(16);
+  return `urn:uuid:${hash.slice(0, 8)}-${hash.slice(8, 12)}-5${hash.slice(13, 16)}-${variant}${hash.slice(17, 20)}-${hash.slice(20, 32)}`;
+}
+
+/**
+ * 本文ディレクトリの原稿を電子書籍・Word 文書などに書き出すサービス
+ * 書き出したファイルはプロジェクトの exports/ に保存し、本文ファイルは変更しない
+ */
+export class ExportService {
+  private readonly novelRepository: NovelRepository;
+  private readonly logger = getLogger();
+
+  constructor(novelRepository: NovelRepository) {
+    this.novelRepository = novelRepository;
+  }
+
+  /**
+   * 小説を書き出す
+   * @param novelId 小説ID
+   * @param options 書き出しのオプション
+   */
+  async exportNovel(novelId: string, options: ExportOptions = {}): Promise<ExportResult> {
+    const format: ExportFormat = options.format ?? 'epub';
+    const project = await this.novelRepository.getProject(novelId);
+    const files = await this.novelRepository.readContentFiles(novelId);
+    if (files.length === 0) {
+      throw new FileReadError(
+        project.path,
+        `本文ディレクトリ（${project.config.contentDirectories.join(', ')}）に書き出す本文ファイルがありません`,
+        { novelId },
+      );
+    }
+
+    const chapters = splitChapters(files);
+    const vertical = options.vertical ?? false;
+    const ruby = options.ruby ?? true;
+    const data =
+      format === 'docx'
+        ? buildDocx({
+            title: project.config.title,
+            author: project.config.author,
+            description: project.config.description,
+            modifiedAt: new Date(),
+            vertical,
+            ruby,
+            manuscriptGrid: options.manuscriptGrid ?? false,
+            chapters,
+          })
+        : buildEpub({
+            identifier: createBookIdentifier(novelId),
+            title: project.config.title,
+            author: project.config.author,
+            description: project.config.description,
+            language: 'ja',
+            modifiedAt: new Date(),
+            vertical,
+            ruby,
+            chapters,
+          });
+
+    const filename = this.resolveFilename(novelId, format, options.filename);
+    const exportPath = await this.novelRepository.writeExportFile(novelId, filename, data);
+    this.logger.info(`📚 ${format.toUpperCase()} を書き出しました: ${novelId}`, {
+      path: exportPath,
+      chapters: chapters.length,
+      bytes: data.length,
+    });
+
+    return {
+      novelId,
+      format,
+      path: exportPath,
+      bytes: data.length,
+      sourceFiles: files.length,
+      chapters: chapters.map((chapter) => chapter.title),
+    };
+  }
+
+  /**
+   * Web 小説サイトへの投稿用に、章ごとのテキストファイルを書き出す
+   * 投稿先のルールに合わせてルビ・傍点・字下げ・空行を変換し、1話の上限文字数を確認する
+   * @param novelId 小説ID
+   * @param options 投稿先と書き出す本文ファイルの範囲
+   */
+  async exportWebNovel(
+    novelId: string,
+    options: WebNovelExportOptions,
+  ): Promise<WebNovelExportResult> {
+    const profile = getWebNovelProfile(options.profile);
+    const maxLength = options.maxLength ?? profile.maxEpisodeLength;
+    const project = await this.novelRepository.getProject(novelId);
+    const allFiles = await this.novelRepository.readContentFiles(novelId);
+    const files = this.selectFiles(novelId, allFiles, options);
+    if (files.length === 0) {
+      throw new FileReadError(
+        project.path,
+        `本文ディレクトリ（${project.config.contentDirectories.join(', ')}）に書き出す本文ファイルがありません`,
+        { novelId },
+      );
+    }
+
+    // 範囲を指定しても同じ章が同じファイル名になるよう、全体の章の順番で番号を付ける
+    const selected = new Set(files.map((file) => file.filename));
+    const episodes = [];
+    for (const [index, chapter] of splitChapters(allFiles).entries()) {
+      if (!selected.has(chapter.sourceFile)) {
+        continue;
+      }
+      const episode = convertEpisode(chapter, profile);
+      const filename = `${novelId}-${profile.id}-${String(index + 1).padStart(3, '0')}.txt`;
+      const exportPath = await this.novelRepository.writeExportFile(
+        novelId,
+        filename,
+        Buffer.from(`${episode.text}\n`, 'utf-8'),
+      );
+      episodes.push({
+        title: episode.title,
+        sourceFile: episode.sourceFile,
+        path: exportPath,
+        length: episode.length,
+        overLimit: episode.length > maxLength,
+        conversions: episode.conversions,
+      });
+    }
+
+    const overLimit = episodes.filter((episode) => episode.overLimit).length;
+    this.logger.info(`📝 ${profile.name} 向けに書き出しました: ${novelId}`, {
+      episodes: episodes.length,
+      overLimit,
+    });
+
+    return { novelId, profile: profile.id, profileName: profile.name, maxLength, episodes };
+  }
+
+  /**
+   * 書き出す範囲の本文ファイル（from・to はプロジェクトからの相対パスまたはファイル名）
+   */
+  private selectFiles(
+    novelId: string,
+    files: ManuscriptFile[],
+    options: { from?: string; to?: string },
+  ): ManuscriptFile[] {
+    const indexOf = (name: string) => {
+      const index = files.findIndex(
+        (file) => file.filename === path.normalize(name) || path.basename(file.filename) === name,
+      );
+      if (index === -1) {
+        throw new FileReadError(name, '本文ファイルが見つかりません', { novelId });
+      }
+      return index;
+    };
+
+    const start = options.from ? indexOf(options.from) : 0;
+    const end = options.to ? indexOf(options.to) : files.length - 1;
+    if (start > end) {
+      throw new FileReadError(
+        options.from ?? '',
+        `書き出す範囲の最初のファイルが最後のファイル（${options.to}）より後にあります`,
+        { novelId },
+      );
+    }
+    return files.slice(start, end + 1);
+  }
+
+  /**
+   * 出力ファイル名（拡張子がない場合は形式の拡張子を付ける）
+   */
+  private resolveFilename(novelId: string, format: ExportFormat, filename?: string): string {
+    const name = filename?.trim() || novelId;
+    return path.extname(name).toLowerCase() === `.${format}` ? name : `${name}.${format}`;
+  }
+}
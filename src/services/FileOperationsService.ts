@@ -1,3 +1,7 @@
+import { FileEditOperation, FileEditResult } from '../domain/fileEdit.js';
+import { FileMoveResult, FileDeleteResult } from '../domain/fileOperation.js';
+import { FileRestoreResult } from '../domain/fileHistory.js';
+
 /**
  * ファイル作成オプション
  */
@@ -6,6 +10,14 @@ export interface FileCreationOptions {
   overwrite?: boolean;
 }
 
+/**
+ * ファイル削除オプション
+ */
+export interface FileDeletionOptions {
+  /** 完全削除せずゴミ箱へ移動するか（デフォルト: true） */
+  useTrash?: boolean;
+}
+
 /**
  * ファイル操作を提供するサービス
  */
@@ -42,10 +54,77 @@ export interface FileOperationsService {
     options?: FileCreationOptions,
   ): Promise<void>;
 
+  /**
+   * 既存ファイルを部分編集
+   * @param projectId プロジェクトID
+   * @param filename プロジェクトルートからの相対パス
+   * @param operation 編集操作
+   */
+  editFile(
+    projectId: string,
+    filename: string,
+    operation: FileEditOperation,
+  ): Promise<FileEditResult>;
+
+  /**
+   * ファイルをリネーム
+   * @param projectId プロジェクトID
+   * @param filename プロジェクトルートからの相対パス
+   * @param newName 新しいファイル名
+   */
+  renameFile(projectId: string, filename: string, newName: string): Promise<FileMoveResult>;
+
+  /**
+   * ファイルを別ディレクトリへ移動
+   * @param projectId プロジェクトID
+   * @param filename プロジェクトルートからの相対パス
+   * @param targetDirectory 移動先ディレクトリ
+   */
+  moveFile(projectId: string, filename: string, targetDirectory: string): Promise<FileMoveResult>;
+
+  /**
+   * ファイルを削除
+   * @param projectId プロジェクトID
+   * @param filename プロジェクトルートからの相対パス
+   * @param options 削除オプション
+   */
+  deleteFile(
+    projectId: string,
+    filename: string,
+    options?: FileDeletionOptions,
+  ): Promise<FileDeleteResult>;
+
+  /**
+   * ファイルを履歴の指定バージョンに戻す
+   * @param projectId プロジェクトID
+   * @param filename プロジェクトルートからの相対パス
+   * @param version 復元するバージョン番号
+   */
+  restoreFileVersion(
+    projectId: string,
+    filename: string,
+    version: number,
+  ): Promise<FileRestoreResult>;
+
   /**
    * インデックスの更新通知
    * @param projectId プロジェクトID
    * @param filePath 更新されたファイルパス
    */
   notifyFileUpdate(projectId: string, filePath: string): Promise<void>;
+
+  /**
+   * インデックスの削除通知
+   * @param projectId プロジェクトID
+   * @param filePath 削除されたファイルパス
+   */
+  notifyFileRemoval(projectId: string, filePath: string): Promise<void>;
+
+  /**
+   * インデックスの移動通知（旧パスの削除と新パスの再インデックス）
+   * @param projectId プロジェクトID
+   * @param oldFilePath 移動前のファイルパス
+   * @param newFilePath 移動後のファイルパス
+   */
+  notifyFileMove(projectId: string, oldFilePath: string, newFilePath: string): Promise<void>;
 }
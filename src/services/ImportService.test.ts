@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ImportService } from './ImportService.js';
+import { FileOperationsService } from './FileOperationsService.js';
+import { FileSystemNovelRepository } from '../repositories/FileSystemNovelRepository.js';
+import { FileReadError, FileWriteError } from '../errors/index.js';
+
+// 青空文庫形式のテキスト
+const AOZORA_TEXT = [
+  '塔の魔術師',
+  '架空の作者',
+  '',
+  '-------------------------------------------------------',
+  '【テキスト中に現れる記号について】',
+  '-------------------------------------------------------',
+  '',
+  '　　　第一章［＃「第一章」は中見出し］',
+  '',
+  '　魔術師《まじゅつし》は塔に登った。',
+  '［＃改ページ］',
+  '　　　第二章［＃「第二章」は中見出し］',
+  '',
+  '　夜が明ける。',
+  '',
+  '底本：「架空の本」架空出版',
+].join('\r\n');
+
+describe('ImportService', () => {
+  let baseDir: string;
+  let projectPath: string;
+  let sourcePath: string;
+  let fileOperationsService: Pick<FileOperationsService, 'createContentFile'>;
+  let service: ImportService;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dialogoi-import-'));
+    projectPath = path.join(baseDir, 'novel-1');
+    await fs.mkdir(projectPath, { recursive: true });
+    await fs.writeFile(
+      path.join(projectPath, 'novel.json'),
+      JSON.stringify({
+        title: '取り込み先',
+        settingsDirectories: ['settings'],
+        contentDirectories: ['contents', 'archive'],
+      }),
+    );
+    sourcePath = path.join(baseDir, 'source.txt');
+    await fs.writeFile(sourcePath, AOZORA_TEXT);
+
+    const repository = new FileSystemNovelRepository(baseDir);
+    fileOperationsService = {
+      createContentFile: vi.fn((projectId, directory, filename, content, options) =>
+        repository.createContentFile(projectId, directory, filename, content, options?.overwrite),
+      ),
+    };
+    service = new ImportService(repository, fileOperationsService as FileOperationsService);
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('章ごとの本文ファイルを本文ディレクトリに作成する', async () => {
+    const result = await service.importAozora('novel-1', sourcePath, { directory: 'archive' });
+
+    expect(result).toMatchObject({
+      novelId: 'novel-1',
+      source: sourcePath,
+      encoding: 'utf-8',
+      title: '塔の魔術師',
+      author: '架空の作者',
+      directory: 'archive',
+      files: [
+        { filename: path.join('archive', '001_第一章.md'), title: '第一章' },
+        { filename: path.join('archive', '002_第二章.md'), title: '第二章' },
+      ],
+    });
+    expect(fileOperationsService.createContentFile).toHaveBeenCalledTimes(2);
+    expect(await fs.readFile(path.join(projectPath, 'archive', '001_第一章.md'), 'utf-8')).toBe(
+      '# 第一章\n\n　魔術師《まじゅつし》は塔に登った。\n',
+    );
+  });
+
+  it('Shift_JIS のテキストを読み込み、省略時は先頭の本文ディレクトリに作成する', async () => {
+    // 「第一章」だけの Shift_JIS テキスト
+    const shiftJis = Buffer.from([0x91, 0xe6, 0x88, 0xea, 0x8f, 0xcd]);
+    await fs.writeFile(sourcePath, Buffer.concat([Buffer.from('\r\n'), shiftJis]));
+
+    const result = await service.importAozora('novel-1', sourcePath);
+
+    expect(result.encoding).toBe('shift_jis');
+    expect(result.files).toEqual([{ filename: path.join('contents', '001.md') }]);
+    expect(await fs.readFile(path.join(projectPath, 'contents', '001.md'), 'utf-8')).toBe(
+      '第一章\n',
+    );
+  });
+
+  it('同名のファイルがある場合は何も書き込まずにエラーにする', async () => {
+    await fs.mkdir(path.join(projectPath, 'contents'), { recursive: true });
+    await fs.writeFile(path.join(projectPath, 'contents', '002_第二章.md'), '既存');
+
+    await expect(service.importAozora('novel-1', sourcePath)).rejects.toThrow(FileWriteError);
+    expect(fileOperationsService.createContentFile).not.toHaveBeenCalled();
+
+    await service.importAozora('novel-1', sourcePath, { overwrite: true });
+    expect(
+      await fs.readFile(path.join(projectPath, 'contents', '002_第二章.md'), 'utf-8'),
+    ).toContain('# 第二章');
+  });
+
+  it('本文ディレクトリ以外や読み込めないファイルはエラーにする', async () => {
+    await expect(
+      service.importAozora('novel-1', sourcePath, { directory: 'settings' }),
+    ).rejects.toThrow(FileWriteError);
+    await expect(
+      service.importAozora('novel-1', path.join(baseDir, 'missing.txt')),
+    ).rejects.toThrow(FileReadError);
+  });
+
+  it('取り込み元のディレクトリが制限されている場合は、その外のファイルを読み込まない', async () => {
+    const importDir = path.join(baseDir, 'imports');
+    await fs.mkdir(importDir);
+    await fs.writeFile(path.join(importDir, 'source.txt'), AOZORA_TEXT);
+    await fs.symlink(sourcePath, path.join(importDir, 'link.txt'));
+    const restricted = new ImportService(
+      new FileSystemNovelRepository(baseDir),
+      fileOperationsService as FileOperationsService,
+      { allowedSourceDirectories: [importDir] },
+    );
+
+    await expect(restricted.importAozora('novel-1', sourcePath)).rejects.toThrow(FileReadError);
+    await expect(
+      restricted.importAozora('novel-1', path.join(importDir, '..', 'source.txt')),
+    ).rejects.toThrow(FileReadError);
+    // シンボリックリンクで外のファイルを指す場合も拒否する
+    await expect(
+      restricted.importAozora('novel-1', path.join(importDir, 'link.txt')),
+    ).rejects.toThrow(FileReadError);
+    expect(fileOperationsService.createContentFile).not.toHaveBeenCalled();
+
+    const result = await restricted.importAozora('novel-1', path.join(importDir, 'source.txt'));
+    expect(result.files).toHaveLength(2);
+  });
+});
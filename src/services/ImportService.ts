@@ -0,0 +1,152 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { NovelRepository } from '../repositories/NovelRepository.js';
+import { FileOperationsService } from './FileOperationsService.js';
+import { ImportOptions, ImportResult } from '../domain/import.js';
+import { decodeAozoraText, parseAozora } from '../lib/aozora.js';
+import { FileReadError, FileWriteError } from '../errors/index.js';
+import { getLogger } from '../logging/index.js';
+
+/**
+ * ImportService の設定
+ */
+export interface ImportServiceOptions {
+  // 取り込み元として読み込めるディレクトリ（省略時は制限しない。MCP ではホストの任意のファイルを読めないよう制限する）
+  allowedSourceDirectories?: string[];
+}
+
+/**
+ * 外部の原稿を本文ファイルとして取り込むサービス
+ * 本文ファイルの作成は FileOperationsService を通すため、取り込んだ章はインデックスにも追加される
+ */
+export class ImportService {
+  private readonly novelRepository: NovelRepository;
+  private readonly fileOperationsService: FileOperationsService;
+  private readonly allowedSourceDirectories?: string[];
+  private readonly logger = getLogger();
+
+  constructor(
+    novelRepository: NovelRepository,
+    fileOperationsService: FileOperationsService,
+    options: ImportServiceOptions = {},
+  ) {
+    this.novelRepository = novelRepository;
+    this.fileOperationsService = fileOperationsService;
+    this.allowedSourceDirectories = options.allowedSourceDirectories;
+  }
+
+  /**
+   * 青空文庫形式のテキストを章ごとの本文ファイルとして取り込む
+   * @param novelId 小説ID
+   * @param sourcePath 取り込むテキストファイルのパス（Shift_JIS または UTF-8）
+   * @param options 取り込みのオプション
+   */
+  async importAozora(
+    novelId: string,
+    sourcePath: string,
+    options: ImportOptions = {},
+  ): Promise<ImportResult> {
+    const project = await this.novelRepository.getProject(novelId);
+    const directory = options.directory ?? project.config.contentDirectories[0];
+    if (!project.config.contentDirectories.includes(directory)) {
+      throw new FileWriteError(
+        path.join(project.path, directory),
+        `本文ディレクトリ（${project.config.contentDirectories.join(', ')}）ではありません`,
+        { novelId, directory },
+      );
+    }
+
+    const source = path.resolve(sourcePath);
+    let data: Buffer;
+    try {
+      await this.assertAllowedSource(novelId, source);
+      data = await fs.readFile(source);
+    } catch (error) {
+      if (error instanceof FileReadError) {
+        throw error;
+      }
+      throw new FileReadError(source, error instanceof Error ? error.message : String(error), {
+        novelId,
+      });
+    }
+
+    const { text, encoding } = decodeAozoraText(data);
+    const document = parseAozora(text);
+    if (document.chapters.length === 0) {
+      throw new FileReadError(source, '取り込む本文がありません', { novelId });
+    }
+
+    // 途中まで取り込んで失敗しないよう、書き込む前に既存のファイルを確認する
+    const files = document.chapters.map((chapter) => ({
+      filename: path.join(directory, chapter.filename),
+      title: chapter.title,
+    }));
+    if (!options.overwrite) {
+      const existing = new Set(
+        (await this.novelRepository.listContentFiles(novelId)).map((file) => file.filename),
+      );
+      const conflicts = files.filter((file) => existing.has(file.filename));
+      if (conflicts.length > 0) {
+        throw new FileWriteError(
+          path.join(project.path, directory),
+          `同名の本文ファイルがあります（overwrite で上書き）: ${conflicts.map((file) => file.filename).join(', ')}`,
+          { novelId, directory },
+        );
+      }
+    }
+
+    for (const chapter of document.chapters) {
+      await this.fileOperationsService.createContentFile(
+        novelId,
+        directory,
+        chapter.filename,
+        chapter.content,
+        { overwrite: options.overwrite },
+      );
+    }
+    this.logger.info(`📥 青空文庫形式のテキストを取り込みました: ${novelId}`, {
+      source,
+      encoding,
+      files: files.length,
+      unresolvedGaiji: document.unresolvedGaiji.length,
+    });
+
+    return {
+      novelId,
+      source,
+      encoding,
+      title: document.title,
+      author: document.author,
+      directory,
+      files,
+      unresolvedGaiji: document.unresolvedGaiji,
+    };
+  }
+
+  /**
+   * 取り込み元が許可されたディレクトリ配下にあるか確認
+   * シンボリックリンクで外に出られないよう、実体のパスで比較する
+   */
+  private async assertAllowedSource(novelId: string, source: string): Promise<void> {
+    if (!this.allowedSourceDirectories) {
+      return;
+    }
+
+    const realSource = await fs.realpath(source);
+    for (const directory of this.allowedSourceDirectories) {
+      const realDirectory = await fs.realpath(directory).catch(() => null);
+      if (!realDirectory) {
+        continue;
+      }
+      const relative = path.relative(realDirectory, realSource);
+      if (relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+        return;
+      }
+    }
+    throw new FileReadError(
+      source,
+      `取り込めるのは次のディレクトリ配下のファイルのみです: ${this.allowedSourceDirectories.join(', ')}`,
+      { novelId },
+    );
+  }
+}
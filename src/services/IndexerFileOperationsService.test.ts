@@ -9,22 +9,37 @@ import { NovelProject } from '../domain/novel.js';
 const mockNovelRepository: NovelRepository = {
   listProjects: vi.fn(),
   getProject: vi.fn(),
+  listProjectConfigIssues: vi.fn(),
+  refreshProject: vi.fn(),
+  createProject: vi.fn(),
+  listProjectTemplates: vi.fn(),
+  updateProjectConfig: vi.fn(),
   listSettingsFiles: vi.fn(),
   getSettingsContent: vi.fn(),
   searchSettingsFiles: vi.fn(),
   listContentFiles: vi.fn(),
   getContentFiles: vi.fn(),
+  readContentFiles: vi.fn(),
+  writeExportFile: vi.fn(),
   searchContentFiles: vi.fn(),
   listInstructionFiles: vi.fn(),
   getInstructionFiles: vi.fn(),
   createSettingsFile: vi.fn(),
   createContentFile: vi.fn(),
+  editFile: vi.fn(),
+  renameFile: vi.fn(),
+  moveFile: vi.fn(),
+  deleteFile: vi.fn(),
+  listFileHistory: vi.fn(),
+  getFileVersionContent: vi.fn(),
+  restoreFileVersion: vi.fn(),
 };
 
 const mockIndexerManager = {
   search: vi.fn(),
   updateFile: vi.fn(),
   removeFile: vi.fn(),
+  moveFile: vi.fn(),
   clearNovel: vi.fn(),
   rebuildNovel: vi.fn(),
   getInitializedNovels: vi.fn(),
@@ -194,6 +209,168 @@ describe('IndexerFileOperationsService', () => {
     });
   });
 
+  describe('editFile', () => {
+    const editResult = {
+      filename: 'contents/chapter1.txt',
+      filePath: '/test/path/test-novel/contents/chapter1.txt',
+      operation: 'replace' as const,
+      replacements: 1,
+      lineCountBefore: 10,
+      lineCountAfter: 10,
+    };
+
+    it('ファイルを編集してインデックス更新を通知する', async () => {
+      vi.mocked(mockNovelRepository.editFile).mockResolvedValue(editResult);
+      vi.mocked(mockIndexerManager.updateFile).mockResolvedValue(undefined);
+      const operation = { type: 'replace' as const, search: '旧', replace: '新' };
+
+      const result = await fileOperationsService.editFile(
+        'test-novel',
+        'contents/chapter1.txt',
+        operation,
+      );
+
+      expect(mockNovelRepository.editFile).toHaveBeenCalledWith(
+        'test-novel',
+        'contents/chapter1.txt',
+        operation,
+      );
+      expect(mockIndexerManager.updateFile).toHaveBeenCalledWith('test-novel', editResult.filePath);
+      expect(result).toEqual(editResult);
+    });
+
+    it('編集に失敗した場合はインデックス更新を通知しない', async () => {
+      vi.mocked(mockNovelRepository.editFile).mockRejectedValue(new Error('編集エラー'));
+
+      await expect(
+        fileOperationsService.editFile('test-novel', 'contents/chapter1.txt', {
+          type: 'append',
+          content: '追記',
+        }),
+      ).rejects.toThrow('編集エラー');
+      expect(mockIndexerManager.updateFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renameFile / moveFile', () => {
+    const moveResult = {
+      oldFilename: 'contents/chapter2.txt',
+      newFilename: 'contents/chapter3.txt',
+      oldFilePath: '/test/path/test-novel/contents/chapter2.txt',
+      newFilePath: '/test/path/test-novel/contents/chapter3.txt',
+    };
+
+    it('リネーム後に旧パスを削除して新パスで再インデックスする', async () => {
+      vi.mocked(mockNovelRepository.renameFile).mockResolvedValue(moveResult);
+      vi.mocked(mockIndexerManager.moveFile).mockResolvedValue(undefined);
+
+      const result = await fileOperationsService.renameFile(
+        'test-novel',
+        'contents/chapter2.txt',
+        'chapter3.txt',
+      );
+
+      expect(mockNovelRepository.renameFile).toHaveBeenCalledWith(
+        'test-novel',
+        'contents/chapter2.txt',
+        'chapter3.txt',
+      );
+      expect(mockIndexerManager.moveFile).toHaveBeenCalledWith(
+        'test-novel',
+        moveResult.oldFilePath,
+        moveResult.newFilePath,
+      );
+      expect(result).toEqual(moveResult);
+    });
+
+    it('移動後にインデックスの移動を通知する', async () => {
+      vi.mocked(mockNovelRepository.moveFile).mockResolvedValue(moveResult);
+      vi.mocked(mockIndexerManager.moveFile).mockRejectedValue(new Error('インデックスエラー'));
+
+      // インデックス更新に失敗しても移動自体は成功する
+      await expect(
+        fileOperationsService.moveFile('test-novel', 'contents/chapter2.txt', 'settings'),
+      ).resolves.toEqual(moveResult);
+      expect(mockNovelRepository.moveFile).toHaveBeenCalledWith(
+        'test-novel',
+        'contents/chapter2.txt',
+        'settings',
+      );
+    });
+  });
+
+  describe('deleteFile', () => {
+    const deleteResult = {
+      filename: 'contents/draft.txt',
+      filePath: '/test/path/test-novel/contents/draft.txt',
+      trashPath: '.dialogoi/trash/2024-01-01T00-00-00-000Z/contents/draft.txt',
+    };
+
+    it('デフォルトではゴミ箱へ移動し、インデックスから削除する', async () => {
+      vi.mocked(mockNovelRepository.deleteFile).mockResolvedValue(deleteResult);
+      vi.mocked(mockIndexerManager.removeFile).mockResolvedValue(undefined);
+
+      const result = await fileOperationsService.deleteFile('test-novel', 'contents/draft.txt');
+
+      expect(mockNovelRepository.deleteFile).toHaveBeenCalledWith(
+        'test-novel',
+        'contents/draft.txt',
+        true,
+      );
+      expect(mockIndexerManager.removeFile).toHaveBeenCalledWith(
+        'test-novel',
+        deleteResult.filePath,
+      );
+      expect(result).toEqual(deleteResult);
+    });
+
+    it('useTrash=falseが渡される', async () => {
+      vi.mocked(mockNovelRepository.deleteFile).mockResolvedValue({
+        filename: deleteResult.filename,
+        filePath: deleteResult.filePath,
+      });
+
+      await fileOperationsService.deleteFile('test-novel', 'contents/draft.txt', {
+        useTrash: false,
+      });
+
+      expect(mockNovelRepository.deleteFile).toHaveBeenCalledWith(
+        'test-novel',
+        'contents/draft.txt',
+        false,
+      );
+    });
+  });
+
+  describe('restoreFileVersion', () => {
+    it('指定バージョンを復元してインデックスを更新する', async () => {
+      const restoreResult = {
+        filename: 'contents/draft.txt',
+        filePath: '/test/path/test-novel/contents/draft.txt',
+        version: 2,
+      };
+      vi.mocked(mockNovelRepository.restoreFileVersion).mockResolvedValue(restoreResult);
+      vi.mocked(mockIndexerManager.updateFile).mockResolvedValue(undefined);
+
+      const result = await fileOperationsService.restoreFileVersion(
+        'test-novel',
+        'contents/draft.txt',
+        2,
+      );
+
+      expect(mockNovelRepository.restoreFileVersion).toHaveBeenCalledWith(
+        'test-novel',
+        'contents/draft.txt',
+        2,
+      );
+      expect(mockIndexerManager.updateFile).toHaveBeenCalledWith(
+        'test-novel',
+        restoreResult.filePath,
+      );
+      expect(result).toEqual(restoreResult);
+    });
+  });
+
   describe('notifyFileUpdate', () => {
     it('ファイル更新をIndexerManagerに通知できる', async () => {
       vi.mocked(mockIndexerManager.updateFile).mockResolvedValue(undefined);
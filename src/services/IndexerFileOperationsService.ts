@@ -1,6 +1,13 @@
 import path from 'path';
-import { FileOperationsService, FileCreationOptions } from './FileOperationsService.js';
+import {
+  FileOperationsService,
+  FileCreationOptions,
+  FileDeletionOptions,
+} from './FileOperationsService.js';
 import { NovelRepository } from '../repositories/NovelRepository.js';
+import { FileEditOperation, FileEditResult } from '../domain/fileEdit.js';
+import { FileMoveResult, FileDeleteResult } from '../domain/fileOperation.js';
+import { FileRestoreResult } from '../domain/fileHistory.js';
 import { IndexerManager } from '../lib/indexerManager.js';
 import { getLogger } from '../logging/index.js';
 
@@ -76,6 +83,89 @@ export class IndexerFileOperationsService implements FileOperationsService {
     this.logger.info('本文ファイル作成完了', { projectId, directory, filename });
   }
 
+  async editFile(
+    projectId: string,
+    filename: string,
+    operation: FileEditOperation,
+  ): Promise<FileEditResult> {
+    const result = await this.novelRepository.editFile(projectId, filename, operation);
+
+    // インデックス更新
+    await this.notifyFileUpdate(projectId, result.filePath);
+
+    this.logger.info('ファイル編集完了', {
+      projectId,
+      filename: result.filename,
+      operation: operation.type,
+    });
+    return result;
+  }
+
+  async renameFile(projectId: string, filename: string, newName: string): Promise<FileMoveResult> {
+    const result = await this.novelRepository.renameFile(projectId, filename, newName);
+
+    // インデックス更新（旧パスを削除して新パスで再インデックス）
+    await this.notifyFileMove(projectId, result.oldFilePath, result.newFilePath);
+
+    this.logger.info('ファイルリネーム完了', {
+      projectId,
+      oldFilename: result.oldFilename,
+      newFilename: result.newFilename,
+    });
+    return result;
+  }
+
+  async moveFile(
+    projectId: string,
+    filename: string,
+    targetDirectory: string,
+  ): Promise<FileMoveResult> {
+    const result = await this.novelRepository.moveFile(projectId, filename, targetDirectory);
+
+    // インデックス更新（旧パスを削除して新パスで再インデックス）
+    await this.notifyFileMove(projectId, result.oldFilePath, result.newFilePath);
+
+    this.logger.info('ファイル移動完了', {
+      projectId,
+      oldFilename: result.oldFilename,
+      newFilename: result.newFilename,
+    });
+    return result;
+  }
+
+  async deleteFile(
+    projectId: string,
+    filename: string,
+    options?: FileDeletionOptions,
+  ): Promise<FileDeleteResult> {
+    const useTrash = options?.useTrash ?? true;
+    const result = await this.novelRepository.deleteFile(projectId, filename, useTrash);
+
+    // インデックスから削除
+    await this.notifyFileRemoval(projectId, result.filePath);
+
+    this.logger.info('ファイル削除完了', {
+      projectId,
+      filename: result.filename,
+      trashPath: result.trashPath,
+    });
+    return result;
+  }
+
+  async restoreFileVersion(
+    projectId: string,
+    filename: string,
+    version: number,
+  ): Promise<FileRestoreResult> {
+    const result = await this.novelRepository.restoreFileVersion(projectId, filename, version);
+
+    // インデックス更新
+    await this.notifyFileUpdate(projectId, result.filePath);
+
+    this.logger.info('ファイル復元完了', { projectId, filename: result.filename, version });
+    return result;
+  }
+
   async notifyFileUpdate(projectId: string, filePath: string): Promise<void> {
     if (this.indexerManager) {
       try {
@@ -91,4 +181,41 @@ export class IndexerFileOperationsService implements FileOperationsService {
       });
     }
   }
+
+  async notifyFileRemoval(projectId: string, filePath: string): Promise<void> {
+    if (this.indexerManager) {
+      try {
+        await this.indexerManager.removeFile(projectId, filePath);
+        this.logger.debug('インデックス削除完了', { projectId, filePath });
+      } catch (error) {
+        this.logger.error('インデックス削除エラー', error as Error, { projectId, filePath });
+      }
+    } else {
+      this.logger.debug('IndexerManager未設定のためインデックス削除スキップ', {
+        projectId,
+        filePath,
+      });
+    }
+  }
+
+  async notifyFileMove(projectId: string, oldFilePath: string, newFilePath: string): Promise<void> {
+    if (this.indexerManager) {
+      try {
+        await this.indexerManager.moveFile(projectId, oldFilePath, newFilePath);
+        this.logger.debug('インデックス移動完了', { projectId, oldFilePath, newFilePath });
+      } catch (error) {
+        this.logger.error('インデックス移動エラー', error as Error, {
+          projectId,
+          oldFilePath,
+          newFilePath,
+        });
+      }
+    } else {
+      this.logger.debug('IndexerManager未設定のためインデックス移動スキップ', {
+        projectId,
+        oldFilePath,
+        newFilePath,
+      });
+    }
+  }
 }
@@ -8,20 +8,35 @@ import { ConfigurationError } from '../errors/index.js';
 const mockNovelRepository: NovelRepository = {
   listProjects: vi.fn(),
   getProject: vi.fn(),
+  listProjectConfigIssues: vi.fn(),
+  refreshProject: vi.fn(),
+  createProject: vi.fn(),
+  listProjectTemplates: vi.fn(),
+  updateProjectConfig: vi.fn(),
   listSettingsFiles: vi.fn(),
   getSettingsContent: vi.fn(),
   searchSettingsFiles: vi.fn(),
   listContentFiles: vi.fn(),
   getContentFiles: vi.fn(),
+  readContentFiles: vi.fn(),
+  writeExportFile: vi.fn(),
   searchContentFiles: vi.fn(),
   listInstructionFiles: vi.fn(),
   getInstructionFiles: vi.fn(),
   createSettingsFile: vi.fn(),
   createContentFile: vi.fn(),
+  editFile: vi.fn(),
+  renameFile: vi.fn(),
+  moveFile: vi.fn(),
+  deleteFile: vi.fn(),
+  listFileHistory: vi.fn(),
+  getFileVersionContent: vi.fn(),
+  restoreFileVersion: vi.fn(),
 };
 
 const mockIndexerManager = {
   search: vi.fn(),
+  hybridSearch: vi.fn(),
   updateFile: vi.fn(),
   removeFile: vi.fn(),
   clearNovel: vi.fn(),
@@ -32,6 +47,10 @@ const mockIndexerManager = {
   startFileWatching: vi.fn(),
   stopFileWatching: vi.fn(),
   isFileWatching: vi.fn(),
+  getIndexStatus: vi.fn(),
+  startRebuild: vi.fn(),
+  clearNovelIndex: vi.fn(),
+  onIndexProgress: vi.fn(),
 } as Partial<IndexerManager> as IndexerManager;
 
 describe('IndexerSearchService', () => {
@@ -97,6 +116,20 @@ describe('IndexerSearchService', () => {
       );
     });
 
+    it('検索の間だけインデックス構築の進捗リスナーを登録する', async () => {
+      const unsubscribe = vi.fn();
+      vi.mocked(mockIndexerManager.onIndexProgress).mockReturnValue(unsubscribe);
+      vi.mocked(mockIndexerManager.search).mockRejectedValue(new Error('index failure'));
+      const onProgress = vi.fn();
+
+      await expect(
+        searchService.searchRag('test-novel', 'テストクエリ', { onProgress }),
+      ).rejects.toThrow('index failure');
+
+      expect(mockIndexerManager.onIndexProgress).toHaveBeenCalledWith('test-novel', onProgress);
+      expect(unsubscribe).toHaveBeenCalled();
+    });
+
     it('IndexerManagerが設定されていない場合はエラーを投げる', async () => {
       const service = new IndexerSearchService(mockNovelRepository);
 
@@ -106,6 +139,42 @@ describe('IndexerSearchService', () => {
     });
   });
 
+  describe('searchHybrid', () => {
+    it('ハイブリッド検索を実行できる', async () => {
+      const mockResults = [
+        {
+          id: 'test-1',
+          score: 1,
+          snippet: 'テストスニペット',
+          payload: { file: 'test.md', start: 1, end: 10 },
+          scores: { vector: 0.8, keyword: 3.2 },
+        },
+      ];
+      vi.mocked(mockIndexerManager.hybridSearch).mockResolvedValue(mockResults);
+
+      const results = await searchService.searchHybrid('test-novel', 'テストクエリ', {
+        k: 5,
+        fileType: 'content',
+      });
+
+      expect(mockIndexerManager.hybridSearch).toHaveBeenCalledWith(
+        'test-novel',
+        'テストクエリ',
+        5,
+        'content',
+      );
+      expect(results).toEqual(mockResults);
+    });
+
+    it('IndexerManagerが設定されていない場合はエラーを投げる', async () => {
+      const service = new IndexerSearchService(mockNovelRepository);
+
+      await expect(service.searchHybrid('test-novel', 'テストクエリ')).rejects.toThrow(
+        ConfigurationError,
+      );
+    });
+  });
+
   describe('searchSettingsFiles', () => {
     it('設定ファイル検索を実行できる', async () => {
       const mockResults = [{ filename: 'test.md', matchingLines: ['マッチした行'] }];
@@ -194,6 +263,70 @@ describe('IndexerSearchService', () => {
     });
   });
 
+  describe('インデックス管理', () => {
+    it('プロジェクトを確認してからインデックスの状態を取得する', async () => {
+      const status = {
+        novelId: 'test-project',
+        indexedFiles: 2,
+        chunkCount: 5,
+        lastUpdated: null,
+        initialized: false,
+        build: null,
+        pendingEvents: 0,
+        fileWatching: false,
+        backendMode: null,
+        backendAvailable: false,
+      };
+      vi.mocked(mockIndexerManager.getIndexStatus).mockResolvedValue(status);
+
+      const result = await searchService.getIndexStatus('test-project');
+
+      expect(mockNovelRepository.getProject).toHaveBeenCalledWith('test-project');
+      expect(mockIndexerManager.getIndexStatus).toHaveBeenCalledWith('test-project');
+      expect(result).toBe(status);
+    });
+
+    it('再構築を開始して構築の状態を返す', async () => {
+      const build = {
+        state: 'running' as const,
+        trigger: 'rebuild' as const,
+        startedAt: '2026-01-01T00:00:00.000Z',
+        processedFiles: 0,
+        totalFiles: 0,
+      };
+      vi.mocked(mockIndexerManager.startRebuild).mockResolvedValue(build);
+
+      const result = await searchService.rebuildIndex('test-project');
+
+      expect(mockIndexerManager.startRebuild).toHaveBeenCalledWith('test-project');
+      expect(result).toBe(build);
+    });
+
+    it('未初期化でもインデックスを削除する', async () => {
+      await searchService.clearIndex('test-project');
+
+      expect(mockIndexerManager.clearNovelIndex).toHaveBeenCalledWith('test-project', {
+        force: true,
+      });
+    });
+
+    it('存在しないプロジェクトではインデックスを操作しない', async () => {
+      vi.mocked(mockNovelRepository.getProject).mockRejectedValueOnce(
+        new Error('Project not found'),
+      );
+
+      await expect(searchService.clearIndex('missing')).rejects.toThrow('Project not found');
+      expect(mockIndexerManager.clearNovelIndex).not.toHaveBeenCalled();
+    });
+
+    it('IndexerManagerが設定されていない場合はエラーを投げる', async () => {
+      const service = new IndexerSearchService(mockNovelRepository);
+
+      await expect(service.getIndexStatus('test-project')).rejects.toThrow(ConfigurationError);
+      await expect(service.rebuildIndex('test-project')).rejects.toThrow(ConfigurationError);
+    });
+  });
+
   describe('isFileWatching', () => {
     it('ファイル監視状態を取得できる', () => {
       vi.mocked(mockIndexerManager.isFileWatching).mockReturnValue(true);
@@ -1,5 +1,6 @@
 import { SearchService, SearchOptions, KeywordSearchResult } from './SearchService.js';
 import { SearchResult } from '../backends/SearchBackend.js';
+import { IndexBuildStatus, NovelIndexStatus } from '../domain/indexStatus.js';
 import { NovelRepository } from '../repositories/NovelRepository.js';
 import { IndexerManager } from '../lib/indexerManager.js';
 import { ConfigurationError } from '../errors/index.js';
@@ -42,7 +43,50 @@ export class IndexerSearchService implements SearchService {
     const k = options?.k || 10;
     const fileType = options?.fileType;
     this.logger.debug('RAG検索実行', { projectId, query, k, fileType });
-    return this.indexerManager.search(projectId, query, k, fileType);
+    const indexerManager = this.indexerManager;
+    return this.withIndexProgress(indexerManager, projectId, options?.onProgress, () =>
+      indexerManager.search(projectId, query, k, fileType),
+    );
+  }
+
+  async searchHybrid(
+    projectId: string,
+    query: string,
+    options?: SearchOptions,
+  ): Promise<SearchResult[]> {
+    if (!this.indexerManager) {
+      throw new ConfigurationError(
+        'IndexerManager が設定されていません',
+        'INDEXER_MANAGER_NOT_CONFIGURED',
+      );
+    }
+
+    const k = options?.k || 10;
+    const fileType = options?.fileType;
+    this.logger.debug('ハイブリッド検索実行', { projectId, query, k, fileType });
+    const indexerManager = this.indexerManager;
+    return this.withIndexProgress(indexerManager, projectId, options?.onProgress, () =>
+      indexerManager.hybridSearch(projectId, query, k, fileType),
+    );
+  }
+
+  /**
+   * 検索の間だけインデックス構築の進捗リスナーを登録する
+   */
+  private async withIndexProgress<T>(
+    indexerManager: IndexerManager,
+    projectId: string,
+    onProgress: SearchOptions['onProgress'],
+    search: () => Promise<T>,
+  ): Promise<T> {
+    const unsubscribe = onProgress
+      ? indexerManager.onIndexProgress(projectId, onProgress)
+      : undefined;
+    try {
+      return await search();
+    } finally {
+      unsubscribe?.();
+    }
   }
 
   async searchSettingsFiles(
@@ -65,6 +109,38 @@ export class IndexerSearchService implements SearchService {
     return this.novelRepository.searchContentFiles(projectId, keyword, useRegex);
   }
 
+  async getIndexStatus(projectId: string): Promise<NovelIndexStatus> {
+    const indexerManager = await this.requireProjectIndex(projectId);
+    return indexerManager.getIndexStatus(projectId);
+  }
+
+  async rebuildIndex(projectId: string): Promise<IndexBuildStatus> {
+    const indexerManager = await this.requireProjectIndex(projectId);
+    this.logger.info('インデックス再構築開始', { projectId });
+    return indexerManager.startRebuild(projectId);
+  }
+
+  async clearIndex(projectId: string): Promise<void> {
+    const indexerManager = await this.requireProjectIndex(projectId);
+    this.logger.info('インデックス削除', { projectId });
+    await indexerManager.clearNovelIndex(projectId, { force: true });
+  }
+
+  /**
+   * IndexerManager とプロジェクトの存在を確認
+   * 存在しないプロジェクトIDでインデックスを操作しないよう、先にプロジェクトを取得する
+   */
+  private async requireProjectIndex(projectId: string): Promise<IndexerManager> {
+    if (!this.indexerManager) {
+      throw new ConfigurationError(
+        'IndexerManager が設定されていません',
+        'INDEXER_MANAGER_NOT_CONFIGURED',
+      );
+    }
+    await this.novelRepository.getProject(projectId);
+    return this.indexerManager;
+  }
+
   async startFileWatching(): Promise<void> {
     if (!this.indexerManager) {
       throw new ConfigurationError(
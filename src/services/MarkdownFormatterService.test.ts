@@ -232,6 +232,402 @@ describe('MarkdownFormatterService', () => {
     });
   });
 
+  describe('formatNovelConfig', () => {
+    it('プロジェクトIDと novel.json の内容を出力する', () => {
+      const result = MarkdownFormatterService.formatNovelConfig('小説プロジェクトを作成しました', {
+        id: 'new_novel',
+        path: '/novels/new_novel',
+        config: {
+          title: '新しい小説',
+          settingsDirectories: ['settings'],
+          contentDirectories: ['contents'],
+        },
+      });
+
+      expect(result).toContain('## 小説プロジェクトを作成しました');
+      expect(result).toContain('**プロジェクトID:** `new_novel`');
+      expect(result).toContain('```json\n{\n  "title": "新しい小説",');
+    });
+  });
+
+  describe('formatProjectTemplates', () => {
+    it('テンプレートの種類・構成・雛形ファイルを出力する', () => {
+      const result = MarkdownFormatterService.formatProjectTemplates([
+        {
+          id: 'short_story',
+          name: '短編',
+          description: '1本で完結する短編向け',
+          source: 'builtin',
+          path: '/templates/short_story',
+          settingsDirectories: ['settings'],
+          contentDirectories: ['contents'],
+          files: ['DIALOGOI.md', 'contents/story.md'],
+        },
+      ]);
+
+      expect(result).toContain('**テンプレート数:** 1');
+      expect(result).toContain('### 短編（`short_story`）');
+      expect(result).toContain('**種類:** 組み込み\n**概要:** 1本で完結する短編向け');
+      expect(result).toContain('**雛形ファイル:** DIALOGOI.md, contents/story.md');
+    });
+  });
+
+  describe('formatProjectConfigIssues', () => {
+    it('読み込めないプロジェクトと警告のあるプロジェクトを別のセクションに出力する', () => {
+      const result = MarkdownFormatterService.formatProjectConfigIssues([
+        {
+          id: 'broken',
+          configPath: '/novels/broken/novel.json',
+          errors: ['contentDirectories: 必須です'],
+          warnings: [],
+        },
+        {
+          id: 'typo',
+          configPath: '/novels/typo/novel.json',
+          errors: [],
+          warnings: ['tilte: 未知のキーです（無視されます）。title の誤りではありませんか'],
+        },
+      ]);
+
+      expect(result).toContain('## 読み込めないプロジェクト\n\n**プロジェクト数:** 1');
+      expect(result).toContain(
+        '### broken\n\n**設定ファイル:** `/novels/broken/novel.json`\n\n- contentDirectories: 必須です',
+      );
+      expect(result).toContain('## 警告のあるプロジェクト\n\n### typo');
+    });
+
+    it('問題がない場合はその旨を返す', () => {
+      expect(MarkdownFormatterService.formatProjectConfigIssues([])).toBe(
+        'novel.json に問題のあるプロジェクトはありません。',
+      );
+    });
+  });
+
+  describe('formatCharacterList', () => {
+    it('登場人物一覧を別名と定義元付きで生成する', () => {
+      const result = MarkdownFormatterService.formatCharacterList('test-project', [
+        {
+          name: '山田太郎',
+          aliases: ['主人公', 'タロ'],
+          attributes: {},
+          sourceFiles: ['settings/basic.md'],
+        },
+        { name: 'リリア', aliases: [], attributes: {}, sourceFiles: ['settings/basic.md'] },
+      ]);
+
+      expect(result).toContain('## 登場人物一覧');
+      expect(result).toContain('**登場人物数:** 2');
+      expect(result).toContain('1. **山田太郎**（主人公、タロ） - settings/basic.md');
+      expect(result).toContain('2. **リリア** - settings/basic.md');
+    });
+  });
+
+  describe('formatCharacter', () => {
+    it('登場人物の属性と説明を生成する', () => {
+      const result = MarkdownFormatterService.formatCharacter('test-project', {
+        character: {
+          name: '山田太郎',
+          aliases: ['主人公'],
+          attributes: { 年齢: '16歳' },
+          description: '異世界に転生した高校生',
+          sourceFiles: ['settings/basic.md'],
+        },
+        matchedBy: 'alias',
+      });
+
+      expect(result).toContain('## 山田太郎');
+      expect(result).toContain('**別名:** 主人公');
+      expect(result).toContain('**一致:** 別名');
+      expect(result).toContain('- **年齢**: 16歳');
+      expect(result).toContain('### 説明\n\n異世界に転生した高校生');
+    });
+
+    it('属性・説明がない場合はセクションを省略する', () => {
+      const result = MarkdownFormatterService.formatCharacter('test-project', {
+        character: { name: 'ガルド', aliases: [], attributes: {}, sourceFiles: ['a.md'] },
+        matchedBy: 'name',
+      });
+
+      expect(result).toContain('**別名:** なし');
+      expect(result).not.toContain('### 属性');
+      expect(result).not.toContain('### 説明');
+    });
+  });
+
+  describe('formatCharacterAppearances', () => {
+    const lilia = { name: 'リリア', aliases: ['ヒロイン'], attributes: {}, sourceFiles: ['a.md'] };
+
+    it('初登場・最終登場・章別の登場回数・共起を生成する', () => {
+      const result = MarkdownFormatterService.formatCharacterAppearances('test-project', {
+        character: lilia,
+        totalMentions: 3,
+        chapters: [
+          {
+            filename: 'contents/chapter_1.txt',
+            mentions: 3,
+            scenes: [{ sceneIndex: 0, title: '第1章', startLine: 1, endLine: 12, mentions: 3 }],
+          },
+        ],
+        firstAppearance: { filename: 'contents/chapter_1.txt', line: 5, text: 'リリアが現れた。' },
+        lastAppearance: { filename: 'contents/chapter_1.txt', line: 9, text: 'リリアは笑った。' },
+        coOccurrences: [{ name: '山田太郎', scenes: 1 }],
+      });
+
+      expect(result).toContain('## 登場状況: リリア');
+      expect(result).toContain('**登場回数:** 3');
+      expect(result).toContain('contents/chapter_1.txt:5\n> リリアが現れた。');
+      expect(result).toContain('contents/chapter_1.txt:9\n> リリアは笑った。');
+      expect(result).toContain('  - シーン1「第1章」(1-12行): 3回');
+      expect(result).toContain('- 山田太郎: 1シーン');
+    });
+
+    it('登場しない場合はその旨を表示する', () => {
+      const result = MarkdownFormatterService.formatCharacterAppearances('test-project', {
+        character: lilia,
+        totalMentions: 0,
+        chapters: [],
+        coOccurrences: [],
+      });
+
+      expect(result).toContain('「リリア」「ヒロイン」の記述は見つかりませんでした');
+    });
+  });
+
+  describe('formatConsistencyReport', () => {
+    const base = {
+      filename: 'contents/chapter_1.txt',
+      startLine: 1,
+      endLine: 20,
+      entities: ['リリア'],
+      settingsSource: 'vector' as const,
+    };
+
+    it('食い違いごとに本文と設定の位置を生成する', () => {
+      const result = MarkdownFormatterService.formatConsistencyReport('test-project', {
+        ...base,
+        issues: [
+          {
+            entity: 'リリア',
+            attribute: 'title',
+            manuscript: {
+              entity: 'リリア',
+              attribute: 'title',
+              qualifier: '魔法学校',
+              value: '次席',
+              filename: 'contents/chapter_1.txt',
+              line: 12,
+              text: 'リリアは魔法学校の次席だ。',
+            },
+            settings: [
+              {
+                entity: 'リリア',
+                attribute: 'title',
+                qualifier: '魔法学校',
+                value: '首席',
+                filename: 'settings/basic.md',
+                line: 8,
+                text: '- 魔法学校の首席。',
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(result).toContain('## 整合性チェック: contents/chapter_1.txt');
+      expect(result).toContain('**設定の参照方法:** ベクトル検索');
+      expect(result).toContain('**食い違い:** 1件');
+      expect(result).toContain('### 1. リリア の肩書き（魔法学校）');
+      expect(result).toContain(
+        '- 本文: 「次席」 contents/chapter_1.txt:12\n  > リリアは魔法学校の次席だ。',
+      );
+      expect(result).toContain('- 設定: 「首席」 settings/basic.md:8\n  > - 魔法学校の首席。');
+    });
+
+    it('食い違いがない場合はその旨を表示する', () => {
+      const result = MarkdownFormatterService.formatConsistencyReport('test-project', {
+        ...base,
+        settingsSource: 'scan',
+        issues: [],
+      });
+
+      expect(result).toContain('**設定の参照方法:** 設定ファイルの走査');
+      expect(result).toContain('設定と食い違う記述は見つかりませんでした。');
+    });
+  });
+
+  describe('formatIndexStatus', () => {
+    const status = {
+      novelId: 'test-project',
+      indexedFiles: 3,
+      chunkCount: 12,
+      lastUpdated: '2026-01-01T00:00:00.000Z',
+      initialized: true,
+      build: null,
+      pendingEvents: 2,
+      fileWatching: true,
+      backendMode: 'docker' as const,
+      backendAvailable: true,
+    };
+
+    it('インデックスの集計とベクトルストアの状態を生成する', () => {
+      const result = MarkdownFormatterService.formatIndexStatus(status);
+
+      expect(result).toContain('## インデックスの状態: test-project');
+      expect(result).toContain('**状態:** 検索可能');
+      expect(result).toContain('**インデックス済みファイル:** 3件');
+      expect(result).toContain('**チャンク数:** 12');
+      expect(result).toContain('**最終更新:** 2026-01-01T00:00:00.000Z');
+      expect(result).toContain('**反映待ちの変更:** 2件');
+      expect(result).toContain('**ベクトルストア:** Docker Qdrant');
+      expect(result).not.toContain('###');
+    });
+
+    it('未構築で構築に失敗した場合はエラーを表示する', () => {
+      const result = MarkdownFormatterService.formatIndexStatus({
+        ...status,
+        indexedFiles: 0,
+        chunkCount: 0,
+        lastUpdated: null,
+        initialized: false,
+        backendMode: null,
+        backendAvailable: false,
+        build: {
+          state: 'failed',
+          trigger: 'rebuild',
+          startedAt: '2026-01-01T00:00:00.000Z',
+          finishedAt: '2026-01-01T00:00:05.000Z',
+          processedFiles: 1,
+          totalFiles: 4,
+          error: '埋め込みの生成に失敗しました',
+        },
+      });
+
+      expect(result).toContain('**状態:** 未構築');
+      expect(result).toContain('**最終更新:** なし');
+      expect(result).toContain('**ベクトルストア:** 未初期化');
+      expect(result).toContain('### 再構築: 失敗');
+      expect(result).toContain('- 進捗: 1/4 ファイル');
+      expect(result).toContain('- エラー: 埋め込みの生成に失敗しました');
+    });
+  });
+
+  describe('formatDiagnosticReport', () => {
+    it('項目ごとの結果と対処方法を生成する', () => {
+      const result = MarkdownFormatterService.formatDiagnosticReport({
+        status: 'fail',
+        checkedAt: '2026-01-01T00:00:00.000Z',
+        checks: [
+          { id: 'project-root', label: 'プロジェクトルート', status: 'pass', message: '/novels' },
+          {
+            id: 'vector-backend',
+            label: 'ベクトルストア',
+            status: 'fail',
+            message: 'Qdrant に接続できません',
+            hint: 'vector.backend を local に設定してください',
+          },
+        ],
+      });
+
+      expect(result).toContain('## 診断結果: ❌ 失敗');
+      expect(result).toContain('- ✅ OK **プロジェクトルート**: /novels');
+      expect(result).toContain(
+        '- ❌ 失敗 **ベクトルストア**: Qdrant に接続できません\n  - 対処: vector.backend を local に設定してください',
+      );
+    });
+  });
+
+  describe('formatExportResult', () => {
+    it('出力先と目次を生成する', () => {
+      const result = MarkdownFormatterService.formatExportResult({
+        novelId: 'novel-1',
+        format: 'epub',
+        path: 'exports/novel-1.epub',
+        bytes: 2048,
+        sourceFiles: 2,
+        chapters: ['第一章', '第二章'],
+      });
+
+      expect(result).toContain('## 書き出し完了: EPUB');
+      expect(result).toContain('**出力先:** `exports/novel-1.epub`（2 KB）');
+      expect(result).toContain('1. 第一章\n2. 第二章');
+    });
+  });
+
+  describe('formatWebNovelExportResult', () => {
+    it('話ごとの文字数・変換・上限超過を生成する', () => {
+      const result = MarkdownFormatterService.formatWebNovelExportResult({
+        novelId: 'novel-1',
+        profile: 'narou',
+        profileName: '小説家になろう',
+        maxLength: 70000,
+        episodes: [
+          {
+            title: '第一話',
+            sourceFile: 'contents/01.md',
+            path: 'exports/novel-1-narou-001.txt',
+            length: 1200,
+            overLimit: false,
+            conversions: { emphasis: 2, indent: 10 },
+          },
+          {
+            title: '第二話',
+            sourceFile: 'contents/02.md',
+            path: 'exports/novel-1-narou-002.txt',
+            length: 80000,
+            overLimit: true,
+            conversions: {},
+          },
+        ],
+      });
+
+      expect(result).toContain('## 書き出し完了: 小説家になろう');
+      expect(result).toContain('⚠️ 1話が上限（70,000文字）を超えています');
+      expect(result).toContain(
+        '1. **第一話** `exports/novel-1-narou-001.txt`（1,200文字）\n   - 元ファイル: `contents/01.md`\n   - 変換: 傍点をルビに変換 2件、段落の字下げ 10件',
+      );
+      expect(result).toContain('（80,000文字 ⚠️ 上限超過）');
+      expect(result).toContain('   - 変換: なし');
+    });
+  });
+
+  describe('formatImportResult', () => {
+    it('取り込み元と作成した本文ファイルを生成する', () => {
+      const result = MarkdownFormatterService.formatImportResult({
+        novelId: 'novel-1',
+        source: '/tmp/source.txt',
+        encoding: 'shift_jis',
+        title: '塔の魔術師',
+        author: '架空の作者',
+        directory: 'contents',
+        files: [
+          { filename: 'contents/001.md' },
+          { filename: 'contents/002_第一章.md', title: '第一章　｜蒼穹《そら》' },
+        ],
+        unresolvedGaiji: [],
+      });
+
+      expect(result).toContain('## 取り込み完了: 「塔の魔術師」 架空の作者');
+      expect(result).toContain('**取り込み元:** `/tmp/source.txt`（Shift_JIS）');
+      expect(result).toContain('### 作成した本文ファイル（2件）');
+      expect(result).toContain('- `contents/001.md`\n- `contents/002_第一章.md`: 第一章　蒼穹');
+      expect(result).not.toContain('外字');
+    });
+
+    it('文字にできなかった外字の注記を一覧にする', () => {
+      const result = MarkdownFormatterService.formatImportResult({
+        novelId: 'novel-1',
+        source: '/tmp/source.txt',
+        encoding: 'utf-8',
+        directory: 'contents',
+        files: [{ filename: 'contents/001.md' }],
+        unresolvedGaiji: ['「てへん＋劣」、第3水準1-84-77'],
+      });
+
+      expect(result).toContain('### 文字にできなかった外字（1件）');
+      expect(result).toContain('- 「てへん＋劣」、第3水準1-84-77');
+    });
+  });
+
   describe('getSearchType', () => {
     it('正規表現フラグがtrueの場合は正規表現を返す', () => {
       const result = MarkdownFormatterService.getSearchType(true);
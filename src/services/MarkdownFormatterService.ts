@@ -3,6 +3,16 @@
  * MCPツールからのレスポンスを統一されたMarkdown形式に変換する
  */
 
+import { Character, CharacterMatch, CharacterAppearances } from '../domain/character.js';
+import { ConsistencyReport, FactAttribute } from '../domain/consistency.js';
+import { IndexBuildStatus, NovelIndexStatus, VectorBackendMode } from '../domain/indexStatus.js';
+import { DiagnosticReport, DiagnosticStatus } from '../domain/diagnostics.js';
+import { ExportResult, WebNovelConversion, WebNovelExportResult } from '../domain/export.js';
+import { ImportResult } from '../domain/import.js';
+import { NovelProject, ProjectConfigIssue } from '../domain/novel.js';
+import { ProjectTemplate } from '../domain/projectTemplate.js';
+import { stripRuby } from '../lib/ruby.js';
+
 export interface FileInfo {
   filename: string;
   preview: string;
@@ -23,6 +33,45 @@ export interface SearchOptions {
   searchType?: 'キーワード' | '正規表現';
 }
 
+const CHARACTER_MATCH_LABELS: Record<CharacterMatch['matchedBy'], string> = {
+  name: '名前',
+  alias: '別名',
+  partial: '部分一致',
+};
+
+const FACT_ATTRIBUTE_LABELS: Record<FactAttribute, string> = {
+  age: '年齢',
+  eyeColor: '瞳の色',
+  hairColor: '髪の色',
+  title: '肩書き',
+  relationship: '関係',
+};
+
+const BUILD_STATE_LABELS: Record<IndexBuildStatus['state'], string> = {
+  running: '実行中',
+  completed: '完了',
+  failed: '失敗',
+};
+
+const BUILD_TRIGGER_LABELS: Record<IndexBuildStatus['trigger'], string> = {
+  initial: '初回構築',
+  rebuild: '再構築',
+  refresh: 'novel.json の変更の反映',
+};
+
+const BACKEND_MODE_LABELS: Record<VectorBackendMode, string> = {
+  explicit: '外部 Qdrant',
+  docker: 'Docker Qdrant',
+  fallback: 'フォールバック（Qdrant 利用不可）',
+  local: 'ローカルベクトルストア',
+};
+
+const DIAGNOSTIC_STATUS_LABELS: Record<DiagnosticStatus, string> = {
+  pass: '✅ OK',
+  warn: '⚠️ 警告',
+  fail: '❌ 失敗',
+};
+
 /**
  * Markdown形式でのレスポンス生成サービス
  */
@@ -122,6 +171,331 @@ ${projects
   .join('\n\n')}`;
   }
 
+  /**
+   * 小説プロジェクトの設定（novel.json）をMarkdown形式で生成
+   */
+  static formatNovelConfig(heading: string, project: NovelProject): string {
+    return `## ${heading}
+
+**プロジェクトID:** \`${project.id}\`
+**パス:** \`${project.path}\`
+
+\`\`\`json
+${JSON.stringify(project.config, null, 2)}
+\`\`\``;
+  }
+
+  /**
+   * プロジェクトのテンプレート一覧をMarkdown形式で生成
+   */
+  static formatProjectTemplates(templates: ProjectTemplate[]): string {
+    return `## プロジェクトのテンプレート
+
+**テンプレート数:** ${templates.length}
+
+${templates
+  .map(
+    (template) => `### ${template.name}（\`${template.id}\`）
+
+**種類:** ${template.source === 'builtin' ? '組み込み' : 'ユーザー'}${template.description ? `\n**概要:** ${template.description}` : ''}
+**設定ディレクトリ:** ${template.settingsDirectories.join(', ')}
+**本文ディレクトリ:** ${template.contentDirectories.join(', ')}
+**雛形ファイル:** ${template.files.join(', ') || 'なし'}`,
+  )
+  .join('\n\n')}`;
+  }
+
+  /**
+   * novel.json に問題のあるプロジェクト一覧をMarkdown形式で生成
+   */
+  static formatProjectConfigIssues(issues: ProjectConfigIssue[]): string {
+    if (issues.length === 0) {
+      return 'novel.json に問題のあるプロジェクトはありません。';
+    }
+
+    const format = (issue: ProjectConfigIssue, messages: string[]) =>
+      `### ${issue.id}
+
+**設定ファイル:** \`${issue.configPath}\`
+
+${messages.map((message) => `- ${message}`).join('\n')}`;
+
+    const invalid = issues.filter((issue) => issue.errors.length > 0);
+    const warned = issues.filter((issue) => issue.warnings.length > 0);
+    const sections: string[] = [];
+    if (invalid.length > 0) {
+      sections.push(`## 読み込めないプロジェクト
+
+**プロジェクト数:** ${invalid.length}
+
+${invalid.map((issue) => format(issue, issue.errors)).join('\n\n')}`);
+    }
+    if (warned.length > 0) {
+      sections.push(`## 警告のあるプロジェクト
+
+${warned.map((issue) => format(issue, issue.warnings)).join('\n\n')}`);
+    }
+    return sections.join('\n\n');
+  }
+
+  /**
+   * 登場人物一覧をMarkdown形式で生成
+   */
+  static formatCharacterList(projectId: string, characters: Character[]): string {
+    return `## 登場人物一覧
+
+**プロジェクト:** ${projectId}
+**登場人物数:** ${characters.length}
+
+${characters
+  .map(
+    (character, index) =>
+      `${index + 1}. **${character.name}**${character.aliases.length > 0 ? `（${character.aliases.join('、')}）` : ''} - ${character.sourceFiles.join(', ')}`,
+  )
+  .join('\n')}`;
+  }
+
+  /**
+   * 登場人物の詳細をMarkdown形式で生成
+   */
+  static formatCharacter(projectId: string, match: CharacterMatch): string {
+    const { character } = match;
+    const attributes = Object.entries(character.attributes).map(
+      ([key, value]) => `- **${key}**: ${value.replace(/\n/g, '\n  ')}`,
+    );
+
+    return `## ${character.name}
+
+**プロジェクト:** ${projectId}
+**別名:** ${character.aliases.length > 0 ? character.aliases.join('、') : 'なし'}
+**定義元:** ${character.sourceFiles.join(', ')}
+**一致:** ${CHARACTER_MATCH_LABELS[match.matchedBy]}${attributes.length > 0 ? `\n\n### 属性\n\n${attributes.join('\n')}` : ''}${character.description ? `\n\n### 説明\n\n${character.description}` : ''}`;
+  }
+
+  /**
+   * 登場人物の登場状況をMarkdown形式で生成
+   */
+  static formatCharacterAppearances(projectId: string, appearances: CharacterAppearances): string {
+    const { character, firstAppearance, lastAppearance } = appearances;
+    const header = `## 登場状況: ${character.name}
+
+**プロジェクト:** ${projectId}
+**登場回数:** ${appearances.totalMentions}
+**登場章数:** ${appearances.chapters.length}`;
+
+    if (appearances.totalMentions === 0 || !firstAppearance || !lastAppearance) {
+      return `${header}
+
+本文中に「${[character.name, ...character.aliases].join('」「')}」の記述は見つかりませんでした。`;
+    }
+
+    const chapters = appearances.chapters.map(
+      (chapter) =>
+        `- **${chapter.filename}**: ${chapter.mentions}回\n${chapter.scenes
+          .map(
+            (scene) =>
+              `  - シーン${scene.sceneIndex + 1}「${scene.title}」(${scene.startLine}-${scene.endLine}行): ${scene.mentions}回`,
+          )
+          .join('\n')}`,
+    );
+    const coOccurrences =
+      appearances.coOccurrences.length > 0
+        ? appearances.coOccurrences.map((co) => `- ${co.name}: ${co.scenes}シーン`).join('\n')
+        : '- なし';
+
+    return `${header}
+
+### 初登場
+
+${firstAppearance.filename}:${firstAppearance.line}
+> ${firstAppearance.text}
+
+### 最終登場
+
+${lastAppearance.filename}:${lastAppearance.line}
+> ${lastAppearance.text}
+
+### 章・シーン別
+
+${chapters.join('\n')}
+
+### 同じシーンに登場した人物
+
+${coOccurrences}`;
+  }
+
+  /**
+   * 整合性チェック結果をMarkdown形式で生成
+   */
+  static formatConsistencyReport(projectId: string, report: ConsistencyReport): string {
+    const header = `## 整合性チェック: ${report.filename}
+
+**プロジェクト:** ${projectId}
+**範囲:** ${report.startLine}-${report.endLine}行
+**対象:** ${report.entities.length > 0 ? report.entities.join('、') : 'なし'}
+**設定の参照方法:** ${report.settingsSource === 'vector' ? 'ベクトル検索' : '設定ファイルの走査'}`;
+
+    if (report.issues.length === 0) {
+      return `${header}
+
+設定と食い違う記述は見つかりませんでした。`;
+    }
+
+    const issues = report.issues.map((issue, index) => {
+      const label = `${FACT_ATTRIBUTE_LABELS[issue.attribute]}${issue.manuscript.qualifier ? `（${issue.manuscript.qualifier}）` : ''}`;
+      const settings = issue.settings
+        .map((fact) => `- 設定: 「${fact.value}」 ${fact.filename}:${fact.line}\n  > ${fact.text}`)
+        .join('\n');
+      return `### ${index + 1}. ${issue.entity} の${label}
+
+- 本文: 「${issue.manuscript.value}」 ${issue.manuscript.filename}:${issue.manuscript.line}
+  > ${issue.manuscript.text}
+${settings}`;
+    });
+
+    return `${header}
+**食い違い:** ${report.issues.length}件
+
+${issues.join('\n\n')}`;
+  }
+
+  /**
+   * インデックスの状態をMarkdown形式で生成
+   */
+  static formatIndexStatus(status: NovelIndexStatus): string {
+    const backend = status.backendMode
+      ? `${BACKEND_MODE_LABELS[status.backendMode]}${status.backendAvailable ? '' : '（利用不可）'}`
+      : '未初期化';
+
+    const lines = [
+      `## インデックスの状態: ${status.novelId}`,
+      '',
+      `**状態:** ${status.initialized ? '検索可能' : '未構築'}`,
+      `**インデックス済みファイル:** ${status.indexedFiles}件`,
+      `**チャンク数:** ${status.chunkCount}`,
+      `**最終更新:** ${status.lastUpdated ?? 'なし'}`,
+      `**反映待ちの変更:** ${status.pendingEvents}件`,
+      `**ファイル監視:** ${status.fileWatching ? '有効' : '無効'}`,
+      `**ベクトルストア:** ${backend}`,
+    ];
+
+    if (status.build) {
+      lines.push('', this.formatIndexBuild(status.build));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * インデックス構築の状態をMarkdown形式で生成
+   */
+  static formatIndexBuild(build: IndexBuildStatus): string {
+    const lines = [
+      `### ${BUILD_TRIGGER_LABELS[build.trigger]}: ${BUILD_STATE_LABELS[build.state]}`,
+      '',
+      `- 進捗: ${build.processedFiles}/${build.totalFiles} ファイル`,
+      `- 開始: ${build.startedAt}`,
+    ];
+    if (build.finishedAt) {
+      lines.push(`- 終了: ${build.finishedAt}`);
+    }
+    if (build.error) {
+      lines.push(`- エラー: ${build.error}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * 診断結果をMarkdown形式で生成
+   */
+  static formatDiagnosticReport(report: DiagnosticReport): string {
+    const checks = report.checks.map((check) => {
+      const line = `- ${DIAGNOSTIC_STATUS_LABELS[check.status]} **${check.label}**: ${check.message}`;
+      return check.hint ? `${line}\n  - 対処: ${check.hint}` : line;
+    });
+
+    return `## 診断結果: ${DIAGNOSTIC_STATUS_LABELS[report.status]}
+
+**実行日時:** ${report.checkedAt}
+
+${checks.join('\n')}`;
+  }
+
+  /**
+   * 書き出しの結果をMarkdown形式で生成
+   */
+  static formatExportResult(result: ExportResult): string {
+    return `## 書き出し完了: ${result.format.toUpperCase()}
+
+**プロジェクトID:** \`${result.novelId}\`
+**出力先:** \`${result.path}\`（${Math.ceil(result.bytes / 1024)} KB）
+**本文ファイル:** ${result.sourceFiles}件
+
+### 目次（${result.chapters.length}章）
+
+${result.chapters.map((title, index) => `${index + 1}. ${title}`).join('\n')}`;
+  }
+
+  /**
+   * Web 小説サイト向け書き出しの結果をMarkdown形式で生成
+   */
+  static formatWebNovelExportResult(result: WebNovelExportResult): string {
+    const labels: Record<WebNovelConversion, string> = {
+      heading: '見出し記号の削除',
+      emphasis: '傍点をルビに変換',
+      rubyFallback: '長いルビを括弧書きに変換',
+      parenthesisEscape: '括弧のルビ化を防止',
+      indent: '段落の字下げ',
+      blankLines: '空行の削除',
+    };
+    const overLimit = result.episodes.filter((episode) => episode.overLimit);
+    const warning =
+      overLimit.length > 0
+        ? `\n\n⚠️ ${overLimit.length}話が上限（${result.maxLength.toLocaleString()}文字）を超えています。章を分けてください`
+        : '';
+    const episodes = result.episodes.map((episode, index) => {
+      const conversions = Object.entries(episode.conversions)
+        .map(([type, count]) => `${labels[type as WebNovelConversion]} ${count}件`)
+        .join('、');
+      return `${index + 1}. **${episode.title}** \`${episode.path}\`（${episode.length.toLocaleString()}文字${episode.overLimit ? ' ⚠️ 上限超過' : ''}）
+   - 元ファイル: \`${episode.sourceFile}\`
+   - 変換: ${conversions || 'なし'}`;
+    });
+
+    return `## 書き出し完了: ${result.profileName}
+
+**プロジェクトID:** \`${result.novelId}\`
+**1話の上限:** ${result.maxLength.toLocaleString()}文字${warning}
+
+### 話（${result.episodes.length}話）
+
+${episodes.join('\n')}`;
+  }
+
+  /**
+   * 取り込みの結果をMarkdown形式で生成
+   */
+  static formatImportResult(result: ImportResult): string {
+    const work = [result.title ? `「${result.title}」` : '', result.author ?? '']
+      .filter(Boolean)
+      .join(' ');
+    const gaiji =
+      result.unresolvedGaiji.length > 0
+        ? `\n\n### 文字にできなかった外字（${result.unresolvedGaiji.length}件）\n\n本文では \`〓\` に置き換えています。該当する文字に書き換えてください。\n\n${result.unresolvedGaiji.map((description) => `- ${description}`).join('\n')}`
+        : '';
+    return `## 取り込み完了${work ? `: ${work}` : ''}
+
+**プロジェクトID:** \`${result.novelId}\`
+**取り込み元:** \`${result.source}\`（${result.encoding === 'shift_jis' ? 'Shift_JIS' : 'UTF-8'}）
+**取り込み先:** \`${result.directory}\`
+
+### 作成した本文ファイル（${result.files.length}件）
+
+${result.files
+  .map((file) => `- \`${file.filename}\`${file.title ? `: ${stripRuby(file.title)}` : ''}`)
+  .join('\n')}${gaiji}`;
+  }
+
   /**
    * 検索タイプを判定
    */
@@ -36,6 +36,7 @@ describe('QdrantInitializationService', () => {
       chunk: {
         maxTokens: 400,
         overlap: 0.2,
+        splitStrategy: 'japanese',
       },
       embedding: {
         enabled: true,
@@ -43,6 +44,12 @@ describe('QdrantInitializationService', () => {
         dimensions: 384,
         batchSize: 32,
       },
+      embeddingCache: {
+        enabled: false,
+        directory: '.dialogoi/embedding-cache',
+        maxEntries: 20000,
+        maxAgeDays: 30,
+      },
       qdrant: {
         url: undefined, // デフォルトではURL未設定
         collection: 'test-collection',
@@ -62,15 +69,31 @@ describe('QdrantInitializationService', () => {
         },
       },
       vector: {
+        backend: 'qdrant',
         collectionName: 'test-collection',
         scoreThreshold: 0.7,
         vectorDimensions: 384,
         snippetLength: 120,
       },
+      localVector: {
+        directory: '.dialogoi/vectors',
+        fallback: false,
+      },
       search: {
         defaultK: 10,
         maxK: 50,
       },
+      history: {
+        enabled: true,
+        maxVersionsPerFile: 50,
+        maxAgeDays: 90,
+      },
+      templates: {
+        directory: '.dialogoi/templates',
+      },
+      imports: {
+        directory: '.dialogoi/imports',
+      },
     };
 
     service = new QdrantInitializationService(mockConfig);
@@ -85,6 +108,18 @@ describe('QdrantInitializationService', () => {
   });
 
   describe('initialize', () => {
+    it('ローカルベクトルストアが選択されている場合、Qdrantに接続せずlocalモードになる', async () => {
+      mockConfig.vector.backend = 'local';
+      mockConfig.qdrant.url = 'http://localhost:6333';
+      service = new QdrantInitializationService(mockConfig);
+
+      const result = await service.initialize();
+
+      expect(result.success).toBe(true);
+      expect(result.mode).toBe('local');
+      expect(MockQdrantVectorRepository).not.toHaveBeenCalled();
+    });
+
     it('明示的な接続が成功した場合、explicitモードで成功する', async () => {
       // 明示的なURL設定を追加
       mockConfig.qdrant.url = 'http://localhost:6333';
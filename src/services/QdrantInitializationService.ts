@@ -12,7 +12,7 @@ const logger = getLogger();
 export interface QdrantInitializationResult {
   success: boolean;
   repository?: QdrantVectorRepository;
-  mode: 'explicit' | 'docker' | 'fallback';
+  mode: 'explicit' | 'docker' | 'fallback' | 'local';
   error?: Error;
   containerId?: string;
 }
@@ -34,6 +34,15 @@ export class QdrantInitializationService {
    * 段階的初期化の実行
    */
   async initialize(): Promise<QdrantInitializationResult> {
+    // ローカルベクトルストアが選択されている場合は Qdrant に接続しない
+    if (this.config.vector.backend === 'local') {
+      logger.info('ローカルベクトルストアが選択されているため、Qdrant 初期化をスキップします');
+      return {
+        success: true,
+        mode: 'local',
+      };
+    }
+
     logger.info('Qdrant 初期化を開始します');
 
     // Phase 1: 明示的な接続先が設定されている場合のみ試行
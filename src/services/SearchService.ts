@@ -1,4 +1,5 @@
 import { SearchResult } from '../backends/SearchBackend.js';
+import { IndexBuildStatus, IndexProgress, NovelIndexStatus } from '../domain/indexStatus.js';
 
 /**
  * 検索オプション
@@ -10,6 +11,8 @@ export interface SearchOptions {
   useRegex?: boolean;
   /** ファイルタイプフィルタ ("content" | "settings" | "both") */
   fileType?: string;
+  /** インデックス構築を待つ間の進捗（searchRag / searchHybrid のみ） */
+  onProgress?: (progress: IndexProgress) => void;
 }
 
 /**
@@ -32,6 +35,14 @@ export interface SearchService {
    */
   searchRag(projectId: string, query: string, options?: SearchOptions): Promise<SearchResult[]>;
 
+  /**
+   * ハイブリッド検索（BM25 + RAG検索を RRF で統合）を実行
+   * @param projectId プロジェクトID
+   * @param query 検索クエリ
+   * @param options 検索オプション
+   */
+  searchHybrid(projectId: string, query: string, options?: SearchOptions): Promise<SearchResult[]>;
+
   /**
    * 設定ファイル内でキーワード検索
    * @param projectId プロジェクトID
@@ -56,6 +67,25 @@ export interface SearchService {
     options?: SearchOptions,
   ): Promise<KeywordSearchResult[]>;
 
+  /**
+   * インデックスの状態を取得
+   * @param projectId プロジェクトID
+   */
+  getIndexStatus(projectId: string): Promise<NovelIndexStatus>;
+
+  /**
+   * インデックスの再構築をバックグラウンドで開始
+   * @param projectId プロジェクトID
+   * @returns 開始した（または実行中の）構築の状態
+   */
+  rebuildIndex(projectId: string): Promise<IndexBuildStatus>;
+
+  /**
+   * インデックスを削除（次回の検索時に構築し直される）
+   * @param projectId プロジェクトID
+   */
+  clearIndex(projectId: string): Promise<void>;
+
   /**
    * ファイル監視を開始
    */
@@ -6,6 +6,10 @@ import { IndexerSearchService } from './IndexerSearchService.js';
 import { IndexerFileOperationsService } from './IndexerFileOperationsService.js';
 import { IndexerManager } from '../lib/indexerManager.js';
 import { loadConfig } from '../lib/config.js';
+import { NovelRepository } from '../repositories/NovelRepository.js';
+import { SearchService } from './SearchService.js';
+import { CharacterService } from './CharacterService.js';
+import { NovelIndexStatus } from '../domain/indexStatus.js';
 
 // VectorBackend と関連サービスをモック
 vi.mock('../backends/VectorBackend.js');
@@ -154,6 +158,107 @@ describe('NovelService (read-only operations)', () => {
       // 結果は設定ファイルと本文ファイルの両方から来ることが期待される
     });
   });
+
+  it('listCharacters should extract characters from sample novel settings', async () => {
+    const characters = await service.listCharacters(SAMPLE_NOVEL_ID);
+    expect(characters.map((c) => c.name)).toEqual(['山田太郎', 'リリア']);
+
+    const match = await service.getCharacter(SAMPLE_NOVEL_ID, '太郎');
+    expect(match.character.name).toBe('山田太郎');
+    expect(match.character.attributes['年齢']).toBe('16歳');
+  });
+
+  it('getCharacterAppearances should count mentions in sample novel chapters', async () => {
+    const appearances = await service.getCharacterAppearances(SAMPLE_NOVEL_ID, 'リリア');
+    expect(appearances.totalMentions).toBeGreaterThan(0);
+    expect(appearances.firstAppearance?.filename).toBe(path.join('contents', 'chapter_1.txt'));
+    expect(appearances.coOccurrences.map((c) => c.name)).toContain('山田太郎');
+  });
+});
+
+describe('NovelService.updateNovelConfig', () => {
+  const project = {
+    id: 'novel-1',
+    path: '/novels/novel-1',
+    config: { title: '小説', settingsDirectories: ['settings'], contentDirectories: ['chapters'] },
+  };
+
+  const createService = (initialized: boolean) => {
+    const repository = {
+      updateProjectConfig: vi.fn(async () => project),
+    } as Partial<NovelRepository> as NovelRepository;
+    const search = {
+      getIndexStatus: vi.fn(async () => ({ initialized }) as NovelIndexStatus),
+      rebuildIndex: vi.fn(),
+    } as Partial<SearchService> as SearchService;
+    return {
+      repository,
+      search,
+      service: new NovelService(repository, search, {} as IndexerFileOperationsService),
+    };
+  };
+
+  it('ディレクトリを変更した場合は構築済みのインデックスを再構築する', async () => {
+    const { repository, search, service } = createService(true);
+
+    const result = await service.updateNovelConfig('novel-1', { contentDirectories: ['chapters'] });
+
+    expect(result).toBe(project);
+    expect(repository.updateProjectConfig).toHaveBeenCalledWith('novel-1', {
+      contentDirectories: ['chapters'],
+    });
+    expect(search.rebuildIndex).toHaveBeenCalledWith('novel-1');
+  });
+
+  it('未構築のインデックスやディレクトリ以外の変更では再構築しない', async () => {
+    const notInitialized = createService(false);
+    await notInitialized.service.updateNovelConfig('novel-1', { settingsDirectories: ['docs'] });
+    expect(notInitialized.search.rebuildIndex).not.toHaveBeenCalled();
+
+    const titleOnly = createService(true);
+    await titleOnly.service.updateNovelConfig('novel-1', { title: '新しいタイトル' });
+    expect(titleOnly.search.getIndexStatus).not.toHaveBeenCalled();
+  });
+});
+
+describe('NovelService.getNovelContent', () => {
+  const createService = () => {
+    const repository = {
+      getContentFiles: vi.fn(async () => '彼は｜東京タワー《とうきょうタワー》に登った。'),
+    } as Partial<NovelRepository> as NovelRepository;
+    return new NovelService(repository, {} as SearchService, {} as IndexerFileOperationsService);
+  };
+
+  it('既定ではルビ記法をそのまま返す', async () => {
+    expect(await createService().getNovelContent('novel-1')).toBe(
+      '彼は｜東京タワー《とうきょうタワー》に登った。',
+    );
+  });
+
+  it('ruby: strip で親文字のみにする', async () => {
+    expect(await createService().getNovelContent('novel-1', undefined, { ruby: 'strip' })).toBe(
+      '彼は東京タワーに登った。',
+    );
+  });
+});
+
+describe('NovelService.refreshProject', () => {
+  it('novel.json を読み込み直し、登場人物レジストリのキャッシュを破棄する', async () => {
+    const repository = {
+      refreshProject: vi.fn(async () => null),
+    } as Partial<NovelRepository> as NovelRepository;
+    const characterService = { invalidate: vi.fn() } as Partial<CharacterService>;
+    const service = new NovelService(
+      repository,
+      {} as SearchService,
+      {} as IndexerFileOperationsService,
+      characterService as CharacterService,
+    );
+
+    expect(await service.refreshProject('novel-1')).toBeNull();
+    expect(repository.refreshProject).toHaveBeenCalledWith('novel-1');
+    expect(characterService.invalidate).toHaveBeenCalledWith('novel-1');
+  });
 });
 
 // getFileTypeLabel関数のテスト
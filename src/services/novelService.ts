@@ -1,6 +1,23 @@
 import { NovelRepository } from '../repositories/NovelRepository.js';
+import {
+  NovelConfigUpdate,
+  NovelProject,
+  NovelProjectInput,
+  ProjectConfigIssue,
+} from '../domain/novel.js';
+import { ProjectTemplate } from '../domain/projectTemplate.js';
 import { SearchService } from './SearchService.js';
 import { FileOperationsService } from './FileOperationsService.js';
+import { FileEditOperation, FileEditResult } from '../domain/fileEdit.js';
+import { FileMoveResult, FileDeleteResult } from '../domain/fileOperation.js';
+import { FileVersion, FileRestoreResult } from '../domain/fileHistory.js';
+import { Character, CharacterMatch, CharacterAppearances } from '../domain/character.js';
+import { CharacterService } from './CharacterService.js';
+import { ConsistencyReport } from '../domain/consistency.js';
+import { ConsistencyService } from './ConsistencyService.js';
+import { IndexBuildStatus, IndexProgress, NovelIndexStatus } from '../domain/indexStatus.js';
+import { createUnifiedDiff } from '../utils/diffUtils.js';
+import { stripRuby } from '../lib/ruby.js';
 import { getLogger } from '../logging/index.js';
 
 /**
@@ -10,16 +27,26 @@ export class NovelService {
   private readonly novelRepository: NovelRepository;
   private readonly searchService: SearchService;
   private readonly fileOperationsService: FileOperationsService;
+  private readonly characterService: CharacterService;
+  private readonly consistencyService: ConsistencyService;
   private readonly logger = getLogger();
 
   constructor(
     novelRepository: NovelRepository,
     searchService: SearchService,
     fileOperationsService: FileOperationsService,
+    characterService: CharacterService = new CharacterService(novelRepository),
+    consistencyService: ConsistencyService = new ConsistencyService(
+      novelRepository,
+      searchService,
+      characterService,
+    ),
   ) {
     this.novelRepository = novelRepository;
     this.searchService = searchService;
     this.fileOperationsService = fileOperationsService;
+    this.characterService = characterService;
+    this.consistencyService = consistencyService;
     this.logger.debug('NovelService初期化完了（リファクタリング版）');
   }
 
@@ -29,10 +56,61 @@ export class NovelService {
    * @param query 検索クエリ
    * @param k 取得する結果数
    * @param fileType ファイルタイプフィルタ ("content" | "settings" | "both")
+   * @param onProgress インデックス構築を待つ間の進捗
    * @returns 検索結果
    */
-  async searchRag(novelId: string, query: string, k: number, fileType?: string) {
-    return this.searchService.searchRag(novelId, query, { k, fileType });
+  async searchRag(
+    novelId: string,
+    query: string,
+    k: number,
+    fileType?: string,
+    onProgress?: (progress: IndexProgress) => void,
+  ) {
+    return this.searchService.searchRag(novelId, query, { k, fileType, onProgress });
+  }
+
+  /**
+   * ハイブリッド検索（キーワード + 意味的類似度）を実行
+   * @param novelId 小説ID
+   * @param query 検索クエリ
+   * @param k 取得する結果数
+   * @param fileType ファイルタイプフィルタ ("content" | "settings" | "both")
+   * @param onProgress インデックス構築を待つ間の進捗
+   * @returns 検索結果（RRF による統合スコア順）
+   */
+  async searchHybrid(
+    novelId: string,
+    query: string,
+    k: number,
+    fileType?: string,
+    onProgress?: (progress: IndexProgress) => void,
+  ) {
+    return this.searchService.searchHybrid(novelId, query, { k, fileType, onProgress });
+  }
+
+  /**
+   * インデックスの状態を取得
+   * @param novelId 小説ID
+   */
+  async getIndexStatus(novelId: string): Promise<NovelIndexStatus> {
+    return this.searchService.getIndexStatus(novelId);
+  }
+
+  /**
+   * インデックスの再構築をバックグラウンドで開始
+   * @param novelId 小説ID
+   * @returns 開始した（または実行中の）構築の状態
+   */
+  async rebuildIndex(novelId: string): Promise<IndexBuildStatus> {
+    return this.searchService.rebuildIndex(novelId);
+  }
+
+  /**
+   * インデックスを削除
+   * @param novelId 小説ID
+   */
+  async clearIndex(novelId: string): Promise<void> {
+    await this.searchService.clearIndex(novelId);
   }
 
   /**
@@ -101,6 +179,71 @@ export class NovelService {
     return this.novelRepository.listProjects();
   }
 
+  /**
+   * 小説プロジェクト（novel.json の内容）を取得
+   * @param novelId 小説ID
+   */
+  async getNovelProject(novelId: string): Promise<NovelProject> {
+    return this.novelRepository.getProject(novelId);
+  }
+
+  async listInvalidProjects(): Promise<ProjectConfigIssue[]> {
+    return this.novelRepository.listProjectConfigIssues();
+  }
+
+  /**
+   * 小説プロジェクトの novel.json を読み込み直す（novel.json の追加・変更・削除を検知した場合）
+   * 設定ディレクトリが変わることがあるため、登場人物レジストリのキャッシュも破棄する
+   * @param novelId 小説ID
+   * @returns 読み込み直したプロジェクト（削除された・不正な場合は null）
+   */
+  async refreshProject(novelId: string): Promise<NovelProject | null> {
+    const project = await this.novelRepository.refreshProject(novelId);
+    this.characterService.invalidate(novelId);
+    return project;
+  }
+
+  /**
+   * 小説プロジェクトを作成
+   * @param projectId プロジェクトID（ディレクトリ名）
+   * @param input プロジェクトの設定
+   */
+  async createNovelProject(projectId: string, input: NovelProjectInput): Promise<NovelProject> {
+    return this.novelRepository.createProject(projectId, input);
+  }
+
+  /**
+   * プロジェクト作成に使えるテンプレート一覧を取得
+   */
+  async listProjectTemplates(): Promise<ProjectTemplate[]> {
+    return this.novelRepository.listProjectTemplates();
+  }
+
+  /**
+   * novel.json を更新
+   * 設定・本文ディレクトリを変更した場合、構築済みのインデックスは再構築する
+   * @param novelId 小説ID
+   * @param changes 更新するキー
+   */
+  async updateNovelConfig(novelId: string, changes: NovelConfigUpdate): Promise<NovelProject> {
+    const project = await this.novelRepository.updateProjectConfig(novelId, changes);
+
+    if (changes.settingsDirectories || changes.contentDirectories) {
+      try {
+        if ((await this.searchService.getIndexStatus(novelId)).initialized) {
+          await this.searchService.rebuildIndex(novelId);
+        }
+      } catch (error) {
+        this.logger.warn(
+          `⚠️  ディレクトリ変更後のインデックス再構築を開始できませんでした: ${novelId}`,
+          { error: error instanceof Error ? error.message : String(error) },
+        );
+      }
+    }
+
+    return project;
+  }
+
   async listNovelSettings(novelId: string): Promise<Array<{ filename: string; preview: string }>> {
     return this.novelRepository.listSettingsFiles(novelId);
   }
@@ -142,8 +285,17 @@ export class NovelService {
     return results;
   }
 
-  async getNovelContent(novelId: string, filename?: string): Promise<string> {
-    return this.novelRepository.getContentFiles(novelId, filename);
+  /**
+   * 本文を取得
+   * @param options.ruby ルビ記法をそのまま返すか（preserve、既定）、親文字のみにするか（strip）
+   */
+  async getNovelContent(
+    novelId: string,
+    filename?: string,
+    options: { ruby?: 'preserve' | 'strip' } = {},
+  ): Promise<string> {
+    const content = await this.novelRepository.getContentFiles(novelId, filename);
+    return options.ruby === 'strip' ? stripRuby(content) : content;
   }
 
   // 本文ファイル一覧を取得
@@ -181,6 +333,7 @@ export class NovelService {
     await this.fileOperationsService.createSettingsFile(novelId, directory, filename, content, {
       overwrite,
     });
+    this.characterService.invalidate(novelId);
   }
 
   // 本文ファイルを追加
@@ -195,4 +348,162 @@ export class NovelService {
       overwrite,
     });
   }
+
+  /**
+   * 既存の設定・本文ファイルを部分編集
+   * @param novelId 小説ID
+   * @param filename プロジェクトルートからの相対パス（例: "contents/chapter_1.txt"）
+   * @param operation 編集操作
+   */
+  async editNovelFile(
+    novelId: string,
+    filename: string,
+    operation: FileEditOperation,
+  ): Promise<FileEditResult> {
+    const result = await this.fileOperationsService.editFile(novelId, filename, operation);
+    this.characterService.invalidate(novelId);
+    return result;
+  }
+
+  /**
+   * 設定・本文ファイルをリネーム
+   * @param novelId 小説ID
+   * @param filename プロジェクトルートからの相対パス
+   * @param newName 新しいファイル名
+   */
+  async renameNovelFile(
+    novelId: string,
+    filename: string,
+    newName: string,
+  ): Promise<FileMoveResult> {
+    const result = await this.fileOperationsService.renameFile(novelId, filename, newName);
+    this.characterService.invalidate(novelId);
+    return result;
+  }
+
+  /**
+   * 設定・本文ファイルを別ディレクトリへ移動
+   * @param novelId 小説ID
+   * @param filename プロジェクトルートからの相対パス
+   * @param targetDirectory 移動先ディレクトリ
+   */
+  async moveNovelFile(
+    novelId: string,
+    filename: string,
+    targetDirectory: string,
+  ): Promise<FileMoveResult> {
+    const result = await this.fileOperationsService.moveFile(novelId, filename, targetDirectory);
+    this.characterService.invalidate(novelId);
+    return result;
+  }
+
+  /**
+   * 設定・本文ファイルを削除
+   * @param novelId 小説ID
+   * @param filename プロジェクトルートからの相対パス
+   * @param useTrash ゴミ箱へ移動するか（false の場合は完全削除）
+   */
+  async deleteNovelFile(
+    novelId: string,
+    filename: string,
+    useTrash: boolean = true,
+  ): Promise<FileDeleteResult> {
+    const result = await this.fileOperationsService.deleteFile(novelId, filename, { useTrash });
+    this.characterService.invalidate(novelId);
+    return result;
+  }
+
+  // ===== ファイル履歴 =====
+
+  /**
+   * ファイルの保存済みバージョン一覧を取得（古い順）
+   */
+  async listFileHistory(novelId: string, filename: string): Promise<FileVersion[]> {
+    return this.novelRepository.listFileHistory(novelId, filename);
+  }
+
+  /**
+   * 2つのバージョン間の差分を unified diff 形式で取得
+   * @param fromVersion 比較元のバージョン番号
+   * @param toVersion 比較先のバージョン番号（省略時は現在のファイル内容）
+   * @returns 差分テキスト（差分がない場合は空文字）
+   */
+  async diffFileVersions(
+    novelId: string,
+    filename: string,
+    fromVersion: number,
+    toVersion?: number,
+  ): Promise<string> {
+    const [fromContent, toContent] = await Promise.all([
+      this.novelRepository.getFileVersionContent(novelId, filename, fromVersion),
+      this.novelRepository.getFileVersionContent(novelId, filename, toVersion),
+    ]);
+    const toLabel = toVersion === undefined ? 'current' : `v${toVersion}`;
+    return createUnifiedDiff(
+      fromContent,
+      toContent,
+      `${filename} (v${fromVersion})`,
+      `${filename} (${toLabel})`,
+    );
+  }
+
+  /**
+   * ファイルを指定バージョンの内容に戻す
+   */
+  async restoreFileVersion(
+    novelId: string,
+    filename: string,
+    version: number,
+  ): Promise<FileRestoreResult> {
+    const result = await this.fileOperationsService.restoreFileVersion(novelId, filename, version);
+    this.characterService.invalidate(novelId);
+    return result;
+  }
+
+  // ===== 登場人物 =====
+
+  /**
+   * 設定ファイルから抽出した登場人物一覧を取得
+   */
+  async listCharacters(novelId: string): Promise<Character[]> {
+    return this.characterService.listCharacters(novelId);
+  }
+
+  /**
+   * 名前・別名・愛称から登場人物を取得
+   * @throws CharacterNotFoundError 該当する登場人物がいない場合
+   */
+  async getCharacter(novelId: string, nameOrAlias: string): Promise<CharacterMatch> {
+    return this.characterService.getCharacter(novelId, nameOrAlias);
+  }
+
+  /**
+   * 本文全体での登場人物の登場状況を取得
+   * @throws CharacterNotFoundError 該当する登場人物がいない場合
+   */
+  async getCharacterAppearances(
+    novelId: string,
+    nameOrAlias: string,
+  ): Promise<CharacterAppearances> {
+    return this.characterService.getAppearances(novelId, nameOrAlias);
+  }
+
+  // ===== 整合性チェック =====
+
+  /**
+   * 本文の記述と設定ファイルの食い違いをチェック
+   * @param novelId 小説ID
+   * @param filename 本文ファイル（プロジェクトルートからの相対パス）
+   * @param startLine 開始行（1 始まり）
+   * @param endLine 終了行（1 始まり）
+   * @throws ConsistencyCheckError 行範囲が不正な場合
+   */
+  async checkConsistency(
+    novelId: string,
+    filename: string,
+    startLine?: number,
+    endLine?: number,
+  ): Promise<ConsistencyReport> {
+    return this.consistencyService.checkConsistency(novelId, filename, startLine, endLine);
+  }
 }
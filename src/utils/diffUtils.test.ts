@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, createUnifiedDiff } from './diffUtils.js';
+
+describe('diffLines', () => {
+  it('追加・削除された行を検出する', () => {
+    const result = diffLines(['a', 'b', 'c'], ['a', 'x', 'c', 'd']);
+
+    expect(result).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'delete', text: 'b' },
+      { type: 'insert', text: 'x' },
+      { type: 'equal', text: 'c' },
+      { type: 'insert', text: 'd' },
+    ]);
+  });
+
+  it('同じ内容の場合はすべて equal になる', () => {
+    const result = diffLines(['一', '二'], ['一', '二']);
+
+    expect(result.every((line) => line.type === 'equal')).toBe(true);
+  });
+
+  it('差分を適用すると変更後の行が再現される', () => {
+    const oldLines = ['a', 'b', 'c', 'a', 'b', 'b', 'a'];
+    const newLines = ['c', 'b', 'a', 'b', 'a', 'c'];
+    const result = diffLines(oldLines, newLines);
+
+    expect(result.filter((l) => l.type !== 'insert').map((l) => l.text)).toEqual(oldLines);
+    expect(result.filter((l) => l.type !== 'delete').map((l) => l.text)).toEqual(newLines);
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('unified diff 形式で出力する', () => {
+    const diff = createUnifiedDiff('1\n2\n3\n', '1\n二\n3\n', 'a.txt (v1)', 'a.txt (v2)', 1);
+
+    expect(diff).toBe(
+      ['--- a.txt (v1)', '+++ a.txt (v2)', '@@ -1,3 +1,3 @@', ' 1', '-2', '+二', ' 3'].join('\n'),
+    );
+  });
+
+  it('離れた変更は別のハンクになる', () => {
+    const oldText = Array.from({ length: 20 }, (_, i) => `${i + 1}`).join('\n');
+    const newText = oldText.replace(/^2$/m, 'two').replace(/^19$/m, 'nineteen');
+    const diff = createUnifiedDiff(oldText, newText, 'old', 'new');
+
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+    expect(diff).toContain('@@ -16,5 +16,5 @@');
+  });
+
+  it('差分がない場合は空文字を返す', () => {
+    expect(createUnifiedDiff('同じ', '同じ', 'old', 'new')).toBe('');
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * 行単位の差分
+ */
+export interface DiffLine {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Myers 法で探索する編集距離の上限
+ * これを超える場合は全削除・全追加の差分として扱う（メモリ使用量の抑制）
+ */
+const MAX_EDIT_DISTANCE = 4000;
+
+/**
+ * Myers の O(ND) アルゴリズムで行単位の差分を計算
+ * @param oldLines 変更前の行
+ * @param newLines 変更後の行
+ * @returns 差分の行（先頭から順）
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  // 共通の先頭・末尾を除外して探索範囲を縮める
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  const result: DiffLine[] = oldLines
+    .slice(0, prefix)
+    .map((text) => ({ type: 'equal' as const, text }));
+  result.push(...diffMiddle(a, b));
+  result.push(
+    ...oldLines.slice(oldLines.length - suffix).map((text) => ({ type: 'equal' as const, text })),
+  );
+  return result;
+}
+
+/**
+ * 共通部分を除いた範囲の差分を計算
+ */
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const replaceAll = (): DiffLine[] => [
+    ...a.map((text) => ({ type: 'delete' as const, text })),
+    ...b.map((text) => ({ type: 'insert' as const, text })),
+  ];
+
+  if (n === 0 || m === 0) {
+    return replaceAll();
+  }
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] は d ステップ目開始時点の v のうち k ∈ [-d, d] の範囲
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return replaceAll();
+  }
+
+  // 経路を逆にたどって差分を復元
+  const reversed: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const get = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : get(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: 'equal', text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        reversed.push({ type: 'insert', text: b[y - 1] });
+      } else {
+        reversed.push({ type: 'delete', text: a[x - 1] });
+      }
+      x = prevX;
+      y = prevY;
+    }
+  }
+
+  return reversed.reverse();
+}
+
+/**
+ * unified diff 形式の差分テキストを生成
+ * @param oldText 変更前のテキスト
+ * @param newText 変更後のテキスト
+ * @param oldLabel 変更前のラベル（--- 行）
+ * @param newLabel 変更後のラベル（+++ 行）
+ * @param context 変更箇所の前後に表示する行数
+ * @returns 差分テキスト（差分がない場合は空文字）
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context: number = 3,
+): string {
+  const lines = diffLines(oldText.split(/\r?\n/), newText.split(/\r?\n/));
+  const changeIndexes = lines
+    .map((line, index) => (line.type === 'equal' ? -1 : index))
+    .filter((index) => index !== -1);
+
+  if (changeIndexes.length === 0) {
+    return '';
+  }
+
+  // 変更箇所を前後の文脈行とともにハンクにまとめる
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const index of changeIndexes) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+
+  // 各行の直前までに消費した旧・新の行数
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const line of lines) {
+    oldBefore.push(oldCount);
+    newBefore.push(newCount);
+    if (line.type !== 'insert') oldCount++;
+    if (line.type !== 'delete') newCount++;
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const { start, end } of ranges) {
+    const hunk = lines.slice(start, end + 1);
+    const hunkOldCount = hunk.filter((line) => line.type !== 'insert').length;
+    const hunkNewCount = hunk.filter((line) => line.type !== 'delete').length;
+    const oldStart = hunkOldCount === 0 ? oldBefore[start] : oldBefore[start] + 1;
+    const newStart = hunkNewCount === 0 ? newBefore[start] : newBefore[start] + 1;
+
+    output.push(`@@ -${oldStart},${hunkOldCount} +${newStart},${hunkNewCount} @@`);
+    for (const line of hunk) {
+      const marker = line.type === 'equal' ? ' ' : line.type === 'insert' ? '+' : '-';
+      output.push(`${marker}${line.text}`);
+    }
+  }
+
+  return output.join('\n');
+}
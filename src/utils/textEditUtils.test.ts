@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { applyFileEdit } from './textEditUtils.js';
+import { FileEditError } from '../errors/index.js';
+
+const FILENAME = 'contents/chapter_1.txt';
+
+describe('applyFileEdit', () => {
+  describe('replace', () => {
+    it('一致件数が期待値と一致すれば置換される', () => {
+      const result = applyFileEdit(
+        '彼は走った。\n彼女は笑った。\n',
+        { type: 'replace', search: '走った', replace: '歩いた' },
+        FILENAME,
+      );
+
+      expect(result.content).toBe('彼は歩いた。\n彼女は笑った。\n');
+      expect(result.replacements).toBe(1);
+      expect(result.lineCountBefore).toBe(2);
+      expect(result.lineCountAfter).toBe(2);
+    });
+
+    it('expectedMatchesで複数箇所を置換できる', () => {
+      const result = applyFileEdit(
+        'アリスとアリス',
+        { type: 'replace', search: 'アリス', replace: 'ボブ', expectedMatches: 2 },
+        FILENAME,
+      );
+
+      expect(result.content).toBe('ボブとボブ');
+      expect(result.replacements).toBe(2);
+    });
+
+    it('一致件数が期待値と異なる場合はエラーになる', () => {
+      expect(() =>
+        applyFileEdit(
+          'アリスとアリス',
+          { type: 'replace', search: 'アリス', replace: 'ボブ' },
+          FILENAME,
+        ),
+      ).toThrow(FileEditError);
+    });
+
+    it('一致しない場合はエラーになる', () => {
+      expect(() =>
+        applyFileEdit('本文', { type: 'replace', search: '存在しない', replace: 'x' }, FILENAME),
+      ).toThrow('期待: 1件, 実際: 0件');
+    });
+  });
+
+  describe('replace_lines', () => {
+    it('行範囲を置換できる', () => {
+      const result = applyFileEdit(
+        '1\n2\n3\n4\n',
+        { type: 'replace_lines', startLine: 2, endLine: 3, content: 'two\nthree\nthree-b' },
+        FILENAME,
+      );
+
+      expect(result.content).toBe('1\ntwo\nthree\nthree-b\n4\n');
+      expect(result.lineCountAfter).toBe(5);
+    });
+
+    it('空文字で行を削除できる', () => {
+      const result = applyFileEdit(
+        '1\n2\n3',
+        { type: 'replace_lines', startLine: 2, endLine: 2, content: '' },
+        FILENAME,
+      );
+
+      expect(result.content).toBe('1\n3');
+    });
+
+    it('範囲外の行番号はエラーになる', () => {
+      expect(() =>
+        applyFileEdit(
+          '1\n2\n',
+          { type: 'replace_lines', startLine: 2, endLine: 3, content: 'x' },
+          FILENAME,
+        ),
+      ).toThrow('endLine は 2 から 2 の範囲');
+    });
+  });
+
+  describe('insert_after', () => {
+    it('指定行の後に挿入できる', () => {
+      const result = applyFileEdit(
+        '1\n2\n',
+        { type: 'insert_after', afterLine: 1, content: '1.5\n' },
+        FILENAME,
+      );
+
+      expect(result.content).toBe('1\n1.5\n2\n');
+    });
+
+    it('afterLine=0でファイル先頭に挿入できる', () => {
+      const result = applyFileEdit(
+        '1\n',
+        { type: 'insert_after', afterLine: 0, content: '0' },
+        FILENAME,
+      );
+
+      expect(result.content).toBe('0\n1\n');
+    });
+  });
+
+  describe('append', () => {
+    it('末尾に追記し、末尾改行の有無を維持する', () => {
+      expect(applyFileEdit('1\n', { type: 'append', content: '2' }, FILENAME).content).toBe(
+        '1\n2\n',
+      );
+      expect(applyFileEdit('1', { type: 'append', content: '2' }, FILENAME).content).toBe('1\n2');
+    });
+
+    it('空ファイルに追記できる', () => {
+      expect(applyFileEdit('', { type: 'append', content: '最初の行' }, FILENAME).content).toBe(
+        '最初の行',
+      );
+    });
+  });
+
+  it('CRLFの改行コードを維持する', () => {
+    const result = applyFileEdit(
+      '1\r\n2\r\n',
+      { type: 'insert_after', afterLine: 1, content: 'x' },
+      FILENAME,
+    );
+
+    expect(result.content).toBe('1\r\nx\r\n2\r\n');
+  });
+});
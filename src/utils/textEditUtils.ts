@@ -0,0 +1,146 @@
+import { FileEditOperation } from '../domain/fileEdit.js';
+import { FileEditError } from '../errors/index.js';
+
+/**
+ * テキスト編集の結果
+ */
+export interface TextEditResult {
+  content: string;
+  replacements?: number;
+  lineCountBefore: number;
+  lineCountAfter: number;
+}
+
+/**
+ * テキストを行に分割（改行コードと末尾改行の有無を保持）
+ */
+function splitLines(content: string): { lines: string[]; eol: string; trailingNewline: boolean } {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const trailingNewline = content.endsWith('\n');
+  const body = trailingNewline ? content.replace(/\r?\n$/, '') : content;
+  const lines = body === '' && !trailingNewline ? [] : body.split(/\r?\n/);
+  return { lines, eol, trailingNewline };
+}
+
+/**
+ * 挿入するテキストを行に分割（末尾の改行1つは無視）
+ */
+function toInsertLines(content: string): string[] {
+  if (content === '') {
+    return [];
+  }
+  return content.replace(/\r?\n$/, '').split(/\r?\n/);
+}
+
+/**
+ * 文字列の出現回数を数える（重ならない一致のみ）
+ */
+function countOccurrences(content: string, search: string): number {
+  let count = 0;
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    count++;
+    index = content.indexOf(search, index + search.length);
+  }
+  return count;
+}
+
+/**
+ * 行番号を検証
+ */
+function assertLineNumber(
+  filename: string,
+  name: string,
+  value: number,
+  min: number,
+  max: number,
+): void {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new FileEditError(filename, `${name} は ${min} から ${max} の範囲で指定してください`, {
+      [name]: value,
+    });
+  }
+}
+
+/**
+ * テキストに編集操作を適用
+ * @param content 元のテキスト
+ * @param operation 編集操作
+ * @param filename エラーメッセージ用のファイル名
+ * @returns 編集後のテキストと変更情報
+ * @throws FileEditError 一致件数や行番号が不正な場合
+ */
+export function applyFileEdit(
+  content: string,
+  operation: FileEditOperation,
+  filename: string,
+): TextEditResult {
+  const { lines, eol, trailingNewline } = splitLines(content);
+  const lineCountBefore = lines.length;
+
+  if (operation.type === 'replace') {
+    if (operation.search === '') {
+      throw new FileEditError(filename, '検索文字列が空です');
+    }
+    const expectedMatches = operation.expectedMatches ?? 1;
+    const matches = countOccurrences(content, operation.search);
+    if (matches !== expectedMatches) {
+      throw new FileEditError(
+        filename,
+        `検索文字列の一致件数が期待値と異なります（期待: ${expectedMatches}件, 実際: ${matches}件）`,
+        { search: operation.search, expectedMatches, actualMatches: matches },
+      );
+    }
+    if (matches === 0) {
+      throw new FileEditError(filename, '検索文字列が見つかりません', {
+        search: operation.search,
+      });
+    }
+
+    const newContent = content.split(operation.search).join(operation.replace);
+    return {
+      content: newContent,
+      replacements: matches,
+      lineCountBefore,
+      lineCountAfter: splitLines(newContent).lines.length,
+    };
+  }
+
+  let newLines: string[];
+  switch (operation.type) {
+    case 'replace_lines':
+      assertLineNumber(filename, 'startLine', operation.startLine, 1, lineCountBefore);
+      assertLineNumber(
+        filename,
+        'endLine',
+        operation.endLine,
+        operation.startLine,
+        lineCountBefore,
+      );
+      newLines = [
+        ...lines.slice(0, operation.startLine - 1),
+        ...toInsertLines(operation.content),
+        ...lines.slice(operation.endLine),
+      ];
+      break;
+    case 'insert_after':
+      assertLineNumber(filename, 'afterLine', operation.afterLine, 0, lineCountBefore);
+      newLines = [
+        ...lines.slice(0, operation.afterLine),
+        ...toInsertLines(operation.content),
+        ...lines.slice(operation.afterLine),
+      ];
+      break;
+    case 'append':
+      newLines = [...lines, ...toInsertLines(operation.content)];
+      break;
+  }
+
+  // 元ファイルの末尾改行の有無を維持
+  const joined = newLines.join(eol);
+  return {
+    content: trailingNewline && newLines.length > 0 ? joined + eol : joined,
+    lineCountBefore,
+    lineCountAfter: newLines.length,
+  };
+}
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+
+import { encodeVector, decodeVector } from './vectorEncoding.js';
+
+describe('vectorEncoding', () => {
+  it('base64 に変換したベクトルを元に戻せる', () => {
+    const vector = new Float32Array([0.25, -1.5, 3.125]);
+
+    expect(Array.from(decodeVector(encodeVector(vector)))).toEqual([0.25, -1.5, 3.125]);
+  });
+
+  it('より大きなバッファの一部のベクトルも、その範囲だけを変換する', () => {
+    const buffer = new Float32Array([9, 1, 2, 9]);
+    const vector = buffer.subarray(1, 3);
+
+    expect(Array.from(decodeVector(encodeVector(vector)))).toEqual([1, 2]);
+  });
+});
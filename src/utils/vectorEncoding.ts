@@ -0,0 +1,21 @@
+/**
+ * Float32Array を base64 文字列に変換
+ * @param vector 変換するベクトル
+ * @returns base64 文字列
+ */
+export function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+/**
+ * base64 文字列を Float32Array に変換
+ * @param encoded encodeVector で変換した文字列
+ * @returns 復元したベクトル
+ */
+export function decodeVector(encoded: string): Float32Array {
+  const buffer = Buffer.from(encoded, 'base64');
+  // Buffer のオフセットが4バイト境界とは限らないためコピーする
+  const copy = new Uint8Array(buffer.byteLength);
+  copy.set(buffer);
+  return new Float32Array(copy.buffer);
+}